@@ -1,7 +1,10 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { Toaster, toast } from 'sonner'
 import { useAuth } from '@/hooks/use-auth'
 import { useKeyboard } from '@/hooks/use-keyboard'
+import { useRoute } from '@/hooks/use-route'
+import { useRealtimeTable } from '@/hooks/use-realtime'
+import { RoleContext, canViewPage } from '@/hooks/use-permissions'
 import { DashboardLayout } from '@/components/layout/dashboard-layout'
 import { GlobalSearch } from '@/components/shared/global-search'
 import { LoginPage } from '@/pages/login'
@@ -18,22 +21,48 @@ import { AnalyticsPage } from '@/pages/analytics'
 import { ActivityPage } from '@/pages/activity'
 import { SystemPage } from '@/pages/system'
 import { BulkImportPage } from '@/pages/bulk-import'
+import { DataQualityPage } from '@/pages/data-quality'
 import { TestersPage } from '@/pages/testers'
 import { SendUpdatePage } from '@/pages/send-update'
 import { BetaFeedbackPage } from '@/pages/beta-feedback'
+import { TeamPage } from '@/pages/team'
 import { supabase } from '@/lib/supabase'
 import type { PageId } from '@/lib/constants'
 import { Loader2 } from 'lucide-react'
 
+const BADGE_POLL_MS = 60_000
+
 export default function App() {
-  const { user, loading, error, isAdmin, signIn, signOut, unlocking } = useAuth()
-  const [currentPage, setCurrentPage] = useState<PageId>('overview')
+  const {
+    user,
+    role,
+    loading,
+    error,
+    isAdmin,
+    signIn,
+    signOut,
+    unlocking,
+    mfaStep,
+    enrollment,
+    recoveryCodes,
+    startEnrollment,
+    verifyCode,
+    redeemRecoveryCode,
+    regenerateRecoveryCodes,
+    finishEnrollment,
+  } = useAuth()
+  const { page: currentPage, entityId, navigate } = useRoute()
   const [searchOpen, setSearchOpen] = useState(false)
   const [badges, setBadges] = useState<Record<string, number>>({})
 
-  const handleNavigate = useCallback((page: PageId) => {
-    setCurrentPage(page)
-  }, [])
+  const handleNavigate = useCallback((page: PageId, id?: string | null) => {
+    navigate(page, id)
+  }, [navigate])
+
+  // Detail panels push their selection into the URL so it can be shared and reloaded
+  const handleEntityChange = useCallback((id: string | null) => {
+    navigate(currentPage, id)
+  }, [navigate, currentPage])
 
   const handleSearchOpen = useCallback(() => {
     setSearchOpen(true)
@@ -41,31 +70,57 @@ export default function App() {
 
   useKeyboard({ onNavigate: handleNavigate, onSearch: handleSearchOpen })
 
-  // Load badge counts
+  // Bounce links and shortcuts to pages this role can't open back to Overview
   useEffect(() => {
-    if (!user || !isAdmin) return
-
-    async function loadBadges() {
-      try {
-        const [submissions, photos, tickets] = await Promise.all([
-          supabase.from('resort_submissions').select('*', { count: 'exact', head: true }).eq('status', 'pending'),
-          supabase.from('resort_feature_photo_submissions').select('*', { count: 'exact', head: true }).eq('status', 'pending'),
-          supabase.from('support_requests').select('*', { count: 'exact', head: true }).in('status', ['pending', 'in_progress']),
-        ])
-        setBadges({
-          pendingSubmissions: submissions.count ?? 0,
-          pendingPhotos: photos.count ?? 0,
-          pendingTickets: tickets.count ?? 0,
-        })
-      } catch {
-        // Silently fail — badges are non-critical
-      }
+    if (role && !canViewPage(role, currentPage)) navigate('overview')
+  }, [role, currentPage, navigate])
+
+  // Load badge counts
+  const loadBadges = useCallback(async () => {
+    try {
+      const [submissions, photos, tickets] = await Promise.all([
+        supabase.from('resort_submissions').select('*', { count: 'exact', head: true }).eq('status', 'pending'),
+        supabase.from('resort_feature_photo_submissions').select('*', { count: 'exact', head: true }).eq('status', 'pending'),
+        supabase.from('support_requests').select('*', { count: 'exact', head: true }).in('status', ['pending', 'in_progress']),
+      ])
+      setBadges({
+        pendingSubmissions: submissions.count ?? 0,
+        pendingPhotos: photos.count ?? 0,
+        pendingTickets: tickets.count ?? 0,
+      })
+    } catch {
+      // Silently fail — badges are non-critical
     }
+  }, [])
 
-    loadBadges()
-    const interval = setInterval(loadBadges, 60000) // Refresh every minute
+  useEffect(() => {
+    if (user && isAdmin) loadBadges()
+  }, [user, isAdmin, loadBadges])
+
+  // Recount on any change to the badge tables. Bulk actions fire a burst of
+  // events, so coalesce them into one recount.
+  const badgeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const scheduleBadgeReload = useCallback(() => {
+    if (badgeTimerRef.current) clearTimeout(badgeTimerRef.current)
+    badgeTimerRef.current = setTimeout(loadBadges, 500)
+  }, [loadBadges])
+
+  const submissionsLive = useRealtimeTable('resort_submissions', scheduleBadgeReload, isAdmin)
+  const photosLive = useRealtimeTable('resort_feature_photo_submissions', scheduleBadgeReload, isAdmin)
+  const ticketsLive = useRealtimeTable('support_requests', scheduleBadgeReload, isAdmin)
+  const badgesLive = submissionsLive && photosLive && ticketsLive
+
+  // Poll while any channel is down (errored, timed out, still connecting),
+  // and recount once it's back for whatever was missed in between
+  useEffect(() => {
+    if (!isAdmin) return
+    if (badgesLive) {
+      loadBadges()
+      return
+    }
+    const interval = setInterval(loadBadges, BADGE_POLL_MS)
     return () => clearInterval(interval)
-  }, [user, isAdmin])
+  }, [isAdmin, badgesLive, loadBadges])
 
   // Loading screen
   if (loading) {
@@ -85,7 +140,22 @@ export default function App() {
   if (!user || !isAdmin) {
     return (
       <>
-        <LoginPage onSignIn={signIn} loading={loading} error={error} unlocking={unlocking} />
+        <LoginPage
+          onSignIn={signIn}
+          loading={loading}
+          error={error}
+          unlocking={unlocking}
+          mfa={{
+            step: mfaStep,
+            enrollment,
+            recoveryCodes,
+            onStartEnrollment: startEnrollment,
+            onVerifyCode: verifyCode,
+            onRedeemRecoveryCode: redeemRecoveryCode,
+            onFinishEnrollment: finishEnrollment,
+            onCancel: signOut,
+          }}
+        />
         <Toaster theme="dark" position="top-right" richColors />
       </>
     )
@@ -94,35 +164,38 @@ export default function App() {
   const renderPage = () => {
     switch (currentPage) {
       case 'overview': return <OverviewPage onNavigate={handleNavigate} />
-      case 'submissions': return <SubmissionsPage />
+      case 'submissions': return <SubmissionsPage submissionId={entityId} onSubmissionChange={handleEntityChange} />
       case 'feature-photos': return <FeaturePhotosPage />
-      case 'resorts': return <ResortsPage />
+      case 'resorts': return <ResortsPage resortId={entityId} onResortChange={handleEntityChange} />
       case 'bulk-import': return <BulkImportPage />
-      case 'users': return <UsersPage />
+      case 'data-quality': return <DataQualityPage onNavigate={handleNavigate} />
+      case 'users': return <UsersPage userId={entityId} onUserChange={handleEntityChange} />
       case 'testers': return <TestersPage />
       case 'send-update': return <SendUpdatePage />
       case 'beta-feedback': return <BetaFeedbackPage />
-      case 'support': return <SupportPage />
+      case 'support': return <SupportPage ticketId={entityId} onTicketChange={handleEntityChange} />
       case 'roadmap': return <RoadmapPage />
       case 'knowledge-base': return <KnowledgeBasePage />
-      case 'visits': return <VisitsPage />
-      case 'analytics': return <AnalyticsPage />
+      case 'visits': return <VisitsPage visitId={entityId} onVisitChange={handleEntityChange} />
+      case 'analytics': return <AnalyticsPage onNavigate={handleNavigate} />
       case 'activity': return <ActivityPage />
       case 'system': return <SystemPage />
+      case 'team': return <TeamPage />
       default: return <OverviewPage onNavigate={handleNavigate} />
     }
   }
 
   return (
-    <>
+    <RoleContext.Provider value={role}>
       <DashboardLayout
         currentPage={currentPage}
         onNavigate={handleNavigate}
         badges={badges}
         userEmail={user.email ?? ''}
         onSignOut={signOut}
+        onRegenerateRecoveryCodes={regenerateRecoveryCodes}
       >
-        {renderPage()}
+        {canViewPage(role, currentPage) ? renderPage() : null}
       </DashboardLayout>
 
       <GlobalSearch
@@ -132,6 +205,6 @@ export default function App() {
       />
 
       <Toaster theme="dark" position="top-right" richColors />
-    </>
+    </RoleContext.Provider>
   )
 }
@@ -8,6 +8,7 @@ interface DashboardLayoutProps {
   badges: Record<string, number>
   userEmail: string
   onSignOut: () => void
+  onRegenerateRecoveryCodes: () => Promise<void>
   children: ReactNode
 }
 
@@ -17,6 +18,7 @@ export function DashboardLayout({
   badges,
   userEmail,
   onSignOut,
+  onRegenerateRecoveryCodes,
   children,
 }: DashboardLayoutProps) {
   return (
@@ -27,6 +29,7 @@ export function DashboardLayout({
         badges={badges}
         userEmail={userEmail}
         onSignOut={onSignOut}
+        onRegenerateRecoveryCodes={onRegenerateRecoveryCodes}
       />
       <main className="flex-1 lg:ml-64 min-h-screen flex flex-col">
         {children}
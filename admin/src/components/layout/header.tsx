@@ -1,5 +1,7 @@
-import { RefreshCw, Search } from 'lucide-react'
+import type { ReactNode } from 'react'
+import { AlertTriangle, CloudOff, RefreshCw, Search } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { useAuditQueueStatus } from '@/hooks/use-audit-log'
 
 interface HeaderProps {
   title: string
@@ -7,9 +9,13 @@ interface HeaderProps {
   onRefresh?: () => void
   refreshing?: boolean
   onSearchOpen?: () => void
+  // Page-specific controls, e.g. the saved views menu
+  actions?: ReactNode
 }
 
-export function Header({ title, subtitle, onRefresh, refreshing, onSearchOpen }: HeaderProps) {
+export function Header({ title, subtitle, onRefresh, refreshing, onSearchOpen, actions }: HeaderProps) {
+  const audit = useAuditQueueStatus()
+
   return (
     <header className="bg-slope-slate-dark border-b border-border px-6 py-4 flex items-center justify-between sticky top-0 z-30">
       <div className="pl-12 lg:pl-0">
@@ -17,6 +23,25 @@ export function Header({ title, subtitle, onRefresh, refreshing, onSearchOpen }:
         <p className="text-xs text-muted-foreground mt-0.5">{subtitle}</p>
       </div>
       <div className="flex items-center gap-2">
+        {audit.failed > 0 ? (
+          <button
+            onClick={audit.retryFailed}
+            title="These admin actions haven't been written to the audit log. Click to retry."
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-destructive/50 bg-destructive/10 text-destructive text-sm hover:bg-destructive/20 transition-colors"
+          >
+            <AlertTriangle className="w-4 h-4" />
+            {audit.failed} unaudited · Retry
+          </button>
+        ) : audit.pending > 0 ? (
+          <span
+            title="Audit entries are queued locally and will be sent when the connection recovers"
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-amber-500/40 bg-amber-500/10 text-amber-400 text-sm"
+          >
+            <CloudOff className={cn('w-4 h-4', audit.flushing && 'animate-pulse')} />
+            {audit.pending} audit pending
+          </span>
+        ) : null}
+        {actions}
         {onSearchOpen && (
           <button
             onClick={onSearchOpen}
@@ -1,17 +1,20 @@
 import { useState } from 'react'
+import { toast } from 'sonner'
 import {
   LayoutDashboard, Inbox, ImagePlus, Mountain, Users, LifeBuoy,
-  Map, BookOpen, CalendarDays, BarChart3, ScrollText, Activity, LogOut, Menu, X,
-  Upload, FlaskConical, Megaphone, MessageSquareHeart,
+  Map, BookOpen, CalendarDays, BarChart3, ScrollText, Activity, LogOut, Menu, X, KeyRound,
+  Upload, FlaskConical, Megaphone, MessageSquareHeart, ShieldCheck, ClipboardCheck,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { usePermissions, canViewPage } from '@/hooks/use-permissions'
 import type { PageId, NavItem } from '@/lib/constants'
-import { NAV_ITEMS } from '@/lib/constants'
+import { NAV_ITEMS, ADMIN_ROLES } from '@/lib/constants'
+import { ConfirmDialog } from '@/components/shared/confirm-dialog'
 
 const ICON_MAP: Record<string, React.FC<{ className?: string }>> = {
   LayoutDashboard, Inbox, ImagePlus, Mountain, Users, LifeBuoy,
   Map, BookOpen, CalendarDays, BarChart3, ScrollText, Activity, Upload,
-  FlaskConical, Megaphone, MessageSquareHeart,
+  FlaskConical, Megaphone, MessageSquareHeart, ShieldCheck, ClipboardCheck,
 }
 
 interface SidebarProps {
@@ -20,10 +23,21 @@ interface SidebarProps {
   badges: Record<string, number>
   userEmail: string
   onSignOut: () => void
+  onRegenerateRecoveryCodes: () => Promise<void>
 }
 
-export function Sidebar({ currentPage, onNavigate, badges, userEmail, onSignOut }: SidebarProps) {
+export function Sidebar({
+  currentPage,
+  onNavigate,
+  badges,
+  userEmail,
+  onSignOut,
+  onRegenerateRecoveryCodes,
+}: SidebarProps) {
   const [mobileOpen, setMobileOpen] = useState(false)
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false)
+  const { role } = usePermissions()
+  const roleLabel = ADMIN_ROLES.find((r) => r.value === role)?.label ?? 'Administrator'
 
   return (
     <>
@@ -66,7 +80,7 @@ export function Sidebar({ currentPage, onNavigate, badges, userEmail, onSignOut
         </div>
 
         <nav className="flex-1 overflow-y-auto py-3 px-3">
-          {NAV_ITEMS.map((item: NavItem) => {
+          {NAV_ITEMS.filter((item) => canViewPage(role, item.id)).map((item: NavItem) => {
             const Icon = ICON_MAP[item.icon]
             const badge = item.badgeKey ? badges[item.badgeKey] : 0
             return (
@@ -102,8 +116,15 @@ export function Sidebar({ currentPage, onNavigate, badges, userEmail, onSignOut
             </div>
             <div className="min-w-0 flex-1">
               <div className="text-xs font-medium truncate">{userEmail}</div>
-              <div className="text-[11px] text-muted-foreground">Administrator</div>
+              <div className="text-[11px] text-muted-foreground">{roleLabel}</div>
             </div>
+            <button
+              onClick={() => setConfirmRegenerate(true)}
+              className="p-1.5 rounded-md hover:bg-muted transition-colors"
+              title="Regenerate recovery codes"
+            >
+              <KeyRound className="w-4 h-4" />
+            </button>
             <button
               onClick={onSignOut}
               className="p-1.5 rounded-md hover:bg-destructive/10 hover:text-destructive transition-colors"
@@ -114,6 +135,19 @@ export function Sidebar({ currentPage, onNavigate, badges, userEmail, onSignOut
           </div>
         </div>
       </aside>
+
+      <ConfirmDialog
+        open={confirmRegenerate}
+        onOpenChange={setConfirmRegenerate}
+        title="Regenerate Recovery Codes"
+        description="Issue a new set of MFA recovery codes? Your current codes stop working."
+        confirmLabel="Regenerate"
+        onConfirm={() =>
+          onRegenerateRecoveryCodes().catch((err) =>
+            toast.error(`Could not generate recovery codes: ${err instanceof Error ? err.message : 'unknown error'}`)
+          )
+        }
+      />
     </>
   )
 }
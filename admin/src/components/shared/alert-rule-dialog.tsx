@@ -0,0 +1,304 @@
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { TICKET_CATEGORIES } from '@/lib/constants'
+import { USAGE_METRICS, seriesKey } from '@/lib/service-usage'
+import {
+  ALERT_COMPARATORS,
+  ALERT_METRICS,
+  ALERT_PRESETS,
+  ALERT_QUEUES,
+  describeAlertRule,
+  validateAlertRule,
+  type AlertComparator,
+  type AlertMetric,
+  type AlertRule,
+  type AlertRuleDraft,
+} from '@/lib/alerts'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface AlertRuleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // null creates a new rule
+  rule: AlertRule | null
+  saving: boolean
+  onSave: (draft: AlertRuleDraft) => void
+}
+
+const EMPTY_RULE: AlertRuleDraft = {
+  name: '',
+  metric: 'usage_percent',
+  params: {},
+  comparator: 'gt',
+  threshold: 80,
+  channels: { emails: [], webhook_url: null },
+  cooldown_hours: 24,
+  enabled: true,
+}
+
+function splitList(input: string): string[] {
+  return input.split(',').map((s) => s.trim()).filter(Boolean)
+}
+
+export function AlertRuleDialog({ open, onOpenChange, rule, saving, onSave }: AlertRuleDialogProps) {
+  const [name, setName] = useState('')
+  const [metric, setMetric] = useState<AlertMetric>('usage_percent')
+  const [usage, setUsage] = useState('')
+  const [queue, setQueue] = useState('')
+  const [category, setCategory] = useState('any')
+  const [comparator, setComparator] = useState<AlertComparator>('gt')
+  const [threshold, setThreshold] = useState('')
+  const [emails, setEmails] = useState('')
+  const [webhook, setWebhook] = useState('')
+  const [cooldown, setCooldown] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDraft = (draft: AlertRuleDraft) => {
+    setName(draft.name)
+    setMetric(draft.metric)
+    setUsage(draft.params.usage ?? '')
+    setQueue(draft.params.queue ?? '')
+    setCategory(draft.params.category ?? 'any')
+    setComparator(draft.comparator)
+    setThreshold(String(draft.threshold))
+    setEmails(draft.channels.emails.join(', '))
+    setWebhook(draft.channels.webhook_url ?? '')
+    setCooldown(String(draft.cooldown_hours))
+    setError(null)
+  }
+
+  useEffect(() => {
+    if (open) loadDraft(rule ?? EMPTY_RULE)
+  }, [open, rule])
+
+  // Presets only replace what the rule checks; channels the admin already
+  // typed are kept
+  const applyPreset = (index: string) => {
+    const preset = ALERT_PRESETS[Number(index)]
+    if (!preset) return
+    setName(preset.name)
+    setMetric(preset.metric)
+    setUsage(preset.params.usage ?? '')
+    setQueue(preset.params.queue ?? '')
+    setCategory(preset.params.category ?? 'any')
+    setComparator(preset.comparator)
+    setThreshold(String(preset.threshold))
+    setCooldown(String(preset.cooldown_hours))
+  }
+
+  const isQueue = metric === 'queue_oldest_days' || metric === 'queue_count'
+
+  const buildDraft = (): AlertRuleDraft => ({
+    name: name.trim(),
+    metric,
+    params:
+      metric === 'usage_percent'
+        ? { usage }
+        : isQueue
+          ? { queue, category: queue === 'support' && category !== 'any' ? category : null }
+          : {},
+    comparator,
+    threshold: threshold.trim() === '' ? NaN : Number(threshold),
+    channels: { emails: splitList(emails), webhook_url: webhook.trim() || null },
+    cooldown_hours: Number(cooldown),
+    enabled: rule?.enabled ?? true,
+  })
+
+  const draft = buildDraft()
+  const summary = Number.isFinite(draft.threshold) ? describeAlertRule(draft) : null
+
+  const handleSave = () => {
+    const invalid = validateAlertRule(draft)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+    setError(null)
+    onSave(draft)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{rule ? `Edit ${rule.name}` : 'New Alert Rule'}</DialogTitle>
+          <DialogDescription>
+            Rules are checked server-side every few minutes. A firing rule is sent again only after its cooldown.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-3">
+          <div className="space-y-5 py-1">
+            {!rule && (
+              <div className="space-y-2">
+                <Label>Start from</Label>
+                <Select onValueChange={applyPreset}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick a preset (optional)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_PRESETS.map((p, i) => (
+                      <SelectItem key={p.name} value={String(i)}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. R2 storage over 80%" />
+            </div>
+
+            <div className="rounded-lg border border-border p-3 space-y-3">
+              <Label>Condition</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Select value={metric} onValueChange={(v) => setMetric(v as AlertMetric)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_METRICS.map((m) => (
+                      <SelectItem key={m.value} value={m.value}>
+                        {m.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {metric === 'usage_percent' && (
+                  <Select value={usage} onValueChange={setUsage}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Metric" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USAGE_METRICS.map((m) => (
+                        <SelectItem key={seriesKey(m.service, m.metric)} value={seriesKey(m.service, m.metric)}>
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {isQueue && (
+                  <Select value={queue} onValueChange={setQueue}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Queue" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALERT_QUEUES.map((q) => (
+                        <SelectItem key={q.value} value={q.value}>
+                          {q.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              {isQueue && queue === 'support' && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Category</Label>
+                  <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any category</SelectItem>
+                      {TICKET_CATEGORIES.map((c) => (
+                        <SelectItem key={c.value} value={c.value}>
+                          {c.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-[80px_1fr] gap-3">
+                <Select value={comparator} onValueChange={(v) => setComparator(v as AlertComparator)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_COMPARATORS.map((c) => (
+                      <SelectItem key={c.value} value={c.value}>
+                        {c.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  placeholder={ALERT_METRICS.find((m) => m.value === metric)?.unit || 'Threshold'}
+                />
+              </div>
+
+              {summary && (
+                <p className="text-xs text-muted-foreground">
+                  Fires when <span className="text-foreground">{summary}</span>
+                </p>
+              )}
+            </div>
+
+            <div className="rounded-lg border border-border p-3 space-y-3">
+              <Label>Delivery</Label>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Email addresses (comma-separated)</Label>
+                <Input value={emails} onChange={(e) => setEmails(e.target.value)} placeholder="ops@slopestory.app" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Webhook URL</Label>
+                <Input
+                  value={webhook}
+                  onChange={(e) => setWebhook(e.target.value)}
+                  placeholder="https://hooks.slack.com/..."
+                  className="font-mono text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Cooldown (hours)</Label>
+                <Input type="number" min={1} value={cooldown} onChange={(e) => setCooldown(e.target.value)} />
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {rule ? 'Save Changes' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
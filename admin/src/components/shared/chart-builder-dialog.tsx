@@ -0,0 +1,386 @@
+import { useState, useEffect } from 'react'
+import { Loader2, Play, Plus, X } from 'lucide-react'
+import {
+  CHART_FILTER_OPS,
+  CHART_MEASURES,
+  CHART_TABLES,
+  CHART_TYPES,
+  DATE_BUCKETS,
+  DEFAULT_CHART_SPEC,
+  chartField,
+  chartTable,
+  describeChartSpec,
+  runChartQuery,
+  validateChartSpec,
+  type ChartMeasure,
+  type ChartPoint,
+  type ChartSpec,
+  type ChartType,
+  type DateBucket,
+  type SavedChart,
+} from '@/lib/custom-charts'
+import type { ServerFilter } from '@/lib/server-query'
+import { CustomChart } from '@/components/shared/custom-chart'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export interface ChartDraft {
+  id?: string
+  name: string
+  shared: boolean
+  spec: ChartSpec
+}
+
+interface ChartBuilderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // null builds a new chart
+  chart: SavedChart | null
+  saving: boolean
+  onSave: (draft: ChartDraft) => void
+}
+
+// Filter values are typed as text; number and boolean fields are converted
+// so the RPC compares like with like
+function filterValue(spec: ChartSpec, column: string, raw: unknown): unknown {
+  const kind = chartField(spec.table, column)?.kind
+  if (kind === 'number' && raw !== '') return Number(raw)
+  if (kind === 'boolean') return raw === 'true'
+  return raw
+}
+
+export function ChartBuilderDialog({ open, onOpenChange, chart, saving, onSave }: ChartBuilderDialogProps) {
+  const [name, setName] = useState('')
+  const [shared, setShared] = useState(false)
+  const [spec, setSpec] = useState<ChartSpec>(DEFAULT_CHART_SPEC)
+  const [preview, setPreview] = useState<ChartPoint[] | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setName(chart?.name ?? '')
+    setShared(chart?.shared ?? false)
+    setSpec(chart?.spec ?? DEFAULT_CHART_SPEC)
+    setPreview(null)
+    setError(null)
+  }, [open, chart])
+
+  const update = (changes: Partial<ChartSpec>) => {
+    setSpec((s) => ({ ...s, ...changes }))
+    setPreview(null)
+  }
+
+  // Fields differ per table, so anything that named one starts over
+  const changeTable = (table: string) => {
+    const first = chartTable(table)?.fields.find((f) => f.kind !== 'date')
+    update({ table, group_by: first?.value ?? '', bucket: null, measure: 'count', measure_field: null, filters: [] })
+  }
+
+  const changeGroupBy = (group_by: string) => {
+    const isDate = chartField(spec.table, group_by)?.kind === 'date'
+    update({ group_by, bucket: isDate ? spec.bucket ?? 'month' : null })
+  }
+
+  const updateFilter = (index: number, changes: Partial<ServerFilter>) => {
+    update({ filters: spec.filters.map((f, i) => (i === index ? { ...f, ...changes } : f)) })
+  }
+
+  const table = chartTable(spec.table)
+  const groupField = chartField(spec.table, spec.group_by)
+  const needsField = CHART_MEASURES.find((m) => m.value === spec.measure)?.needsField ?? false
+  const measurable = table?.fields.filter((f) => spec.measure === 'count_distinct' || f.kind === 'number') ?? []
+
+  const handlePreview = async () => {
+    const invalid = validateChartSpec(spec)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+    setError(null)
+    setPreviewing(true)
+    try {
+      setPreview(await runChartQuery(spec))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Query failed')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const handleSave = () => {
+    const invalid = !name.trim() ? 'Give the chart a name' : validateChartSpec(spec)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+    setError(null)
+    onSave({ id: chart?.id, name, shared, spec })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{chart ? `Edit ${chart.name}` : 'New Chart'}</DialogTitle>
+          <DialogDescription>
+            Aggregates run in the database over every matching row. Shared charts show on every admin's dashboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh] pr-3">
+          <div className="space-y-5 py-1">
+            <div className="grid grid-cols-[1fr_auto] gap-3 items-end">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Visits by resort country" />
+              </div>
+              <div className="flex items-center gap-2 h-10">
+                <Switch checked={shared} onCheckedChange={setShared} id="chart-shared" />
+                <Label htmlFor="chart-shared" className="text-sm">
+                  Shared
+                </Label>
+              </div>
+            </div>
+
+            <div className="rounded-lg border border-border p-3 space-y-3">
+              <Label>Query</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Table</Label>
+                  <Select value={spec.table} onValueChange={changeTable}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHART_TABLES.map((t) => (
+                        <SelectItem key={t.value} value={t.value}>
+                          {t.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Group by</Label>
+                  <div className="flex gap-2">
+                    <Select value={spec.group_by} onValueChange={changeGroupBy}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {table?.fields.map((f) => (
+                          <SelectItem key={f.value} value={f.value}>
+                            {f.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {groupField?.kind === 'date' && (
+                      <Select value={spec.bucket ?? 'month'} onValueChange={(v) => update({ bucket: v as DateBucket })}>
+                        <SelectTrigger className="w-[100px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DATE_BUCKETS.map((b) => (
+                            <SelectItem key={b.value} value={b.value}>
+                              {b.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Measure</Label>
+                  <Select
+                    value={spec.measure}
+                    onValueChange={(v) => update({ measure: v as ChartMeasure, measure_field: null })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHART_MEASURES.map((m) => (
+                        <SelectItem key={m.value} value={m.value}>
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {needsField && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Field</Label>
+                    <Select value={spec.measure_field ?? ''} onValueChange={(v) => update({ measure_field: v })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {measurable.map((f) => (
+                          <SelectItem key={f.value} value={f.value}>
+                            {f.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs text-muted-foreground">Filters</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => update({ filters: [...spec.filters, { column: '', op: 'eq', value: '' }] })}
+                  >
+                    <Plus className="w-3.5 h-3.5 mr-1" />
+                    Add filter
+                  </Button>
+                </div>
+                {spec.filters.map((f, i) => {
+                  const kind = chartField(spec.table, f.column)?.kind
+                  return (
+                    <div key={i} className="grid grid-cols-[1fr_110px_1fr_auto] gap-2">
+                      <Select
+                        value={f.column}
+                        onValueChange={(v) => updateFilter(i, { column: v, value: filterValue(spec, v, '') })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {table?.fields.map((field) => (
+                            <SelectItem key={field.value} value={field.value}>
+                              {field.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={f.op}
+                        onValueChange={(v) =>
+                          updateFilter(i, { op: v as ServerFilter['op'], value: v === 'is' ? null : f.value ?? '' })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CHART_FILTER_OPS.map((op) => (
+                            <SelectItem key={op.value} value={op.value}>
+                              {op.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {f.op === 'is' ? (
+                        <div />
+                      ) : kind === 'boolean' ? (
+                        <Select
+                          value={String(f.value)}
+                          onValueChange={(v) => updateFilter(i, { value: filterValue(spec, f.column, v) })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="true">Yes</SelectItem>
+                            <SelectItem value="false">No</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          type={kind === 'number' ? 'number' : kind === 'date' ? 'date' : 'text'}
+                          value={String(f.value ?? '')}
+                          onChange={(e) => updateFilter(i, { value: filterValue(spec, f.column, e.target.value) })}
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => update({ filters: spec.filters.filter((_, j) => j !== i) })}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+
+            <div className="rounded-lg border border-border p-3 space-y-3">
+              <div className="flex items-end gap-3">
+                <div className="space-y-1 flex-1">
+                  <Label className="text-xs text-muted-foreground">Chart</Label>
+                  <Select value={spec.chart_type} onValueChange={(v) => update({ chart_type: v as ChartType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHART_TYPES.map((t) => (
+                        <SelectItem key={t.value} value={t.value}>
+                          {t.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 w-24">
+                  <Label className="text-xs text-muted-foreground">Max groups</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={spec.limit}
+                    onChange={(e) => update({ limit: Number(e.target.value) })}
+                  />
+                </div>
+                <Button variant="outline" onClick={handlePreview} disabled={previewing}>
+                  {previewing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                  Preview
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">{describeChartSpec(spec)}</p>
+              {preview && <CustomChart type={spec.chart_type} data={preview} height={220} />}
+            </div>
+          </div>
+        </ScrollArea>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {chart ? 'Save Changes' : 'Save Chart'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,607 @@
+import { useState, useEffect } from 'react'
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react'
+import { COHORTS } from '@/lib/constants'
+import {
+  CONFIG_TYPES,
+  PLATFORMS,
+  configType,
+  configValueToInput,
+  defaultConfigValue,
+  evaluateConfig,
+  formatConfigValue,
+  parseConfigInput,
+  validateConfig,
+  type ConfigRule,
+  type ConfigSchema,
+  type ConfigValueType,
+  type Platform,
+  type RemoteConfig,
+} from '@/lib/remote-config'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export type ConfigDraft = Pick<RemoteConfig, 'key' | 'value' | 'type' | 'description' | 'schema' | 'rules'>
+
+interface RuleForm {
+  cohort: string
+  platforms: Platform[]
+  minVersion: string
+  maxVersion: string
+  value: string
+}
+
+interface SchemaForm {
+  min: string
+  max: string
+  integer: boolean
+  pattern: string
+  options: string
+  required: string
+}
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/
+
+const textareaClass =
+  'flex min-h-[96px] w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+
+function schemaToForm(schema: ConfigSchema | null): SchemaForm {
+  return {
+    min: schema?.min?.toString() ?? '',
+    max: schema?.max?.toString() ?? '',
+    integer: schema?.integer ?? false,
+    pattern: schema?.pattern ?? '',
+    options: schema?.options?.join(', ') ?? '',
+    required: schema?.required?.join(', ') ?? '',
+  }
+}
+
+function splitList(input: string): string[] {
+  return input.split(',').map((s) => s.trim()).filter(Boolean)
+}
+
+// Only the fields that apply to `type`; null when nothing is constrained
+function formToSchema(type: ConfigValueType, form: SchemaForm): ConfigSchema | null {
+  const schema: ConfigSchema = {}
+  if (type === 'number') {
+    if (form.min.trim() !== '') schema.min = Number(form.min)
+    if (form.max.trim() !== '') schema.max = Number(form.max)
+    if (form.integer) schema.integer = true
+  } else if (type === 'string') {
+    if (form.pattern.trim()) schema.pattern = form.pattern.trim()
+    const options = splitList(form.options)
+    if (options.length > 0) schema.options = options
+  } else if (type === 'json') {
+    const required = splitList(form.required)
+    if (required.length > 0) schema.required = required
+  }
+  return Object.keys(schema).length > 0 ? schema : null
+}
+
+function ruleToForm(type: ConfigValueType, rule: ConfigRule): RuleForm {
+  return {
+    cohort: rule.cohort ?? 'any',
+    platforms: rule.platforms ?? [],
+    minVersion: rule.min_version ?? '',
+    maxVersion: rule.max_version ?? '',
+    value: configValueToInput(type, rule.value),
+  }
+}
+
+function formToRule(type: ConfigValueType, form: RuleForm): ConfigRule {
+  return {
+    cohort: form.cohort === 'any' ? null : form.cohort,
+    platforms: form.platforms,
+    min_version: form.minVersion.trim() || null,
+    max_version: form.maxVersion.trim() || null,
+    value: parseConfigInput(type, form.value),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Value input
+// ---------------------------------------------------------------------------
+
+function ValueInput({
+  type,
+  value,
+  onChange,
+}: {
+  type: ConfigValueType
+  value: string
+  onChange: (value: string) => void
+}) {
+  switch (type) {
+    case 'boolean':
+      return (
+        <div className="flex items-center gap-2 h-9">
+          <Switch checked={value === 'true'} onCheckedChange={(v) => onChange(String(v))} />
+          <span className="text-sm text-muted-foreground">{value === 'true' ? 'true' : 'false'}</span>
+        </div>
+      )
+    case 'json':
+      return <textarea value={value} onChange={(e) => onChange(e.target.value)} className={textareaClass} rows={4} />
+    case 'rollout':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-24"
+          />
+          <span className="text-sm text-muted-foreground">% of users</span>
+        </div>
+      )
+    default:
+      return (
+        <Input
+          type={type === 'number' ? 'number' : 'text'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Dialog
+// ---------------------------------------------------------------------------
+
+interface ConfigEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // null creates a new entry
+  config: RemoteConfig | null
+  existingKeys: string[]
+  saving?: boolean
+  onSave: (draft: ConfigDraft) => void
+}
+
+export function ConfigEditorDialog({
+  open,
+  onOpenChange,
+  config,
+  existingKeys,
+  saving,
+  onSave,
+}: ConfigEditorDialogProps) {
+  const [key, setKey] = useState('')
+  const [type, setType] = useState<ConfigValueType>('boolean')
+  const [description, setDescription] = useState('')
+  const [value, setValue] = useState('')
+  const [schema, setSchema] = useState<SchemaForm>(schemaToForm(null))
+  const [rules, setRules] = useState<RuleForm[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Preview context
+  const [previewCohort, setPreviewCohort] = useState('any')
+  const [previewPlatform, setPreviewPlatform] = useState<Platform>('ios')
+  const [previewVersion, setPreviewVersion] = useState('')
+  const [previewUser, setPreviewUser] = useState('')
+
+  useEffect(() => {
+    if (!open) return
+    const t = config ? configType(config) : 'boolean'
+    setKey(config?.key ?? '')
+    setType(t)
+    setDescription(config?.description ?? '')
+    setValue(configValueToInput(t, config ? config.value : defaultConfigValue(t)))
+    setSchema(schemaToForm(config?.schema ?? null))
+    setRules((config?.rules ?? []).map((r) => ruleToForm(t, r)))
+    setError(null)
+  }, [open, config])
+
+  // Existing keys keep their type: clients already read them as that type
+  const changeType = (next: ConfigValueType) => {
+    setType(next)
+    setValue(configValueToInput(next, defaultConfigValue(next)))
+    setRules((prev) => prev.map((r) => ({ ...r, value: configValueToInput(next, defaultConfigValue(next)) })))
+  }
+
+  const updateRule = (index: number, patch: Partial<RuleForm>) => {
+    setRules((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)))
+  }
+
+  const moveRule = (index: number, delta: number) => {
+    setRules((prev) => {
+      const next = [...prev]
+      const [rule] = next.splice(index, 1)
+      next.splice(index + delta, 0, rule)
+      return next
+    })
+  }
+
+  const buildDraft = (): ConfigDraft => ({
+    key: key.trim(),
+    type,
+    description: description.trim() || null,
+    value: parseConfigInput(type, value),
+    schema: formToSchema(type, schema),
+    rules: rules.map((r) => formToRule(type, r)),
+  })
+
+  // Rollouts resolve per user, so they preview as on/off for the given ID
+  const preview = (() => {
+    try {
+      const draft = buildDraft()
+      const resolved = evaluateConfig(
+        { ...draft, updated_at: '', updated_by: null },
+        {
+          cohort: previewCohort === 'any' ? null : previewCohort,
+          platform: previewPlatform,
+          appVersion: previewVersion.trim() || undefined,
+          userId: previewUser.trim() || undefined,
+        }
+      )
+      return formatConfigValue(type === 'rollout' ? 'boolean' : type, resolved)
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Invalid value'
+    }
+  })()
+
+  const handleSave = () => {
+    const trimmed = key.trim()
+    if (!config) {
+      if (!KEY_PATTERN.test(trimmed)) {
+        setError('Key must be lowercase letters, digits and underscores, starting with a letter')
+        return
+      }
+      if (existingKeys.includes(trimmed)) {
+        setError(`"${trimmed}" already exists`)
+        return
+      }
+    }
+    let draft: ConfigDraft
+    try {
+      draft = buildDraft()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid value')
+      return
+    }
+    const invalid = validateConfig(draft)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+    setError(null)
+    onSave(draft)
+  }
+
+  const cohortLabel = (value: string) => COHORTS.find((c) => c.value === value)?.label ?? value
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{config ? `Edit ${config.key}` : 'New Config Value'}</DialogTitle>
+          <DialogDescription>
+            Clients get the default value unless one of the targeting rules matches them first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-3">
+          <div className="space-y-5 py-1">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Key</Label>
+                <Input
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  placeholder="e.g. max_photos_per_visit"
+                  disabled={!!config}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(v) => changeType(v as ConfigValueType)} disabled={!!config}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONFIG_TYPES.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>
+                        {t.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What this controls in the app"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Default value</Label>
+              <ValueInput type={type} value={value} onChange={setValue} />
+            </div>
+
+            {/* Schema */}
+            {(type === 'number' || type === 'string' || type === 'json') && (
+              <div className="rounded-lg border border-border p-3 space-y-3">
+                <Label>Validation</Label>
+                {type === 'number' && (
+                  <div className="grid grid-cols-3 gap-3 items-end">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Minimum</Label>
+                      <Input
+                        type="number"
+                        value={schema.min}
+                        onChange={(e) => setSchema((s) => ({ ...s, min: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Maximum</Label>
+                      <Input
+                        type="number"
+                        value={schema.max}
+                        onChange={(e) => setSchema((s) => ({ ...s, max: e.target.value }))}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 h-9">
+                      <Switch
+                        id="schema-integer"
+                        checked={schema.integer}
+                        onCheckedChange={(v) => setSchema((s) => ({ ...s, integer: v }))}
+                      />
+                      <Label htmlFor="schema-integer" className="text-xs font-normal">
+                        Whole numbers only
+                      </Label>
+                    </div>
+                  </div>
+                )}
+                {type === 'string' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Allowed values (comma-separated)</Label>
+                      <Input
+                        value={schema.options}
+                        onChange={(e) => setSchema((s) => ({ ...s, options: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Pattern (regex)</Label>
+                      <Input
+                        value={schema.pattern}
+                        onChange={(e) => setSchema((s) => ({ ...s, pattern: e.target.value }))}
+                        className="font-mono"
+                      />
+                    </div>
+                  </div>
+                )}
+                {type === 'json' && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Required keys (comma-separated)</Label>
+                    <Input
+                      value={schema.required}
+                      onChange={(e) => setSchema((s) => ({ ...s, required: e.target.value }))}
+                      className="font-mono"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Targeting rules */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Targeting rules</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setRules((prev) => [
+                      ...prev,
+                      { cohort: 'any', platforms: [], minVersion: '', maxVersion: '', value },
+                    ])
+                  }
+                >
+                  <Plus className="w-3.5 h-3.5 mr-1.5" />
+                  Add Rule
+                </Button>
+              </div>
+              {rules.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No rules — every client gets the default value.</p>
+              ) : (
+                <div className="space-y-2">
+                  {rules.map((rule, i) => (
+                    <div key={i} className="rounded-lg border border-border p-3 space-y-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-medium text-muted-foreground flex-1">Rule {i + 1}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={i === 0}
+                          onClick={() => moveRule(i, -1)}
+                        >
+                          <ArrowUp className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={i === rules.length - 1}
+                          onClick={() => moveRule(i, 1)}
+                        >
+                          <ArrowDown className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setRules((prev) => prev.filter((_, j) => j !== i))}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">Cohort</Label>
+                          <Select value={rule.cohort} onValueChange={(v) => updateRule(i, { cohort: v })}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="any">Any cohort</SelectItem>
+                              {COHORTS.map((c) => (
+                                <SelectItem key={c.value} value={c.value}>
+                                  {c.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">Platforms</Label>
+                          <div className="flex gap-2 h-9 items-center">
+                            {PLATFORMS.map((p) => {
+                              const active = rule.platforms.includes(p.value)
+                              return (
+                                <button
+                                  key={p.value}
+                                  type="button"
+                                  onClick={() =>
+                                    updateRule(i, {
+                                      platforms: active
+                                        ? rule.platforms.filter((x) => x !== p.value)
+                                        : [...rule.platforms, p.value],
+                                    })
+                                  }
+                                  className={cn(
+                                    'px-3 py-1 rounded-md border text-xs transition-colors',
+                                    active
+                                      ? 'border-primary bg-primary/10 text-foreground'
+                                      : 'border-border text-muted-foreground hover:border-primary/50'
+                                  )}
+                                >
+                                  {p.label}
+                                </button>
+                              )
+                            })}
+                            {rule.platforms.length === 0 && (
+                              <span className="text-xs text-muted-foreground">All</span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">Min app version</Label>
+                          <Input
+                            value={rule.minVersion}
+                            onChange={(e) => updateRule(i, { minVersion: e.target.value })}
+                            placeholder="e.g. 1.4.0"
+                            className="font-mono"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">Max app version</Label>
+                          <Input
+                            value={rule.maxVersion}
+                            onChange={(e) => updateRule(i, { maxVersion: e.target.value })}
+                            className="font-mono"
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">Value</Label>
+                        <ValueInput type={type} value={rule.value} onChange={(v) => updateRule(i, { value: v })} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Preview */}
+            <div className="rounded-lg border border-dashed border-border p-3 space-y-3">
+              <Label>Preview</Label>
+              <div className="grid grid-cols-4 gap-2">
+                <Select value={previewCohort} onValueChange={setPreviewCohort}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">No cohort</SelectItem>
+                    {COHORTS.map((c) => (
+                      <SelectItem key={c.value} value={c.value}>
+                        {cohortLabel(c.value)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={previewPlatform} onValueChange={(v) => setPreviewPlatform(v as Platform)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PLATFORMS.map((p) => (
+                      <SelectItem key={p.value} value={p.value}>
+                        {p.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={previewVersion}
+                  onChange={(e) => setPreviewVersion(e.target.value)}
+                  placeholder="App version"
+                  className="font-mono"
+                />
+                <Input
+                  value={previewUser}
+                  onChange={(e) => setPreviewUser(e.target.value)}
+                  placeholder="User ID"
+                  className="font-mono"
+                />
+              </div>
+              <div className="text-xs">
+                <span className="text-muted-foreground">Resolves to </span>
+                <code className="bg-muted px-1.5 py-0.5 rounded break-all">{preview}</code>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {config ? 'Save Changes' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { toast } from 'sonner'
+import { Loader2, Undo2 } from 'lucide-react'
+import { useAuditLog, isRevertible, type LoggedAuditEntry } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
+import { formatDateTime } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface HistoryEntry extends LoggedAuditEntry {
+  admin_email: string | null
+  details: Record<string, unknown> | null
+  created_at: string
+}
+
+interface RollbackTarget {
+  entry: HistoryEntry
+  conflicts: string[]
+}
+
+const HISTORY_LIMIT = 50
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)
+}
+
+interface ConfigHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  configKey: string | null
+  onRolledBack: () => void
+}
+
+export function ConfigHistoryDialog({ open, onOpenChange, configKey, onRolledBack }: ConfigHistoryDialogProps) {
+  const { can } = usePermissions()
+  const { revert, findRevertConflicts } = useAuditLog()
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+  const [target, setTarget] = useState<RollbackTarget | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    if (!configKey) return
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('admin_audit_log')
+        .select('id, admin_email, action, entity_type, entity_id, details, before_data, after_data, created_at')
+        .eq('entity_type', 'app_config')
+        .eq('entity_id', configKey)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT)
+      if (error) throw new Error(error.message)
+      setEntries((data as HistoryEntry[]) ?? [])
+    } catch (err) {
+      toast.error(`Failed to load history: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [configKey])
+
+  useEffect(() => {
+    if (open) loadHistory()
+  }, [open, loadHistory])
+
+  // Rollbacks are logged against the same key, so the list says what's been undone
+  const rolledBack = new Set(
+    entries
+      .filter((e) => e.action === 'revert_action')
+      .map((e) => String(e.details?.reverted_entry_id))
+  )
+
+  const openRollback = async (entry: HistoryEntry) => {
+    setCheckingId(entry.id)
+    try {
+      const conflicts = await findRevertConflicts(entry)
+      setTarget({ entry, conflicts })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to check config')
+    } finally {
+      setCheckingId(null)
+    }
+  }
+
+  const handleRollback = async () => {
+    if (!target) return
+    const { entry } = target
+    setTarget(null)
+    try {
+      await revert(entry)
+      toast.success(`Rolled back ${configKey}`)
+      loadHistory()
+      onRolledBack()
+    } catch (err) {
+      toast.error(`Failed to roll back: ${err instanceof Error ? err.message : 'unknown error'}`)
+    }
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>History: {configKey}</DialogTitle>
+            <DialogDescription>
+              The last {HISTORY_LIMIT} changes. Rolling back a change restores the fields it touched.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[60vh]">
+            {loading && entries.length === 0 ? (
+              <div className="flex items-center justify-center py-10 text-muted-foreground">
+                <Loader2 className="w-5 h-5 animate-spin" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-10">No recorded changes.</p>
+            ) : (
+              <div className="space-y-3">
+                {entries.map((entry) => {
+                  const before = entry.before_data ?? {}
+                  const after = entry.after_data ?? {}
+                  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+                  const canRollBack =
+                    can('system.configure') && isRevertible(entry) && !rolledBack.has(entry.id)
+
+                  return (
+                    <div key={entry.id} className="rounded-lg border border-border p-3 space-y-2">
+                      <div className="flex items-center gap-2 text-xs">
+                        <Badge variant="outline" className="text-[10px]">
+                          {entry.action.replace(/_/g, ' ')}
+                        </Badge>
+                        <span className="text-muted-foreground flex-1">
+                          {formatDateTime(entry.created_at)} by {entry.admin_email ?? 'unknown'}
+                        </span>
+                        {rolledBack.has(entry.id) && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            Rolled back
+                          </Badge>
+                        )}
+                        {canRollBack && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openRollback(entry)}
+                            disabled={checkingId === entry.id}
+                          >
+                            {checkingId === entry.id ? (
+                              <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                            ) : (
+                              <Undo2 className="w-3.5 h-3.5 mr-1.5" />
+                            )}
+                            Roll Back
+                          </Button>
+                        )}
+                      </div>
+                      {fields.length > 0 && (
+                        <div className="rounded-md border border-border divide-y divide-border text-xs">
+                          {fields.map((f) => (
+                            <div key={f} className="grid grid-cols-[100px_1fr_1fr] gap-3 px-3 py-2">
+                              <span className="font-mono text-muted-foreground">{f}</span>
+                              <pre className="whitespace-pre-wrap break-all text-red-400 bg-red-400/5 rounded px-1.5 py-0.5">
+                                {formatValue(before[f])}
+                              </pre>
+                              <pre className="whitespace-pre-wrap break-all text-green-400 bg-green-400/5 rounded px-1.5 py-0.5">
+                                {formatValue(after[f])}
+                              </pre>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!target}
+        onOpenChange={(o) => !o && setTarget(null)}
+        title="Roll Back Change"
+        description={
+          target && target.conflicts.length > 0
+            ? `${target.conflicts.join(', ')} changed again since this edit. Rolling back will overwrite those newer values.`
+            : `Restore ${configKey} to how it was before this change?`
+        }
+        confirmLabel="Roll Back"
+        variant={target && target.conflicts.length > 0 ? 'destructive' : 'default'}
+        onConfirm={handleRollback}
+      />
+    </>
+  )
+}
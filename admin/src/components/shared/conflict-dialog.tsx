@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+
+type Row = Record<string, unknown>
+type Side = 'mine' | 'theirs'
+
+interface ConflictDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  fields: string[]
+  // What this admin loaded, what they are trying to save, and what is stored now
+  base: Row
+  mine: Row
+  theirs: Row
+  saving?: boolean
+  onResolve: (merged: Row) => void
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+export function ConflictDialog({
+  open,
+  onOpenChange,
+  fields,
+  base,
+  mine,
+  theirs,
+  saving,
+  onResolve,
+}: ConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, Side>>({})
+
+  // Default to this admin's value only where they actually changed it
+  useEffect(() => {
+    if (!open) return
+    setChoices(
+      Object.fromEntries(
+        fields.map((f) => [f, sameValue(mine[f], base[f]) ? 'theirs' : 'mine'] as const)
+      )
+    )
+  }, [open, fields, mine, base])
+
+  const handleResolve = () => {
+    const merged: Row = { ...mine }
+    for (const f of fields) {
+      merged[f] = choices[f] === 'theirs' ? theirs[f] : mine[f]
+    }
+    onResolve(merged)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Someone Else Saved This Record</DialogTitle>
+          <DialogDescription>
+            Another admin saved changes after you opened it
+            {theirs.updated_at ? ` (${new Date(String(theirs.updated_at)).toLocaleString()})` : ''}.
+            Pick which value to keep for each field that differs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[55vh]">
+          <div className="rounded-lg border border-border divide-y divide-border text-sm">
+            <div className="grid grid-cols-[150px_1fr_1fr] gap-3 px-3 py-2 text-xs text-muted-foreground">
+              <span>Field</span>
+              <span>Your version</span>
+              <span>Their version</span>
+            </div>
+            {fields.map((f) => (
+              <div key={f} className="grid grid-cols-[150px_1fr_1fr] gap-3 px-3 py-2 items-start">
+                <span className="text-xs font-mono text-muted-foreground pt-1.5">{f.replace(/_/g, ' ')}</span>
+                {(['mine', 'theirs'] as const).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setChoices((c) => ({ ...c, [f]: side }))}
+                    className={cn(
+                      'text-left text-xs rounded-md border px-2 py-1.5 break-all transition-colors',
+                      choices[f] === side
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border text-muted-foreground hover:border-primary/50'
+                    )}
+                  >
+                    {formatValue(side === 'mine' ? mine[f] : theirs[f])}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleResolve} disabled={saving}>
+            Save Merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
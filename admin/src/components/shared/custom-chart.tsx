@@ -0,0 +1,91 @@
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import type { ChartPoint, ChartType } from '@/lib/custom-charts'
+
+const COLORS = ['#4298D2', '#6DB5DE', '#3a87be', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316']
+
+interface CustomChartProps {
+  type: ChartType
+  data: ChartPoint[]
+  height?: number
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+// Renders a custom chart's result rows in the chosen chart type
+export function CustomChart({ type, data, height = 260 }: CustomChartProps) {
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No rows match.</p>
+  }
+
+  if (type === 'table') {
+    return (
+      <div className="overflow-auto text-xs" style={{ maxHeight: height }}>
+        <table className="w-full">
+          <tbody className="divide-y divide-border">
+            {data.map((row, i) => (
+              <tr key={i}>
+                <td className="py-1.5 pr-3 truncate max-w-[240px]">{row.label}</td>
+                <td className="py-1.5 text-right font-mono">{formatValue(row.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )
+  }
+
+  const tooltip = (
+    <Tooltip
+      formatter={(value: number) => formatValue(value)}
+      contentStyle={{
+        backgroundColor: 'hsl(var(--card))',
+        border: '1px solid hsl(var(--border))',
+        borderRadius: 8,
+        fontSize: 12,
+      }}
+    />
+  )
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      {type === 'pie' ? (
+        <PieChart>
+          <Pie data={data} dataKey="value" nameKey="label" outerRadius="80%" innerRadius="45%" paddingAngle={2}>
+            {data.map((_, i) => (
+              <Cell key={i} fill={COLORS[i % COLORS.length]} />
+            ))}
+          </Pie>
+          {tooltip}
+        </PieChart>
+      ) : type === 'line' ? (
+        <LineChart data={data} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+          <XAxis dataKey="label" tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+          <YAxis tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+          {tooltip}
+          <Line type="monotone" dataKey="value" stroke={COLORS[0]} strokeWidth={2} dot={false} />
+        </LineChart>
+      ) : (
+        <BarChart data={data} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+          <XAxis dataKey="label" tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+          <YAxis tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+          {tooltip}
+          <Bar dataKey="value" fill={COLORS[0]} radius={[4, 4, 0, 0]} />
+        </BarChart>
+      )}
+    </ResponsiveContainer>
+  )
+}
@@ -11,13 +11,21 @@ import {
   type ColumnFiltersState,
   type RowSelectionState,
   type PaginationState,
+  type VisibilityState,
 } from '@tanstack/react-table'
-import { ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react'
+import { ArrowUpDown, ChevronLeft, ChevronRight, Columns3 } from 'lucide-react'
 import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { cn } from '@/lib/utils'
 
 interface DataTableProps<TData, TValue> {
@@ -29,7 +37,14 @@ interface DataTableProps<TData, TValue> {
   onRowClick?: (row: TData) => void
   pageSize?: number
   defaultSorting?: SortingState
+  // Pass to control sorting from outside (e.g. a saved view); otherwise it's internal
+  sorting?: SortingState
   onSortingChange?: (sorting: SortingState) => void
+  // Sorting is applied by the server query; rows arrive already ordered
+  manualSorting?: boolean
+  // Passing onColumnVisibilityChange adds a column picker above the table
+  columnVisibility?: VisibilityState
+  onColumnVisibilityChange?: (visibility: VisibilityState) => void
   // Server-side pagination
   serverPagination?: {
     totalCount: number
@@ -47,18 +62,28 @@ export function DataTable<TData, TValue>({
   onRowClick,
   pageSize = 50,
   defaultSorting,
+  sorting: sortingProp,
   onSortingChange: onSortingChangeProp,
+  manualSorting = false,
+  columnVisibility = {},
+  onColumnVisibilityChange,
   serverPagination,
 }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = useState<SortingState>(defaultSorting ?? [])
+  const [internalSorting, setInternalSorting] = useState<SortingState>(defaultSorting ?? [])
+  const sorting = sortingProp ?? internalSorting
 
   const handleSortingChange = useCallback((updater: SortingState | ((prev: SortingState) => SortingState)) => {
-    setSorting(prev => {
-      const next = typeof updater === 'function' ? updater(prev) : updater
-      onSortingChangeProp?.(next)
-      return next
-    })
-  }, [onSortingChangeProp])
+    const next = typeof updater === 'function' ? updater(sorting) : updater
+    setInternalSorting(next)
+    onSortingChangeProp?.(next)
+  }, [sorting, onSortingChangeProp])
+
+  const handleColumnVisibilityChange = useCallback(
+    (updater: VisibilityState | ((prev: VisibilityState) => VisibilityState)) => {
+      onColumnVisibilityChange?.(typeof updater === 'function' ? updater(columnVisibility) : updater)
+    },
+    [columnVisibility, onColumnVisibilityChange]
+  )
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
   const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
   const [globalFilter, setGlobalFilter] = useState('')
@@ -75,13 +100,16 @@ export function DataTable<TData, TValue>({
     onColumnFiltersChange: setColumnFilters,
     onRowSelectionChange: enableSelection ? setRowSelection : undefined,
     onGlobalFilterChange: setGlobalFilter,
+    onColumnVisibilityChange: handleColumnVisibilityChange,
     onPaginationChange: serverPagination ? undefined : setPagination,
     globalFilterFn: 'includesString',
+    manualSorting,
     state: {
       sorting,
       columnFilters,
       rowSelection,
       globalFilter,
+      columnVisibility,
       ...(serverPagination ? {} : { pagination }),
     },
     enableRowSelection: enableSelection,
@@ -95,15 +123,47 @@ export function DataTable<TData, TValue>({
     ? serverPagination.page
     : table.getState().pagination.pageIndex
 
+  // Columns without a text header (expand toggles, row actions) aren't worth hiding
+  const hideableColumns = table
+    .getAllLeafColumns()
+    .filter((c) => c.getCanHide() && typeof c.columnDef.header === 'string' && c.columnDef.header)
+
   return (
     <div className="space-y-3">
-      {searchColumn !== undefined && (
-        <Input
-          placeholder={searchPlaceholder}
-          value={globalFilter}
-          onChange={(e) => setGlobalFilter(e.target.value)}
-          className="max-w-sm"
-        />
+      {(searchColumn !== undefined || onColumnVisibilityChange) && (
+        <div className="flex items-center gap-3">
+          {searchColumn !== undefined && (
+            <Input
+              placeholder={searchPlaceholder}
+              value={globalFilter}
+              onChange={(e) => setGlobalFilter(e.target.value)}
+              className="max-w-sm"
+            />
+          )}
+          {onColumnVisibilityChange && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="ml-auto">
+                  <Columns3 className="w-4 h-4 mr-2" />
+                  Columns
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+                {hideableColumns.map((column) => (
+                  <DropdownMenuCheckboxItem
+                    key={column.id}
+                    checked={column.getIsVisible()}
+                    onCheckedChange={(value) => column.toggleVisibility(!!value)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {column.columnDef.header as string}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
       )}
 
       <div className="rounded-lg border border-border overflow-hidden">
@@ -150,7 +210,7 @@ export function DataTable<TData, TValue>({
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={columns.length} className="h-24 text-center text-muted-foreground">
+                <TableCell colSpan={table.getVisibleLeafColumns().length} className="h-24 text-center text-muted-foreground">
                   No results.
                 </TableCell>
               </TableRow>
@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { GitMerge, Loader2, RefreshCw, X } from 'lucide-react'
+import {
+  LIKELY_DUPLICATE_SCORE,
+  describeSignals,
+  loadDuplicateCandidates,
+  runDuplicateScan,
+  setCandidateStatus,
+  type CandidateStatus,
+  type DuplicateCandidate,
+} from '@/lib/duplicate-scan'
+import type { MergeResort } from '@/lib/resort-merge'
+import { useAuditLog } from '@/hooks/use-audit-log'
+import { cn, formatDateTime } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface DuplicateQueueDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  canMerge: boolean
+  onMerge: (resorts: MergeResort[], candidateId: string) => void
+  // Pending count changed (dismissed, or a scan found new pairs)
+  onPendingChange: () => void
+}
+
+const STATUS_TABS: { value: CandidateStatus; label: string }[] = [
+  { value: 'pending', label: 'To review' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: 'merged', label: 'Merged' },
+]
+
+function ResortSummary({ resort }: { resort: MergeResort }) {
+  return (
+    <div className="min-w-0 space-y-0.5">
+      <p className="text-sm font-medium truncate">{resort.name}</p>
+      <p className="text-xs text-muted-foreground truncate">
+        {[resort.region, resort.country].filter(Boolean).join(', ') || '—'}
+      </p>
+      <p className="text-[11px] text-muted-foreground font-mono truncate">
+        {resort.lat != null && resort.lng != null ? `${resort.lat}, ${resort.lng}` : 'No coordinates'}
+      </p>
+      {typeof resort.website === 'string' && resort.website && (
+        <p className="text-[11px] text-muted-foreground truncate">{resort.website}</p>
+      )}
+    </div>
+  )
+}
+
+export function DuplicateQueueDialog({ open, onOpenChange, canMerge, onMerge, onPendingChange }: DuplicateQueueDialogProps) {
+  const { log } = useAuditLog()
+  const [status, setStatus] = useState<CandidateStatus>('pending')
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([])
+  const [loading, setLoading] = useState(false)
+  const [scanning, setScanning] = useState(false)
+
+  const loadCandidates = useCallback(async () => {
+    setLoading(true)
+    try {
+      setCandidates(await loadDuplicateCandidates(status))
+    } catch (err) {
+      toast.error(`Failed to load duplicates: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    if (open) loadCandidates()
+  }, [open, loadCandidates])
+
+  const handleScan = async () => {
+    setScanning(true)
+    try {
+      const result = await runDuplicateScan()
+      toast.success(
+        `Scanned ${result.resorts.toLocaleString()} resorts: ${result.new_candidates} new of ${result.candidates} candidate pairs`
+      )
+      onPendingChange()
+      if (status === 'pending') loadCandidates()
+    } catch (err) {
+      toast.error(`Scan failed: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const handleDismiss = async (candidate: DuplicateCandidate) => {
+    try {
+      await setCandidateStatus(candidate.id, 'dismissed')
+      log({
+        action: 'dismiss_duplicate',
+        entity_type: 'resort_duplicate',
+        entity_id: candidate.id,
+        details: {
+          resort_ids: [candidate.resort_a_id, candidate.resort_b_id],
+          resort_names: [candidate.resort_a?.name, candidate.resort_b?.name],
+          score: candidate.score,
+        },
+      })
+      setCandidates((prev) => prev.filter((c) => c.id !== candidate.id))
+      onPendingChange()
+    } catch (err) {
+      toast.error(`Failed to dismiss: ${err instanceof Error ? err.message : 'unknown error'}`)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            Resort pairs across the whole catalog, scored on name similarity (including transliteration), distance
+            and website domain. The scan runs nightly; dismissed pairs aren't raised again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-1">
+          {STATUS_TABS.map((tab) => (
+            <Button
+              key={tab.value}
+              variant={status === tab.value ? 'default' : 'outline'}
+              size="sm"
+              className="text-xs h-7"
+              onClick={() => setStatus(tab.value)}
+            >
+              {tab.label}
+            </Button>
+          ))}
+          <Button variant="outline" size="sm" className="text-xs h-7 ml-auto gap-1" onClick={handleScan} disabled={scanning}>
+            {scanning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+            Scan now
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-[60vh]">
+          {loading && candidates.length === 0 ? (
+            <div className="flex items-center justify-center py-10 text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-10">
+              {status === 'pending' ? 'No possible duplicates to review.' : 'Nothing here yet.'}
+            </p>
+          ) : (
+            <div className="space-y-3 pr-3">
+              {candidates.map((c) => (
+                <div key={c.id} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={cn(
+                        'text-xs font-semibold',
+                        c.score >= LIKELY_DUPLICATE_SCORE ? 'text-red-400' : 'text-yellow-400'
+                      )}
+                    >
+                      {Math.round(c.score * 100)}%
+                    </span>
+                    <div className="flex flex-wrap gap-1 flex-1">
+                      {describeSignals(c.signals).map((reason) => (
+                        <Badge key={reason} variant="secondary" className="text-[10px] font-normal">
+                          {reason}
+                        </Badge>
+                      ))}
+                    </div>
+                    {c.status === 'pending' ? (
+                      <>
+                        <Button variant="ghost" size="sm" className="h-7 text-xs gap-1" onClick={() => handleDismiss(c)}>
+                          <X className="w-3.5 h-3.5" />
+                          Not a duplicate
+                        </Button>
+                        {canMerge && c.resort_a && c.resort_b && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs gap-1"
+                            onClick={() => onMerge([c.resort_a!, c.resort_b!], c.id)}
+                          >
+                            <GitMerge className="w-3.5 h-3.5" />
+                            Merge
+                          </Button>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-[11px] text-muted-foreground">
+                        {c.reviewed_by ?? 'unknown'} · {c.reviewed_at ? formatDateTime(c.reviewed_at) : ''}
+                      </span>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {c.resort_a ? <ResortSummary resort={c.resort_a} /> : <p className="text-xs text-muted-foreground">Deleted</p>}
+                    {c.resort_b ? <ResortSummary resort={c.resort_b} /> : <p className="text-xs text-muted-foreground">Deleted</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,37 +1,96 @@
+import { useState } from 'react'
 import { Download } from 'lucide-react'
-import { exportToCsv, exportToJson } from '@/lib/utils'
+import { toast } from 'sonner'
+import { exportRows, type ExportFormat } from '@/lib/export'
+import { usePermissions } from '@/hooks/use-permissions'
 import { Button } from '@/components/ui/button'
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
+import { ExportDialog, type ExportSource } from './export-dialog'
+import { ScheduledExportsDialog } from './scheduled-exports-dialog'
 
 interface ExportButtonProps {
   data: Record<string, unknown>[]
   filename: string
+  // When set, the full server-side result set can be exported, not just `data`
+  source?: ExportSource
 }
 
-export function ExportButton({ data, filename }: ExportButtonProps) {
-  if (data.length === 0) return null
+export function ExportButton({ data, filename, source }: ExportButtonProps) {
+  const { can } = usePermissions()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [schedulesOpen, setSchedulesOpen] = useState(false)
+
+  if (data.length === 0 && !source) return null
+
+  const exportLoaded = (format: ExportFormat) => {
+    exportRows(data, format, filename).catch((err) =>
+      toast.error(`Export failed: ${err instanceof Error ? err.message : 'unknown error'}`)
+    )
+  }
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="outline" size="sm">
-          <Download className="w-4 h-4 mr-2" />
-          Export
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent>
-        <DropdownMenuItem onClick={() => exportToCsv(data, filename)}>
-          Export as CSV
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => exportToJson(data, filename)}>
-          Export as JSON
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {source && (
+            <>
+              <DropdownMenuItem onClick={() => setDialogOpen(true)}>
+                Export all matching rows...
+              </DropdownMenuItem>
+              {can('exports.schedule') && (
+                <DropdownMenuItem onClick={() => setSchedulesOpen(true)}>
+                  Scheduled exports...
+                </DropdownMenuItem>
+              )}
+              {data.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                    This page only
+                  </DropdownMenuLabel>
+                </>
+              )}
+            </>
+          )}
+          {data.length > 0 && (
+            <>
+              <DropdownMenuItem onClick={() => exportLoaded('csv')}>
+                Export as CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportLoaded('xlsx')}>
+                Export as XLSX
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportLoaded('json')}>
+                Export as JSON
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {source && (
+        <>
+          <ExportDialog open={dialogOpen} onOpenChange={setDialogOpen} source={source} filename={filename} />
+          <ScheduledExportsDialog
+            open={schedulesOpen}
+            onOpenChange={setSchedulesOpen}
+            table={source.query.table}
+          />
+        </>
+      )}
+    </>
   )
 }
@@ -0,0 +1,352 @@
+import { useState, useEffect, useRef } from 'react'
+import { supabase } from '@/lib/supabase'
+import { toast } from 'sonner'
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core'
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { GripVertical, Loader2 } from 'lucide-react'
+import { usePermissions } from '@/hooks/use-permissions'
+import { pageQuery, type ServerQuery } from '@/lib/server-query'
+import {
+  EXPORT_FORMATS,
+  EXPORT_FREQUENCIES,
+  columnsFromRows,
+  isAbortError,
+  nextRunAt,
+  streamExport,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportFrequency,
+} from '@/lib/export'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type Row = Record<string, unknown>
+
+// A page's full result set, as opposed to the rows it has loaded
+export interface ExportSource {
+  query: ServerQuery
+  totalCount?: number
+  // Same shaping the page applies for display; browser exports only
+  transform?: (rows: Row[]) => Row[] | Promise<Row[]>
+}
+
+interface ColumnChoice extends ExportColumn {
+  enabled: boolean
+}
+
+// Enough rows to see every column a sparse table fills in
+const SAMPLE_SIZE = 50
+
+function SortableColumnRow({
+  column,
+  onToggle,
+}: {
+  column: ColumnChoice
+  onToggle: (key: string) => void
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: column.key,
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : 1 }}
+      className="flex items-center gap-2 px-2 py-1.5 rounded-md bg-background border border-border"
+    >
+      <button
+        {...attributes}
+        {...listeners}
+        className="cursor-grab active:cursor-grabbing text-muted-foreground hover:text-foreground"
+      >
+        <GripVertical className="w-3.5 h-3.5" />
+      </button>
+      <label className="flex items-center gap-2 text-xs font-mono flex-1 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={column.enabled}
+          onChange={() => onToggle(column.key)}
+          className="accent-primary"
+        />
+        {column.key}
+      </label>
+    </div>
+  )
+}
+
+interface ExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  source: ExportSource
+  filename: string
+}
+
+export function ExportDialog({ open, onOpenChange, source, filename }: ExportDialogProps) {
+  const { can } = usePermissions()
+  const [columns, setColumns] = useState<ColumnChoice[]>([])
+  const [loadingColumns, setLoadingColumns] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [exporting, setExporting] = useState(false)
+  const [written, setWritten] = useState(0)
+  const [frequency, setFrequency] = useState<ExportFrequency>('weekly')
+  const [scheduling, setScheduling] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  )
+
+  // Offer every column the result set has, read from a sample of it
+  const { query, transform } = source
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setLoadingColumns(true)
+    setWritten(0)
+    ;(async () => {
+      try {
+        const { data, error } = await pageQuery(query, null, SAMPLE_SIZE)
+        if (error) throw new Error(error.message)
+        let rows = (data ?? []) as unknown as Row[]
+        if (transform) rows = await transform(rows)
+        if (cancelled) return
+        setColumns(columnsFromRows(rows).map((c) => ({ ...c, enabled: true })))
+      } catch (err) {
+        if (!cancelled) toast.error(`Failed to read columns: ${err instanceof Error ? err.message : 'unknown error'}`)
+      } finally {
+        if (!cancelled) setLoadingColumns(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [open, query, transform])
+
+  const selected = columns.filter((c) => c.enabled)
+
+  const toggleColumn = (key: string) => {
+    setColumns((prev) => prev.map((c) => (c.key === key ? { ...c, enabled: !c.enabled } : c)))
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event
+    if (!over || active.id === over.id) return
+    setColumns((prev) => {
+      const oldIndex = prev.findIndex((c) => c.key === active.id)
+      const newIndex = prev.findIndex((c) => c.key === over.id)
+      return arrayMove(prev, oldIndex, newIndex)
+    })
+  }
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setExporting(true)
+    setWritten(0)
+    try {
+      const count = await streamExport({
+        query: source.query,
+        columns: selected.map(({ key, label }) => ({ key, label })),
+        format,
+        filename,
+        transform: source.transform,
+        onProgress: setWritten,
+        signal: controller.signal,
+      })
+      toast.success(`Exported ${count.toLocaleString()} rows`)
+      onOpenChange(false)
+    } catch (err) {
+      if (!isAbortError(err)) {
+        toast.error(`Export failed: ${err instanceof Error ? err.message : 'unknown error'}`)
+      }
+    } finally {
+      abortRef.current = null
+      setExporting(false)
+    }
+  }
+
+  const handleSchedule = async () => {
+    setScheduling(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const { error } = await supabase.from('admin_scheduled_exports').insert({
+        name: `${filename} (${frequency})`,
+        query: source.query,
+        columns: selected.map(({ key, label }) => ({ key, label })),
+        format,
+        frequency,
+        enabled: true,
+        next_run_at: nextRunAt(frequency),
+        created_by: session?.user?.email ?? 'unknown',
+      })
+      if (error) throw new Error(error.message)
+      toast.success('Scheduled export saved')
+      onOpenChange(false)
+    } catch (err) {
+      toast.error(`Failed to schedule export: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setScheduling(false)
+    }
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) abortRef.current?.abort()
+    onOpenChange(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export All Matching Rows</DialogTitle>
+          <DialogDescription>
+            {source.totalCount !== undefined
+              ? `${source.totalCount.toLocaleString()} rows match the current filters.`
+              : 'Every row matching the current filters.'}{' '}
+            Pick and drag columns into the order you want.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>
+                Columns ({selected.length} of {columns.length})
+              </Label>
+              <div className="flex gap-2 text-xs">
+                <button
+                  className="text-primary hover:underline"
+                  onClick={() => setColumns((prev) => prev.map((c) => ({ ...c, enabled: true })))}
+                >
+                  All
+                </button>
+                <button
+                  className="text-primary hover:underline"
+                  onClick={() => setColumns((prev) => prev.map((c) => ({ ...c, enabled: false })))}
+                >
+                  None
+                </button>
+              </div>
+            </div>
+            {loadingColumns ? (
+              <div className="flex items-center justify-center py-8 text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+              </div>
+            ) : (
+              <ScrollArea className="h-64 rounded-lg border border-border p-2">
+                <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                  <SortableContext items={columns.map((c) => c.key)} strategy={verticalListSortingStrategy}>
+                    <div className="space-y-1">
+                      {columns.map((column) => (
+                        <SortableColumnRow key={column.key} column={column} onToggle={toggleColumn} />
+                      ))}
+                    </div>
+                  </SortableContext>
+                </DndContext>
+              </ScrollArea>
+            )}
+          </div>
+
+          {can('exports.schedule') && (
+            <div className="rounded-lg border border-border p-3 space-y-2">
+              <Label>Repeat on a schedule</Label>
+              {source.transform ? (
+                <p className="text-xs text-muted-foreground">
+                  This export joins data in the browser, so it can&apos;t run on a schedule.
+                </p>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Select value={frequency} onValueChange={(v) => setFrequency(v as ExportFrequency)}>
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPORT_FREQUENCIES.map((f) => (
+                        <SelectItem key={f.value} value={f.value}>
+                          {f.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSchedule}
+                    disabled={scheduling || selected.length === 0}
+                  >
+                    {scheduling && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save Schedule
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {exporting && (
+            <span className="text-xs text-muted-foreground sm:mr-auto">
+              {written.toLocaleString()}
+              {source.totalCount !== undefined && ` of ${source.totalCount.toLocaleString()}`} rows written
+            </span>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || loadingColumns || selected.length === 0}>
+            {exporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
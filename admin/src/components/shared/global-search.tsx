@@ -23,7 +23,7 @@ const ICONS = {
 interface GlobalSearchProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onNavigate: (page: PageId) => void
+  onNavigate: (page: PageId, id?: string | null) => void
 }
 
 export function GlobalSearch({ open, onOpenChange, onNavigate }: GlobalSearchProps) {
@@ -109,7 +109,7 @@ export function GlobalSearch({ open, onOpenChange, onNavigate }: GlobalSearchPro
                 <CommandItem
                   key={item.id}
                   onSelect={() => {
-                    onNavigate(item.pageId)
+                    onNavigate(item.pageId, item.id)
                     onOpenChange(false)
                   }}
                 >
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { Loader2 } from 'lucide-react'
+import { loadFailedInvocations, type EdgeFunctionInvocation } from '@/lib/edge-functions'
+import { formatDateTime } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface InvocationLogDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  functionName: string | null
+}
+
+export function InvocationLogDialog({ open, onOpenChange, functionName }: InvocationLogDialogProps) {
+  const [invocations, setInvocations] = useState<EdgeFunctionInvocation[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const loadInvocations = useCallback(async () => {
+    if (!functionName) return
+    setLoading(true)
+    try {
+      setInvocations(await loadFailedInvocations(functionName))
+    } catch (err) {
+      toast.error(`Failed to load invocations: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [functionName])
+
+  useEffect(() => {
+    if (open) loadInvocations()
+  }, [open, loadInvocations])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Recent Failures</DialogTitle>
+          <DialogDescription>
+            Latest failed invocations of <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{functionName}</code>.
+            Payloads are summarized by the function before they are logged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          {loading && invocations.length === 0 ? (
+            <div className="flex items-center justify-center py-10 text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : invocations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-10">No failed invocations logged.</p>
+          ) : (
+            <div className="space-y-3">
+              {invocations.map((inv) => (
+                <div key={inv.id} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-xs">
+                    <Badge variant="destructive" className="text-[10px]">
+                      {inv.status_code ?? 'error'}
+                    </Badge>
+                    <span className="text-muted-foreground flex-1">{formatDateTime(inv.invoked_at)}</span>
+                    {inv.duration_ms !== null && (
+                      <span className="text-muted-foreground">{inv.duration_ms} ms</span>
+                    )}
+                  </div>
+                  {inv.error && <p className="text-xs text-red-400 break-all">{inv.error}</p>}
+                  {inv.payload_summary && (
+                    <pre className="text-[11px] bg-muted rounded px-2 py-1.5 whitespace-pre-wrap break-all">
+                      {JSON.stringify(inv.payload_summary, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
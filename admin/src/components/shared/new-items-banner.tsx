@@ -0,0 +1,22 @@
+import { ArrowUp } from 'lucide-react'
+
+interface NewItemsBannerProps {
+  count: number
+  noun: string
+  onLoad: () => void
+}
+
+export function NewItemsBanner({ count, noun, onLoad }: NewItemsBannerProps) {
+  if (count <= 0) return null
+
+  return (
+    <button
+      onClick={onLoad}
+      className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-primary/40 bg-primary/10 text-primary text-sm hover:bg-primary/20 transition-colors"
+    >
+      <ArrowUp className="w-4 h-4" />
+      {count} new {noun}
+      {count === 1 ? '' : 's'} — click to load
+    </button>
+  )
+}
@@ -0,0 +1,19 @@
+import { Eye } from 'lucide-react'
+
+interface PresenceIndicatorProps {
+  viewers: string[]
+}
+
+export function PresenceIndicator({ viewers }: PresenceIndicatorProps) {
+  if (viewers.length === 0) return null
+
+  return (
+    <div
+      className="flex items-center gap-2 text-xs text-amber-400 bg-amber-400/10 rounded-md px-2 py-1 w-fit"
+      title={viewers.join(', ')}
+    >
+      <Eye className="w-3.5 h-3.5" />
+      {viewers.length === 1 ? `${viewers[0]} is also viewing` : `${viewers.length} other admins viewing`}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { AlertTriangle, XCircle } from 'lucide-react'
+import type { QualityIssue } from '@/lib/data-quality'
+import { cn } from '@/lib/utils'
+
+interface QualityIssuesProps {
+  issues: QualityIssue[]
+}
+
+// Failed data quality rules for one resort, errors first
+export function QualityIssues({ issues }: QualityIssuesProps) {
+  if (issues.length === 0) return null
+  const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+
+  return (
+    <ul className="space-y-1">
+      {sorted.map((issue) => (
+        <li
+          key={issue.rule}
+          className={cn(
+            'flex items-start gap-1.5 text-xs',
+            issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'
+          )}
+        >
+          {issue.severity === 'error' ? (
+            <XCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+          ) : (
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+          )}
+          <span>
+            <strong>{issue.field}:</strong> {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useMemo } from 'react'
+import { toast } from 'sonner'
+import { History, Loader2, Undo2 } from 'lucide-react'
+import { CHANGE_SOURCES, loadResortHistory, type ResortFieldChange } from '@/lib/resort-history'
+import { cn, formatDateTime, truncate } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface ResortHistoryTimelineProps {
+  resortId: string
+  // The values as currently edited; restoring a value that's already there is a no-op
+  current: Record<string, unknown>
+  canRestore: boolean
+  onRestore: (change: ResortFieldChange) => void
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return truncate(String(value), 60)
+}
+
+export function ResortHistoryTimeline({ resortId, current, canRestore, onRestore }: ResortHistoryTimelineProps) {
+  const [changes, setChanges] = useState<ResortFieldChange[]>([])
+  const [loading, setLoading] = useState(true)
+  const [field, setField] = useState('all')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setField('all')
+    loadResortHistory(resortId)
+      .then((result) => !cancelled && setChanges(result))
+      .catch((err) => toast.error(`Failed to load history: ${err instanceof Error ? err.message : 'unknown error'}`))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [resortId])
+
+  const fields = useMemo(() => [...new Set(changes.map((c) => c.field))].sort(), [changes])
+  const visible = field === 'all' ? changes : changes.filter((c) => c.field === field)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6 text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+      </div>
+    )
+  }
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground py-2">No recorded changes yet.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <Select value={field} onValueChange={setField}>
+        <SelectTrigger className="h-7 w-48 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All fields</SelectItem>
+          {fields.map((f) => (
+            <SelectItem key={f} value={f}>
+              {f}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <ol className="relative border-l border-border ml-1.5 space-y-3">
+        {visible.map((c) => {
+          const source = CHANGE_SOURCES[c.source] ?? CHANGE_SOURCES.manual
+          const isCurrent = JSON.stringify(current[c.field] ?? null) === JSON.stringify(c.old_value ?? null)
+          return (
+            <li key={c.id} className="pl-4 relative">
+              <History className="w-3 h-3 text-muted-foreground absolute -left-1.5 top-0.5 bg-background" />
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-mono text-[11px]">{c.field}</span>
+                <Badge className={cn('border-0 px-1.5 py-0 text-[10px]', source.className)}>{source.label}</Badge>
+                <span className="text-[11px] text-muted-foreground">
+                  {c.changed_by} · {formatDateTime(c.changed_at)}
+                </span>
+                {canRestore && !isCurrent && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-[11px] gap-1 ml-auto"
+                    onClick={() => onRestore(c)}
+                    title="Put the value from before this change back in the form"
+                  >
+                    <Undo2 className="w-3 h-3" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs mt-0.5">
+                <span className="text-muted-foreground line-through">{formatValue(c.old_value)}</span>
+                {' → '}
+                <span>{formatValue(c.new_value)}</span>
+              </p>
+              {c.source_ref && <p className="text-[11px] text-muted-foreground truncate">from {c.source_ref}</p>}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,321 @@
+import { useState, useEffect, useRef, useMemo } from 'react'
+import { AlertTriangle, Crosshair, Minus, Plus, XCircle } from 'lucide-react'
+import {
+  COUNTRY_BOUNDS,
+  NEARBY_KM,
+  TILE_SIZE,
+  checkCoordinates,
+  loadNearbyResorts,
+  project,
+  roundCoordinate,
+  unproject,
+  validCoordinates,
+  viewGrid,
+  viewOrigin,
+  viewTiles,
+  type NearbyResort,
+} from '@/lib/geo'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+
+interface ResortMapPickerProps {
+  lat: number | null
+  lng: number | null
+  countryCode: string | null
+  // The resort being edited, so it isn't listed as its own neighbour
+  excludeId?: string | null
+  onChange: (lat: number, lng: number) => void
+  height?: number
+}
+
+const MIN_ZOOM = 1
+const MAX_ZOOM = 16
+// Zoom used when jumping to a pin; about one valley across
+const PIN_ZOOM = 11
+// Pointer travel (px) below which a press counts as a click, not a drag
+const CLICK_SLOP = 4
+
+type Drag = { kind: 'pan' | 'pin'; startX: number; startY: number; center: { x: number; y: number }; moved: boolean }
+
+function boxCenter(countryCode: string | null): { lat: number; lng: number } | null {
+  const box = countryCode ? COUNTRY_BOUNDS[countryCode.trim().toUpperCase()]?.[0] : undefined
+  return box ? { lat: (box[0] + box[2]) / 2, lng: (box[1] + box[3]) / 2 } : null
+}
+
+// Slippy map for placing a resort pin. Drag the map to pan, drag the pin (or
+// click anywhere) to move it. Draws tiles when MAP_TILE_URL is set and a
+// lat/lng grid otherwise, plus the stated country's bounds and nearby resorts.
+export function ResortMapPicker({ lat, lng, countryCode, excludeId = null, onChange, height = 260 }: ResortMapPickerProps) {
+  const hasPin = validCoordinates(lat, lng)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<Drag | null>(null)
+  const [width, setWidth] = useState(480)
+  const [zoom, setZoom] = useState(hasPin ? PIN_ZOOM : 4)
+  const [center, setCenter] = useState(() =>
+    hasPin ? { lat: lat!, lng: lng! } : boxCenter(countryCode) ?? { lat: 46, lng: 10 }
+  )
+  const [nearby, setNearby] = useState<NearbyResort[]>([])
+
+  useEffect(() => {
+    const el = containerRef.current
+    if (!el) return
+    const observer = new ResizeObserver(() => setWidth(el.clientWidth))
+    observer.observe(el)
+    setWidth(el.clientWidth)
+    return () => observer.disconnect()
+  }, [])
+
+  const origin = useMemo(() => viewOrigin(center, zoom, width, height), [center, zoom, width, height])
+
+  const toScreen = (pLat: number, pLng: number) => {
+    const p = project(pLat, pLng, zoom)
+    return { x: p.x - origin.x, y: p.y - origin.y }
+  }
+
+  const pin = hasPin ? toScreen(lat!, lng!) : null
+
+  // Typed coordinates can land off-screen; follow them
+  useEffect(() => {
+    if (!hasPin || dragRef.current) return
+    const p = project(lat!, lng!, zoom)
+    const x = p.x - origin.x
+    const y = p.y - origin.y
+    if (x < 0 || x > width || y < 0 || y > height) setCenter({ lat: lat!, lng: lng! })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lat, lng])
+
+  // Neighbours are looked up once the pin settles
+  useEffect(() => {
+    if (!hasPin) {
+      setNearby([])
+      return
+    }
+    // A slow lookup for an old pin must not overwrite the current one's
+    let cancelled = false
+    const timer = setTimeout(() => {
+      loadNearbyResorts(lat!, lng!, excludeId)
+        .then((resorts) => {
+          if (!cancelled) setNearby(resorts)
+        })
+        .catch((err) => console.error('Nearby resorts fetch error:', err))
+    }, 400)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [hasPin, lat, lng, excludeId])
+
+  const issues = hasPin ? checkCoordinates(lat!, lng!, countryCode) : []
+
+  const pointerAt = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const placePin = (x: number, y: number) => {
+    const p = unproject(origin.x + x, origin.y + y, zoom)
+    onChange(roundCoordinate(p.lat), roundCoordinate(((p.lng + 540) % 360) - 180))
+  }
+
+  const handlePointerDown = (e: React.PointerEvent, kind: Drag['kind']) => {
+    e.stopPropagation()
+    containerRef.current!.setPointerCapture(e.pointerId)
+    const c = project(center.lat, center.lng, zoom)
+    dragRef.current = { kind, startX: e.clientX, startY: e.clientY, center: c, moved: false }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const dx = e.clientX - drag.startX
+    const dy = e.clientY - drag.startY
+    if (!drag.moved && Math.hypot(dx, dy) < CLICK_SLOP) return
+    drag.moved = true
+    if (drag.kind === 'pan') {
+      setCenter(unproject(drag.center.x - dx, drag.center.y - dy, zoom))
+    } else {
+      const { x, y } = pointerAt(e)
+      placePin(x, y)
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (drag && !drag.moved && drag.kind === 'pan') {
+      const { x, y } = pointerAt(e)
+      placePin(x, y)
+    }
+  }
+
+  const changeZoom = (delta: number) => setZoom((z) => Math.min(Math.max(z + delta, MIN_ZOOM), MAX_ZOOM))
+
+  const tiles = useMemo(() => viewTiles(zoom, origin, width, height), [zoom, origin, width, height])
+  const grid = useMemo(() => viewGrid(zoom, origin, width, height), [zoom, origin, width, height])
+
+  const countryBoxes = countryCode ? COUNTRY_BOUNDS[countryCode.trim().toUpperCase()] ?? [] : []
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden rounded-lg border border-border bg-muted/40 select-none touch-none cursor-grab active:cursor-grabbing"
+        style={{ height }}
+        onPointerDown={(e) => handlePointerDown(e, 'pan')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onDoubleClick={() => changeZoom(1)}
+      >
+        {tiles.map((t) => (
+          <img
+            key={t.key}
+            src={t.url}
+            alt=""
+            draggable={false}
+            className="absolute pointer-events-none"
+            style={{ left: t.left, top: t.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          {grid && (
+            <g className="text-muted-foreground" stroke="currentColor" strokeOpacity={0.2}>
+              {grid.lngs.map((g) => {
+                const x = toScreen(0, g).x
+                return (
+                  <g key={`lng${g}`}>
+                    <line x1={x} x2={x} y1={0} y2={height} />
+                    <text x={x + 3} y={height - 4} fontSize={9} fill="currentColor" stroke="none" fillOpacity={0.7}>
+                      {g.toFixed(grid.decimals)}°
+                    </text>
+                  </g>
+                )
+              })}
+              {grid.lats.map((g) => {
+                const y = toScreen(g, 0).y
+                return (
+                  <g key={`lat${g}`}>
+                    <line x1={0} x2={width} y1={y} y2={y} />
+                    <text x={3} y={y - 3} fontSize={9} fill="currentColor" stroke="none" fillOpacity={0.7}>
+                      {g.toFixed(grid.decimals)}°
+                    </text>
+                  </g>
+                )
+              })}
+            </g>
+          )}
+
+          {countryBoxes.map((box, i) => {
+            const a = toScreen(box[2], box[1])
+            const b = toScreen(box[0], box[3])
+            return (
+              <rect
+                key={i}
+                x={a.x}
+                y={a.y}
+                width={b.x - a.x}
+                height={b.y - a.y}
+                fill="#4298D2"
+                fillOpacity={0.04}
+                stroke="#4298D2"
+                strokeOpacity={0.6}
+                strokeDasharray="4 4"
+              />
+            )
+          })}
+
+          {nearby.map((r) => {
+            const p = toScreen(r.lat, r.lng)
+            return (
+              <g key={r.id}>
+                <circle cx={p.x} cy={p.y} r={5} fill="#f59e0b" fillOpacity={0.8} stroke="white" strokeWidth={1} />
+                <text x={p.x + 7} y={p.y + 3} fontSize={10} fill="#f59e0b">
+                  {r.name}
+                </text>
+              </g>
+            )
+          })}
+        </svg>
+
+        {pin && (
+          <div
+            className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-primary border-2 border-white shadow cursor-move"
+            style={{ left: pin.x, top: pin.y }}
+            onPointerDown={(e) => handlePointerDown(e, 'pin')}
+          />
+        )}
+
+        <div className="absolute top-2 right-2 flex flex-col gap-1" onPointerDown={(e) => e.stopPropagation()}>
+          <Button type="button" variant="secondary" size="icon" className="h-7 w-7" onClick={() => changeZoom(1)}>
+            <Plus className="w-3.5 h-3.5" />
+          </Button>
+          <Button type="button" variant="secondary" size="icon" className="h-7 w-7" onClick={() => changeZoom(-1)}>
+            <Minus className="w-3.5 h-3.5" />
+          </Button>
+          {hasPin && (
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => {
+                setCenter({ lat: lat!, lng: lng! })
+                setZoom(PIN_ZOOM)
+              }}
+            >
+              <Crosshair className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
+
+        {!hasPin && (
+          <p className="absolute bottom-2 left-1/2 -translate-x-1/2 text-xs text-muted-foreground bg-card/80 rounded px-2 py-0.5">
+            Click the map to place the resort
+          </p>
+        )}
+      </div>
+
+      {issues.map((issue, i) => (
+        <div
+          key={i}
+          className={cn(
+            'flex items-center gap-2 text-xs',
+            issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'
+          )}
+        >
+          {issue.severity === 'error' ? <XCircle className="w-3.5 h-3.5 shrink-0" /> : <AlertTriangle className="w-3.5 h-3.5 shrink-0" />}
+          <span className="flex-1">{issue.message}</span>
+          {issue.suggestion && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => onChange(issue.suggestion!.lat, issue.suggestion!.lng)}
+            >
+              Use it
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {nearby.length > 0 && (
+        <div className="text-xs text-yellow-400 space-y-0.5">
+          <p className="flex items-center gap-2">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+            {nearby.length === 1 ? 'Another resort is' : `${nearby.length} resorts are`} within {NEARBY_KM} km — check
+            for a duplicate:
+          </p>
+          <ul className="pl-6 text-muted-foreground">
+            {nearby.slice(0, 5).map((r) => (
+              <li key={r.id}>
+                {r.name}
+                {r.country && `, ${r.country}`} · {r.distance_km.toFixed(1)} km
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
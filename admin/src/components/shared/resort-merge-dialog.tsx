@@ -0,0 +1,298 @@
+import { useState, useEffect, useMemo } from 'react'
+import { toast } from 'sonner'
+import { Crown, GitMerge, Loader2, Search, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import {
+  MERGE_FIELDS,
+  RESORT_REFERENCES,
+  SEASON_MERGE_FIELDS,
+  countReferences,
+  defaultFieldSources,
+  isSeasonMergeField,
+  mergedFields,
+  referenceKey,
+  type MergeField,
+  type MergeResort,
+  type ReferenceCounts,
+} from '@/lib/resort-merge'
+import { calendarOf, describeCalendar } from '@/lib/seasons'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface ResortMergeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Resorts to start with; more can be added by searching
+  resorts: MergeResort[]
+  merging: boolean
+  onMerge: (survivor: MergeResort, merged: MergeResort[], fields: Partial<Record<MergeField, unknown>>) => void
+}
+
+const RESORT_COLUMNS = ['id', ...MERGE_FIELDS].join(', ')
+
+// The season group is compared and shown as the calendar it amounts to
+function fieldValue(r: MergeResort, field: MergeField): unknown {
+  return field === 'season_calendar' ? calendarOf(r) : r[field]
+}
+
+function formatValue(value: unknown, field?: MergeField): string {
+  if (field === 'season_calendar') return describeCalendar(value as ReturnType<typeof calendarOf>)
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+export function ResortMergeDialog({ open, onOpenChange, resorts, merging, onMerge }: ResortMergeDialogProps) {
+  const [candidates, setCandidates] = useState<MergeResort[]>([])
+  const [survivorId, setSurvivorId] = useState<string | null>(null)
+  const [sources, setSources] = useState<Record<MergeField, string> | null>(null)
+  const [counts, setCounts] = useState<Record<string, ReferenceCounts>>({})
+  const [searchInput, setSearchInput] = useState('')
+  const [searchResults, setSearchResults] = useState<MergeResort[]>([])
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setCandidates(resorts)
+    setSurvivorId(resorts[0]?.id ?? null)
+    setSearchInput('')
+    setSearchResults([])
+  }, [open, resorts])
+
+  // Field picks start over whenever the set or the survivor changes
+  useEffect(() => {
+    const survivor = candidates.find((r) => r.id === survivorId)
+    setSources(survivor ? defaultFieldSources(survivor, candidates.filter((r) => r.id !== survivorId)) : null)
+  }, [candidates, survivorId])
+
+  useEffect(() => {
+    if (!open || candidates.length === 0) return
+    let cancelled = false
+    countReferences(candidates.map((r) => r.id))
+      .then((result) => !cancelled && setCounts(result))
+      .catch((err) => toast.error(`Failed to count references: ${err instanceof Error ? err.message : 'unknown error'}`))
+    return () => {
+      cancelled = true
+    }
+  }, [open, candidates])
+
+  const handleSearch = async () => {
+    const term = searchInput.trim()
+    if (!term) return
+    setSearching(true)
+    const { data, error } = await supabase
+      .from('resorts')
+      .select(RESORT_COLUMNS)
+      .ilike('name', `%${term}%`)
+      .order('name')
+      .limit(8)
+    setSearching(false)
+    if (error) {
+      toast.error(`Search failed: ${error.message}`)
+      return
+    }
+    setSearchResults(((data ?? []) as unknown as MergeResort[]).filter((r) => !candidates.some((c) => c.id === r.id)))
+  }
+
+  const addCandidate = (resort: MergeResort) => {
+    setCandidates((prev) => [...prev, resort])
+    setSearchResults((prev) => prev.filter((r) => r.id !== resort.id))
+  }
+
+  const removeCandidate = (id: string) => {
+    setCandidates((prev) => prev.filter((r) => r.id !== id))
+    if (survivorId === id) setSurvivorId(candidates.find((r) => r.id !== id)?.id ?? null)
+  }
+
+  const survivor = candidates.find((r) => r.id === survivorId) ?? null
+  const merged = candidates.filter((r) => r.id !== survivorId)
+
+  // Only fields where the resorts disagree need a decision
+  const differing = useMemo(
+    () =>
+      MERGE_FIELDS.filter(
+        (field) =>
+          (field === 'season_calendar' || !isSeasonMergeField(field)) &&
+          new Set(candidates.map((r) => JSON.stringify(fieldValue(r, field) ?? null))).size > 1
+      ),
+    [candidates]
+  )
+
+  const movedRows = merged.reduce(
+    (sum, r) => sum + Object.values(counts[r.id] ?? {}).reduce((a, b) => a + b, 0),
+    0
+  )
+
+  const handleMerge = () => {
+    if (!survivor || !sources || merged.length === 0) return
+    onMerge(survivor, merged, mergedFields(survivor, candidates, sources))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Merge Resorts</DialogTitle>
+          <DialogDescription>
+            Pick the resort to keep and which value to keep for each field. Visits, wishlists, photo submissions,
+            approved submissions and home resorts pointing at the others move to it, then the others are deleted.
+            The merge can be undone from Activity.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-3">
+          <div className="space-y-4 py-1">
+            <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.max(candidates.length, 1)}, minmax(0, 1fr))` }}>
+              {candidates.map((r) => {
+                const keep = r.id === survivorId
+                return (
+                  <div
+                    key={r.id}
+                    className={cn(
+                      'rounded-lg border p-3 space-y-2 cursor-pointer',
+                      keep ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+                    )}
+                    onClick={() => setSurvivorId(r.id)}
+                  >
+                    <div className="flex items-start gap-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{r.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{r.country ?? '—'}</p>
+                      </div>
+                      {keep ? (
+                        <span className="flex items-center gap-1 text-[10px] text-primary font-medium">
+                          <Crown className="w-3 h-3" />
+                          Keep
+                        </span>
+                      ) : candidates.length > 2 ? (
+                        <button
+                          className="text-muted-foreground hover:text-foreground"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            removeCandidate(r.id)
+                          }}
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      ) : null}
+                    </div>
+                    <div className="text-[11px] text-muted-foreground space-y-0.5">
+                      {RESORT_REFERENCES.map((ref) => (
+                        <div key={referenceKey(ref)} className="flex justify-between">
+                          <span>{ref.label}</span>
+                          <span>{counts[r.id]?.[referenceKey(ref)] ?? '…'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                  placeholder="Find another resort to include..."
+                  className="h-8 text-xs"
+                />
+                <Button variant="outline" size="sm" onClick={handleSearch} disabled={searching}>
+                  {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                </Button>
+              </div>
+              {searchResults.length > 0 && (
+                <div className="rounded-md border border-border divide-y divide-border">
+                  {searchResults.map((r) => (
+                    <button
+                      key={r.id}
+                      className="w-full text-left text-xs px-3 py-1.5 hover:bg-muted/50"
+                      onClick={() => addCandidate(r)}
+                    >
+                      {r.name} <span className="text-muted-foreground">· {r.country ?? '—'}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {sources && (
+              <div className="rounded-lg border border-border overflow-hidden">
+                <table className="w-full text-xs table-fixed">
+                  <thead>
+                    <tr className="bg-muted/50 text-muted-foreground">
+                      <th className="text-left font-medium px-3 py-2 w-36">Field</th>
+                      {candidates.map((r) => (
+                        <th key={r.id} className="text-left font-medium px-3 py-2 truncate">
+                          {r.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {differing.map((field) => (
+                      <tr key={field}>
+                        <td className="px-3 py-1.5 font-mono text-[11px] text-muted-foreground">{field}</td>
+                        {candidates.map((r) => (
+                          <td
+                            key={r.id}
+                            className={cn(
+                              'px-3 py-1.5 cursor-pointer truncate',
+                              sources[field] === r.id ? 'bg-primary/15 text-foreground' : 'text-muted-foreground hover:bg-muted/50'
+                            )}
+                            title={formatValue(fieldValue(r, field), field)}
+                            onClick={() =>
+                              setSources((prev) => {
+                                if (!prev) return prev
+                                const picked = field === 'season_calendar' ? SEASON_MERGE_FIELDS : [field]
+                                return { ...prev, ...Object.fromEntries(picked.map((f) => [f, r.id])) }
+                              })
+                            }
+                          >
+                            {formatValue(fieldValue(r, field), field)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-[11px] text-muted-foreground px-3 py-2 border-t border-border">
+                  {differing.length === 0
+                    ? 'All fields match.'
+                    : `${MERGE_FIELDS.length - SEASON_MERGE_FIELDS.length + 1 - differing.length} matching fields hidden. Click a value to keep it.`}
+                </p>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="items-center">
+          {survivor && merged.length > 0 && (
+            <p className="text-xs text-muted-foreground mr-auto">
+              Deletes {merged.length} resort{merged.length === 1 ? '' : 's'} and moves {movedRows.toLocaleString()} rows
+              to {survivor.name}
+            </p>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={merging || !survivor || merged.length === 0}>
+            {merging ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitMerge className="w-4 h-4 mr-2" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,235 @@
+import { useState, useEffect, useRef, useMemo } from 'react'
+import { Minus, Plus, RotateCcw } from 'lucide-react'
+import { COUNTRY_BOUNDS, TILE_SIZE, project, unproject, viewGrid, viewOrigin, viewTiles } from '@/lib/geo'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+
+export interface WorldMapPoint {
+  id: string
+  name: string
+  country: string | null
+  lat: number
+  lng: number
+  visits: number
+  color: string
+}
+
+interface ResortWorldMapProps {
+  points: WorldMapPoint[]
+  height?: number
+}
+
+const MAX_ZOOM = 10
+// Ski country sits between roughly 45°S and 70°N; frame that, not the poles
+const HOME = { lat: 25, lng: 10 }
+const MIN_RADIUS = 3
+const MAX_RADIUS = 14
+
+// Smallest zoom at which one copy of the world fills the width
+function fitZoom(width: number): number {
+  return Math.max(0, Math.ceil(Math.log2(width / TILE_SIZE)))
+}
+
+// Read-only map of resorts, one dot per resort with its area scaled to the
+// visit count. Same basemap as the resort picker: tiles when MAP_TILE_URL is
+// set and a lat/lng grid otherwise, where the ski countries' bounds are drawn
+// too so there's something to find a dot by. Drag to pan, buttons or
+// double-click to zoom.
+export function ResortWorldMap({ points, height = 360 }: ResortWorldMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ startX: number; startY: number; center: { x: number; y: number } } | null>(null)
+  const [width, setWidth] = useState(640)
+  // null follows the container width until the admin zooms
+  const [zoomOverride, setZoomOverride] = useState<number | null>(null)
+  const [center, setCenter] = useState(HOME)
+  const [hovered, setHovered] = useState<WorldMapPoint | null>(null)
+
+  useEffect(() => {
+    const el = containerRef.current
+    if (!el) return
+    const observer = new ResizeObserver(() => setWidth(el.clientWidth))
+    observer.observe(el)
+    setWidth(el.clientWidth)
+    return () => observer.disconnect()
+  }, [])
+
+  const minZoom = fitZoom(width)
+  const zoom = zoomOverride ?? minZoom
+  const origin = useMemo(() => viewOrigin(center, zoom, width, height), [center, zoom, width, height])
+  const tiles = useMemo(() => viewTiles(zoom, origin, width, height), [zoom, origin, width, height])
+  const grid = useMemo(() => viewGrid(zoom, origin, width, height), [zoom, origin, width, height])
+
+  // Labelled only once a box is wide enough to hold its code
+  const countryBoxes = useMemo(() => {
+    if (!grid) return []
+    const worldSize = TILE_SIZE * 2 ** zoom
+    const list: { key: string; code: string; x: number; y: number; w: number; h: number; labelled: boolean }[] = []
+    for (const [code, boxes] of Object.entries(COUNTRY_BOUNDS)) {
+      boxes.forEach(([minLat, minLng, maxLat, maxLng], i) => {
+        const a = project(maxLat, minLng, zoom)
+        const b = project(minLat, maxLng, zoom)
+        const w = b.x - a.x
+        const h = b.y - a.y
+        for (let copy = Math.ceil((origin.x - b.x) / worldSize); a.x + copy * worldSize - origin.x <= width; copy++) {
+          list.push({ key: `${code}${i}:${copy}`, code, x: a.x + copy * worldSize - origin.x, y: a.y - origin.y, w, h, labelled: w >= 28 && h >= 14 })
+        }
+      })
+    }
+    return list
+  }, [grid, zoom, origin, width])
+
+  const maxVisits = useMemo(() => Math.max(1, ...points.map((p) => p.visits)), [points])
+
+  // Each point once per visible copy of the world, so dots follow the tiles
+  // when panning across the antimeridian
+  const dots = useMemo(() => {
+    const worldSize = TILE_SIZE * 2 ** zoom
+    const list: { key: string; point: WorldMapPoint; x: number; y: number; r: number }[] = []
+    for (const point of points) {
+      const p = project(point.lat, point.lng, zoom)
+      const r = MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * Math.sqrt(point.visits / maxVisits)
+      const y = p.y - origin.y
+      if (y < -r || y > height + r) continue
+      for (let copy = Math.ceil((origin.x - p.x - r) / worldSize); p.x + copy * worldSize - origin.x <= width + r; copy++) {
+        list.push({ key: `${point.id}:${copy}`, point, x: p.x + copy * worldSize - origin.x, y, r })
+      }
+    }
+    // Big dots underneath, so small resorts stay hoverable
+    return list.sort((a, b) => b.r - a.r)
+  }, [points, zoom, origin, width, height, maxVisits])
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    containerRef.current!.setPointerCapture(e.pointerId)
+    dragRef.current = { startX: e.clientX, startY: e.clientY, center: project(center.lat, center.lng, zoom) }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    setHovered(null)
+    const next = unproject(drag.center.x - (e.clientX - drag.startX), drag.center.y - (e.clientY - drag.startY), zoom)
+    setCenter({ lat: next.lat, lng: ((next.lng + 540) % 360) - 180 })
+  }
+
+  const changeZoom = (delta: number) => setZoomOverride(Math.min(Math.max(zoom + delta, minZoom), MAX_ZOOM))
+
+  const reset = () => {
+    setZoomOverride(null)
+    setCenter(HOME)
+  }
+
+  const hoveredDot = hovered ? dots.find((d) => d.point.id === hovered.id) : undefined
+  // Label above the dot, or below it when it's near the top edge
+  const labelBelow = !!hoveredDot && hoveredDot.y < 70
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative overflow-hidden rounded-lg border border-border bg-muted/40 select-none touch-none cursor-grab active:cursor-grabbing"
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => (dragRef.current = null)}
+      onPointerLeave={() => setHovered(null)}
+      onDoubleClick={() => changeZoom(1)}
+    >
+      {tiles.map((t) => (
+        <img
+          key={t.key}
+          src={t.url}
+          alt=""
+          draggable={false}
+          className="absolute pointer-events-none"
+          style={{ left: t.left, top: t.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      <svg className="absolute inset-0" width={width} height={height}>
+        {grid && (
+          <g className="text-muted-foreground pointer-events-none" stroke="currentColor" strokeOpacity={0.2}>
+            {grid.lngs.map((g) => {
+              const x = project(0, g, zoom).x - origin.x
+              return (
+                <g key={`lng${g}`}>
+                  <line x1={x} x2={x} y1={0} y2={height} />
+                  <text x={x + 3} y={height - 4} fontSize={9} fill="currentColor" stroke="none" fillOpacity={0.7}>
+                    {g.toFixed(grid.decimals)}°
+                  </text>
+                </g>
+              )
+            })}
+            {grid.lats.map((g) => {
+              const y = project(g, 0, zoom).y - origin.y
+              return (
+                <g key={`lat${g}`}>
+                  <line x1={0} x2={width} y1={y} y2={y} strokeOpacity={g === 0 ? 0.5 : undefined} />
+                  <text x={3} y={y - 3} fontSize={9} fill="currentColor" stroke="none" fillOpacity={0.7}>
+                    {g.toFixed(grid.decimals)}°
+                  </text>
+                </g>
+              )
+            })}
+          </g>
+        )}
+
+        {countryBoxes.length > 0 && (
+          <g className="text-muted-foreground pointer-events-none">
+            {countryBoxes.map((c) => (
+              <g key={c.key}>
+                <rect x={c.x} y={c.y} width={c.w} height={c.h} fill="currentColor" fillOpacity={0.06} stroke="currentColor" strokeOpacity={0.3} />
+                {c.labelled && (
+                  <text x={c.x + 3} y={c.y + 11} fontSize={9} fill="currentColor" fillOpacity={0.8}>
+                    {c.code}
+                  </text>
+                )}
+              </g>
+            ))}
+          </g>
+        )}
+
+        {dots.map((d) => (
+          <circle
+            key={d.key}
+            cx={d.x}
+            cy={d.y}
+            r={d.r}
+            fill={d.point.color}
+            fillOpacity={0.6}
+            stroke="white"
+            strokeWidth={hovered?.id === d.point.id ? 2 : 0.5}
+            onPointerEnter={() => !dragRef.current && setHovered(d.point)}
+            onPointerLeave={() => setHovered(null)}
+          />
+        ))}
+      </svg>
+
+      {hoveredDot && (
+        <div
+          className={cn(
+            'absolute pointer-events-none bg-card border border-border rounded-lg px-3 py-2 shadow-lg text-sm whitespace-nowrap -translate-x-1/2',
+            !labelBelow && '-translate-y-full'
+          )}
+          style={{ left: hoveredDot.x, top: labelBelow ? hoveredDot.y + hoveredDot.r + 4 : hoveredDot.y - hoveredDot.r - 4 }}
+        >
+          <p className="font-medium">{hoveredDot.point.name}</p>
+          <p className="text-muted-foreground">
+            {hoveredDot.point.country ? `${hoveredDot.point.country} · ` : ''}
+            {hoveredDot.point.visits} visits
+          </p>
+        </div>
+      )}
+
+      <div className="absolute top-2 right-2 flex flex-col gap-1" onPointerDown={(e) => e.stopPropagation()}>
+        <Button type="button" variant="secondary" size="icon" className="h-7 w-7" onClick={() => changeZoom(1)}>
+          <Plus className="w-3.5 h-3.5" />
+        </Button>
+        <Button type="button" variant="secondary" size="icon" className="h-7 w-7" onClick={() => changeZoom(-1)}>
+          <Minus className="w-3.5 h-3.5" />
+        </Button>
+        <Button type="button" variant="secondary" size="icon" className="h-7 w-7" onClick={reset}>
+          <RotateCcw className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import { Bookmark, Check, Link2, Loader2, RotateCcw, Save, Trash2, Users } from 'lucide-react'
+import type { SavedViewsControls } from '@/hooks/use-saved-views'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface SavedViewsMenuProps {
+  views: SavedViewsControls
+}
+
+export function SavedViewsMenu({ views }: SavedViewsMenuProps) {
+  const { mine, shared, activeView, modified, isOwner } = views
+  const [saveOpen, setSaveOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [share, setShare] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [confirmShare, setConfirmShare] = useState(false)
+
+  const openSave = () => {
+    setName('')
+    setShare(false)
+    setSaveOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+    setSaving(true)
+    const ok = await views.saveView(name, share)
+    setSaving(false)
+    if (ok) setSaveOpen(false)
+  }
+
+  const handleCopyLink = () => {
+    if (!activeView) return
+    if (activeView.shared) views.copyLink(activeView.id)
+    else setConfirmShare(true)
+  }
+
+  const renderView = (view: SavedViewsControls['mine'][number]) => (
+    <DropdownMenuItem key={view.id} onClick={() => views.selectView(view.id)} className="gap-2">
+      <Check className={cn('w-3.5 h-3.5', activeView?.id !== view.id && 'invisible')} />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.shared && <Users className="w-3 h-3 text-muted-foreground" />}
+    </DropdownMenuItem>
+  )
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-border text-muted-foreground text-sm hover:text-foreground hover:border-primary/50 transition-colors max-w-[220px]">
+            <Bookmark className="w-4 h-4 shrink-0" />
+            <span className="truncate">{activeView?.name ?? 'Views'}</span>
+            {modified && (activeView || mine.length + shared.length > 0) && (
+              <span className="w-1.5 h-1.5 rounded-full bg-amber-400 shrink-0" title="Filters differ from the view" />
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {mine.length > 0 && (
+            <>
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {mine.map(renderView)}
+            </>
+          )}
+          {shared.length > 0 && (
+            <>
+              <DropdownMenuLabel>Shared by other admins</DropdownMenuLabel>
+              {shared.map((view) => (
+                <div key={view.id} title={`Shared by ${view.owner_email}`}>
+                  {renderView(view)}
+                </div>
+              ))}
+            </>
+          )}
+          {(mine.length > 0 || shared.length > 0) && <DropdownMenuSeparator />}
+
+          <DropdownMenuItem onClick={openSave} className="gap-2">
+            <Save className="w-3.5 h-3.5" />
+            Save current view...
+          </DropdownMenuItem>
+          {activeView && isOwner && modified && (
+            <DropdownMenuItem onClick={views.updateView} className="gap-2">
+              <Save className="w-3.5 h-3.5" />
+              Update &ldquo;{activeView.name}&rdquo;
+            </DropdownMenuItem>
+          )}
+          {activeView && (
+            <>
+              <DropdownMenuItem onClick={handleCopyLink} className="gap-2">
+                <Link2 className="w-3.5 h-3.5" />
+                Copy share link
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => views.selectView(null)} className="gap-2">
+                <RotateCcw className="w-3.5 h-3.5" />
+                Clear view
+              </DropdownMenuItem>
+              {isOwner && (
+                <DropdownMenuItem
+                  onClick={() => views.deleteView(activeView.id)}
+                  className="gap-2 text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Delete view
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, sort order and visible columns.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="e.g. Unverified resorts in Japan"
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="share-view" className="font-normal">
+                Share with other admins
+              </Label>
+              <Switch id="share-view" checked={share} onCheckedChange={setShare} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save View
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={confirmShare}
+        onOpenChange={setConfirmShare}
+        title="Share View"
+        description={`"${activeView?.name ?? ''}" is private. Copying its link shares it with all other admins.`}
+        confirmLabel="Share and Copy Link"
+        onConfirm={() => activeView && views.copyLink(activeView.id, true)}
+      />
+    </>
+  )
+}
@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { toast } from 'sonner'
+import { Download, Loader2, Play, Trash2 } from 'lucide-react'
+import { SUPABASE_URL } from '@/lib/constants'
+import { EXPORTS_BUCKET, EXPORT_FREQUENCIES, type ScheduledExport } from '@/lib/export'
+import { formatDateTime, cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface ExportFile {
+  name: string
+  created_at: string
+}
+
+// Newest files kept per schedule are listed; older ones stay in the bucket
+const FILES_SHOWN = 5
+
+async function runScheduledExport(id: string) {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const res = await fetch(`${SUPABASE_URL}/functions/v1/admin-scheduled-exports`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ action: 'run', id }),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || 'Export failed')
+}
+
+interface ScheduledExportsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  table: string
+}
+
+export function ScheduledExportsDialog({ open, onOpenChange, table }: ScheduledExportsDialogProps) {
+  const [schedules, setSchedules] = useState<ScheduledExport[]>([])
+  const [files, setFiles] = useState<Record<string, ExportFile[]>>({})
+  const [loading, setLoading] = useState(false)
+  const [runningId, setRunningId] = useState<string | null>(null)
+
+  const loadSchedules = useCallback(async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('admin_scheduled_exports')
+        .select('*')
+        .eq('query->>table', table)
+        .order('created_at', { ascending: false })
+      if (error) throw new Error(error.message)
+      const rows = (data as ScheduledExport[]) ?? []
+      setSchedules(rows)
+
+      const listed = await Promise.all(
+        rows.map(async (s) => {
+          const { data: objects } = await supabase.storage
+            .from(EXPORTS_BUCKET)
+            .list(s.id, { limit: FILES_SHOWN, sortBy: { column: 'created_at', order: 'desc' } })
+          return [s.id, (objects ?? []) as ExportFile[]] as const
+        })
+      )
+      setFiles(Object.fromEntries(listed))
+    } catch (err) {
+      toast.error(`Failed to load scheduled exports: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [table])
+
+  useEffect(() => {
+    if (open) loadSchedules()
+  }, [open, loadSchedules])
+
+  const handleRun = async (schedule: ScheduledExport) => {
+    setRunningId(schedule.id)
+    try {
+      await runScheduledExport(schedule.id)
+      toast.success(`"${schedule.name}" exported`)
+      loadSchedules()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setRunningId(null)
+    }
+  }
+
+  const handleToggle = async (schedule: ScheduledExport, enabled: boolean) => {
+    const { error } = await supabase.from('admin_scheduled_exports').update({ enabled }).eq('id', schedule.id)
+    if (error) {
+      toast.error(`Failed to update schedule: ${error.message}`)
+      return
+    }
+    setSchedules((prev) => prev.map((s) => (s.id === schedule.id ? { ...s, enabled } : s)))
+  }
+
+  const handleDelete = async (schedule: ScheduledExport) => {
+    const { error } = await supabase.from('admin_scheduled_exports').delete().eq('id', schedule.id)
+    if (error) {
+      toast.error(`Failed to delete schedule: ${error.message}`)
+      return
+    }
+    setSchedules((prev) => prev.filter((s) => s.id !== schedule.id))
+    toast.success('Schedule deleted')
+  }
+
+  const handleDownload = async (scheduleId: string, file: ExportFile) => {
+    const { data, error } = await supabase.storage
+      .from(EXPORTS_BUCKET)
+      .createSignedUrl(`${scheduleId}/${file.name}`, 60, { download: true })
+    if (error || !data) {
+      toast.error('Failed to create download link')
+      return
+    }
+    window.open(data.signedUrl, '_blank')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Scheduled Exports</DialogTitle>
+          <DialogDescription>
+            Recurring exports of <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{table}</code>, saved to
+            the {EXPORTS_BUCKET} storage bucket.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          {loading && schedules.length === 0 ? (
+            <div className="flex items-center justify-center py-10 text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-10">
+              No scheduled exports yet. Set one up from Export &rarr; Export all matching rows.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {schedules.map((s) => (
+                <div key={s.id} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium flex-1 truncate">{s.name}</span>
+                    <Badge variant="outline" className="uppercase text-[10px]">
+                      {s.format}
+                    </Badge>
+                    <Badge variant="outline" className="text-[10px]">
+                      {EXPORT_FREQUENCIES.find((f) => f.value === s.frequency)?.label ?? s.frequency}
+                    </Badge>
+                    <Switch checked={s.enabled} onCheckedChange={(v) => handleToggle(s, v)} />
+                  </div>
+                  <div className="text-xs text-muted-foreground space-y-0.5">
+                    <div>
+                      {s.columns.length} columns · created by {s.created_by}
+                    </div>
+                    <div>
+                      {s.enabled ? `Next run ${formatDateTime(s.next_run_at)}` : 'Paused'}
+                      {s.last_run_at && (
+                        <>
+                          {' · Last run '}
+                          {formatDateTime(s.last_run_at)}{' '}
+                          <span className={cn(s.last_status === 'failed' ? 'text-red-400' : 'text-green-400')}>
+                            {s.last_status === 'failed' ? `failed${s.last_error ? `: ${s.last_error}` : ''}` : 'succeeded'}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  {(files[s.id] ?? []).length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {files[s.id].map((f) => (
+                        <button
+                          key={f.name}
+                          onClick={() => handleDownload(s.id, f)}
+                          className="flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-border hover:border-primary/50 text-muted-foreground hover:text-foreground"
+                        >
+                          <Download className="w-3 h-3" />
+                          {f.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleRun(s)} disabled={runningId === s.id}>
+                      {runningId === s.id ? (
+                        <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                      ) : (
+                        <Play className="w-3.5 h-3.5 mr-1.5" />
+                      )}
+                      Run Now
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(s)}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,175 @@
+import { Plus, X } from 'lucide-react'
+import {
+  MONTH_NAMES,
+  seasonMonths,
+  validateCalendar,
+  type MonthDay,
+  type SeasonActual,
+  type SeasonCalendar,
+  type SeasonWindow,
+} from '@/lib/seasons'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface SeasonCalendarEditorProps {
+  calendar: SeasonCalendar | null
+  onChange: (calendar: SeasonCalendar | null) => void
+}
+
+const EMPTY_CALENDAR: SeasonCalendar = { windows: [], actuals: [] }
+
+const DEFAULT_WINDOW: SeasonWindow = { open: { month: 12, day: 1 }, close: { month: 4, day: 15 }, label: null }
+
+function MonthDayInput({ value, onChange }: { value: MonthDay; onChange: (value: MonthDay) => void }) {
+  return (
+    <div className="flex gap-1">
+      <Select value={String(value.month)} onValueChange={(v) => onChange({ ...value, month: Number(v) })}>
+        <SelectTrigger className="h-8 w-[88px] text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {MONTH_NAMES.map((name, i) => (
+            <SelectItem key={name} value={String(i + 1)}>
+              {name.slice(0, 3)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        min={1}
+        max={31}
+        value={value.day}
+        onChange={(e) => onChange({ ...value, day: Number(e.target.value) || 1 })}
+        className="h-8 w-14 text-xs"
+      />
+    </div>
+  )
+}
+
+export function SeasonCalendarEditor({ calendar, onChange }: SeasonCalendarEditorProps) {
+  const current = calendar ?? EMPTY_CALENDAR
+  const months = seasonMonths(current)
+  const problems = validateCalendar(current)
+  const thisYear = new Date().getFullYear()
+
+  const setWindow = (index: number, changes: Partial<SeasonWindow>) =>
+    onChange({ ...current, windows: current.windows.map((w, i) => (i === index ? { ...w, ...changes } : w)) })
+
+  const setActual = (index: number, changes: Partial<SeasonActual>) =>
+    onChange({ ...current, actuals: current.actuals.map((a, i) => (i === index ? { ...a, ...changes } : a)) })
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {current.windows.map((w, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <Input
+              value={w.label ?? ''}
+              onChange={(e) => setWindow(i, { label: e.target.value || null })}
+              placeholder={i === 0 ? 'Main season' : 'e.g. Summer glacier'}
+              className="h-8 w-36 text-xs"
+            />
+            <MonthDayInput value={w.open} onChange={(open) => setWindow(i, { open })} />
+            <span className="text-xs text-muted-foreground">to</span>
+            <MonthDayInput value={w.close} onChange={(close) => setWindow(i, { close })} />
+            <button
+              className="text-muted-foreground hover:text-foreground"
+              onClick={() => onChange({ ...current, windows: current.windows.filter((_, j) => j !== i) })}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs gap-1"
+          onClick={() => onChange({ ...current, windows: [...current.windows, DEFAULT_WINDOW] })}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add window
+        </Button>
+      </div>
+
+      <div className="flex gap-0.5">
+        {MONTH_NAMES.map((name, i) => (
+          <div
+            key={name}
+            className={cn(
+              'flex-1 text-center text-[10px] rounded py-0.5',
+              months.includes(i + 1) ? 'bg-primary/20 text-primary' : 'bg-muted text-muted-foreground'
+            )}
+          >
+            {name[0]}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Actual opening and closing dates</p>
+        {current.actuals.map((a, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <Input
+              type="number"
+              value={a.year}
+              onChange={(e) => setActual(i, { year: Number(e.target.value) || thisYear })}
+              className="h-8 w-20 text-xs"
+            />
+            <Input
+              type="date"
+              value={a.opened ?? ''}
+              onChange={(e) => setActual(i, { opened: e.target.value || null })}
+              className="h-8 w-36 text-xs"
+            />
+            <span className="text-xs text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={a.closed ?? ''}
+              onChange={(e) => setActual(i, { closed: e.target.value || null })}
+              className="h-8 w-36 text-xs"
+            />
+            <button
+              className="text-muted-foreground hover:text-foreground"
+              onClick={() => onChange({ ...current, actuals: current.actuals.filter((_, j) => j !== i) })}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs gap-1"
+          onClick={() =>
+            onChange({
+              ...current,
+              actuals: [{ year: thisYear, opened: null, closed: null }, ...current.actuals],
+            })
+          }
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add year
+        </Button>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="space-y-0.5">
+          {problems.map((p) => (
+            <li key={p} className="text-xs text-yellow-400">
+              {p}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
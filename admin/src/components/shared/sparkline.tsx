@@ -0,0 +1,50 @@
+import { LineChart, Line, ResponsiveContainer, XAxis, YAxis } from 'recharts'
+
+export interface SparklinePoint {
+  // Time (ms); spacing follows it, so uneven sampling doesn't distort the trend
+  at: number
+  value?: number | null
+  projected?: number | null
+}
+
+interface SparklineProps {
+  data: SparklinePoint[]
+  height?: number
+  color?: string
+  // Keeps the line in scale with a limit it is heading towards
+  max?: number
+}
+
+// Axis-free trend line. Points with `projected` set are drawn dashed after
+// the measured ones.
+export function Sparkline({ data, height = 28, color = '#4298D2', max }: SparklineProps) {
+  if (data.length < 2) return null
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+        <XAxis hide dataKey="at" type="number" domain={['dataMin', 'dataMax']} />
+        <YAxis hide domain={[0, max ?? 'auto']} />
+        <Line
+          type="monotone"
+          dataKey="value"
+          stroke={color}
+          strokeWidth={1.5}
+          dot={false}
+          isAnimationActive={false}
+          connectNulls
+        />
+        <Line
+          type="linear"
+          dataKey="projected"
+          stroke={color}
+          strokeWidth={1.5}
+          strokeDasharray="3 3"
+          strokeOpacity={0.6}
+          dot={false}
+          isAnimationActive={false}
+          connectNulls
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  )
+}
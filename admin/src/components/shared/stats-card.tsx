@@ -1,17 +1,33 @@
+import { cn } from '@/lib/utils'
+import { Sparkline, type SparklinePoint } from '@/components/shared/sparkline'
+
 interface StatsCardProps {
   label: string
   value: string | number
   change?: string
+  changeTone?: 'positive' | 'negative' | 'neutral'
   subtitle?: string
+  trend?: SparklinePoint[]
+}
+
+const TONE_CLASSES = {
+  positive: 'text-success',
+  negative: 'text-red-400',
+  neutral: 'text-muted-foreground',
 }
 
-export function StatsCard({ label, value, change, subtitle }: StatsCardProps) {
+export function StatsCard({ label, value, change, changeTone = 'positive', subtitle, trend }: StatsCardProps) {
   return (
     <div className="bg-card border border-border rounded-xl p-5">
       <div className="text-xs text-muted-foreground mb-2">{label}</div>
       <div className="text-3xl font-bold">{value}</div>
-      {change && <div className="text-xs text-success mt-1">{change}</div>}
+      {change && <div className={cn('text-xs mt-1', TONE_CLASSES[changeTone])}>{change}</div>}
       {subtitle && <div className="text-xs text-muted-foreground mt-1">{subtitle}</div>}
+      {trend && trend.length >= 2 && (
+        <div className="mt-2">
+          <Sparkline data={trend} />
+        </div>
+      )}
     </div>
   )
 }
@@ -1,30 +1,209 @@
-import { useCallback } from 'react'
+import { useCallback, useSyncExternalStore } from 'react'
 import { supabase } from '@/lib/supabase'
+import type { Permission } from '@/lib/constants'
+import {
+  enqueueAudit,
+  getAuditQueueState,
+  getClientSessionId,
+  retryFailedAudits,
+  subscribeAuditQueue,
+} from '@/lib/audit-queue'
+import { unmergeResorts } from '@/lib/resort-merge'
+import { recordResortChanges } from '@/lib/resort-history'
+import { isReservedConfigKey } from '@/lib/remote-config'
+import { withRestoredSeason } from '@/lib/seasons'
+import { restoreApprovalLinks, type ApprovalLinks } from '@/lib/submission-approval'
+
+type Snapshot = Record<string, unknown>
 
 interface AuditEntry {
   action: string
   entity_type: string
   entity_id?: string
   details?: Record<string, unknown>
+  // Field values of the affected row before and after the action. Only
+  // entries with both (and a registered reverter) can be reverted.
+  before?: Snapshot | null
+  after?: Snapshot | null
+}
+
+export interface LoggedAuditEntry {
+  id: string
+  action: string
+  entity_type: string | null
+  entity_id: string | null
+  before_data: Snapshot | null
+  after_data: Snapshot | null
+  details?: Record<string, unknown> | null
+}
+
+// Keep only the fields `after` actually changed, so a revert restores exactly
+// what this action touched and leaves unrelated later edits alone.
+export function snapshotChanges(before: object, after: object): { before: Snapshot; after: Snapshot } {
+  const prev = before as Snapshot
+  const next = after as Snapshot
+  const changed: { before: Snapshot; after: Snapshot } = { before: {}, after: {} }
+  for (const key of Object.keys(next)) {
+    if (JSON.stringify(prev[key] ?? null) !== JSON.stringify(next[key] ?? null)) {
+      changed.before[key] = prev[key] ?? null
+      changed.after[key] = next[key] ?? null
+    }
+  }
+  return changed
+}
+
+// ---------------------------------------------------------------------------
+// Reversible actions
+// ---------------------------------------------------------------------------
+
+interface Reverter {
+  // Table the snapshot columns live in; used to detect edits made since
+  table: string
+  // Column the entity id refers to, for tables keyed by something other than id
+  idColumn?: string
+  // Same permission the original edit needed
+  permission?: Permission
+  // Defaults to writing `before` back onto the row
+  restore?: (entityId: string, before: Snapshot, details: Record<string, unknown> | null) => Promise<void>
+}
+
+// Rolling back a config value is itself a config change, so stamp it
+async function restoreConfig(key: string, before: Snapshot) {
+  if (isReservedConfigKey(key)) throw new Error(`${key} is reserved for service usage`)
+  const { data: { session } } = await supabase.auth.getSession()
+  const { error } = await supabase
+    .from('app_config')
+    .update({ ...before, updated_at: new Date().toISOString(), updated_by: session?.user?.email ?? 'unknown' })
+    .eq('key', key)
+  if (error) throw error
+}
+
+// The merge row knows which resorts and references to put back
+async function restoreMerge(_survivorId: string, _before: Snapshot, details: Record<string, unknown> | null) {
+  const mergeId = details?.merge_id
+  if (typeof mergeId !== 'string') throw new Error('Merge record not found in this entry')
+  await unmergeResorts(mergeId)
+}
+
+// Approval cascades to duplicates and links their visits; the entry records
+// every row it touched so all of them go back, not just the one submission
+async function restoreApproval(_submissionId: string, _before: Snapshot, details: Record<string, unknown> | null) {
+  const links = details?.links as ApprovalLinks | undefined
+  if (!links) throw new Error('This approval was logged without the rows it linked')
+  await restoreApprovalLinks(links)
+}
+
+// Rejections aren't here: admin-manage-submission deletes the submission and
+// its visits, so there is nothing left to restore
+const REVERTERS: Record<string, Reverter> = {
+  update_resort: { table: 'resorts', permission: 'resorts.edit' },
+  edit_visit: { table: 'user_visits', permission: 'visits.edit' },
+  update_profile: { table: 'profiles', permission: 'users.edit' },
+  edit_kb_article: { table: 'support_kb' },
+  approve_submission: {
+    table: 'resort_submissions',
+    permission: 'submissions.review',
+    restore: restoreApproval,
+  },
+  update_app_config: {
+    table: 'app_config',
+    idColumn: 'key',
+    permission: 'system.configure',
+    restore: restoreConfig,
+  },
+  update_alert_rule: { table: 'admin_alert_rules', permission: 'system.configure' },
+  merge_resorts: { table: 'resorts', permission: 'resorts.delete', restore: restoreMerge },
+}
+
+export function revertPermission(action: string): Permission | null {
+  return REVERTERS[action]?.permission ?? null
+}
+
+export function isRevertible(entry: LoggedAuditEntry): boolean {
+  return (
+    entry.action in REVERTERS &&
+    !!entry.entity_id &&
+    !!entry.before_data &&
+    !!entry.after_data &&
+    Object.keys(entry.before_data).length > 0
+  )
 }
 
 export function useAuditLog() {
+  // Resolves once the entry is queued and a first delivery attempt has been
+  // made; failures stay queued and show up in the header.
   const log = useCallback(async (entry: AuditEntry) => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession()
-      const email = session?.user?.email ?? 'unknown'
-
-      await supabase.from('admin_audit_log').insert({
-        admin_email: email,
-        action: entry.action,
-        entity_type: entry.entity_type,
-        entity_id: entry.entity_id ?? null,
-        details: entry.details ?? null,
-      })
-    } catch (err) {
-      console.error('Failed to write audit log:', err)
-    }
+    const { data: { session } } = await supabase.auth.getSession()
+    const email = session?.user?.email ?? 'unknown'
+
+    await enqueueAudit({
+      admin_email: email,
+      action: entry.action,
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id ?? null,
+      details: entry.details ?? null,
+      before_data: entry.before ?? null,
+      after_data: entry.after ?? null,
+      session_id: getClientSessionId(),
+      user_agent: navigator.userAgent,
+      client_created_at: new Date().toISOString(),
+    })
   }, [])
 
-  return { log }
+  // Fields whose current value no longer matches what the action wrote —
+  // reverting would overwrite someone else's newer edit to them.
+  const findRevertConflicts = useCallback(async (entry: LoggedAuditEntry): Promise<string[]> => {
+    const reverter = REVERTERS[entry.action]
+    if (!reverter || !entry.entity_id || !entry.after_data) return []
+
+    const fields = Object.keys(entry.after_data)
+    const { data, error } = await supabase
+      .from(reverter.table)
+      .select(fields.join(','))
+      .eq(reverter.idColumn ?? 'id', entry.entity_id)
+      .maybeSingle()
+    if (error) throw error
+    if (!data) throw new Error('The record no longer exists')
+
+    const current = data as unknown as Snapshot
+    return fields.filter(
+      (f) => JSON.stringify(current[f] ?? null) !== JSON.stringify(entry.after_data![f] ?? null)
+    )
+  }, [])
+
+  const revert = useCallback(async (entry: LoggedAuditEntry) => {
+    const reverter = REVERTERS[entry.action]
+    if (!reverter || !isRevertible(entry)) throw new Error('This action cannot be reverted')
+
+    const entityId = entry.entity_id!
+    const before = entry.before_data!
+    if (reverter.restore) {
+      await reverter.restore(entityId, before, entry.details ?? null)
+    } else {
+      const values = reverter.table === 'resorts' ? await withRestoredSeason(entityId, before) : before
+      const { error } = await supabase.from(reverter.table).update(values).eq(reverter.idColumn ?? 'id', entityId)
+      if (error) throw error
+      if (reverter.table === 'resorts') {
+        await recordResortChanges([
+          { resortId: entityId, before: entry.after_data, after: values, source: 'restore', sourceRef: entry.id },
+        ])
+      }
+    }
+
+    await log({
+      action: 'revert_action',
+      entity_type: entry.entity_type ?? reverter.table,
+      entity_id: entityId,
+      details: { reverted_entry_id: entry.id, reverted_action: entry.action },
+      before: entry.after_data,
+      after: before,
+    })
+  }, [log])
+
+  return { log, revert, findRevertConflicts }
+}
+
+export function useAuditQueueStatus() {
+  const status = useSyncExternalStore(subscribeAuditQueue, getAuditQueueState)
+  return { ...status, retryFailed: retryFailedAudits }
 }
@@ -1,11 +1,26 @@
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
-import { ADMIN_EMAILS, SUPABASE_URL } from '@/lib/constants'
+import { SUPABASE_URL, STRICT_LOGIN_CHECK } from '@/lib/constants'
+import type { AdminRole } from '@/lib/constants'
 import type { User, Session } from '@supabase/supabase-js'
 
+// Where a password-authenticated admin is in the TOTP flow. null once the
+// session is aal2 and any freshly issued recovery codes have been acknowledged.
+export type MfaStep = 'enroll' | 'verify' | 'recovery_codes'
+
+export interface MfaEnrollment {
+  factorId: string
+  qrCode: string
+  secret: string
+}
+
 interface AuthState {
   user: User | null
   session: Session | null
+  role: AdminRole | null
+  mfaStep: MfaStep | null
+  enrollment: MfaEnrollment | null
+  recoveryCodes: string[] | null
   loading: boolean
   error: string | null
 }
@@ -28,18 +43,79 @@ async function callAdminLoginCheck(action: string, data: Record<string, string>)
   return response.json()
 }
 
+// Recovery codes are hashed and checked server-side; redeeming one removes the
+// caller's TOTP factors so they can enroll a new device.
+async function callMfaRecovery(action: 'generate' | 'redeem', data: Record<string, string> = {}) {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/admin-mfa-recovery`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ action, ...data }),
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(result.error || 'Request failed')
+  return result
+}
+
+const LOCKED_MESSAGE = '🔒 Account locked after 3 failed attempts. Check your email for an unlock link.'
+const CHECK_UNAVAILABLE_MESSAGE =
+  'Sign-in is temporarily unavailable because the security check could not be reached. Try again shortly.'
+
+// A wrong authenticator or recovery code counts toward the same lockout as a
+// wrong password. Returns why the attempt has to end: the account is now
+// locked, or (under STRICT_LOGIN_CHECK) the failure couldn't be counted.
+async function recordSecondFactorFailure(email: string | undefined): Promise<string | null> {
+  try {
+    if (!email) throw new Error('No email on the session')
+    const result = await callAdminLoginCheck('record_failure', { email })
+    return result.locked ? LOCKED_MESSAGE : null
+  } catch (error) {
+    console.error('Failed to record second factor failure:', error)
+    // Fail closed - without the counter, code guessing is unthrottled
+    return STRICT_LOGIN_CHECK ? CHECK_UNAVAILABLE_MESSAGE : null
+  }
+}
+
+// Decide which TOTP step (if any) the current session still needs
+async function resolveMfaStep(): Promise<Exclude<MfaStep, 'recovery_codes'> | null> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+  if (error) throw error
+  if (data.currentLevel === 'aal2') return null
+  return data.nextLevel === 'aal2' ? 'verify' : 'enroll'
+}
+
+// Look up the signed-in admin's role. No row means no access.
+async function fetchAdminRole(email: string): Promise<AdminRole | null> {
+  const { data, error } = await supabase
+    .from('admin_users')
+    .select('role')
+    .eq('email', email.toLowerCase())
+    .maybeSingle()
+
+  if (error) throw error
+  return (data?.role as AdminRole | undefined) ?? null
+}
+
 export function useAuth() {
   const [state, setState] = useState<AuthState>({
     user: null,
     session: null,
+    role: null,
+    mfaStep: null,
+    enrollment: null,
+    recoveryCodes: null,
     loading: true,
     error: null,
   })
   const [unlocking, setUnlocking] = useState(false)
 
-  const isAdmin = state.user?.email
-    ? ADMIN_EMAILS.includes(state.user.email.toLowerCase())
-    : false
+  const isAdmin = !!state.user && state.role !== null && state.mfaStep === null
 
   // Check for unlock token in URL on mount
   useEffect(() => {
@@ -56,7 +132,7 @@ export function useAuth() {
             error: '✅ Account unlocked successfully! You can now sign in.'
           }))
           // Clean URL
-          window.history.replaceState({}, '', window.location.pathname)
+          window.history.replaceState({}, '', window.location.pathname + window.location.hash)
         })
         .catch((error) => {
           setState(prev => ({
@@ -71,49 +147,91 @@ export function useAuth() {
   }, [])
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session }, error }) => {
-      if (error) {
-        setState({ user: null, session: null, loading: false, error: error.message })
+    let cancelled = false
+
+    async function resolveSession(session: Session | null) {
+      if (!session) {
+        setState(prev => ({
+          ...prev,
+          user: null,
+          session: null,
+          role: null,
+          mfaStep: null,
+          enrollment: null,
+          recoveryCodes: null,
+          loading: false,
+        }))
         return
       }
-      if (session && ADMIN_EMAILS.includes(session.user.email?.toLowerCase() ?? '')) {
-        // Reset login attempts on successful session restore
-        const email = session.user.email!
-        callAdminLoginCheck('record_success', { email }).catch(console.error)
-        setState({ user: session.user, session, loading: false, error: null })
-      } else if (session) {
-        supabase.auth.signOut()
-        setState({ user: null, session: null, loading: false, error: 'Access denied. Not authorized.' })
+
+      let role: AdminRole | null = null
+      let mfaStep: MfaStep | null = null
+      try {
+        role = await fetchAdminRole(session.user.email ?? '')
+        if (role) mfaStep = await resolveMfaStep()
+      } catch (error) {
+        console.error('Failed to load admin role:', error)
+      }
+      if (cancelled) return
+
+      if (role) {
+        // Reset login attempts only once both factors have passed; a password
+        // alone mustn't clear failed authenticator codes
+        if (mfaStep === null) {
+          callAdminLoginCheck('record_success', { email: session.user.email! }).catch(console.error)
+        }
+        setState(prev => ({
+          ...prev,
+          user: session.user,
+          session,
+          role,
+          // Keep freshly issued recovery codes on screen until acknowledged
+          mfaStep: prev.mfaStep === 'recovery_codes' ? 'recovery_codes' : mfaStep,
+          loading: false,
+          error: null,
+        }))
       } else {
-        setState({ user: null, session: null, loading: false, error: null })
+        supabase.auth.signOut()
+        setState(prev => ({
+          ...prev,
+          user: null,
+          session: null,
+          role: null,
+          mfaStep: null,
+          loading: false,
+          error: 'Access denied. Not authorized.',
+        }))
+      }
+    }
+
+    supabase.auth.getSession().then(({ data: { session }, error }) => {
+      if (error) {
+        setState(prev => ({ ...prev, user: null, session: null, role: null, loading: false, error: error.message }))
+        return
       }
+      resolveSession(session)
     })
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (session && ADMIN_EMAILS.includes(session.user.email?.toLowerCase() ?? '')) {
-        // Reset login attempts on successful auth change
-        const email = session.user.email!
-        callAdminLoginCheck('record_success', { email }).catch(console.error)
-        setState({ user: session.user, session, loading: false, error: null })
-      } else if (session) {
-        supabase.auth.signOut()
-        setState({ user: null, session: null, loading: false, error: 'Access denied. Not authorized.' })
-      } else {
-        setState(prev => ({ ...prev, user: null, session: null, loading: false }))
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // Token refreshes keep the same user; don't re-query the role every hour
+      if (event === 'TOKEN_REFRESHED' && session) {
+        setState(prev => ({ ...prev, user: session.user, session }))
+        return
       }
+      // Supabase calls made inside this callback can deadlock on the auth lock,
+      // so defer the role lookup to the next tick.
+      setTimeout(() => resolveSession(session), 0)
     })
 
-    return () => subscription.unsubscribe()
+    return () => {
+      cancelled = true
+      subscription.unsubscribe()
+    }
   }, [])
 
   const signIn = useCallback(async (email: string, password: string) => {
     setState(prev => ({ ...prev, loading: true, error: null }))
 
-    if (!ADMIN_EMAILS.includes(email.toLowerCase())) {
-      setState(prev => ({ ...prev, loading: false, error: 'Access denied. Not authorized.' }))
-      return
-    }
-
     try {
       // Check if account is locked
       const lockCheck = await callAdminLoginCheck('check', { email })
@@ -136,19 +254,22 @@ export function useAuth() {
 
         let errorMessage = error.message
         if (failureResult.locked) {
-          errorMessage = '🔒 Account locked after 3 failed attempts. Check your email for an unlock link.'
+          errorMessage = LOCKED_MESSAGE
         } else if (failureResult.attempts >= 2) {
           const remaining = 3 - failureResult.attempts
           errorMessage = `${error.message} (${remaining} attempt${remaining !== 1 ? 's' : ''} remaining before lockout)`
         }
 
         setState(prev => ({ ...prev, loading: false, error: errorMessage }))
-      } else {
-        // Success - attempts reset via onAuthStateChange
-        setState(prev => ({ ...prev, loading: false, error: null }))
       }
+      // On success, onAuthStateChange loads the role and resets attempts
     } catch (error) {
       console.error('Login check error:', error)
+      if (STRICT_LOGIN_CHECK) {
+        // Fail closed - without the lockout counter, password guessing is unthrottled
+        setState(prev => ({ ...prev, loading: false, error: CHECK_UNAVAILABLE_MESSAGE }))
+        return
+      }
       // Fail open - allow attempt if edge function unavailable
       const { error: authError } = await supabase.auth.signInWithPassword({ email, password })
       if (authError) {
@@ -157,10 +278,134 @@ export function useAuth() {
     }
   }, [])
 
+  const startEnrollment = useCallback(async () => {
+    setState(prev => ({ ...prev, error: null }))
+    try {
+      // Abandoned enrollments leave unverified factors behind; clear them first
+      const { data: factors } = await supabase.auth.mfa.listFactors()
+      for (const factor of factors?.all ?? []) {
+        if (factor.status === 'unverified') {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id })
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp' })
+      if (error) throw error
+      setState(prev => ({
+        ...prev,
+        enrollment: { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret },
+      }))
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: `Could not start authenticator setup: ${error instanceof Error ? error.message : 'unknown error'}`,
+      }))
+    }
+  }, [])
+
+  const verifyCode = useCallback(async (code: string) => {
+    setState(prev => ({ ...prev, error: null }))
+    const enrolling = state.mfaStep === 'enroll'
+
+    let factorId = state.enrollment?.factorId
+    if (!enrolling) {
+      const { data: factors } = await supabase.auth.mfa.listFactors()
+      factorId = factors?.totp[0]?.id
+    }
+    if (!factorId) {
+      setState(prev => ({ ...prev, error: 'No authenticator found for this account.' }))
+      return
+    }
+
+    // Claim the recovery-code step before verifying so the auth change that
+    // verification triggers doesn't drop straight into the dashboard
+    if (enrolling) setState(prev => ({ ...prev, mfaStep: 'recovery_codes' }))
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.trim() })
+    if (error) {
+      const stop = await recordSecondFactorFailure(state.user?.email)
+      setState(prev => ({
+        ...prev,
+        mfaStep: enrolling ? 'enroll' : prev.mfaStep,
+        error: stop ?? 'Invalid code. Check your authenticator app and try again.',
+      }))
+      if (stop) await supabase.auth.signOut()
+      return
+    }
+
+    if (enrolling) {
+      try {
+        const result = await callMfaRecovery('generate')
+        setState(prev => ({ ...prev, enrollment: null, recoveryCodes: result.codes ?? [] }))
+      } catch (err) {
+        console.error('Failed to generate recovery codes:', err)
+        setState(prev => ({
+          ...prev,
+          enrollment: null,
+          recoveryCodes: [],
+          error: 'Authenticator enrolled, but recovery codes could not be generated. Generate them from the key button next to Sign out.',
+        }))
+      }
+    }
+  }, [state.mfaStep, state.enrollment, state.user])
+
+  const redeemRecoveryCode = useCallback(async (code: string) => {
+    setState(prev => ({ ...prev, error: null }))
+    try {
+      await callMfaRecovery('redeem', { code: code.trim() })
+      // The server removed the lost factor; refresh so the session's AAL reflects it
+      await supabase.auth.refreshSession()
+      setState(prev => ({
+        ...prev,
+        mfaStep: 'enroll',
+        enrollment: null,
+        error: '✅ Recovery code accepted. Set up your new authenticator to finish signing in.',
+      }))
+    } catch (error) {
+      const stop = await recordSecondFactorFailure(state.user?.email)
+      setState(prev => ({
+        ...prev,
+        error: stop ?? (error instanceof Error ? error.message : 'Recovery code rejected'),
+      }))
+      if (stop) await supabase.auth.signOut()
+    }
+  }, [state.user])
+
+  // Issues a fresh set, replacing any earlier codes, and shows them on the
+  // recovery-code screen until acknowledged
+  const regenerateRecoveryCodes = useCallback(async () => {
+    const result = await callMfaRecovery('generate')
+    setState(prev => ({ ...prev, mfaStep: 'recovery_codes', recoveryCodes: result.codes ?? [], error: null }))
+  }, [])
+
+  const finishEnrollment = useCallback(() => {
+    setState(prev => ({ ...prev, mfaStep: null, recoveryCodes: null, error: null }))
+  }, [])
+
   const signOut = useCallback(async () => {
     await supabase.auth.signOut()
-    setState({ user: null, session: null, loading: false, error: null })
+    setState({
+      user: null,
+      session: null,
+      role: null,
+      mfaStep: null,
+      enrollment: null,
+      recoveryCodes: null,
+      loading: false,
+      error: null,
+    })
   }, [])
 
-  return { ...state, isAdmin, signIn, signOut, unlocking }
+  return {
+    ...state,
+    isAdmin,
+    signIn,
+    signOut,
+    unlocking,
+    startEnrollment,
+    verifyCode,
+    redeemRecoveryCode,
+    regenerateRecoveryCodes,
+    finishEnrollment,
+  }
 }
@@ -0,0 +1,23 @@
+import { createContext, useContext, useCallback } from 'react'
+import { NAV_ITEMS, ROLE_PERMISSIONS } from '@/lib/constants'
+import type { AdminRole, PageId, Permission } from '@/lib/constants'
+
+export const RoleContext = createContext<AdminRole | null>(null)
+
+export function hasPermission(role: AdminRole | null, permission: Permission): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false
+}
+
+export function canViewPage(role: AdminRole | null, page: PageId): boolean {
+  if (!role) return false
+  const item = NAV_ITEMS.find((i) => i.id === page)
+  return !item?.roles || item.roles.includes(role)
+}
+
+export function usePermissions() {
+  const role = useContext(RoleContext)
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role])
+
+  return { role, can }
+}
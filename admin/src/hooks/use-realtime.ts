@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = { [key: string]: any }
+
+export type RealtimeChange<T extends Row = Row> = RealtimePostgresChangesPayload<T>
+
+// Subscribe to every insert/update/delete on a table. The handler is kept in a
+// ref so callers can pass inline closures without resubscribing each render.
+// Returns whether the channel is subscribed, so callers can fall back to
+// polling while it's down.
+export function useRealtimeTable<T extends Row = Row>(
+  table: string,
+  onChange: (change: RealtimeChange<T>) => void,
+  enabled = true
+): boolean {
+  const handlerRef = useRef(onChange)
+  handlerRef.current = onChange
+  const [subscribed, setSubscribed] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    // Several components can watch the same table; channel topics must be unique
+    const channel = supabase
+      .channel(`admin:${table}:${crypto.randomUUID()}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table }, (change) =>
+        handlerRef.current(change as RealtimeChange<T>)
+      )
+      .subscribe((status) => setSubscribed(status === 'SUBSCRIBED'))
+
+    return () => {
+      supabase.removeChannel(channel)
+      setSubscribed(false)
+    }
+  }, [table, enabled])
+
+  return subscribed
+}
+
+// Puts freshly loaded rows at the top of a list, replacing any copies already
+// there, so the rest of the list and whatever is selected stay put
+export function mergeNewRows<T extends { id: string }>(rows: T[], fresh: T[]): T[] {
+  const ids = new Set(fresh.map((r) => r.id))
+  return [...fresh, ...rows.filter((r) => !ids.has(r.id))]
+}
+
+// Rows inserted since the list was last loaded, for a "N new — click to load"
+// banner; pages fetch `newIds` and merge them in. Updates and deletes are
+// passed through to `onChange` so pages can patch rows already on screen.
+export function useNewItems<T extends Row = Row>(
+  table: string,
+  onChange?: (change: RealtimeChange<T>) => void
+) {
+  const [newIds, setNewIds] = useState<string[]>([])
+
+  useRealtimeTable<T>(table, (change) => {
+    if (change.eventType !== 'INSERT') {
+      onChange?.(change)
+      return
+    }
+    const id = String(change.new.id)
+    setNewIds((prev) => (prev.includes(id) ? prev : [...prev, id]))
+  })
+
+  const clear = useCallback(() => setNewIds([]), [])
+
+  return { newCount: newIds.length, newIds, clear }
+}
+
+// Other admins who have the same record open, keyed like `resort:<id>`.
+// Pass null when nothing is open.
+export function useRecordPresence(recordKey: string | null) {
+  const [viewers, setViewers] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!recordKey) {
+      setViewers([])
+      return
+    }
+
+    let channel: RealtimeChannel | null = null
+    let cancelled = false
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (cancelled || !session) return
+      const email = session.user.email ?? 'unknown'
+
+      const ch = supabase.channel(`presence:${recordKey}`, {
+        config: { presence: { key: crypto.randomUUID() } },
+      })
+      channel = ch
+      ch.on('presence', { event: 'sync' }, () => {
+        const emails = Object.values(ch.presenceState<{ email: string }>())
+          .flat()
+          .map((p) => p.email)
+          .filter((e) => e !== email)
+        setViewers([...new Set(emails)])
+      }).subscribe((status) => {
+        if (status === 'SUBSCRIBED') ch.track({ email })
+      })
+    })
+
+    return () => {
+      cancelled = true
+      if (channel) supabase.removeChannel(channel)
+      setViewers([])
+    }
+  }, [recordKey])
+
+  return viewers
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react'
+import { NAV_ITEMS, type PageId } from '@/lib/constants'
+
+export interface Route {
+  page: PageId
+  entityId: string | null
+  // Saved view to apply, from a shared link (#/resorts?view=<id>)
+  viewId: string | null
+}
+
+const PAGE_IDS = new Set<string>(NAV_ITEMS.map((item) => item.id))
+
+// A malformed escape in a pasted link (e.g. %E0) shouldn't crash the app;
+// such an id can't match a record, so treat it as no id
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+// Routes live in the hash (#/support/<id>) because GitHub Pages has no SPA
+// fallback for /admin/* paths — a reload on a real path would 404.
+export function parseRoute(hash: string): Route {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?')
+  const [page, entityId] = path.split('/').filter(Boolean)
+  const viewId = new URLSearchParams(query).get('view')
+  if (!page || !PAGE_IDS.has(page)) return { page: 'overview', entityId: null, viewId: null }
+  return {
+    page: page as PageId,
+    entityId: entityId ? decodeSegment(entityId) : null,
+    viewId,
+  }
+}
+
+export function buildRoute(page: PageId, entityId?: string | null, viewId?: string | null): string {
+  const path = entityId ? `#/${page}/${encodeURIComponent(entityId)}` : `#/${page}`
+  return viewId ? `${path}?view=${encodeURIComponent(viewId)}` : path
+}
+
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash))
+
+  // Back/forward and manually edited URLs both arrive as hashchange
+  useEffect(() => {
+    function handleHashChange() {
+      setRoute(parseRoute(window.location.hash))
+    }
+
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [])
+
+  const navigate = useCallback((page: PageId, entityId?: string | null) => {
+    const hash = buildRoute(page, entityId)
+    if (window.location.hash === hash) return
+    window.location.hash = hash
+  }, [])
+
+  return { ...route, navigate }
+}
@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { supabase } from '@/lib/supabase'
+import { toast } from 'sonner'
+import { buildRoute, useRoute } from '@/hooks/use-route'
+import type { PageId } from '@/lib/constants'
+import type { SortingState, VisibilityState } from '@tanstack/react-table'
+
+type Filters = Record<string, unknown>
+
+// Everything a view restores. `filters` is page-specific; pages merge it over
+// their defaults so views saved before a filter existed still load.
+export interface ViewState<F extends Filters = Filters> {
+  filters: F
+  sorting: SortingState
+  columnVisibility: VisibilityState
+}
+
+export interface SavedView<F extends Filters = Filters> {
+  id: string
+  page: PageId
+  name: string
+  owner_email: string
+  shared: boolean
+  state: ViewState<F>
+  created_at: string
+}
+
+interface SavedViewsOptions<F extends Filters> {
+  page: PageId
+  // The page's live filter/sort/column state and its initial values
+  state: ViewState<F>
+  defaults: ViewState<F>
+  apply: (state: ViewState<F>) => void
+}
+
+async function currentEmail(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session?.user?.email ?? null
+}
+
+function sameState(a: ViewState, b: ViewState): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+export function useSavedViews<F extends Filters>({ page, state, defaults, apply }: SavedViewsOptions<F>) {
+  const { viewId } = useRoute()
+  const [views, setViews] = useState<SavedView<F>[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [email, setEmail] = useState<string | null>(null)
+
+  const applyRef = useRef(apply)
+  applyRef.current = apply
+  const defaultsRef = useRef(defaults)
+  defaultsRef.current = defaults
+
+  const applyView = useCallback((view: SavedView<F>) => {
+    const base = defaultsRef.current
+    applyRef.current({
+      filters: { ...base.filters, ...view.state.filters },
+      sorting: view.state.sorting ?? base.sorting,
+      columnVisibility: view.state.columnVisibility ?? base.columnVisibility,
+    })
+    setActiveId(view.id)
+  }, [])
+
+  // The admin's own views plus everything other admins have shared
+  const loadViews = useCallback(async () => {
+    const me = await currentEmail()
+    setEmail(me)
+    if (!me) return
+
+    const { data, error } = await supabase
+      .from('admin_saved_views')
+      .select('id, page, name, owner_email, shared, state, created_at')
+      .eq('page', page)
+      .or(`owner_email.eq."${me}",shared.eq.true`)
+      .order('name', { ascending: true })
+    if (error) {
+      console.error('Saved views fetch error:', error.message)
+      return
+    }
+    setViews((data as SavedView<F>[]) ?? [])
+  }, [page])
+
+  useEffect(() => {
+    loadViews()
+  }, [loadViews])
+
+  // A shared link names the view in the URL; it may belong to someone else
+  useEffect(() => {
+    if (!viewId) return
+    let cancelled = false
+    ;(async () => {
+      const { data } = await supabase
+        .from('admin_saved_views')
+        .select('id, page, name, owner_email, shared, state, created_at')
+        .eq('id', viewId)
+        .maybeSingle()
+      if (cancelled) return
+      const view = data as SavedView<F> | null
+      if (!view || view.page !== page) {
+        toast.error('That saved view no longer exists or isn’t shared')
+        return
+      }
+      applyView(view)
+      setViews((prev) => (prev.some((v) => v.id === view.id) ? prev : [...prev, view]))
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [viewId, page, applyView])
+
+  const activeView = views.find((v) => v.id === activeId) ?? null
+  const modified = activeView ? !sameState(activeView.state, state) : !sameState(defaults, state)
+
+  const selectView = useCallback(
+    (id: string | null) => {
+      if (id === null) {
+        applyRef.current(defaultsRef.current)
+        setActiveId(null)
+        return
+      }
+      const view = views.find((v) => v.id === id)
+      if (view) applyView(view)
+    },
+    [views, applyView]
+  )
+
+  const saveView = useCallback(
+    async (name: string, shared: boolean): Promise<boolean> => {
+      const me = await currentEmail()
+      if (!me) return false
+      const { data, error } = await supabase
+        .from('admin_saved_views')
+        .insert({ page, name: name.trim(), owner_email: me, shared, state })
+        .select('id, page, name, owner_email, shared, state, created_at')
+        .single()
+      if (error) {
+        toast.error(`Failed to save view: ${error.message}`)
+        return false
+      }
+      const view = data as SavedView<F>
+      setViews((prev) => [...prev, view].sort((a, b) => a.name.localeCompare(b.name)))
+      setActiveId(view.id)
+      toast.success(`Saved view "${view.name}"`)
+      return true
+    },
+    [page, state]
+  )
+
+  // Overwrite the active view with the current filters
+  const updateView = useCallback(async () => {
+    if (!activeView) return
+    const { error } = await supabase.from('admin_saved_views').update({ state }).eq('id', activeView.id)
+    if (error) {
+      toast.error(`Failed to update view: ${error.message}`)
+      return
+    }
+    setViews((prev) => prev.map((v) => (v.id === activeView.id ? { ...v, state } : v)))
+    toast.success(`Updated view "${activeView.name}"`)
+  }, [activeView, state])
+
+  const deleteView = useCallback(
+    async (id: string) => {
+      const { error } = await supabase.from('admin_saved_views').delete().eq('id', id)
+      if (error) {
+        toast.error(`Failed to delete view: ${error.message}`)
+        return
+      }
+      setViews((prev) => prev.filter((v) => v.id !== id))
+      if (activeId === id) setActiveId(null)
+      toast.success('View deleted')
+    },
+    [activeId]
+  )
+
+  // A link to a private view is dead for everyone else, so it is only copied
+  // once the caller has confirmed sharing the view (`share`)
+  const copyLink = useCallback(
+    async (id: string, share = false) => {
+      const view = views.find((v) => v.id === id)
+      if (!view) return
+      if (!view.shared) {
+        if (!share) {
+          toast.error('Share this view before copying its link')
+          return
+        }
+        const { error } = await supabase.from('admin_saved_views').update({ shared: true }).eq('id', view.id)
+        if (error) {
+          toast.error(`Failed to share view: ${error.message}`)
+          return
+        }
+        setViews((prev) => prev.map((v) => (v.id === view.id ? { ...v, shared: true } : v)))
+      }
+      const url = `${window.location.origin}${window.location.pathname}${buildRoute(page, null, view.id)}`
+      await navigator.clipboard.writeText(url)
+      toast.success(view.shared ? 'Link copied' : 'View shared with other admins and link copied')
+    },
+    [views, page]
+  )
+
+  const { mine, shared } = useMemo(
+    () => ({
+      mine: views.filter((v) => v.owner_email === email),
+      shared: views.filter((v) => v.owner_email !== email),
+    }),
+    [views, email]
+  )
+
+  return {
+    mine,
+    shared,
+    activeView,
+    modified,
+    isOwner: !!activeView && activeView.owner_email === email,
+    selectView,
+    saveView,
+    updateView,
+    deleteView,
+    copyLink,
+  }
+}
+
+export type SavedViewsControls = ReturnType<typeof useSavedViews<Filters>>
@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { PAGE_SIZE } from '@/lib/constants'
+import { mergeNewRows } from '@/hooks/use-realtime'
+import {
+  countQuery,
+  idsQuery,
+  nextCursor,
+  pageQuery,
+  type KeysetCursor,
+  type ServerFilter,
+  type ServerQuery,
+  type ServerSearch,
+  type ServerSort,
+} from '@/lib/server-query'
+import { toast } from 'sonner'
+import type { SortingState } from '@tanstack/react-table'
+
+type RawRow = Record<string, unknown>
+
+interface ServerTableOptions<T> {
+  table: string
+  select?: string
+  defaultSort: ServerSort
+  filters?: ServerFilter[]
+  search?: string
+  searchColumns?: string[]
+  // Ids resolved from other tables that should also count as search hits
+  searchMatches?: ServerSearch['matches']
+  // DataTable column id → database column, for columns whose id isn't the column name
+  sortColumns?: Record<string, string>
+  pageSize?: number
+  // Shape raw rows for display (joins, flattening). The cursor is read from the raw rows.
+  transform?: (rows: RawRow[]) => T[] | Promise<T[]>
+  // Toasted on load failure; leave unset to handle `error` yourself
+  errorMessage?: string
+}
+
+export function useServerTable<T>({
+  table,
+  select = '*',
+  defaultSort,
+  filters = [],
+  search = '',
+  searchColumns = [],
+  searchMatches,
+  sortColumns,
+  pageSize = PAGE_SIZE,
+  transform,
+  errorMessage,
+}: ServerTableOptions<T>) {
+  const [rows, setRows] = useState<T[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [page, setPage] = useState(0)
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  // cursors[n] is where page n starts; page 0 starts at the top
+  const cursorsRef = useRef<(KeysetCursor | null)[]>([null])
+  const transformRef = useRef(transform)
+  transformRef.current = transform
+
+  const sort: ServerSort = useMemo(() => {
+    const s = sorting[0]
+    return s ? { column: sortColumns?.[s.id] ?? s.id, desc: s.desc } : defaultSort
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sorting, sortColumns, defaultSort.column, defaultSort.desc])
+
+  // Anything that changes the result set starts over from page 0. Reset during
+  // render so the load effect never runs with a stale page for the new query.
+  const queryKey = JSON.stringify({ table, select, sort, filters, search: search.trim(), searchColumns, searchMatches })
+  const [activeKey, setActiveKey] = useState(queryKey)
+  if (activeKey !== queryKey) {
+    setActiveKey(queryKey)
+    setPage(0)
+    cursorsRef.current = [null]
+  }
+
+  // The result set as plain data, for loading and for exports of the full set
+  const query: ServerQuery = useMemo(() => {
+    const term = search.trim()
+    return {
+      table,
+      select,
+      filters,
+      search: term ? { term, columns: searchColumns, matches: searchMatches } : null,
+      sort,
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryKey])
+
+  // Only the latest request may write results
+  const requestRef = useRef(0)
+
+  const load = useCallback(
+    async (showRefresh = false) => {
+      if (showRefresh) setRefreshing(true)
+      else setLoading(true)
+      setError(null)
+      const request = ++requestRef.current
+
+      try {
+        const cursor = cursorsRef.current[page] ?? null
+        const [dataRes, countRes] = await Promise.all([
+          pageQuery(query, cursor, pageSize),
+          countQuery(query),
+        ])
+        if (request !== requestRef.current) return
+        if (dataRes.error) throw new Error(dataRes.error.message)
+        if (countRes.error) throw new Error(countRes.error.message)
+
+        const raw = (dataRes.data ?? []) as unknown as RawRow[]
+        const next = nextCursor(raw, query.sort)
+        if (next) cursorsRef.current[page + 1] = next
+
+        const shaped = transformRef.current ? await transformRef.current(raw) : (raw as unknown as T[])
+        if (request !== requestRef.current) return
+        setRows(shaped)
+        setTotalCount(countRes.count ?? 0)
+      } catch (err) {
+        const e = err instanceof Error ? err : new Error(String(err))
+        console.error(`${query.table} fetch error:`, e.message)
+        setError(e)
+        if (errorMessage) toast.error(errorMessage)
+      } finally {
+        if (request === requestRef.current) {
+          setLoading(false)
+          setRefreshing(false)
+        }
+      }
+    },
+    [query, page, pageSize, errorMessage]
+  )
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // Keyset pages can only be reached in order; DataTable only steps ±1
+  const goToPage = useCallback((next: number) => {
+    if (next < 0 || next >= cursorsRef.current.length) return
+    setPage(next)
+  }, [])
+
+  // Rows inserted since the last load go on top of the first page without a
+  // reload, so the rest of the page and any selection stay as they are. Rows
+  // the current filters or search exclude are left out.
+  const mergeNew = useCallback(
+    async (ids: string[]) => {
+      if (ids.length === 0) return
+      try {
+        const { data, error: mergeError } = await idsQuery(query, ids)
+        if (mergeError) throw new Error(mergeError.message)
+        const raw = (data ?? []) as unknown as RawRow[]
+        const shaped = transformRef.current ? await transformRef.current(raw) : (raw as unknown as T[])
+        type Keyed = T & { id: string }
+        const fresh = shaped as Keyed[]
+        const known = new Set((rows as Keyed[]).map((r) => r.id))
+        setTotalCount((count) => count + fresh.filter((r) => !known.has(r.id)).length)
+        if (page === 0) setRows((prev) => mergeNewRows(prev as Keyed[], fresh))
+      } catch (err) {
+        console.error(`${query.table} merge error:`, err instanceof Error ? err.message : err)
+        if (errorMessage) toast.error(errorMessage)
+      }
+    },
+    [query, page, rows, errorMessage]
+  )
+
+  const tableProps = {
+    data: rows,
+    pageSize,
+    sorting,
+    manualSorting: true,
+    onSortingChange: setSorting,
+    serverPagination: { totalCount, page, onPageChange: goToPage },
+  }
+
+  return {
+    rows,
+    setRows,
+    totalCount,
+    page,
+    sorting,
+    setSorting,
+    loading,
+    refreshing,
+    error,
+    reload: load,
+    mergeNew,
+    goToPage,
+    query,
+    tableProps,
+  }
+}
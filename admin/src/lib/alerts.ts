@@ -0,0 +1,231 @@
+import { supabase } from './supabase'
+import { SUPABASE_URL } from './constants'
+import { USAGE_METRICS, seriesKey } from './service-usage'
+
+// ---------------------------------------------------------------------------
+// Alerts — rules in admin_alert_rules are evaluated on a cron by the
+// evaluate-alert-rules edge function, which records each firing in
+// admin_alert_events and delivers it by email and/or webhook
+// ---------------------------------------------------------------------------
+
+export const ALERT_RULES_TABLE = 'admin_alert_rules'
+export const ALERT_EVENTS_TABLE = 'admin_alert_events'
+
+export type AlertMetric = 'usage_percent' | 'key_expiry_days' | 'queue_oldest_days' | 'queue_count'
+
+export const ALERT_METRICS: { value: AlertMetric; label: string; unit: string }[] = [
+  { value: 'usage_percent', label: 'Service usage', unit: '%' },
+  { value: 'key_expiry_days', label: 'Apple key expiry', unit: 'days' },
+  { value: 'queue_oldest_days', label: 'Oldest item in queue', unit: 'days' },
+  { value: 'queue_count', label: 'Items in queue', unit: '' },
+]
+
+export type AlertComparator = 'gt' | 'gte' | 'lt' | 'lte'
+
+export const ALERT_COMPARATORS: { value: AlertComparator; label: string }[] = [
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+]
+
+// Queues the evaluator can count; statuses are the ones still waiting on an admin
+export const ALERT_QUEUES: { value: string; label: string; table: string; statuses: string[] }[] = [
+  { value: 'submissions', label: 'Resort submissions', table: 'resort_submissions', statuses: ['pending'] },
+  { value: 'feature_photos', label: 'Feature photos', table: 'resort_feature_photo_submissions', statuses: ['pending'] },
+  { value: 'support', label: 'Support tickets', table: 'support_requests', statuses: ['pending', 'in_progress'] },
+]
+
+// Which fields apply depends on the metric: `usage` (a seriesKey) for
+// usage_percent, `queue` and optionally `category` for the queue metrics
+export interface AlertParams {
+  usage?: string
+  queue?: string
+  // Support tickets only, e.g. 'bug'
+  category?: string | null
+}
+
+export interface AlertChannels {
+  emails: string[]
+  webhook_url: string | null
+}
+
+export interface AlertRule {
+  id: string
+  name: string
+  metric: AlertMetric
+  params: AlertParams
+  comparator: AlertComparator
+  threshold: number
+  channels: AlertChannels
+  // A rule that stays over its threshold is re-sent at most this often
+  cooldown_hours: number
+  enabled: boolean
+  last_evaluated_at: string | null
+  last_value: number | null
+  firing: boolean
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+export type AlertRuleDraft = Pick<
+  AlertRule,
+  'name' | 'metric' | 'params' | 'comparator' | 'threshold' | 'channels' | 'cooldown_hours' | 'enabled'
+>
+
+// Columns an edit can change; audit snapshots cover these
+export const ALERT_RULE_FIELDS = [
+  'name', 'metric', 'params', 'comparator', 'threshold', 'channels', 'cooldown_hours', 'enabled',
+] as const
+
+export type AlertDeliveryStatus = 'sent' | 'failed' | 'skipped'
+
+export interface AlertEvent {
+  id: string
+  rule_id: string | null
+  // Copied at firing time so history survives edits and deletes
+  rule_name: string
+  value: number
+  threshold: number
+  message: string
+  delivery: { email?: AlertDeliveryStatus; webhook?: AlertDeliveryStatus; error?: string } | null
+  fired_at: string
+  resolved_at: string | null
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+}
+
+// Starting points offered in the rule editor
+export const ALERT_PRESETS: AlertRuleDraft[] = [
+  {
+    name: 'R2 storage over 80%',
+    metric: 'usage_percent',
+    params: { usage: seriesKey('service_cloudflare_r2', 'storage_used_gb') },
+    comparator: 'gt',
+    threshold: 80,
+    channels: { emails: [], webhook_url: null },
+    cooldown_hours: 24,
+    enabled: true,
+  },
+  {
+    name: 'Apple key expiring',
+    metric: 'key_expiry_days',
+    params: {},
+    comparator: 'lte',
+    threshold: 30,
+    channels: { emails: [], webhook_url: null },
+    cooldown_hours: 168,
+    enabled: true,
+  },
+  {
+    name: 'Stale resort submissions',
+    metric: 'queue_oldest_days',
+    params: { queue: 'submissions' },
+    comparator: 'gt',
+    threshold: 3,
+    channels: { emails: [], webhook_url: null },
+    cooldown_hours: 24,
+    enabled: true,
+  },
+  {
+    name: 'Bug ticket backlog',
+    metric: 'queue_count',
+    params: { queue: 'support', category: 'bug' },
+    comparator: 'gt',
+    threshold: 20,
+    channels: { emails: [], webhook_url: null },
+    cooldown_hours: 24,
+    enabled: true,
+  },
+]
+
+// ---------------------------------------------------------------------------
+// Describing and validating
+// ---------------------------------------------------------------------------
+
+function subjectLabel(metric: AlertMetric, params: AlertParams): string {
+  switch (metric) {
+    case 'usage_percent':
+      return USAGE_METRICS.find((m) => seriesKey(m.service, m.metric) === params.usage)?.label ?? params.usage ?? 'Usage'
+    case 'key_expiry_days':
+      return 'Apple key expires in'
+    case 'queue_oldest_days':
+    case 'queue_count': {
+      const queue = ALERT_QUEUES.find((q) => q.value === params.queue)?.label ?? params.queue ?? 'Queue'
+      const scoped = params.category ? `${queue} (${params.category})` : queue
+      return metric === 'queue_oldest_days' ? `Oldest in ${scoped.toLowerCase()}` : scoped
+    }
+  }
+}
+
+export function formatAlertValue(metric: AlertMetric, value: number): string {
+  const unit = ALERT_METRICS.find((m) => m.value === metric)?.unit ?? ''
+  const n = Number.isInteger(value) ? value.toLocaleString() : value.toFixed(1)
+  if (!unit) return n
+  return unit === '%' ? `${n}%` : `${n} ${unit}`
+}
+
+// e.g. "R2 storage > 80%"
+export function describeAlertRule(rule: Pick<AlertRule, 'metric' | 'params' | 'comparator' | 'threshold'>): string {
+  const op = ALERT_COMPARATORS.find((c) => c.value === rule.comparator)?.label ?? rule.comparator
+  return `${subjectLabel(rule.metric, rule.params)} ${op} ${formatAlertValue(rule.metric, rule.threshold)}`
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Returns the first problem, or null when the draft can be saved
+export function validateAlertRule(draft: AlertRuleDraft): string | null {
+  if (!draft.name.trim()) return 'Name is required'
+  if (!Number.isFinite(draft.threshold)) return 'Threshold must be a number'
+  if (draft.metric === 'usage_percent' && !USAGE_METRICS.some((m) => seriesKey(m.service, m.metric) === draft.params.usage)) {
+    return 'Pick a usage metric'
+  }
+  if ((draft.metric === 'queue_oldest_days' || draft.metric === 'queue_count') && !ALERT_QUEUES.some((q) => q.value === draft.params.queue)) {
+    return 'Pick a queue'
+  }
+  const bad = draft.channels.emails.find((e) => !EMAIL_PATTERN.test(e))
+  if (bad) return `Invalid email: ${bad}`
+  if (draft.channels.webhook_url) {
+    try {
+      const url = new URL(draft.channels.webhook_url)
+      if (url.protocol !== 'https:') return 'Webhook URL must use https'
+    } catch {
+      return 'Invalid webhook URL'
+    }
+  }
+  if (draft.channels.emails.length === 0 && !draft.channels.webhook_url) {
+    return 'Add an email address or a webhook'
+  }
+  if (!(draft.cooldown_hours >= 1)) return 'Cooldown must be at least 1 hour'
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// Edge function
+// ---------------------------------------------------------------------------
+
+export interface AlertTestResult {
+  value: number | null
+  firing: boolean
+  delivery: AlertEvent['delivery']
+}
+
+// Evaluates one rule now and sends a test notification to its channels,
+// without recording an event or touching the cooldown
+export async function testAlertRule(id: string): Promise<AlertTestResult> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const res = await fetch(`${SUPABASE_URL}/functions/v1/evaluate-alert-rules`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ action: 'test', id }),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || 'Test failed')
+  return data as AlertTestResult
+}
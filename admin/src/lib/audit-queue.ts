@@ -0,0 +1,186 @@
+import { supabase } from './supabase'
+
+// Audit rows are written through a localStorage-backed queue so a flaky
+// connection or a reload mid-request can't drop them. Entries are removed only
+// once the insert succeeds; after MAX_ATTEMPTS they stay as "failed" until an
+// admin retries them from the header. The queue ID doubles as the row's
+// primary key, so a retry after a lost response can't write the entry twice,
+// and each admin's entries only go out under their own session. Tabs share
+// the stored queue: every change re-reads it and applies to that, so one tab
+// never writes back a stale copy over another tab's entries.
+
+const STORAGE_KEY = 'slopestory-admin-audit-queue'
+const SESSION_KEY = 'slopestory-admin-session-id'
+const MAX_ATTEMPTS = 5
+const BASE_RETRY_MS = 2000
+
+export interface AuditRow {
+  admin_email: string
+  action: string
+  entity_type: string
+  entity_id: string | null
+  details: Record<string, unknown> | null
+  before_data: Record<string, unknown> | null
+  after_data: Record<string, unknown> | null
+  session_id: string
+  user_agent: string
+  client_created_at: string
+}
+
+export interface QueuedAuditRow {
+  id: string
+  row: AuditRow
+  attempts: number
+  lastError: string | null
+}
+
+export interface AuditQueueState {
+  pending: number
+  failed: number
+  flushing: boolean
+}
+
+let queue: QueuedAuditRow[] = load()
+let flushing = false
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+// Email of the signed-in admin, as of the last flush; null while signed out
+let sessionEmail: string | null = null
+let state: AuditQueueState = summarize()
+const listeners = new Set<() => void>()
+
+function load(): QueuedAuditRow[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as QueuedAuditRow[]) : []
+  } catch {
+    return []
+  }
+}
+
+function summarize(): AuditQueueState {
+  const failed = queue.filter((q) => q.attempts >= MAX_ATTEMPTS).length
+  return { pending: queue.length - failed, failed, flushing }
+}
+
+function notify() {
+  state = summarize()
+  listeners.forEach((l) => l())
+}
+
+function update(change: (stored: QueuedAuditRow[]) => QueuedAuditRow[]) {
+  queue = change(load())
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue))
+  } catch (err) {
+    console.error('Failed to persist audit queue:', err)
+  }
+  notify()
+}
+
+// One ID per browser tab, so entries can be traced back to the session that made them
+export function getClientSessionId(): string {
+  let id = sessionStorage.getItem(SESSION_KEY)
+  if (!id) {
+    id = crypto.randomUUID()
+    sessionStorage.setItem(SESSION_KEY, id)
+  }
+  return id
+}
+
+export function subscribeAuditQueue(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getAuditQueueState(): AuditQueueState {
+  return state
+}
+
+function isDue(q: QueuedAuditRow): boolean {
+  return q.attempts < MAX_ATTEMPTS && !!sessionEmail && q.row.admin_email.toLowerCase() === sessionEmail
+}
+
+function scheduleRetry() {
+  if (retryTimer) return
+  const due = queue.filter(isDue)
+  if (due.length === 0) return
+  const attempts = Math.min(...due.map((q) => q.attempts))
+  retryTimer = setTimeout(() => {
+    retryTimer = null
+    flushAuditQueue()
+  }, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1))
+}
+
+export async function flushAuditQueue() {
+  if (flushing) return
+  flushing = true
+
+  try {
+    // Inserts need an authenticated session; don't burn attempts while signed out
+    const { data: { session } } = await supabase.auth.getSession()
+    sessionEmail = session?.user?.email?.toLowerCase() ?? null
+    if (!sessionEmail) return
+    notify()
+
+    // Oldest first; stop at the first failure so entries land in order
+    let item: QueuedAuditRow | undefined
+    while ((item = queue.find(isDue))) {
+      const { id } = item
+      let message: string | null = null
+      try {
+        const { error } = await supabase
+          .from('admin_audit_log')
+          .upsert({ id, ...item.row }, { onConflict: 'id', ignoreDuplicates: true })
+        if (error) message = error.message
+      } catch (err) {
+        message = err instanceof Error ? err.message : 'Network error'
+      }
+
+      if (message) {
+        console.error('Failed to write audit log:', message)
+        update((stored) =>
+          stored.map((q) => (q.id === id ? { ...q, attempts: q.attempts + 1, lastError: message } : q))
+        )
+        break
+      }
+      update((stored) => stored.filter((q) => q.id !== id))
+    }
+  } finally {
+    flushing = false
+    notify()
+    scheduleRetry()
+  }
+}
+
+export async function enqueueAudit(row: AuditRow) {
+  const entry = { id: crypto.randomUUID(), row, attempts: 0, lastError: null }
+  update((stored) => [...stored, entry])
+  await flushAuditQueue()
+}
+
+export function retryFailedAudits() {
+  update((stored) => stored.map((q) => (q.attempts >= MAX_ATTEMPTS ? { ...q, attempts: 0 } : q)))
+  flushAuditQueue()
+}
+
+// Entries queued by a previous page load, or while offline, go out as soon as we can
+window.addEventListener('online', () => flushAuditQueue())
+// Another tab changed the queue: pick up its entries and counts
+window.addEventListener('storage', (e) => {
+  if (e.key !== STORAGE_KEY) return
+  queue = load()
+  notify()
+  scheduleRetry()
+})
+supabase.auth.onAuthStateChange((event) => {
+  // Deferred for the same auth-lock reason as in useAuth
+  if ((event === 'INITIAL_SESSION' || event === 'SIGNED_IN') && queue.length > 0) setTimeout(() => flushAuditQueue(), 0)
+  if (event === 'SIGNED_OUT') {
+    // Nothing can go out until someone signs in again
+    sessionEmail = null
+    if (retryTimer) clearTimeout(retryTimer)
+    retryTimer = null
+  }
+})
@@ -0,0 +1,220 @@
+import { streamRows } from './server-query'
+
+// ---------------------------------------------------------------------------
+// Cohorts — weekly signup retention and the activation funnel, computed in
+// the browser from profiles and their visit, photo and wishlist rows
+// ---------------------------------------------------------------------------
+
+// Signup weeks shown in the retention grid, and how many weeks after signup
+// each row tracks
+export const COHORT_WEEKS = 12
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+
+export interface CohortUser {
+  id: string
+  created_at: string
+  onboarding_completed: boolean
+  sport_preference: string | null
+  country_code: string | null
+  // From tester_emails, matched on email
+  tester_cohort: string | null
+  // Timestamps (ms) of the user's activity, oldest first
+  visits: number[]
+  photos: number[]
+  wishlists: number[]
+}
+
+export interface CohortSegment {
+  sport: string
+  country: string
+  tester: string
+}
+
+export const ALL_SEGMENT: CohortSegment = { sport: 'all', country: 'all', tester: 'all' }
+
+// Monday 00:00 UTC of the week containing `at`
+export function weekStart(at: number): number {
+  const d = new Date(at)
+  const day = (d.getUTCDay() + 6) % 7
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - day)
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+type Row = Record<string, unknown>
+
+async function loadAll(table: string, select: string, since?: string): Promise<Row[]> {
+  const rows: Row[] = []
+  const filters = since ? [{ column: 'created_at', op: 'gte' as const, value: since }] : []
+  for await (const batch of streamRows({
+    table,
+    select,
+    filters,
+    search: null,
+    sort: { column: 'created_at', desc: false },
+  })) {
+    rows.push(...batch)
+  }
+  return rows
+}
+
+function pushTime(map: Map<string, number[]>, userId: unknown, createdAt: unknown) {
+  if (typeof userId !== 'string' || typeof createdAt !== 'string') return
+  const list = map.get(userId) ?? []
+  list.push(new Date(createdAt).getTime())
+  map.set(userId, list)
+}
+
+// Users who signed up within the retention window, with their activity.
+// The funnel uses the same population so the two views agree.
+export async function loadCohortUsers(now = new Date()): Promise<CohortUser[]> {
+  const since = new Date(weekStart(now.getTime()) - (COHORT_WEEKS - 1) * WEEK_MS).toISOString()
+
+  const [profiles, visits, photos, wishlists, testers] = await Promise.all([
+    loadAll('profiles', 'id, email, created_at, onboarding_completed, sport_preference, country_code', since),
+    loadAll('user_visits', 'id, user_id, created_at', since),
+    loadAll('user_photos', 'id, created_at, visit_id!inner(user_id)', since),
+    loadAll('wishlists', 'id, user_id, created_at', since),
+    loadAll('tester_emails', 'id, email, cohort, created_at'),
+  ])
+
+  const visitTimes = new Map<string, number[]>()
+  const photoTimes = new Map<string, number[]>()
+  const wishlistTimes = new Map<string, number[]>()
+  for (const v of visits) pushTime(visitTimes, v.user_id, v.created_at)
+  for (const p of photos) pushTime(photoTimes, (p.visit_id as { user_id?: string } | null)?.user_id, p.created_at)
+  for (const w of wishlists) pushTime(wishlistTimes, w.user_id, w.created_at)
+
+  const testerCohorts = new Map(
+    testers.map((t) => [String(t.email ?? '').toLowerCase(), (t.cohort as string | null) ?? null])
+  )
+
+  return profiles.map((p) => {
+    const id = p.id as string
+    return {
+      id,
+      created_at: p.created_at as string,
+      onboarding_completed: !!p.onboarding_completed,
+      sport_preference: (p.sport_preference as string | null) ?? null,
+      country_code: (p.country_code as string | null) ?? null,
+      tester_cohort: testerCohorts.get(String(p.email ?? '').toLowerCase()) ?? null,
+      visits: visitTimes.get(id) ?? [],
+      photos: photoTimes.get(id) ?? [],
+      wishlists: wishlistTimes.get(id) ?? [],
+    }
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Segments
+// ---------------------------------------------------------------------------
+
+// Distinct values present in the data, for the segment pickers
+export function segmentOptions(users: CohortUser[]) {
+  const values = (pick: (u: CohortUser) => string | null) =>
+    Array.from(new Set(users.map(pick).filter((v): v is string => !!v))).sort()
+  return {
+    sport: values((u) => u.sport_preference),
+    country: values((u) => u.country_code),
+    tester: values((u) => u.tester_cohort),
+  }
+}
+
+// 'none' matches users without a value, e.g. non-testers
+function matches(value: string | null, filter: string): boolean {
+  if (filter === 'all') return true
+  if (filter === 'none') return value === null
+  return value === filter
+}
+
+export function filterSegment(users: CohortUser[], segment: CohortSegment): CohortUser[] {
+  return users.filter(
+    (u) =>
+      matches(u.sport_preference, segment.sport) &&
+      matches(u.country_code, segment.country) &&
+      matches(u.tester_cohort, segment.tester)
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Funnel
+// ---------------------------------------------------------------------------
+
+export interface FunnelStep {
+  label: string
+  count: number
+  // Share of the previous step that reached this one; null for the first
+  fromPrevious: number | null
+  fromStart: number
+}
+
+export function activationFunnel(users: CohortUser[]): FunnelStep[] {
+  const steps: [string, (u: CohortUser) => boolean][] = [
+    ['Signed up', () => true],
+    ['Completed onboarding', (u) => u.onboarding_completed],
+    ['First visit', (u) => u.visits.length > 0],
+    ['First photo', (u) => u.photos.length > 0],
+    ['First wishlist', (u) => u.wishlists.length > 0],
+  ]
+
+  // Each step only counts users who also passed every earlier one
+  let remaining = users
+  const total = users.length
+  return steps.map(([label, passed], i) => {
+    const previous = remaining.length
+    remaining = remaining.filter(passed)
+    return {
+      label,
+      count: remaining.length,
+      fromPrevious: i === 0 ? null : previous > 0 ? remaining.length / previous : 0,
+      fromStart: total > 0 ? remaining.length / total : 0,
+    }
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Retention
+// ---------------------------------------------------------------------------
+
+export interface CohortRow {
+  // Monday the cohort signed up in (ms, UTC)
+  week: number
+  size: number
+  // Share of the cohort with a visit or photo in each week since signup.
+  // Weeks that haven't happened yet are null.
+  retention: (number | null)[]
+}
+
+export function retentionGrid(users: CohortUser[], now = new Date()): CohortRow[] {
+  const currentWeek = weekStart(now.getTime())
+  const rows: CohortRow[] = []
+
+  for (let i = COHORT_WEEKS - 1; i >= 0; i--) {
+    const week = currentWeek - i * WEEK_MS
+    const cohort = users.filter((u) => weekStart(new Date(u.created_at).getTime()) === week)
+    const elapsed = i + 1
+    const active = Array.from({ length: elapsed }, () => 0)
+
+    for (const u of cohort) {
+      const weeks = new Set<number>()
+      for (const t of [...u.visits, ...u.photos]) {
+        const offset = Math.floor((weekStart(t) - week) / WEEK_MS)
+        if (offset >= 0 && offset < elapsed) weeks.add(offset)
+      }
+      for (const w of weeks) active[w]++
+    }
+
+    rows.push({
+      week,
+      size: cohort.length,
+      retention: Array.from({ length: COHORT_WEEKS }, (_, w) =>
+        w < elapsed ? (cohort.length > 0 ? active[w] / cohort.length : 0) : null
+      ),
+    })
+  }
+  return rows
+}
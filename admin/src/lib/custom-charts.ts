@@ -0,0 +1,259 @@
+import { supabase } from './supabase'
+import type { ServerFilter } from './server-query'
+
+// ---------------------------------------------------------------------------
+// Custom charts — admin-built aggregate queries. The spec is plain data; the
+// run_analytics_query() RPC checks it against the same allowlist of tables and
+// fields and does the grouping in Postgres, so results cover every row rather
+// than a client-side sample.
+// ---------------------------------------------------------------------------
+
+export const SAVED_CHARTS_TABLE = 'admin_saved_charts'
+
+type FieldKind = 'text' | 'number' | 'date' | 'boolean'
+
+export interface ChartField {
+  value: string
+  label: string
+  kind: FieldKind
+}
+
+export interface ChartTable {
+  value: string
+  label: string
+  // Joined columns use PostgREST's embed syntax, e.g. resorts.country
+  fields: ChartField[]
+}
+
+const CREATED_AT: ChartField = { value: 'created_at', label: 'Created', kind: 'date' }
+
+export const CHART_TABLES: ChartTable[] = [
+  {
+    value: 'profiles',
+    label: 'Users',
+    fields: [
+      CREATED_AT,
+      { value: 'country_code', label: 'Country', kind: 'text' },
+      { value: 'ski_experience', label: 'Experience', kind: 'text' },
+      { value: 'sport_preference', label: 'Sport', kind: 'text' },
+      { value: 'units', label: 'Units', kind: 'text' },
+      { value: 'storage_tier', label: 'Storage tier', kind: 'text' },
+      { value: 'onboarding_completed', label: 'Onboarded', kind: 'boolean' },
+      { value: 'seasons_count', label: 'Seasons skied', kind: 'number' },
+      { value: 'storage_used_bytes', label: 'Storage used (bytes)', kind: 'number' },
+    ],
+  },
+  {
+    value: 'user_visits',
+    label: 'Visits',
+    fields: [
+      CREATED_AT,
+      { value: 'start_date', label: 'Visit date', kind: 'date' },
+      { value: 'entry_type', label: 'Entry type', kind: 'text' },
+      { value: 'date_precision', label: 'Date precision', kind: 'text' },
+      { value: 'resorts.name', label: 'Resort', kind: 'text' },
+      { value: 'resorts.country', label: 'Resort country', kind: 'text' },
+      { value: 'rating_terrain', label: 'Terrain rating', kind: 'number' },
+      { value: 'rating_facilities', label: 'Facilities rating', kind: 'number' },
+      { value: 'rating_service', label: 'Service rating', kind: 'number' },
+      { value: 'user_id', label: 'User', kind: 'text' },
+    ],
+  },
+  {
+    value: 'wishlists',
+    label: 'Wishlists',
+    fields: [
+      CREATED_AT,
+      { value: 'resorts.name', label: 'Resort', kind: 'text' },
+      { value: 'resorts.country', label: 'Resort country', kind: 'text' },
+      { value: 'user_id', label: 'User', kind: 'text' },
+    ],
+  },
+  {
+    value: 'user_photos',
+    label: 'Photos',
+    fields: [
+      CREATED_AT,
+      { value: 'visit_id', label: 'Visit', kind: 'text' },
+    ],
+  },
+  {
+    value: 'resorts',
+    label: 'Resorts',
+    fields: [
+      CREATED_AT,
+      { value: 'country', label: 'Country', kind: 'text' },
+      { value: 'region', label: 'Region', kind: 'text' },
+      { value: 'verified', label: 'Verified', kind: 'boolean' },
+      { value: 'pass_affiliation', label: 'Pass', kind: 'text' },
+      { value: 'budget_tier', label: 'Budget tier', kind: 'text' },
+      { value: 'has_night_skiing', label: 'Night skiing', kind: 'boolean' },
+      { value: 'vertical_m', label: 'Vertical (m)', kind: 'number' },
+      { value: 'runs', label: 'Runs', kind: 'number' },
+      { value: 'lifts', label: 'Lifts', kind: 'number' },
+      { value: 'annual_snowfall_cm', label: 'Snowfall (cm)', kind: 'number' },
+    ],
+  },
+]
+
+export type ChartMeasure = 'count' | 'count_distinct' | 'sum' | 'avg' | 'min' | 'max'
+
+export const CHART_MEASURES: { value: ChartMeasure; label: string; needsField: boolean }[] = [
+  { value: 'count', label: 'Count of rows', needsField: false },
+  { value: 'count_distinct', label: 'Distinct count of', needsField: true },
+  { value: 'sum', label: 'Sum of', needsField: true },
+  { value: 'avg', label: 'Average of', needsField: true },
+  { value: 'min', label: 'Minimum of', needsField: true },
+  { value: 'max', label: 'Maximum of', needsField: true },
+]
+
+// Date fields group into buckets instead of one group per timestamp
+export type DateBucket = 'day' | 'week' | 'month' | 'year'
+
+export const DATE_BUCKETS: { value: DateBucket; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' },
+]
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'table'
+
+export const CHART_TYPES: { value: ChartType; label: string }[] = [
+  { value: 'bar', label: 'Bar' },
+  { value: 'line', label: 'Line' },
+  { value: 'pie', label: 'Pie' },
+  { value: 'table', label: 'Table' },
+]
+
+// Operators the builder offers; a subset of the table filters' FilterOp
+export const CHART_FILTER_OPS: { value: ServerFilter['op']; label: string }[] = [
+  { value: 'eq', label: 'is' },
+  { value: 'neq', label: 'is not' },
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'ilike', label: 'contains' },
+  { value: 'is', label: 'is empty' },
+]
+
+export interface ChartSpec {
+  table: string
+  group_by: string
+  bucket: DateBucket | null
+  measure: ChartMeasure
+  measure_field: string | null
+  filters: ServerFilter[]
+  chart_type: ChartType
+  // Largest groups kept; date groups are kept in order instead
+  limit: number
+}
+
+export const DEFAULT_CHART_SPEC: ChartSpec = {
+  table: 'user_visits',
+  group_by: 'resorts.country',
+  bucket: null,
+  measure: 'count',
+  measure_field: null,
+  filters: [],
+  chart_type: 'bar',
+  limit: 10,
+}
+
+export interface SavedChart {
+  id: string
+  name: string
+  owner_email: string
+  shared: boolean
+  spec: ChartSpec
+  created_at: string
+}
+
+export interface ChartPoint {
+  label: string
+  value: number
+}
+
+export function chartTable(table: string): ChartTable | undefined {
+  return CHART_TABLES.find((t) => t.value === table)
+}
+
+export function chartField(table: string, field: string | null): ChartField | undefined {
+  return field ? chartTable(table)?.fields.find((f) => f.value === field) : undefined
+}
+
+export function describeChartSpec(spec: ChartSpec): string {
+  const table = chartTable(spec.table)
+  const measure = CHART_MEASURES.find((m) => m.value === spec.measure)
+  const field = chartField(spec.table, spec.measure_field)
+  const group = chartField(spec.table, spec.group_by)
+  const what = measure?.needsField ? `${measure.label} ${field?.label ?? '?'}` : 'Count'
+  const by = spec.bucket ? `${group?.label ?? spec.group_by} (${spec.bucket})` : group?.label ?? spec.group_by
+  return `${what} · ${table?.label ?? spec.table} by ${by}`
+}
+
+// Returns the first problem, or null when the spec can be run
+export function validateChartSpec(spec: ChartSpec): string | null {
+  const table = chartTable(spec.table)
+  if (!table) return 'Pick a table'
+  const group = chartField(spec.table, spec.group_by)
+  if (!group) return 'Pick a field to group by'
+  if (group.kind === 'date' && !spec.bucket) return 'Pick a date bucket'
+  if (CHART_MEASURES.find((m) => m.value === spec.measure)?.needsField) {
+    const field = chartField(spec.table, spec.measure_field)
+    if (!field) return 'Pick a field to measure'
+    if (spec.measure !== 'count_distinct' && field.kind !== 'number') return 'Only number fields can be summed or averaged'
+  }
+  for (const f of spec.filters) {
+    if (!chartField(spec.table, f.column)) return 'Every filter needs a field'
+    if (f.op !== 'is' && (f.value === '' || f.value === null || f.value === undefined)) return 'Every filter needs a value'
+  }
+  if (!Number.isInteger(spec.limit) || spec.limit < 1 || spec.limit > 100) return 'Limit must be between 1 and 100'
+  return null
+}
+
+export async function runChartQuery(spec: ChartSpec): Promise<ChartPoint[]> {
+  const { data, error } = await supabase.rpc('run_analytics_query', { spec })
+  if (error) throw new Error(error.message)
+  return ((data as { label: string | null; value: number | string }[]) ?? []).map((row) => ({
+    label: row.label ?? 'Unknown',
+    value: Number(row.value),
+  }))
+}
+
+// ---------------------------------------------------------------------------
+// Saved charts
+// ---------------------------------------------------------------------------
+
+const SAVED_CHART_COLUMNS = 'id, name, owner_email, shared, spec, created_at'
+
+// The admin's own charts plus everything other admins have shared
+export async function loadSavedCharts(email: string): Promise<SavedChart[]> {
+  const { data, error } = await supabase
+    .from(SAVED_CHARTS_TABLE)
+    .select(SAVED_CHART_COLUMNS)
+    .or(`owner_email.eq."${email}",shared.eq.true`)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return (data as SavedChart[]) ?? []
+}
+
+export async function saveChart(
+  chart: Pick<SavedChart, 'name' | 'shared' | 'spec'> & { id?: string },
+  email: string
+): Promise<SavedChart> {
+  const query = chart.id
+    ? supabase.from(SAVED_CHARTS_TABLE).update({ name: chart.name.trim(), shared: chart.shared, spec: chart.spec }).eq('id', chart.id)
+    : supabase
+        .from(SAVED_CHARTS_TABLE)
+        .insert({ name: chart.name.trim(), shared: chart.shared, spec: chart.spec, owner_email: email })
+  const { data, error } = await query.select(SAVED_CHART_COLUMNS).single()
+  if (error) throw new Error(error.message)
+  return data as SavedChart
+}
+
+export async function deleteSavedChart(id: string): Promise<void> {
+  const { error } = await supabase.from(SAVED_CHARTS_TABLE).delete().eq('id', id)
+  if (error) throw new Error(error.message)
+}
@@ -0,0 +1,299 @@
+import { checkCoordinates } from './geo'
+import { streamRows } from './server-query'
+import { calendarOf, validateCalendar } from './seasons'
+
+// ---------------------------------------------------------------------------
+// Data quality — one declarative rule set for resort data, run on import
+// rows, in the verification queue, in the resort editor and over the whole
+// catalog. A rule looks at one resort and returns a message when it fails;
+// rules that don't apply (e.g. no website given) pass.
+// ---------------------------------------------------------------------------
+
+export type RuleSeverity = 'error' | 'warning'
+
+// Any resort-shaped record: an import row, a queue row, an editor form
+export type ResortData = { [field: string]: unknown }
+
+export interface QualityRule {
+  id: string
+  label: string
+  severity: RuleSeverity
+  // Field the issue is shown against
+  field: string
+  check: (r: ResortData) => string | null
+}
+
+export interface QualityIssue {
+  rule: string
+  field: string
+  severity: RuleSeverity
+  message: string
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && !isNaN(value) ? value : null
+}
+
+// Ranges are checked by their own rules; this is whether the point fits the country
+function coordinateIssues(r: ResortData, severity: RuleSeverity): string | null {
+  const lat = num(r.lat)
+  const lng = num(r.lng)
+  if (lat === null || lng === null) return null
+  const issues = checkCoordinates(lat, lng, text(r.country_code) || null)
+  return issues.filter((i) => i.severity === severity).map((i) => i.message).join('; ') || null
+}
+
+const WEBSITE = /^https?:\/\/[^\s/?#]+\.[^\s/?#]+([/?#]\S*)?$/i
+const INSTAGRAM = /^@?(?!.*\.\.)(?!.*\.$)[A-Za-z0-9._]{1,30}$/
+const BUDGET_TIERS = ['budget', 'mid', 'premium', 'luxury']
+
+export const QUALITY_RULES: QualityRule[] = [
+  {
+    id: 'name_required',
+    label: 'Name is set',
+    severity: 'error',
+    field: 'name',
+    check: (r) => (text(r.name) ? null : 'Name is required'),
+  },
+  {
+    id: 'country_required',
+    label: 'Country is set',
+    severity: 'error',
+    field: 'country',
+    check: (r) => (text(r.country) ? null : 'Country is required'),
+  },
+  {
+    id: 'country_code_format',
+    label: 'Country code is two letters',
+    severity: 'error',
+    field: 'country_code',
+    check: (r) => {
+      const code = text(r.country_code)
+      if (!code) return 'Country code is required'
+      return /^[A-Za-z]{2}$/.test(code) ? null : 'Country code must be 2 characters'
+    },
+  },
+  {
+    id: 'lat_range',
+    label: 'Latitude in range',
+    severity: 'error',
+    field: 'lat',
+    check: (r) => {
+      const lat = num(r.lat)
+      return lat !== null && lat >= -90 && lat <= 90 ? null : 'Latitude must be between -90 and 90'
+    },
+  },
+  {
+    id: 'lng_range',
+    label: 'Longitude in range',
+    severity: 'error',
+    field: 'lng',
+    check: (r) => {
+      const lng = num(r.lng)
+      return lng !== null && lng >= -180 && lng <= 180 ? null : 'Longitude must be between -180 and 180'
+    },
+  },
+  {
+    id: 'coordinates_on_land',
+    label: 'Coordinates on land',
+    severity: 'error',
+    field: 'lat',
+    check: (r) => coordinateIssues(r, 'error'),
+  },
+  {
+    id: 'coordinates_in_country',
+    label: 'Coordinates inside the country',
+    severity: 'warning',
+    field: 'lat',
+    check: (r) => coordinateIssues(r, 'warning'),
+  },
+  {
+    id: 'terrain_sum',
+    label: 'Terrain percentages add up to 100',
+    severity: 'warning',
+    field: 'terrain_pct',
+    check: (r) => {
+      const b = num(r.beginner_pct) ?? 0
+      const i = num(r.intermediate_pct) ?? 0
+      const a = num(r.advanced_pct) ?? 0
+      if (b === 0 && i === 0 && a === 0) return null
+      return Math.abs(b + i + a - 100) > 5 ? `Terrain percentages sum to ${b + i + a}% (expected ~100%)` : null
+    },
+  },
+  {
+    id: 'season_parse',
+    label: 'Season dates can be read',
+    severity: 'warning',
+    field: 'season_open',
+    check: (r) => {
+      if (r.season_calendar || (!text(r.season_open) && !text(r.season_close))) return null
+      return calendarOf(r) ? null : `Can't read season dates "${text(r.season_open) || '—'}" – "${text(r.season_close) || '—'}"`
+    },
+  },
+  {
+    id: 'season_order',
+    label: 'Season windows are valid',
+    // Blocking everywhere, as in the resort editor
+    severity: 'error',
+    field: 'season_close',
+    check: (r) => {
+      const calendar = calendarOf(r)
+      return calendar ? validateCalendar(calendar).join('; ') || null : null
+    },
+  },
+  {
+    id: 'lifts_vs_runs',
+    label: 'Lifts plausible for the number of runs',
+    severity: 'warning',
+    field: 'lifts',
+    check: (r) => {
+      const lifts = num(r.lifts)
+      const runs = num(r.runs)
+      if (!lifts || !runs) return null
+      if (lifts > runs * 1.5 + 2) return `${lifts} lifts for ${runs} runs`
+      if (runs > lifts * 25) return `${runs} runs served by ${lifts} lift${lifts === 1 ? '' : 's'}`
+      return null
+    },
+  },
+  {
+    id: 'vertical_range',
+    label: 'Vertical drop plausible',
+    severity: 'warning',
+    field: 'vertical_m',
+    check: (r) => {
+      const v = num(r.vertical_m)
+      return v === null || (v > 0 && v <= 2500) ? null : `Vertical of ${v} m is outside 1–2,500 m`
+    },
+  },
+  {
+    id: 'snowfall_range',
+    label: 'Snowfall plausible',
+    severity: 'warning',
+    field: 'annual_snowfall_cm',
+    check: (r) => {
+      const s = num(r.annual_snowfall_cm)
+      return s === null || (s >= 0 && s <= 2000) ? null : `Snowfall of ${s} cm is outside 0–2,000 cm`
+    },
+  },
+  {
+    id: 'website_url',
+    label: 'Website is a well-formed URL',
+    severity: 'warning',
+    field: 'website',
+    check: (r) => {
+      const url = text(r.website)
+      return !url || WEBSITE.test(url) ? null : 'Website should be a full http(s) URL'
+    },
+  },
+  {
+    id: 'instagram_handle',
+    label: 'Instagram handle format',
+    severity: 'warning',
+    field: 'instagram_handle',
+    check: (r) => {
+      const handle = text(r.instagram_handle)
+      return !handle || INSTAGRAM.test(handle) ? null : 'Instagram handle should be letters, numbers, . and _ only'
+    },
+  },
+  {
+    id: 'budget_tier',
+    label: 'Budget tier is known',
+    severity: 'warning',
+    field: 'budget_tier',
+    check: (r) => {
+      const tier = text(r.budget_tier)
+      return !tier || BUDGET_TIERS.includes(tier) ? null : `Budget tier must be one of ${BUDGET_TIERS.join(', ')}`
+    },
+  },
+]
+
+export function evaluateResort(r: ResortData): QualityIssue[] {
+  const issues: QualityIssue[] = []
+  for (const rule of QUALITY_RULES) {
+    const message = rule.check(r)
+    if (message) issues.push({ rule: rule.id, field: rule.field, severity: rule.severity, message })
+  }
+  return issues
+}
+
+export function partitionIssues(issues: QualityIssue[]): { errors: QualityIssue[]; warnings: QualityIssue[] } {
+  return {
+    errors: issues.filter((i) => i.severity === 'error'),
+    warnings: issues.filter((i) => i.severity === 'warning'),
+  }
+}
+
+// Fields that need researching beyond the basics every resort has
+export const COMPLETENESS_FIELDS = [
+  'country_code', 'region', 'vertical_m', 'runs', 'lifts',
+  'annual_snowfall_cm', 'beginner_pct', 'intermediate_pct', 'advanced_pct',
+  'season_open', 'season_close', 'has_night_skiing', 'description', 'budget_tier',
+] as const
+
+export type CompletenessLevel = 'complete' | 'almost' | 'low'
+
+export const COMPLETENESS_LEVELS: Record<CompletenessLevel, { label: string; text: string; bar: string }> = {
+  complete: { label: 'Ready', text: 'text-green-400', bar: 'bg-green-400' },
+  almost: { label: 'Almost', text: 'text-yellow-400', bar: 'bg-yellow-400' },
+  low: { label: 'Needs Work', text: 'text-red-400', bar: 'bg-red-400' },
+}
+
+export function completeness(r: ResortData): { filled: number; total: number; level: CompletenessLevel } {
+  const total = COMPLETENESS_FIELDS.length
+  const filled = COMPLETENESS_FIELDS.filter((f) => r[f] !== null && r[f] !== undefined && r[f] !== '').length
+  const level = filled === total ? 'complete' : filled / total >= 0.7 ? 'almost' : 'low'
+  return { filled, total, level }
+}
+
+// 0–100: completeness, less 20 per failed error rule and 5 per warning
+export function qualityScore(r: ResortData, issues = evaluateResort(r)): number {
+  const { filled, total } = completeness(r)
+  const { errors, warnings } = partitionIssues(issues)
+  return Math.max(0, Math.round((filled / total) * 100 - errors.length * 20 - warnings.length * 5))
+}
+
+export interface ResortQuality {
+  id: string
+  name: string
+  country: string | null
+  verified: boolean
+  score: number
+  issues: QualityIssue[]
+}
+
+const CATALOG_COLUMNS = [
+  'id', 'name', 'country', 'country_code', 'region', 'lat', 'lng', 'website', 'verified',
+  'vertical_m', 'runs', 'lifts', 'annual_snowfall_cm', 'beginner_pct', 'intermediate_pct', 'advanced_pct',
+  'season_open', 'season_close', 'season_calendar', 'has_night_skiing', 'instagram_handle', 'description',
+  'budget_tier',
+].join(', ')
+
+// Every resort, scored. The rules run client-side so the catalog is judged by
+// exactly the same checks as the editor and import.
+export async function loadCatalogQuality(): Promise<ResortQuality[]> {
+  const result: ResortQuality[] = []
+  for await (const batch of streamRows({
+    table: 'resorts',
+    select: CATALOG_COLUMNS,
+    filters: [],
+    search: null,
+    sort: { column: 'name', desc: false },
+  })) {
+    for (const r of batch) {
+      const issues = evaluateResort(r)
+      result.push({
+        id: String(r.id),
+        name: String(r.name ?? ''),
+        country: (r.country as string | null) ?? null,
+        verified: r.verified === true,
+        score: qualityScore(r, issues),
+        issues,
+      })
+    }
+  }
+  return result
+}
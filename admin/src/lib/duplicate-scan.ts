@@ -0,0 +1,112 @@
+import { supabase } from './supabase'
+import { SUPABASE_URL } from './constants'
+import { MERGE_FIELDS, type MergeResort } from './resort-merge'
+
+// ---------------------------------------------------------------------------
+// Duplicate scan — scan-resort-duplicates compares every pair of resorts that
+// share a country or sit within a few km of each other, scores them on name,
+// transliterated name, distance and website domain, and keeps the likely
+// duplicates in resort_duplicate_candidates for review. It runs nightly and
+// on demand; dismissed pairs are remembered and not raised again.
+// ---------------------------------------------------------------------------
+
+export const DUPLICATE_CANDIDATES_TABLE = 'resort_duplicate_candidates'
+
+export type CandidateStatus = 'pending' | 'dismissed' | 'merged'
+
+export interface DuplicateSignals {
+  // Trigram similarity of the normalized names, 0–1
+  name_similarity: number
+  // Names only match once accents and scripts are transliterated
+  transliterated: boolean
+  // Null when either resort has no coordinates
+  distance_km: number | null
+  // Shared website domain, if any
+  domain: string | null
+}
+
+export interface DuplicateCandidate {
+  id: string
+  resort_a_id: string
+  resort_b_id: string
+  // Weighted signals, 0–1
+  score: number
+  signals: DuplicateSignals
+  status: CandidateStatus
+  scanned_at: string
+  reviewed_by: string | null
+  reviewed_at: string | null
+  resort_a: MergeResort | null
+  resort_b: MergeResort | null
+}
+
+// Scores below this aren't stored by the scan; above it the UI calls a pair likely
+export const LIKELY_DUPLICATE_SCORE = 0.8
+
+export interface ScanResult {
+  resorts: number
+  candidates: number
+  new_candidates: number
+}
+
+const RESORT_EMBED = ['id', ...MERGE_FIELDS].join(', ')
+
+export async function loadDuplicateCandidates(status: CandidateStatus): Promise<DuplicateCandidate[]> {
+  const { data, error } = await supabase
+    .from(DUPLICATE_CANDIDATES_TABLE)
+    .select(
+      `id, resort_a_id, resort_b_id, score, signals, status, scanned_at, reviewed_by, reviewed_at, resort_a:resort_a_id(${RESORT_EMBED}), resort_b:resort_b_id(${RESORT_EMBED})`
+    )
+    .eq('status', status)
+    .order('score', { ascending: false })
+    .limit(200)
+  if (error) throw new Error(error.message)
+  return (data as unknown as DuplicateCandidate[]) ?? []
+}
+
+export async function countPendingDuplicates(): Promise<number> {
+  const { count, error } = await supabase
+    .from(DUPLICATE_CANDIDATES_TABLE)
+    .select('*', { count: 'exact', head: true })
+    .eq('status', 'pending')
+  if (error) throw new Error(error.message)
+  return count ?? 0
+}
+
+export async function setCandidateStatus(id: string, status: CandidateStatus): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const { error } = await supabase
+    .from(DUPLICATE_CANDIDATES_TABLE)
+    .update({ status, reviewed_by: session?.user?.email ?? 'unknown', reviewed_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) throw new Error(error.message)
+}
+
+export async function runDuplicateScan(): Promise<ScanResult> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const res = await fetch(`${SUPABASE_URL}/functions/v1/scan-resort-duplicates`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ action: 'scan' }),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || 'Scan failed')
+  return data as ScanResult
+}
+
+// Human-readable reasons, strongest first
+export function describeSignals(signals: DuplicateSignals): string[] {
+  const reasons: string[] = []
+  if (signals.transliterated) reasons.push('Same name once transliterated')
+  else if (signals.name_similarity > 0) reasons.push(`Names ${Math.round(signals.name_similarity * 100)}% similar`)
+  if (signals.distance_km !== null) {
+    reasons.push(signals.distance_km < 1 ? 'Under 1 km apart' : `${signals.distance_km.toFixed(1)} km apart`)
+  }
+  if (signals.domain) reasons.push(`Same website (${signals.domain})`)
+  return reasons
+}
@@ -0,0 +1,146 @@
+import { supabase } from './supabase'
+import { SUPABASE_URL } from './constants'
+
+// ---------------------------------------------------------------------------
+// Edge functions — every deployed function goes through the shared request
+// wrapper, which records its invocations in edge_function_invocations and
+// answers health checks itself. A ping carries the HEALTH_CHECK_HEADER and is
+// answered before the function's handler runs, so pinging a function that
+// sends email or deletes accounts can't trigger either.
+// ---------------------------------------------------------------------------
+
+export const INVOCATIONS_TABLE = 'edge_function_invocations'
+
+export interface EdgeFunction {
+  name: string
+  description: string
+  // Called from this admin app rather than by the mobile app or a trigger
+  admin?: boolean
+}
+
+export const EDGE_FUNCTIONS: EdgeFunction[] = [
+  { name: 'admin-login-check', description: 'Sign-in lockout and MFA requirement check', admin: true },
+  { name: 'admin-mfa-recovery', description: 'Redeem admin MFA recovery codes', admin: true },
+  { name: 'admin-delete-user', description: 'Delete a user account (admin action)', admin: true },
+  { name: 'admin-list-submissions', description: 'List resort submissions with duplicate matches', admin: true },
+  { name: 'admin-manage-submission', description: 'Approve and reject resort submissions', admin: true },
+  { name: 'admin-bulk-import-resorts', description: 'Bulk resort import, enrichment and placeholders', admin: true },
+  { name: 'admin-scheduled-exports', description: 'Run scheduled table exports', admin: true },
+  { name: 'admin-merge-resorts', description: 'Merge duplicate resorts and undo merges', admin: true },
+  { name: 'scan-resort-duplicates', description: 'Score resort pairs for the duplicate review queue', admin: true },
+  { name: 'send-broadcast-email', description: 'Send update emails to users and testers', admin: true },
+  { name: 'collect-service-usage', description: 'Collect service usage for the Overview quotas', admin: true },
+  { name: 'evaluate-alert-rules', description: 'Evaluate alert rules and deliver notifications', admin: true },
+  { name: 'process-resort-image', description: 'Process and optimize resort images', admin: true },
+  { name: 'notify-user-resort-approved', description: 'Notify user when their resort submission is approved' },
+  { name: 'notify-resort-submission', description: 'Notify admins of new resort submissions' },
+  { name: 'send-support-notification', description: 'Send notifications for support requests' },
+  { name: 'notify-password-changed', description: 'Notify user of password change' },
+  { name: 'delete-user-account', description: 'User-initiated account deletion' },
+  { name: 'discover-resorts', description: 'AI-powered resort discovery' },
+  { name: 'sync', description: 'WatermelonDB pull/push sync' },
+]
+
+// ---------------------------------------------------------------------------
+// Invocation stats
+// ---------------------------------------------------------------------------
+
+// Window the System page summarizes
+export const HEALTH_WINDOW_HOURS = 24
+
+// Per-function aggregates from the get_edge_function_stats RPC
+export interface EdgeFunctionStats {
+  function_name: string
+  invocations: number
+  errors: number
+  p50_ms: number | null
+  p95_ms: number | null
+  last_success_at: string | null
+  last_error_at: string | null
+}
+
+export interface EdgeFunctionInvocation {
+  id: string
+  function_name: string
+  status: 'success' | 'error'
+  status_code: number | null
+  duration_ms: number | null
+  // Shape of the request body with values truncated; never the full payload
+  payload_summary: Record<string, unknown> | null
+  error: string | null
+  invoked_at: string
+}
+
+export async function loadEdgeFunctionStats(hours = HEALTH_WINDOW_HOURS): Promise<Record<string, EdgeFunctionStats>> {
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString()
+  const { data, error } = await supabase.rpc('get_edge_function_stats', { since })
+  if (error) throw new Error(error.message)
+  return Object.fromEntries(((data ?? []) as EdgeFunctionStats[]).map((s) => [s.function_name, s]))
+}
+
+export async function loadFailedInvocations(name: string, limit = 20): Promise<EdgeFunctionInvocation[]> {
+  const { data, error } = await supabase
+    .from(INVOCATIONS_TABLE)
+    .select('*')
+    .eq('function_name', name)
+    .eq('status', 'error')
+    .order('invoked_at', { ascending: false })
+    .limit(limit)
+  if (error) throw new Error(error.message)
+  return (data as EdgeFunctionInvocation[]) ?? []
+}
+
+export function errorRate(stats: EdgeFunctionStats | undefined): number | null {
+  if (!stats || stats.invocations === 0) return null
+  return stats.errors / stats.invocations
+}
+
+// ---------------------------------------------------------------------------
+// Ping
+// ---------------------------------------------------------------------------
+
+export interface PingResult {
+  ok: boolean
+  status: number
+  // Round trip from this browser, so it includes network and cold start
+  latencyMs: number
+  version?: string
+  error?: string
+}
+
+export const HEALTH_CHECK_HEADER = 'x-health-check'
+
+// Never throws: an unreachable function is a result, not a failure
+export async function pingEdgeFunction(name: string): Promise<PingResult> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) return { ok: false, status: 0, latencyMs: 0, error: 'Not authenticated' }
+
+  const started = performance.now()
+  try {
+    const res = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+        [HEALTH_CHECK_HEADER]: '1',
+      },
+      body: JSON.stringify({ action: 'ping' }),
+    })
+    const latencyMs = Math.round(performance.now() - started)
+    const data = await res.json().catch(() => ({}))
+    return {
+      ok: res.ok,
+      status: res.status,
+      latencyMs,
+      version: data.version,
+      error: res.ok ? undefined : data.error || res.statusText,
+    }
+  } catch (err) {
+    return {
+      ok: false,
+      status: 0,
+      latencyMs: Math.round(performance.now() - started),
+      error: err instanceof Error ? err.message : 'Network error',
+    }
+  }
+}
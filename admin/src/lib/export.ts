@@ -0,0 +1,458 @@
+// Exports of full server-side result sets. Rows are fetched in keyset batches
+// and written straight to the output as they arrive: to disk via the File
+// System Access API where the browser has it, otherwise into a Blob that is
+// downloaded at the end.
+
+import { streamRows, type ServerQuery } from './server-query'
+
+type Row = Record<string, unknown>
+type Bytes = Uint8Array<ArrayBuffer>
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx'
+
+export interface ExportColumn {
+  // Dotted path into the flattened row, e.g. `resorts.name` for a resorts(name) join
+  key: string
+  label: string
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+]
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+const EXPORT_BATCH_SIZE = 1000
+
+const encoder = new TextEncoder()
+
+// ---------------------------------------------------------------------------
+// Rows and columns
+// ---------------------------------------------------------------------------
+
+// Nested join objects become dotted keys; arrays of scalars are joined, arrays
+// of objects (one-to-many joins) are kept as JSON
+export function flattenRow(row: Row, prefix = '', out: Row = {}): Row {
+  for (const [key, value] of Object.entries(row)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (Array.isArray(value)) {
+      out[path] = value.every((v) => v === null || typeof v !== 'object') ? value.join('; ') : JSON.stringify(value)
+    } else if (value !== null && typeof value === 'object') {
+      flattenRow(value as Row, path, out)
+    } else {
+      out[path] = value
+    }
+  }
+  return out
+}
+
+// Every key that appears in any row, in first-seen order
+export function columnsFromRows(rows: Row[]): ExportColumn[] {
+  const keys = new Set<string>()
+  for (const row of rows) {
+    for (const key of Object.keys(flattenRow(row))) keys.add(key)
+  }
+  return [...keys].map((key) => ({ key, label: key }))
+}
+
+// ---------------------------------------------------------------------------
+// Output sinks
+// ---------------------------------------------------------------------------
+
+interface ExportSink {
+  write(chunk: Bytes): Promise<void>
+  close(): Promise<void>
+  // Discard a partly written export
+  abort(): Promise<void>
+}
+
+interface SaveFilePicker {
+  showSaveFilePicker?: (options: { suggestedName: string }) => Promise<{
+    createWritable(): Promise<{ write(data: Bytes): Promise<void>; close(): Promise<void>; abort(): Promise<void> }>
+  }>
+}
+
+export function exportFilename(filename: string, format: ExportFormat): string {
+  return `${filename}-${new Date().toISOString().slice(0, 10)}.${format}`
+}
+
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = name
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+function blobSink(name: string, format: ExportFormat): ExportSink {
+  const parts: Bytes[] = []
+  return {
+    async write(chunk) {
+      parts.push(chunk)
+    },
+    async close() {
+      downloadBlob(new Blob(parts, { type: MIME_TYPES[format] }), name)
+    },
+    async abort() {
+      parts.length = 0
+    },
+  }
+}
+
+// Throws an AbortError if the admin cancels the save dialog
+async function openSink(name: string, format: ExportFormat, toDisk: boolean): Promise<ExportSink> {
+  const picker = (window as unknown as SaveFilePicker).showSaveFilePicker
+  if (!toDisk || !picker) return blobSink(name, format)
+  const handle = await picker({ suggestedName: name })
+  const writable = await handle.createWritable()
+  return {
+    write: (chunk) => writable.write(chunk),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  }
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+// ---------------------------------------------------------------------------
+// Formats
+// ---------------------------------------------------------------------------
+
+interface RowWriter {
+  begin(): Promise<void>
+  write(rows: Row[]): Promise<void>
+  end(): Promise<void>
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function csvWriter(sink: ExportSink, columns: ExportColumn[]): RowWriter {
+  const escape = (s: string) => (/[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s)
+  return {
+    // BOM so Excel opens UTF-8 CSVs with accents intact
+    begin: () => sink.write(encoder.encode(`\uFEFF${columns.map((c) => escape(c.label)).join(',')}\n`)),
+    write: (rows) =>
+      sink.write(
+        encoder.encode(
+          rows
+            .map((row) => {
+              const flat = flattenRow(row)
+              return columns.map((c) => escape(cellText(flat[c.key]))).join(',')
+            })
+            .join('\n') + '\n'
+        )
+      ),
+    end: async () => {},
+  }
+}
+
+function jsonWriter(sink: ExportSink, columns: ExportColumn[]): RowWriter {
+  let first = true
+  return {
+    begin: () => sink.write(encoder.encode('[\n')),
+    write: (rows) => {
+      const text = rows
+        .map((row) => {
+          const flat = flattenRow(row)
+          const obj = Object.fromEntries(columns.map((c) => [c.label, flat[c.key] ?? null]))
+          const line = `${first ? '' : ',\n'}  ${JSON.stringify(obj)}`
+          first = false
+          return line
+        })
+        .join('')
+      return sink.write(encoder.encode(text))
+    },
+    end: () => sink.write(encoder.encode('\n]\n')),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// XLSX: a minimal single-sheet workbook with inline strings, zipped without
+// compression. Entry sizes go in trailing data descriptors so the sheet can be
+// written as rows arrive.
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(crc: number, bytes: Uint8Array): number {
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+class ZipWriter {
+  private offset = 0
+  private entries: { name: Bytes; crc: number; size: number; offset: number }[] = []
+  private current: { name: Bytes; crc: number; size: number; offset: number } | null = null
+  private readonly time: number
+  private readonly date: number
+
+  constructor(private sink: ExportSink) {
+    const now = new Date()
+    this.time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1)
+    this.date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+  }
+
+  private async raw(bytes: Bytes) {
+    await this.sink.write(bytes)
+    this.offset += bytes.length
+  }
+
+  async beginFile(name: string) {
+    const nameBytes = encoder.encode(name)
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 0x0808, true) // data descriptor follows; UTF-8 name
+    header.setUint16(8, 0, true) // stored
+    header.setUint16(10, this.time, true)
+    header.setUint16(12, this.date, true)
+    header.setUint16(26, nameBytes.length, true)
+    this.current = { name: nameBytes, crc: 0, size: 0, offset: this.offset }
+    await this.raw(new Uint8Array(header.buffer))
+    await this.raw(nameBytes)
+  }
+
+  async write(text: string) {
+    const bytes = encoder.encode(text)
+    this.current!.crc = crc32(this.current!.crc, bytes)
+    this.current!.size += bytes.length
+    await this.raw(bytes)
+  }
+
+  async endFile() {
+    const entry = this.current!
+    const descriptor = new DataView(new ArrayBuffer(16))
+    descriptor.setUint32(0, 0x08074b50, true)
+    descriptor.setUint32(4, entry.crc, true)
+    descriptor.setUint32(8, entry.size, true)
+    descriptor.setUint32(12, entry.size, true)
+    await this.raw(new Uint8Array(descriptor.buffer))
+    this.entries.push(entry)
+    this.current = null
+  }
+
+  async addFile(name: string, text: string) {
+    await this.beginFile(name)
+    await this.write(text)
+    await this.endFile()
+  }
+
+  async finish() {
+    const start = this.offset
+    for (const e of this.entries) {
+      const header = new DataView(new ArrayBuffer(46))
+      header.setUint32(0, 0x02014b50, true)
+      header.setUint16(4, 20, true)
+      header.setUint16(6, 20, true)
+      header.setUint16(8, 0x0808, true)
+      header.setUint16(10, 0, true)
+      header.setUint16(12, this.time, true)
+      header.setUint16(14, this.date, true)
+      header.setUint32(16, e.crc, true)
+      header.setUint32(20, e.size, true)
+      header.setUint32(24, e.size, true)
+      header.setUint16(28, e.name.length, true)
+      header.setUint32(42, e.offset, true)
+      await this.raw(new Uint8Array(header.buffer))
+      await this.raw(e.name)
+    }
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, 0x06054b50, true)
+    end.setUint16(8, this.entries.length, true)
+    end.setUint16(10, this.entries.length, true)
+    end.setUint32(12, this.offset - start, true)
+    end.setUint32(16, start, true)
+    await this.raw(new Uint8Array(end.buffer))
+  }
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+const DOC_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+const XLSX_PARTS: [string, string][] = [
+  [
+    '[Content_Types].xml',
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+  ],
+  [
+    '_rels/.rels',
+    `<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${DOC_REL}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  ],
+  [
+    'xl/workbook.xml',
+    `<workbook xmlns="${SHEET_NS}" xmlns:r="${DOC_REL}"><sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  ],
+  [
+    'xl/_rels/workbook.xml.rels',
+    `<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${DOC_REL}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+  ],
+]
+
+// Excel rejects cells over 32,767 characters and XML 1.0 control characters
+function xmlText(s: string): string {
+  return s
+    .slice(0, 32767)
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function xlsxCell(value: unknown): string {
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c><v>${value}</v></c>`
+  if (typeof value === 'boolean') return `<c t="b"><v>${value ? 1 : 0}</v></c>`
+  const text = cellText(value)
+  return text ? `<c t="inlineStr"><is><t xml:space="preserve">${xmlText(text)}</t></is></c>` : '<c/>'
+}
+
+function xlsxWriter(sink: ExportSink, columns: ExportColumn[]): RowWriter {
+  const zip = new ZipWriter(sink)
+  return {
+    begin: async () => {
+      for (const [name, xml] of XLSX_PARTS) await zip.addFile(name, XML_HEADER + xml)
+      await zip.beginFile('xl/worksheets/sheet1.xml')
+      await zip.write(`${XML_HEADER}<worksheet xmlns="${SHEET_NS}"><sheetData>`)
+      await zip.write(`<row>${columns.map((c) => xlsxCell(c.label)).join('')}</row>`)
+    },
+    write: (rows) =>
+      zip.write(
+        rows
+          .map((row) => {
+            const flat = flattenRow(row)
+            return `<row>${columns.map((c) => xlsxCell(flat[c.key])).join('')}</row>`
+          })
+          .join('')
+      ),
+    end: async () => {
+      await zip.write('</sheetData></worksheet>')
+      await zip.endFile()
+      await zip.finish()
+    },
+  }
+}
+
+const WRITERS: Record<ExportFormat, (sink: ExportSink, columns: ExportColumn[]) => RowWriter> = {
+  csv: csvWriter,
+  json: jsonWriter,
+  xlsx: xlsxWriter,
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+interface StreamExportOptions {
+  query: ServerQuery
+  columns: ExportColumn[]
+  format: ExportFormat
+  filename: string
+  // Shape each batch before writing (e.g. attach profiles), as the page does for display
+  transform?: (rows: Row[]) => Row[] | Promise<Row[]>
+  onProgress?: (written: number) => void
+  signal?: AbortSignal
+}
+
+// Returns the number of rows written
+export async function streamExport({
+  query,
+  columns,
+  format,
+  filename,
+  transform,
+  onProgress,
+  signal,
+}: StreamExportOptions): Promise<number> {
+  const sink = await openSink(exportFilename(filename, format), format, true)
+  const writer = WRITERS[format](sink, columns)
+  let written = 0
+
+  try {
+    await writer.begin()
+    for await (const batch of streamRows(query, EXPORT_BATCH_SIZE)) {
+      if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError')
+      await writer.write(transform ? await transform(batch) : batch)
+      written += batch.length
+      onProgress?.(written)
+    }
+    await writer.end()
+  } catch (err) {
+    await sink.abort().catch(() => {})
+    throw err
+  }
+  await sink.close()
+  return written
+}
+
+// Rows already in memory, e.g. a page's current list
+export async function exportRows(rows: Row[], format: ExportFormat, filename: string, columns = columnsFromRows(rows)) {
+  const sink = blobSink(exportFilename(filename, format), format)
+  const writer = WRITERS[format](sink, columns)
+  await writer.begin()
+  await writer.write(rows)
+  await writer.end()
+  await sink.close()
+}
+
+// ---------------------------------------------------------------------------
+// Scheduled exports. The admin-scheduled-exports edge function runs due rows
+// from admin_scheduled_exports on a cron and writes each file to the exports
+// bucket under <schedule id>/.
+// ---------------------------------------------------------------------------
+
+export type ExportFrequency = 'daily' | 'weekly' | 'monthly'
+
+export const EXPORT_FREQUENCIES: { value: ExportFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+]
+
+export const EXPORTS_BUCKET = 'admin-exports'
+
+export interface ScheduledExport {
+  id: string
+  name: string
+  query: ServerQuery
+  columns: ExportColumn[]
+  format: ExportFormat
+  frequency: ExportFrequency
+  enabled: boolean
+  next_run_at: string
+  last_run_at: string | null
+  last_status: 'success' | 'failed' | null
+  last_error: string | null
+  created_by: string
+  created_at: string
+}
+
+export function nextRunAt(frequency: ExportFrequency, from = new Date()): string {
+  const next = new Date(from)
+  if (frequency === 'daily') next.setDate(next.getDate() + 1)
+  else if (frequency === 'weekly') next.setDate(next.getDate() + 7)
+  else next.setMonth(next.getMonth() + 1)
+  return next.toISOString()
+}
@@ -0,0 +1,282 @@
+import { supabase } from './supabase'
+import { MAP_TILE_URL } from './constants'
+
+// ---------------------------------------------------------------------------
+// Geo — coordinate checks for resort pins and the Web Mercator maths behind
+// the map picker. Country shapes are bounding boxes, which is coarse but needs
+// no boundary data: it catches swapped or sign-flipped coordinates and pins on
+// the wrong continent, not a resort a few km over a border.
+// ---------------------------------------------------------------------------
+
+// [minLat, minLng, maxLat, maxLng]
+type Box = [number, number, number, number]
+
+// Countries with ski areas. Overseas territories are left out, and countries
+// spanning the antimeridian get one box per side.
+export const COUNTRY_BOUNDS: Record<string, Box[]> = {
+  AD: [[42.43, 1.41, 42.66, 1.79]],
+  AM: [[38.84, 43.45, 41.3, 46.63]],
+  AR: [[-55.06, -73.58, -21.78, -53.59]],
+  AT: [[46.37, 9.53, 49.02, 17.16]],
+  AU: [[-43.74, 112.92, -10.06, 153.64]],
+  BA: [[42.56, 15.72, 45.28, 19.62]],
+  BG: [[41.23, 22.36, 44.22, 28.61]],
+  BY: [[51.26, 23.18, 56.17, 32.78]],
+  CA: [[41.68, -141.0, 83.11, -52.62]],
+  CH: [[45.82, 5.96, 47.81, 10.49]],
+  CL: [[-55.98, -75.64, -17.5, -66.42]],
+  CN: [[18.16, 73.5, 53.56, 134.77]],
+  CY: [[34.57, 32.27, 35.7, 34.6]],
+  CZ: [[48.55, 12.09, 51.06, 18.86]],
+  DE: [[47.27, 5.87, 55.06, 15.04]],
+  ES: [[35.95, -9.39, 43.79, 4.33]],
+  FI: [[59.81, 20.55, 70.09, 31.59]],
+  FR: [[41.33, -5.14, 51.09, 9.56]],
+  GB: [[49.96, -8.65, 60.86, 1.77]],
+  GE: [[41.05, 40.01, 43.59, 46.74]],
+  GR: [[34.8, 19.37, 41.75, 29.65]],
+  HR: [[42.39, 13.49, 46.55, 19.45]],
+  IL: [[29.49, 34.27, 33.33, 35.9]],
+  IN: [[6.75, 68.18, 35.67, 97.4]],
+  IR: [[25.06, 44.03, 39.78, 63.33]],
+  IS: [[63.29, -24.55, 66.57, -13.49]],
+  IT: [[36.62, 6.63, 47.09, 18.52]],
+  JP: [[24.04, 122.93, 45.55, 145.82]],
+  KG: [[39.17, 69.28, 43.27, 80.28]],
+  KR: [[33.11, 124.61, 38.61, 130.93]],
+  KZ: [[40.57, 46.49, 55.44, 87.32]],
+  LB: [[33.05, 35.1, 34.69, 36.62]],
+  LI: [[47.05, 9.47, 47.27, 9.64]],
+  LS: [[-30.68, 27.01, -28.57, 29.46]],
+  MA: [[27.66, -13.17, 35.92, -0.99]],
+  ME: [[41.85, 18.43, 43.56, 20.36]],
+  MK: [[40.85, 20.45, 42.37, 23.03]],
+  NO: [[57.96, 4.65, 71.19, 31.17]],
+  NZ: [[-47.29, 166.43, -34.39, 178.55]],
+  PL: [[49.0, 14.12, 54.84, 24.15]],
+  PT: [[36.96, -9.5, 42.15, -6.19]],
+  RO: [[43.62, 20.26, 48.27, 29.69]],
+  RS: [[42.23, 18.82, 46.19, 23.01]],
+  RU: [[41.19, 19.64, 81.86, 180], [64.0, -180, 71.6, -169.0]],
+  SE: [[55.34, 11.11, 69.06, 24.17]],
+  SI: [[45.42, 13.38, 46.88, 16.61]],
+  SK: [[47.73, 16.83, 49.61, 22.57]],
+  TR: [[35.82, 25.66, 42.11, 44.82]],
+  UA: [[44.39, 22.14, 52.38, 40.23]],
+  US: [[24.4, -124.8, 49.4, -66.9], [51.2, -179.2, 71.4, -129.9], [18.9, -160.3, 22.3, -154.8]],
+  ZA: [[-34.84, 16.45, -22.13, 32.89]],
+}
+
+// Boxes are drawn tight to the coast, so allow for rounding and border areas
+const BOUNDS_PADDING = 0.25
+
+// Stretches of open ocean with no land that could host a resort
+const OPEN_OCEAN: Box[] = [
+  [20, -50, 55, -20], // North Atlantic
+  [-50, -30, 0, 5], // South Atlantic
+  [25, -170, 45, -130], // North Pacific
+  [-60, -170, -10, -85], // South Pacific
+  [-45, 60, -5, 105], // Indian Ocean
+]
+
+// Resorts closer than this to another one are shown as possible duplicates
+export const NEARBY_KM = 10
+
+function inBox([minLat, minLng, maxLat, maxLng]: Box, lat: number, lng: number, pad = 0): boolean {
+  return lat >= minLat - pad && lat <= maxLat + pad && lng >= minLng - pad && lng <= maxLng + pad
+}
+
+export function inCountry(countryCode: string, lat: number, lng: number): boolean | null {
+  const boxes = COUNTRY_BOUNDS[countryCode.toUpperCase()]
+  if (!boxes) return null
+  return boxes.some((box) => inBox(box, lat, lng, BOUNDS_PADDING))
+}
+
+export function validCoordinates(lat: number | null | undefined, lng: number | null | undefined): boolean {
+  return (
+    typeof lat === 'number' && typeof lng === 'number' &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180
+  )
+}
+
+export interface CoordinateIssue {
+  severity: 'error' | 'warning'
+  message: string
+  // A likely fix, e.g. the same numbers with lat/lng swapped
+  suggestion?: { lat: number; lng: number }
+}
+
+// Range problems aren't reported here; callers already check those
+export function checkCoordinates(lat: number, lng: number, countryCode: string | null): CoordinateIssue[] {
+  if (!validCoordinates(lat, lng)) return []
+  const issues: CoordinateIssue[] = []
+
+  if (lat === 0 && lng === 0) {
+    issues.push({ severity: 'error', message: 'Coordinates are 0, 0 — probably missing rather than real' })
+    return issues
+  }
+
+  if (OPEN_OCEAN.some((box) => inBox(box, lat, lng))) {
+    issues.push({ severity: 'error', message: 'Coordinates are in the open ocean' })
+  }
+
+  const code = countryCode?.trim().toUpperCase()
+  if (code && inCountry(code, lat, lng) === false) {
+    const candidates = [
+      { lat: lng, lng: lat },
+      { lat: -lat, lng },
+      { lat, lng: -lng },
+      { lat: -lat, lng: -lng },
+    ]
+    const suggestion = candidates.find((c) => validCoordinates(c.lat, c.lng) && inCountry(code, c.lat, c.lng))
+    issues.push({
+      severity: 'warning',
+      message: suggestion
+        ? `Outside ${code}; ${suggestion.lat}, ${suggestion.lng} (swapped or sign-flipped) would be inside`
+        : `Outside the ${code} boundary`,
+      suggestion,
+    })
+  }
+  return issues
+}
+
+export function distanceKm(aLat: number, aLng: number, bLat: number, bLng: number): number {
+  const rad = Math.PI / 180
+  const dLat = (bLat - aLat) * rad
+  const dLng = (bLng - aLng) * rad
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(aLat * rad) * Math.cos(bLat * rad) * Math.sin(dLng / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(h))
+}
+
+export interface NearbyResort {
+  id: string
+  name: string
+  country: string | null
+  lat: number
+  lng: number
+  distance_km: number
+}
+
+// Resorts within `radiusKm`, closest first. The query takes a lat/lng box
+// around the point and the exact distance is checked here.
+export async function loadNearbyResorts(
+  lat: number,
+  lng: number,
+  excludeId: string | null,
+  radiusKm = NEARBY_KM
+): Promise<NearbyResort[]> {
+  const latSpan = radiusKm / 111
+  const lngSpan = radiusKm / (111 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01))
+  let query = supabase
+    .from('resorts')
+    .select('id, name, country, lat, lng')
+    .gte('lat', lat - latSpan)
+    .lte('lat', lat + latSpan)
+    .gte('lng', lng - lngSpan)
+    .lte('lng', lng + lngSpan)
+    .limit(50)
+  if (excludeId) query = query.neq('id', excludeId)
+
+  const { data, error } = await query
+  if (error) throw new Error(error.message)
+  return ((data as Omit<NearbyResort, 'distance_km'>[]) ?? [])
+    .map((r) => ({ ...r, distance_km: distanceKm(lat, lng, r.lat, r.lng) }))
+    .filter((r) => r.distance_km <= radiusKm)
+    .sort((a, b) => a.distance_km - b.distance_km)
+}
+
+// ---------------------------------------------------------------------------
+// Web Mercator, in pixels of a 256px-tile world at zoom `z`
+// ---------------------------------------------------------------------------
+
+export const TILE_SIZE = 256
+const MAX_MERCATOR_LAT = 85.0511
+
+export function project(lat: number, lng: number, z: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** z
+  const clamped = Math.max(Math.min(lat, MAX_MERCATOR_LAT), -MAX_MERCATOR_LAT)
+  const sin = Math.sin((clamped * Math.PI) / 180)
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  }
+}
+
+export function unproject(x: number, y: number, z: number): { lat: number; lng: number } {
+  const scale = TILE_SIZE * 2 ** z
+  const n = Math.PI - (2 * Math.PI * y) / scale
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / scale) * 360 - 180,
+  }
+}
+
+// Top-left corner of the viewport, in world pixels, for a map centred on `center`
+export function viewOrigin(
+  center: { lat: number; lng: number },
+  z: number,
+  width: number,
+  height: number
+): { x: number; y: number } {
+  const c = project(center.lat, center.lng, z)
+  return { x: c.x - width / 2, y: c.y - height / 2 }
+}
+
+export interface MapTile {
+  key: string
+  url: string
+  left: number
+  top: number
+}
+
+// Tiles covering the viewport; x wraps around the antimeridian. Empty when
+// MAP_TILE_URL isn't set.
+export function viewTiles(z: number, origin: { x: number; y: number }, width: number, height: number): MapTile[] {
+  if (!MAP_TILE_URL) return []
+  const template = MAP_TILE_URL
+  const count = 2 ** z
+  const list: MapTile[] = []
+  for (let tx = Math.floor(origin.x / TILE_SIZE); tx * TILE_SIZE < origin.x + width; tx++) {
+    for (let ty = Math.max(Math.floor(origin.y / TILE_SIZE), 0); ty * TILE_SIZE < origin.y + height && ty < count; ty++) {
+      const x = ((tx % count) + count) % count
+      list.push({
+        key: `${z}/${tx}/${ty}`,
+        url: template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(ty)),
+        left: tx * TILE_SIZE - origin.x,
+        top: ty * TILE_SIZE - origin.y,
+      })
+    }
+  }
+  return list
+}
+
+// Grid spacing candidates in degrees, coarse to fine
+const GRID_STEPS = [30, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001]
+
+export interface MapGrid {
+  lngs: number[]
+  lats: number[]
+  decimals: number
+}
+
+// Lat/lng lines for the offline stand-in, at least ~60px apart. Null when
+// MAP_TILE_URL is set and tiles are drawn instead.
+export function viewGrid(z: number, origin: { x: number; y: number }, width: number, height: number): MapGrid | null {
+  if (MAP_TILE_URL) return null
+  const pxPerDegree = (TILE_SIZE * 2 ** z) / 360
+  const step = GRID_STEPS.find((s) => s * pxPerDegree < 120) ?? GRID_STEPS[GRID_STEPS.length - 1]
+  const topLeft = unproject(origin.x, origin.y, z)
+  const bottomRight = unproject(origin.x + width, origin.y + height, z)
+  const lngs: number[] = []
+  const lats: number[] = []
+  for (let g = Math.ceil(topLeft.lng / step) * step; g <= bottomRight.lng; g += step) lngs.push(g)
+  for (let g = Math.ceil(bottomRight.lat / step) * step; g <= topLeft.lat; g += step) lats.push(g)
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)))
+  return { lngs, lats, decimals }
+}
+
+// Six decimals is ~10 cm, plenty for a resort base
+export function roundCoordinate(n: number): number {
+  return Math.round(n * 1e6) / 1e6
+}
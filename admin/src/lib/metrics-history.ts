@@ -0,0 +1,141 @@
+import { supabase } from './supabase'
+
+// ---------------------------------------------------------------------------
+// Metrics history — snapshot_daily_metrics() runs nightly on pg_cron and
+// writes one metrics_snapshots row per day. Live values always come from the
+// current counts; snapshots supply the history behind them.
+// ---------------------------------------------------------------------------
+
+export const SNAPSHOTS_TABLE = 'metrics_snapshots'
+
+export interface MetricsSnapshot {
+  // YYYY-MM-DD, UTC
+  snapshot_date: string
+  total_users: number
+  verified_resorts: number
+  unverified_resorts: number
+  total_visits: number
+  total_photos: number
+  open_tickets: number
+  beta_testers: number
+  pending_submissions: number
+  pending_photos: number
+}
+
+export type SnapshotMetric = Exclude<keyof MetricsSnapshot, 'snapshot_date'>
+
+// Backlogs are better when they shrink; everything else when it grows
+export const LOWER_IS_BETTER: SnapshotMetric[] = ['open_tickets', 'pending_submissions', 'pending_photos']
+
+export type MetricsRange = '7d' | '30d' | '90d' | 'ytd' | 'season'
+
+export const METRICS_RANGES: { value: MetricsRange; label: string }[] = [
+  { value: '7d', label: '7d' },
+  { value: '30d', label: '30d' },
+  { value: '90d', label: '90d' },
+  { value: 'ytd', label: 'YTD' },
+  { value: 'season', label: 'Season' },
+]
+
+// Northern-hemisphere season, which is where most logged visits are
+const SEASON_START_MONTH = 10 // November
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface MetricsPeriod {
+  start: Date
+  end: Date
+  // The equally long period right before `start`
+  prevStart: Date
+}
+
+export function rangePeriod(range: MetricsRange, now = new Date()): MetricsPeriod {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  let start: Date
+  switch (range) {
+    case '7d':
+    case '30d':
+    case '90d':
+      start = new Date(today.getTime() - parseInt(range) * DAY_MS)
+      break
+    case 'ytd':
+      start = new Date(now.getFullYear(), 0, 1)
+      break
+    case 'season': {
+      const year = now.getMonth() >= SEASON_START_MONTH ? now.getFullYear() : now.getFullYear() - 1
+      start = new Date(year, SEASON_START_MONTH, 1)
+      break
+    }
+  }
+  const length = now.getTime() - start.getTime()
+  return { start, end: now, prevStart: new Date(start.getTime() - length) }
+}
+
+export async function loadSnapshots(since: Date): Promise<MetricsSnapshot[]> {
+  const { data, error } = await supabase
+    .from(SNAPSHOTS_TABLE)
+    .select('*')
+    .gte('snapshot_date', since.toISOString().slice(0, 10))
+    .order('snapshot_date', { ascending: true })
+  if (error) throw new Error(error.message)
+  return (data as MetricsSnapshot[]) ?? []
+}
+
+function snapshotTime(s: MetricsSnapshot): number {
+  return new Date(`${s.snapshot_date}T00:00:00Z`).getTime()
+}
+
+// The latest snapshot on or before `at`; null when history doesn't reach back
+function valueAt(snapshots: MetricsSnapshot[], metric: SnapshotMetric, at: Date): number | null {
+  let value: number | null = null
+  for (const s of snapshots) {
+    if (snapshotTime(s) > at.getTime()) break
+    value = s[metric]
+  }
+  return value
+}
+
+export interface MetricTrend {
+  // Oldest first, ending with the live value
+  series: { at: number; value: number }[]
+  // Change over the period, and over the period before it
+  change: number | null
+  priorChange: number | null
+}
+
+export function metricTrend(
+  snapshots: MetricsSnapshot[],
+  metric: SnapshotMetric,
+  period: MetricsPeriod,
+  live: number
+): MetricTrend {
+  const series = snapshots
+    .filter((s) => snapshotTime(s) >= period.start.getTime())
+    .map((s) => ({ at: snapshotTime(s), value: s[metric] }))
+  series.push({ at: period.end.getTime(), value: live })
+
+  const atStart = valueAt(snapshots, metric, period.start)
+  const atPrevStart = valueAt(snapshots, metric, period.prevStart)
+  return {
+    series,
+    change: atStart === null ? null : live - atStart,
+    priorChange: atStart === null || atPrevStart === null ? null : atStart - atPrevStart,
+  }
+}
+
+function signed(n: number): string {
+  return n > 0 ? `+${n.toLocaleString()}` : n < 0 ? `−${Math.abs(n).toLocaleString()}` : '±0'
+}
+
+export function formatTrendChange(trend: MetricTrend): string | undefined {
+  if (trend.change === null) return undefined
+  return trend.priorChange === null
+    ? `${signed(trend.change)} this period`
+    : `${signed(trend.change)} vs ${signed(trend.priorChange)} prior period`
+}
+
+export function trendTone(metric: SnapshotMetric, trend: MetricTrend): 'positive' | 'negative' | 'neutral' {
+  if (!trend.change) return 'neutral'
+  const up = trend.change > 0
+  return up !== LOWER_IS_BETTER.includes(metric) ? 'positive' : 'negative'
+}
@@ -0,0 +1,45 @@
+import { supabase } from './supabase'
+
+type Row = Record<string, unknown>
+
+export type VersionedUpdateResult =
+  | { status: 'saved'; row: Row }
+  | { status: 'conflict'; current: Row }
+  | { status: 'missing' }
+
+// Update a row only if nobody has saved it since we loaded it. `updated_at`
+// is the version: the write is filtered on the value we read, so a concurrent
+// save makes it match zero rows and we return the newer row instead.
+export async function updateIfUnchanged(
+  table: string,
+  id: string,
+  payload: Row,
+  expectedUpdatedAt: string | null,
+  idColumn = 'id'
+): Promise<VersionedUpdateResult> {
+  let query = supabase
+    .from(table)
+    .update({ ...payload, updated_at: new Date().toISOString() })
+    .eq(idColumn, id)
+  query = expectedUpdatedAt === null ? query.is('updated_at', null) : query.eq('updated_at', expectedUpdatedAt)
+
+  const { data, error } = await query.select()
+  if (error) throw new Error(error.message)
+  if (data && data.length > 0) return { status: 'saved', row: data[0] as Row }
+
+  const { data: current, error: fetchError } = await supabase
+    .from(table)
+    .select('*')
+    .eq(idColumn, id)
+    .maybeSingle()
+  if (fetchError) throw new Error(fetchError.message)
+  return current ? { status: 'conflict', current: current as Row } : { status: 'missing' }
+}
+
+// Fields the caller is writing whose stored value now differs from what they
+// would write — the ones the admin has to choose between
+export function conflictingFields(mine: Row, theirs: Row): string[] {
+  return Object.keys(mine).filter(
+    (key) => key !== 'updated_at' && JSON.stringify(mine[key] ?? null) !== JSON.stringify(theirs[key] ?? null)
+  )
+}
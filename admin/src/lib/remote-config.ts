@@ -0,0 +1,282 @@
+// ---------------------------------------------------------------------------
+// Remote config — typed `app_config` entries with targeting rules
+// ---------------------------------------------------------------------------
+
+export type ConfigValueType = 'boolean' | 'number' | 'string' | 'json' | 'rollout'
+
+export const CONFIG_TYPES: { value: ConfigValueType; label: string }[] = [
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'number', label: 'Number' },
+  { value: 'string', label: 'String' },
+  { value: 'json', label: 'JSON' },
+  { value: 'rollout', label: 'Percentage Rollout' },
+]
+
+export type Platform = 'ios' | 'android'
+
+export const PLATFORMS: { value: Platform; label: string }[] = [
+  { value: 'ios', label: 'iOS' },
+  { value: 'android', label: 'Android' },
+]
+
+// Constraints a value has to meet before it can be saved. Which fields apply
+// depends on the entry's type; the rest are ignored.
+export interface ConfigSchema {
+  min?: number
+  max?: number
+  integer?: boolean
+  pattern?: string
+  options?: string[]
+  // Keys a JSON object value must contain
+  required?: string[]
+}
+
+// A rollout turns the flag on for a stable share of users
+export interface RolloutValue {
+  percentage: number
+}
+
+// Overrides the default value for matching clients. Unset conditions match
+// everyone; rules are checked in order and the first match wins.
+export interface ConfigRule {
+  cohort?: string | null
+  platforms?: Platform[]
+  min_version?: string | null
+  max_version?: string | null
+  value: unknown
+}
+
+export interface RemoteConfig {
+  key: string
+  value: unknown
+  type: ConfigValueType | null
+  description: string | null
+  schema: ConfigSchema | null
+  rules: ConfigRule[] | null
+  updated_at: string
+  updated_by: string | null
+}
+
+// The Overview quotas and usage collectors keep their `service_*` rows in
+// app_config too. They're not flags: the editor neither lists nor writes them.
+export const RESERVED_CONFIG_PREFIX = 'service_'
+
+export function isReservedConfigKey(key: string): boolean {
+  return key.startsWith(RESERVED_CONFIG_PREFIX)
+}
+
+// Columns an edit can change; audit snapshots and rollbacks cover these
+export const CONFIG_FIELDS = ['value', 'type', 'description', 'schema', 'rules'] as const
+
+export interface ConfigContext {
+  userId?: string
+  cohort?: string | null
+  platform?: Platform
+  appVersion?: string
+}
+
+// ---------------------------------------------------------------------------
+// Types and values
+// ---------------------------------------------------------------------------
+
+// Rows written before types existed only have a value to go on
+export function inferConfigType(value: unknown): ConfigValueType {
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'string') return 'string'
+  return 'json'
+}
+
+export function configType(config: Pick<RemoteConfig, 'type' | 'value'>): ConfigValueType {
+  return config.type ?? inferConfigType(config.value)
+}
+
+export function defaultConfigValue(type: ConfigValueType): unknown {
+  switch (type) {
+    case 'boolean':
+      return false
+    case 'number':
+      return 0
+    case 'string':
+      return ''
+    case 'json':
+      return {}
+    case 'rollout':
+      return { percentage: 0 } satisfies RolloutValue
+  }
+}
+
+// Text shown in (and read back from) the editor's value field
+export function configValueToInput(type: ConfigValueType, value: unknown): string {
+  if (type === 'json') return JSON.stringify(value ?? {}, null, 2)
+  if (type === 'rollout') return String((value as RolloutValue | null)?.percentage ?? 0)
+  return value === null || value === undefined ? '' : String(value)
+}
+
+export function parseConfigInput(type: ConfigValueType, input: string): unknown {
+  switch (type) {
+    case 'boolean':
+      return input === 'true'
+    case 'number': {
+      const n = Number(input)
+      if (input.trim() === '' || !Number.isFinite(n)) throw new Error('Enter a number')
+      return n
+    }
+    case 'string':
+      return input
+    case 'json':
+      try {
+        return JSON.parse(input)
+      } catch {
+        throw new Error('Not valid JSON')
+      }
+    case 'rollout': {
+      const n = Number(input)
+      if (input.trim() === '' || !Number.isFinite(n)) throw new Error('Enter a percentage')
+      return { percentage: n } satisfies RolloutValue
+    }
+  }
+}
+
+export function formatConfigValue(type: ConfigValueType, value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (type === 'rollout') return `${(value as RolloutValue).percentage ?? 0}% of users`
+  if (type === 'json') return JSON.stringify(value)
+  return String(value)
+}
+
+// Returns the first problem with `value`, or null when it can be saved
+export function validateConfigValue(
+  type: ConfigValueType,
+  value: unknown,
+  schema: ConfigSchema | null
+): string | null {
+  const s = schema ?? {}
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Must be true or false'
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'Must be a number'
+      if (s.integer && !Number.isInteger(value)) return 'Must be a whole number'
+      if (s.min !== undefined && value < s.min) return `Must be at least ${s.min}`
+      if (s.max !== undefined && value > s.max) return `Must be at most ${s.max}`
+      return null
+    }
+    case 'string': {
+      if (typeof value !== 'string') return 'Must be text'
+      if (s.options && s.options.length > 0 && !s.options.includes(value)) {
+        return `Must be one of: ${s.options.join(', ')}`
+      }
+      if (s.pattern) {
+        let re: RegExp
+        try {
+          re = new RegExp(s.pattern)
+        } catch {
+          return `Schema pattern /${s.pattern}/ is not a valid regular expression`
+        }
+        if (!re.test(value)) return `Must match /${s.pattern}/`
+      }
+      return null
+    }
+    case 'json': {
+      if (value === undefined) return 'Must be valid JSON'
+      if (s.required && s.required.length > 0) {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return 'Must be a JSON object'
+        }
+        const missing = s.required.filter((k) => !(k in value))
+        if (missing.length > 0) return `Missing required keys: ${missing.join(', ')}`
+      }
+      return null
+    }
+    case 'rollout': {
+      const pct = (value as RolloutValue | null)?.percentage
+      if (typeof pct !== 'number' || pct < 0 || pct > 100) return 'Percentage must be between 0 and 100'
+      return null
+    }
+  }
+}
+
+// The default value and every rule override have to pass the schema
+export function validateConfig(
+  config: Pick<RemoteConfig, 'type' | 'value' | 'schema' | 'rules'>
+): string | null {
+  const type = configType(config)
+  const defaultError = validateConfigValue(type, config.value, config.schema)
+  if (defaultError) return `Default value: ${defaultError}`
+  for (const [i, rule] of (config.rules ?? []).entries()) {
+    const error = validateConfigValue(type, rule.value, config.schema)
+    if (error) return `Rule ${i + 1}: ${error}`
+    if (rule.min_version && !isVersion(rule.min_version)) return `Rule ${i + 1}: invalid minimum version`
+    if (rule.max_version && !isVersion(rule.max_version)) return `Rule ${i + 1}: invalid maximum version`
+  }
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// Targeting
+// ---------------------------------------------------------------------------
+
+const VERSION_PATTERN = /^\d+(\.\d+)*$/
+
+export function isVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version.trim())
+}
+
+// Numeric, segment by segment: 1.10.0 is newer than 1.9.3
+export function compareVersions(a: string, b: string): number {
+  const pa = a.trim().split('.').map(Number)
+  const pb = b.trim().split('.').map(Number)
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+export function ruleMatches(rule: ConfigRule, ctx: ConfigContext): boolean {
+  if (rule.cohort && rule.cohort !== ctx.cohort) return false
+  if (rule.platforms && rule.platforms.length > 0) {
+    if (!ctx.platform || !rule.platforms.includes(ctx.platform)) return false
+  }
+  if (rule.min_version || rule.max_version) {
+    if (!ctx.appVersion || !isVersion(ctx.appVersion)) return false
+    if (rule.min_version && compareVersions(ctx.appVersion, rule.min_version) < 0) return false
+    if (rule.max_version && compareVersions(ctx.appVersion, rule.max_version) > 0) return false
+  }
+  return true
+}
+
+// FNV-1a over key and user, so each flag buckets users independently and a
+// user stays in the same bucket as the percentage grows
+export function rolloutBucket(key: string, userId: string): number {
+  let hash = 0x811c9dc5
+  const input = `${key}:${userId}`
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) % 100
+}
+
+// What a client with `ctx` would receive. Mirrors the app's evaluation so the
+// editor can preview targeting.
+export function evaluateConfig(config: RemoteConfig, ctx: ConfigContext): unknown {
+  const rule = (config.rules ?? []).find((r) => ruleMatches(r, ctx))
+  const value = rule ? rule.value : config.value
+  if (configType(config) !== 'rollout') return value
+  if (!ctx.userId) return false
+  return rolloutBucket(config.key, ctx.userId) < ((value as RolloutValue | null)?.percentage ?? 0)
+}
+
+export function describeRule(rule: ConfigRule, cohortLabel?: (value: string) => string): string {
+  const parts: string[] = []
+  if (rule.cohort) parts.push(`cohort ${cohortLabel ? cohortLabel(rule.cohort) : rule.cohort}`)
+  if (rule.platforms && rule.platforms.length > 0) {
+    parts.push(rule.platforms.map((p) => PLATFORMS.find((x) => x.value === p)?.label ?? p).join('/'))
+  }
+  if (rule.min_version && rule.max_version) parts.push(`v${rule.min_version}–${rule.max_version}`)
+  else if (rule.min_version) parts.push(`v${rule.min_version}+`)
+  else if (rule.max_version) parts.push(`up to v${rule.max_version}`)
+  return parts.length > 0 ? parts.join(', ') : 'everyone'
+}
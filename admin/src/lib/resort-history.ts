@@ -0,0 +1,111 @@
+import { supabase } from './supabase'
+
+// ---------------------------------------------------------------------------
+// Resort history — one resort_field_history row per field per write, with the
+// value before and after, who made it and where the value came from. Every
+// page that writes to resorts records here after the write succeeds; a
+// failure to record is logged but never undoes or fails the write itself.
+// ---------------------------------------------------------------------------
+
+export const RESORT_HISTORY_TABLE = 'resort_field_history'
+
+export type ChangeSource =
+  | 'manual'
+  | 'bulk_import'
+  | 'ai_research'
+  | 'submission'
+  | 'placeholder'
+  | 'merge'
+  | 'migration'
+  | 'restore'
+
+export const CHANGE_SOURCES: Record<ChangeSource, { label: string; className: string }> = {
+  manual: { label: 'Manual edit', className: 'bg-blue-500/20 text-blue-400' },
+  bulk_import: { label: 'Bulk import', className: 'bg-purple-500/20 text-purple-400' },
+  ai_research: { label: 'AI research', className: 'bg-pink-500/20 text-pink-400' },
+  submission: { label: 'Submission', className: 'bg-green-500/20 text-green-400' },
+  placeholder: { label: 'Placeholder', className: 'bg-muted text-muted-foreground' },
+  merge: { label: 'Merge', className: 'bg-orange-500/20 text-orange-400' },
+  migration: { label: 'Migration', className: 'bg-slate-500/20 text-slate-400' },
+  restore: { label: 'Restore', className: 'bg-yellow-500/20 text-yellow-400' },
+}
+
+export interface ResortFieldChange {
+  id: string
+  resort_id: string
+  field: string
+  old_value: unknown
+  new_value: unknown
+  source: ChangeSource
+  // What the value came from: a submission id, an import file name, a merge id
+  source_ref: string | null
+  changed_by: string
+  changed_at: string
+}
+
+// Bookkeeping columns that aren't data
+const UNTRACKED = new Set(['id', 'created_at', 'updated_at'])
+
+const HISTORY_LIMIT = 200
+const INSERT_BATCH = 500
+
+type Row = Record<string, unknown>
+
+export interface FieldDiff {
+  field: string
+  old_value: unknown
+  new_value: unknown
+}
+
+// Fields `after` writes with a different value than `before` had. A null
+// `before` is a new resort: every non-empty field counts.
+export function diffFields(before: Row | null, after: Row): FieldDiff[] {
+  return Object.keys(after)
+    .filter((field) => !UNTRACKED.has(field))
+    .map((field) => ({ field, old_value: before?.[field] ?? null, new_value: after[field] ?? null }))
+    .filter((d) => JSON.stringify(d.old_value) !== JSON.stringify(d.new_value))
+}
+
+export interface ResortWrite {
+  resortId: string
+  before: Row | null
+  after: Row
+  source: ChangeSource
+  sourceRef?: string | null
+}
+
+export async function recordResortChanges(writes: ResortWrite[]): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const changedBy = session?.user?.email ?? 'unknown'
+  const changedAt = new Date().toISOString()
+
+  const rows = writes.flatMap((w) =>
+    diffFields(w.before, w.after).map((d) => ({
+      resort_id: w.resortId,
+      ...d,
+      source: w.source,
+      source_ref: w.sourceRef ?? null,
+      changed_by: changedBy,
+      changed_at: changedAt,
+    }))
+  )
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { error } = await supabase.from(RESORT_HISTORY_TABLE).insert(rows.slice(i, i + INSERT_BATCH))
+    if (error) {
+      console.error('Resort history error:', error.message)
+      return
+    }
+  }
+}
+
+export async function loadResortHistory(resortId: string): Promise<ResortFieldChange[]> {
+  const { data, error } = await supabase
+    .from(RESORT_HISTORY_TABLE)
+    .select('id, resort_id, field, old_value, new_value, source, source_ref, changed_by, changed_at')
+    .eq('resort_id', resortId)
+    .order('changed_at', { ascending: false })
+    .limit(HISTORY_LIMIT)
+  if (error) throw new Error(error.message)
+  return (data as ResortFieldChange[]) ?? []
+}
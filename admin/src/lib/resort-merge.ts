@@ -0,0 +1,158 @@
+import { supabase } from './supabase'
+import { SUPABASE_URL } from './constants'
+import { calendarOf, seasonMonths } from './seasons'
+
+// ---------------------------------------------------------------------------
+// Resort merge — folds duplicate resorts into one survivor. The
+// admin-merge-resorts edge function repoints every reference and deletes the
+// duplicates in one transaction, and keeps a resort_merges row with the
+// deleted rows and moved ids so the merge can be undone.
+// ---------------------------------------------------------------------------
+
+export const MERGES_TABLE = 'resort_merges'
+
+// Columns that point at a resort. The edge function moves the same set.
+export const RESORT_REFERENCES: { table: string; column: string; label: string }[] = [
+  { table: 'user_visits', column: 'resort_id', label: 'Visits' },
+  { table: 'wishlists', column: 'resort_id', label: 'Wishlists' },
+  { table: 'resort_feature_photo_submissions', column: 'resort_id', label: 'Photo submissions' },
+  { table: 'resort_submissions', column: 'approved_resort_id', label: 'Approved submissions' },
+  { table: 'profiles', column: 'home_resort_id', label: 'Home resort of' },
+]
+
+// Fields whose value can be taken from any of the merged resorts
+export const MERGE_FIELDS = [
+  'name', 'country', 'country_code', 'region', 'lat', 'lng',
+  'website', 'vertical_m', 'runs', 'lifts', 'annual_snowfall_cm',
+  'beginner_pct', 'intermediate_pct', 'advanced_pct',
+  'season_open', 'season_close', 'season_calendar', 'season_months', 'has_night_skiing',
+  'pass_affiliation', 'instagram_handle', 'budget_tier', 'description',
+  'cover_image_url',
+] as const
+
+export type MergeField = (typeof MERGE_FIELDS)[number]
+
+export type MergeResort = { id: string; name: string; country: string | null } & Partial<Record<MergeField, unknown>>
+
+// The season is taken whole from one resort, so the strings, calendar and
+// the months the list filters on can't come from different resorts. The
+// dialog shows the group as season_calendar.
+export const SEASON_MERGE_FIELDS: MergeField[] = ['season_calendar', 'season_open', 'season_close', 'season_months']
+
+export function isSeasonMergeField(field: MergeField): boolean {
+  return SEASON_MERGE_FIELDS.includes(field)
+}
+
+export function referenceKey(ref: { table: string; column: string }): string {
+  return `${ref.table}.${ref.column}`
+}
+
+export type ReferenceCounts = Record<string, number>
+
+// How many rows point at each resort, per reference
+export async function countReferences(resortIds: string[]): Promise<Record<string, ReferenceCounts>> {
+  const result: Record<string, ReferenceCounts> = {}
+  await Promise.all(
+    resortIds.flatMap((id) =>
+      RESORT_REFERENCES.map(async (ref) => {
+        const { count, error } = await supabase
+          .from(ref.table)
+          .select('*', { count: 'exact', head: true })
+          .eq(ref.column, id)
+        if (error) throw new Error(error.message)
+        result[id] = { ...result[id], [referenceKey(ref)]: count ?? 0 }
+      })
+    )
+  )
+  return result
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+// Which resort each field is taken from: the survivor's own value, or the
+// first duplicate that has one when the survivor's is empty
+export function defaultFieldSources(survivor: MergeResort, others: MergeResort[]): Record<MergeField, string> {
+  const sources = {} as Record<MergeField, string>
+  for (const field of MERGE_FIELDS) {
+    const donor = isEmpty(survivor[field]) ? others.find((r) => !isEmpty(r[field])) : undefined
+    sources[field] = donor?.id ?? survivor.id
+  }
+  const seasonDonor = calendarOf(survivor) ? undefined : others.find((r) => calendarOf(r))
+  for (const field of SEASON_MERGE_FIELDS) sources[field] = seasonDonor?.id ?? survivor.id
+  return sources
+}
+
+// Survivor fields that the chosen sources would change
+export function mergedFields(
+  survivor: MergeResort,
+  resorts: MergeResort[],
+  sources: Record<MergeField, string>
+): Partial<Record<MergeField, unknown>> {
+  const changes: Partial<Record<MergeField, unknown>> = {}
+  for (const field of MERGE_FIELDS) {
+    if (isSeasonMergeField(field)) continue
+    const source = resorts.find((r) => r.id === sources[field])
+    if (!source || source.id === survivor.id) continue
+    if (JSON.stringify(source[field] ?? null) !== JSON.stringify(survivor[field] ?? null)) {
+      changes[field] = source[field] ?? null
+    }
+  }
+
+  // A donor without a stored calendar gives the one its strings parse to
+  const seasonSource = resorts.find((r) => r.id === sources.season_calendar)
+  if (seasonSource && seasonSource.id !== survivor.id) {
+    const calendar = calendarOf(seasonSource)
+    const season: Partial<Record<MergeField, unknown>> = {
+      season_calendar: calendar,
+      season_months: calendar ? seasonMonths(calendar) : null,
+      season_open: seasonSource.season_open ?? null,
+      season_close: seasonSource.season_close ?? null,
+    }
+    for (const field of SEASON_MERGE_FIELDS) {
+      if (JSON.stringify(season[field] ?? null) !== JSON.stringify(survivor[field] ?? null)) changes[field] = season[field]
+    }
+  }
+  return changes
+}
+
+export interface MergeResult {
+  merge_id: string
+  // The survivor row as saved
+  survivor: Record<string, unknown>
+  // Rows moved per reference key; wishlist rows the survivor already had are
+  // dropped instead of moved
+  reassigned: Record<string, number>
+}
+
+async function callMergeFunction<T>(body: Record<string, unknown>): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const res = await fetch(`${SUPABASE_URL}/functions/v1/admin-merge-resorts`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || 'Merge request failed')
+  return data as T
+}
+
+export function mergeResorts(
+  survivorId: string,
+  mergedIds: string[],
+  fields: Partial<Record<MergeField, unknown>>
+): Promise<MergeResult> {
+  return callMergeFunction<MergeResult>({ action: 'merge', survivorId, mergedIds, fields })
+}
+
+// Recreates the merged resorts, moves their rows back and restores the
+// survivor's fields
+export async function unmergeResorts(mergeId: string): Promise<void> {
+  await callMergeFunction({ action: 'unmerge', mergeId })
+}
@@ -0,0 +1,255 @@
+import { streamRows } from './server-query'
+import { hemisphereOf, seasonOf } from './visit-seasons'
+
+// ---------------------------------------------------------------------------
+// Resort ratings — per-resort averages, distribution and season trend built
+// from the terrain/facilities/service ratings on user_visits, plus flags for
+// patterns worth a manual look
+// ---------------------------------------------------------------------------
+
+export type RatingDimension = 'terrain' | 'facilities' | 'service'
+
+export const RATING_DIMENSIONS: { value: RatingDimension; label: string }[] = [
+  { value: 'terrain', label: 'Terrain' },
+  { value: 'facilities', label: 'Facilities' },
+  { value: 'service', label: 'Service' },
+]
+
+// Ratings are whole stars, 1–5
+export const RATING_SCALE = [1, 2, 3, 4, 5]
+
+// A season's average this far below the seasons before it counts as a drop
+const DROP_THRESHOLD = 1
+// Fewer ratings than this in a season is too noisy to call a drop
+const MIN_SEASON_RATINGS = 3
+// One user with at least this many ratings for a resort is looked at as a
+// possible spammer...
+const SPAM_MIN_RATINGS = 3
+// ...when they make up this share of the resort's ratings, or rate it this
+// many stars away from everyone else
+const SPAM_SHARE = 0.5
+const SPAM_DEVIATION = 2
+
+export function avgRating(t: number | null, f: number | null, s: number | null): number | null {
+  const vals = [t, f, s].filter((v): v is number => v !== null)
+  if (vals.length === 0) return null
+  return Math.round((vals.reduce((a, b) => a + b, 0) / vals.length) * 10) / 10
+}
+
+export function ratingBadgeColor(rating: number | null): string {
+  if (rating === null) return 'text-slate-400 bg-slate-400/10'
+  if (rating >= 4) return 'text-green-400 bg-green-400/10'
+  if (rating >= 3) return 'text-yellow-400 bg-yellow-400/10'
+  return 'text-red-400 bg-red-400/10'
+}
+
+export interface RatedVisit {
+  id: string
+  user_id: string
+  resort_id: string
+  resort_name: string
+  country: string | null
+  // Null when the visit has no month-precise date or the resort no latitude
+  season: string | null
+  terrain: number | null
+  facilities: number | null
+  service: number | null
+  overall: number
+}
+
+interface VisitRow {
+  id: string
+  user_id: string
+  resort_id: string | null
+  start_date: string | null
+  date_precision: string | null
+  rating_terrain: number | null
+  rating_facilities: number | null
+  rating_service: number | null
+  resorts: { name: string; country: string | null; lat: number | null } | null
+}
+
+// Visits with at least one rating, for resorts that are in the catalog. Both
+// conditions are filtered on the server so unrated visits never load.
+export async function loadRatedVisits(): Promise<RatedVisit[]> {
+  const visits: RatedVisit[] = []
+  for await (const batch of streamRows({
+    table: 'user_visits',
+    select:
+      'id, user_id, resort_id, start_date, date_precision, created_at, rating_terrain, rating_facilities, rating_service, resorts(name, country, lat)',
+    filters: [{ column: 'resort_id', op: 'not_null', value: null }],
+    search: null,
+    sort: { column: 'created_at', desc: false },
+    anyOf: [
+      { column: 'rating_terrain', op: 'not_null', value: null },
+      { column: 'rating_facilities', op: 'not_null', value: null },
+      { column: 'rating_service', op: 'not_null', value: null },
+    ],
+  })) {
+    for (const row of batch as unknown as VisitRow[]) {
+      const overall = avgRating(row.rating_terrain, row.rating_facilities, row.rating_service)
+      if (overall === null || !row.resort_id || !row.resorts) continue
+
+      const { lat } = row.resorts
+      let season: string | null = null
+      if (row.start_date && row.date_precision !== 'year' && lat !== null) {
+        const year = Number(row.start_date.slice(0, 4))
+        const month = Number(row.start_date.slice(5, 7)) - 1
+        season = seasonOf(year, month, hemisphereOf(lat))
+      }
+
+      visits.push({
+        id: row.id,
+        user_id: row.user_id,
+        resort_id: row.resort_id,
+        resort_name: row.resorts.name,
+        country: row.resorts.country,
+        season,
+        terrain: row.rating_terrain,
+        facilities: row.rating_facilities,
+        service: row.rating_service,
+        overall,
+      })
+    }
+  }
+  return visits
+}
+
+// ---------------------------------------------------------------------------
+// Aggregates
+// ---------------------------------------------------------------------------
+
+export type RatingFlagKind = 'drop' | 'single_rater'
+
+export interface RatingFlag {
+  kind: RatingFlagKind
+  message: string
+  // The user behind a single_rater flag
+  user_id?: string
+}
+
+export interface SeasonRating {
+  season: string
+  count: number
+  average: number
+}
+
+export interface ResortRatingSummary {
+  id: string
+  name: string
+  country: string | null
+  count: number
+  raters: number
+  overall: number
+  dimensions: Record<RatingDimension, number | null>
+  // Visits per rounded overall rating, index 0 = 1 star
+  distribution: number[]
+  // Oldest first; visits without a season are left out
+  seasons: SeasonRating[]
+  flags: RatingFlag[]
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null
+  return values.reduce((a, b) => a + b, 0) / values.length
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10
+}
+
+function seasonTrend(visits: RatedVisit[]): SeasonRating[] {
+  const bySeason = new Map<string, number[]>()
+  for (const v of visits) {
+    if (!v.season) continue
+    const list = bySeason.get(v.season) ?? []
+    list.push(v.overall)
+    bySeason.set(v.season, list)
+  }
+  return Array.from(bySeason.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([season, ratings]) => ({ season, count: ratings.length, average: round1(mean(ratings)!) }))
+}
+
+// The latest season against every rating before it
+function dropFlag(visits: RatedVisit[], seasons: SeasonRating[]): RatingFlag | null {
+  const latest = seasons[seasons.length - 1]
+  if (!latest || seasons.length < 2 || latest.count < MIN_SEASON_RATINGS) return null
+  const before = mean(visits.filter((v) => v.season && v.season < latest.season).map((v) => v.overall))
+  if (before === null || before - latest.average < DROP_THRESHOLD) return null
+  return {
+    kind: 'drop',
+    message: `${latest.season} averages ${latest.average.toFixed(1)}, down from ${before.toFixed(1)} in earlier seasons`,
+  }
+}
+
+function singleRaterFlags(visits: RatedVisit[]): RatingFlag[] {
+  const byUser = new Map<string, number[]>()
+  for (const v of visits) {
+    const list = byUser.get(v.user_id) ?? []
+    list.push(v.overall)
+    byUser.set(v.user_id, list)
+  }
+
+  const flags: RatingFlag[] = []
+  for (const [userId, ratings] of byUser) {
+    if (ratings.length < SPAM_MIN_RATINGS) continue
+    const share = ratings.length / visits.length
+    const own = mean(ratings)!
+    const others = mean(visits.filter((v) => v.user_id !== userId).map((v) => v.overall))
+    const deviation = others === null ? 0 : own - others
+
+    if (share >= SPAM_SHARE) {
+      flags.push({
+        kind: 'single_rater',
+        user_id: userId,
+        message: `One user left ${ratings.length} of ${visits.length} ratings (avg ${own.toFixed(1)})`,
+      })
+    } else if (Math.abs(deviation) >= SPAM_DEVIATION) {
+      flags.push({
+        kind: 'single_rater',
+        user_id: userId,
+        message: `One user's ${ratings.length} ratings average ${own.toFixed(1)} vs ${others!.toFixed(1)} from everyone else`,
+      })
+    }
+  }
+  return flags
+}
+
+export function summarizeRatings(visits: RatedVisit[]): ResortRatingSummary[] {
+  const byResort = new Map<string, RatedVisit[]>()
+  for (const v of visits) {
+    const list = byResort.get(v.resort_id) ?? []
+    list.push(v)
+    byResort.set(v.resort_id, list)
+  }
+
+  return Array.from(byResort.values()).map((list) => {
+    const distribution = RATING_SCALE.map(() => 0)
+    for (const v of list) distribution[Math.min(Math.max(Math.round(v.overall), 1), 5) - 1]++
+
+    const dimension = (pick: (v: RatedVisit) => number | null) => {
+      const avg = mean(list.map(pick).filter((r): r is number => r !== null))
+      return avg === null ? null : round1(avg)
+    }
+
+    const seasons = seasonTrend(list)
+    const drop = dropFlag(list, seasons)
+    return {
+      id: list[0].resort_id,
+      name: list[0].resort_name,
+      country: list[0].country,
+      count: list.length,
+      raters: new Set(list.map((v) => v.user_id)).size,
+      overall: round1(mean(list.map((v) => v.overall))!),
+      dimensions: {
+        terrain: dimension((v) => v.terrain),
+        facilities: dimension((v) => v.facilities),
+        service: dimension((v) => v.service),
+      },
+      distribution,
+      seasons,
+      flags: [...(drop ? [drop] : []), ...singleRaterFlags(list)],
+    }
+  })
+}
@@ -0,0 +1,313 @@
+import { supabase } from './supabase'
+import { streamRows } from './server-query'
+import { recordResortChanges, type ResortWrite } from './resort-history'
+
+// ---------------------------------------------------------------------------
+// Seasons — a resort's operating calendar, kept in resorts.season_calendar:
+// one or more yearly windows (the winter season, a summer glacier season)
+// as month/day pairs, plus the dates it actually opened and closed each
+// year. season_months holds the months the windows touch, so the list can
+// filter on "open in December" server-side. season_open/season_close are
+// the old free-form strings; they're parsed into a calendar and kept in
+// step with the first window.
+// ---------------------------------------------------------------------------
+
+export interface MonthDay {
+  month: number // 1–12
+  day: number
+}
+
+export interface SeasonWindow {
+  open: MonthDay
+  close: MonthDay
+  // e.g. "Summer glacier"; null for the main season
+  label: string | null
+}
+
+export interface SeasonActual {
+  // The year the season started in
+  year: number
+  // ISO dates
+  opened: string | null
+  closed: string | null
+}
+
+export interface SeasonCalendar {
+  windows: SeasonWindow[]
+  actuals: SeasonActual[]
+}
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+// Day of a non-leap year, 1–365; Feb 29 counts as Feb 28
+function dayOfYear({ month, day }: MonthDay): number {
+  let doy = Math.min(day, month === 2 ? 28 : DAYS_IN_MONTH[month - 1])
+  for (let m = 1; m < month; m++) doy += m === 2 ? 28 : DAYS_IN_MONTH[m - 1]
+  return doy
+}
+
+function validMonthDay({ month, day }: MonthDay): boolean {
+  return Number.isInteger(month) && month >= 1 && month <= 12 && Number.isInteger(day) && day >= 1 && day <= DAYS_IN_MONTH[month - 1]
+}
+
+// A window as day-of-year ranges; one that runs over the new year is two
+function windowRanges(w: SeasonWindow): [number, number][] {
+  const open = dayOfYear(w.open)
+  const close = dayOfYear(w.close)
+  return open <= close ? [[open, close]] : [[open, 365], [1, close]]
+}
+
+function windowDays(w: SeasonWindow): number {
+  return windowRanges(w).reduce((sum, [a, b]) => sum + b - a + 1, 0)
+}
+
+// Months (1–12) any window is open for at least a day
+export function seasonMonths(calendar: SeasonCalendar | null): number[] {
+  if (!calendar) return []
+  const months: number[] = []
+  for (let month = 1; month <= 12; month++) {
+    const first = dayOfYear({ month, day: 1 })
+    const last = dayOfYear({ month, day: DAYS_IN_MONTH[month - 1] })
+    if (calendar.windows.some((w) => windowRanges(w).some(([a, b]) => a <= last && b >= first))) {
+      months.push(month)
+    }
+  }
+  return months
+}
+
+export function formatMonthDay({ month, day }: MonthDay): string {
+  return `${MONTH_NAMES[month - 1]?.slice(0, 3) ?? '?'} ${day}`
+}
+
+export function formatWindow(w: SeasonWindow): string {
+  const range = `${formatMonthDay(w.open)} – ${formatMonthDay(w.close)}`
+  return w.label ? `${w.label}: ${range}` : range
+}
+
+export function describeCalendar(calendar: SeasonCalendar | null): string {
+  if (!calendar || calendar.windows.length === 0) return '—'
+  return calendar.windows.map(formatWindow).join(' · ')
+}
+
+// Problems with a calendar, one message each; empty when it's usable
+export function validateCalendar(calendar: SeasonCalendar): string[] {
+  const problems: string[] = []
+  const { windows, actuals } = calendar
+
+  windows.forEach((w, i) => {
+    const name = windows.length > 1 ? `Window ${i + 1}` : 'Season'
+    if (!validMonthDay(w.open) || !validMonthDay(w.close)) {
+      problems.push(`${name} has an invalid date`)
+      return
+    }
+    if (dayOfYear(w.open) === dayOfYear(w.close)) {
+      problems.push(`${name} opens and closes on the same day`)
+    } else if (windowDays(w) > 300) {
+      // Without years a northern season wraps the new year, so only an
+      // implausibly long one means open and close are the wrong way round
+      problems.push(`${name} would run ${Math.round(windowDays(w) / 30)} months; open and close may be swapped`)
+    }
+  })
+
+  for (let i = 0; i < windows.length; i++) {
+    for (let j = i + 1; j < windows.length; j++) {
+      if (!validMonthDay(windows[i].open) || !validMonthDay(windows[j].open)) continue
+      const overlaps = windowRanges(windows[i]).some(([a, b]) =>
+        windowRanges(windows[j]).some(([c, d]) => a <= d && c <= b)
+      )
+      if (overlaps) problems.push(`Windows ${i + 1} and ${j + 1} overlap`)
+    }
+  }
+
+  const years = new Set<number>()
+  for (const a of actuals) {
+    if (years.has(a.year)) problems.push(`${a.year} is listed more than once`)
+    years.add(a.year)
+    if (a.opened && a.closed && a.closed <= a.opened) problems.push(`${a.year} season closes before it opens`)
+    if (a.opened && Math.abs(Number(a.opened.slice(0, 4)) - a.year) > 1) {
+      problems.push(`${a.year} season opened in ${a.opened.slice(0, 4)}`)
+    }
+  }
+
+  return problems
+}
+
+// ---------------------------------------------------------------------------
+// Parsing the free-form strings
+// ---------------------------------------------------------------------------
+
+// Whole words only, full or abbreviated, so "maybe" or "decided" isn't a month
+const MONTH_PATTERN =
+  /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\b\.?/
+
+// A season written as its two years: "2024/25", "2024-2025"
+const SEASON_YEARS_PATTERN = /\b((?:19|20)\d{2})\s*[/–-]\s*(\d{2}|\d{4})\b/
+
+export interface ParsedSeasonDate extends MonthDay {
+  year: number | null
+}
+
+// "2024-11-28", "Nov 28", "28 November 2024", "late November", "mid-Dec",
+// "November 2024/25"
+export function parseSeasonDate(value: string | null | undefined): ParsedSeasonDate | null {
+  const s = (value ?? '').trim().toLowerCase()
+  if (!s) return null
+
+  const iso = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (iso) {
+    const parsed = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) }
+    return validMonthDay(parsed) ? parsed : null
+  }
+
+  const monthMatch = s.match(MONTH_PATTERN)
+  if (!monthMatch) return null
+  const month = MONTH_NAMES.findIndex((m) => m.toLowerCase().startsWith(monthMatch[1].slice(0, 3))) + 1
+
+  // Both years of a season go before looking for a day, so the second isn't
+  // read as one. The season runs over the new year: autumn months are in the
+  // first year, spring months in the second.
+  let year: number | null = null
+  let withoutYear = s
+  const seasonYears = s.match(SEASON_YEARS_PATTERN)
+  const yearMatch = seasonYears ? null : s.match(/\b(19|20)\d{2}\b/)
+  if (seasonYears) {
+    const first = Number(seasonYears[1])
+    year = month >= 7 ? first : first + 1
+    withoutYear = s.replace(seasonYears[0], ' ')
+  } else if (yearMatch) {
+    year = Number(yearMatch[0])
+    withoutYear = s.replace(yearMatch[0], ' ')
+  }
+  const dayMatch = withoutYear.match(/\b(\d{1,2})(st|nd|rd|th)?\b/)
+  const day = dayMatch
+    ? Number(dayMatch[1])
+    : s.includes('early') ? 5 : s.includes('late') ? 25 : 15
+
+  const parsed = { year, month, day }
+  return validMonthDay(parsed) ? parsed : null
+}
+
+function isoDate({ year, month, day }: ParsedSeasonDate): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+// A one-window calendar from the old strings; null unless both parse. Full
+// dates also give that year's actual opening and closing.
+export function parseSeasonStrings(open: string | null | undefined, close: string | null | undefined): SeasonCalendar | null {
+  const o = parseSeasonDate(open)
+  const c = parseSeasonDate(close)
+  if (!o || !c) return null
+  return {
+    windows: [{ open: { month: o.month, day: o.day }, close: { month: c.month, day: c.day }, label: null }],
+    actuals: o.year !== null && c.year !== null ? [{ year: o.year, opened: isoDate(o), closed: isoDate(c) }] : [],
+  }
+}
+
+// The stored calendar, or one parsed from the old strings
+export function calendarOf(r: { [field: string]: unknown }): SeasonCalendar | null {
+  if (r.season_calendar) return r.season_calendar as SeasonCalendar
+  return parseSeasonStrings(r.season_open as string | null, r.season_close as string | null)
+}
+
+// Whether the resort's calendar has problems that block saving it
+export function hasInvalidCalendar(r: { [field: string]: unknown }): boolean {
+  const calendar = calendarOf(r)
+  return !!calendar && validateCalendar(calendar).length > 0
+}
+
+// Everything to write when a calendar is edited, strings included
+export function calendarFields(calendar: SeasonCalendar | null) {
+  const first = calendar?.windows[0]
+  const empty = !calendar || (calendar.windows.length === 0 && calendar.actuals.length === 0)
+  return {
+    season_calendar: empty ? null : calendar,
+    season_months: empty ? null : seasonMonths(calendar),
+    season_open: first ? formatMonthDay(first.open) : null,
+    season_close: first ? formatMonthDay(first.close) : null,
+  }
+}
+
+// The calendar after the strings were edited in a form that still edits text.
+// They only stand for the main window: other windows and known actual dates
+// stay, and strings that can't be read leave the calendar as it was.
+export function seasonFieldsFromText(
+  open: string | null | undefined,
+  close: string | null | undefined,
+  current: SeasonCalendar | null = null
+) {
+  const parsed = parseSeasonStrings(open, close)
+  const calendar = !parsed || !current
+    ? parsed ?? current
+    : {
+        windows: [parsed.windows[0], ...current.windows.slice(1)],
+        actuals: [...parsed.actuals.filter((a) => !current.actuals.some((c) => c.year === a.year)), ...current.actuals],
+      }
+  return { season_calendar: calendar, season_months: calendar ? seasonMonths(calendar) : null }
+}
+
+// What to write when old values are put back. Season strings restored
+// without a calendar (an edit from before calendars existed) carry the
+// calendar and its months along, and a restored calendar gets its months.
+export async function withRestoredSeason(
+  resortId: string,
+  fields: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  if ('season_calendar' in fields) {
+    return { ...fields, season_months: seasonMonths(fields.season_calendar as SeasonCalendar | null) }
+  }
+  if (!('season_open' in fields) && !('season_close' in fields)) return fields
+
+  const { data, error } = await supabase
+    .from('resorts')
+    .select('season_open, season_close, season_calendar')
+    .eq('id', resortId)
+    .single()
+  if (error) throw new Error(error.message)
+  const open = 'season_open' in fields ? fields.season_open : data.season_open
+  const close = 'season_close' in fields ? fields.season_close : data.season_close
+  return { ...fields, ...seasonFieldsFromText(open as string | null, close as string | null, data.season_calendar) }
+}
+
+export interface SeasonMigrationResult {
+  migrated: number
+  unparsed: { id: string; name: string; season_open: string | null; season_close: string | null }[]
+}
+
+// Parses season_open/season_close into a calendar for every resort that
+// has strings but no calendar yet. The strings are left as they are.
+export async function migrateSeasonStrings(): Promise<SeasonMigrationResult> {
+  const result: SeasonMigrationResult = { migrated: 0, unparsed: [] }
+  const history: ResortWrite[] = []
+
+  for await (const batch of streamRows({
+    table: 'resorts',
+    select: 'id, name, season_open, season_close, season_calendar',
+    filters: [{ column: 'season_calendar', op: 'is', value: null }],
+    search: null,
+    sort: { column: 'name', desc: false },
+  })) {
+    for (const r of batch) {
+      const open = (r.season_open as string | null) ?? null
+      const close = (r.season_close as string | null) ?? null
+      if (!open && !close) continue
+      const calendar = parseSeasonStrings(open, close)
+      if (!calendar) {
+        result.unparsed.push({ id: String(r.id), name: String(r.name), season_open: open, season_close: close })
+        continue
+      }
+      const fields = { season_calendar: calendar, season_months: seasonMonths(calendar) }
+      const { error } = await supabase.from('resorts').update(fields).eq('id', r.id)
+      if (error) throw new Error(error.message)
+      history.push({ resortId: String(r.id), before: { season_calendar: null, season_months: null }, after: fields, source: 'migration' })
+      result.migrated++
+    }
+  }
+
+  await recordResortChanges(history)
+  return result
+}
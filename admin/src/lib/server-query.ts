@@ -0,0 +1,220 @@
+// Turns table state (sort, filters, search, page cursor) into PostgREST
+// filters. Pagination is keyset-based: each page continues after the last row
+// of the previous one instead of using OFFSET, so deep pages stay as cheap as
+// the first on large tables.
+
+import { supabase } from './supabase'
+
+// cs: an array column contains all of the given values; not_null ignores `value`
+export type FilterOp = 'eq' | 'neq' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'ilike' | 'is' | 'cs' | 'not_null'
+
+export interface ServerFilter {
+  column: string
+  op: FilterOp
+  value: unknown
+}
+
+export interface ServerSort {
+  column: string
+  desc: boolean
+}
+
+// Full-text-ish search: the term is matched against `columns`, and rows whose
+// `matches` column holds one of the listed values also count as hits. Pages
+// use `matches` for text that lives in another table (e.g. the ids of resorts
+// whose name matches the term).
+export interface ServerSearch {
+  term: string
+  columns: string[]
+  matches?: { column: string; values: string[] }[]
+}
+
+// Sort value and id of the last row on the previous page
+export interface KeysetCursor {
+  value: unknown
+  id: string
+}
+
+// Everything that defines a result set, independent of which page is shown.
+// Plain data, so it can be saved (e.g. with a scheduled export) and replayed.
+export interface ServerQuery {
+  table: string
+  select: string
+  filters: ServerFilter[]
+  search: ServerSearch | null
+  sort: ServerSort
+  // Rows must also pass at least one of these (e.g. "has any rating")
+  anyOf?: ServerFilter[]
+}
+
+// The subset of the PostgREST filter builder this module needs
+interface Filterable<Q> {
+  eq(column: string, value: unknown): Q
+  neq(column: string, value: unknown): Q
+  in(column: string, values: readonly unknown[]): Q
+  gt(column: string, value: unknown): Q
+  gte(column: string, value: unknown): Q
+  lt(column: string, value: unknown): Q
+  lte(column: string, value: unknown): Q
+  ilike(column: string, pattern: string): Q
+  is(column: string, value: null | boolean): Q
+  contains(column: string, value: readonly unknown[]): Q
+  not(column: string, operator: string, value: unknown): Q
+  or(filters: string): Q
+}
+
+// Values inside or() are comma/paren delimited; quote anything that could break it
+function quote(value: unknown): string {
+  const s = String(value)
+  return /[,()"\\:\s]/.test(s) ? `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : s
+}
+
+export function applyFilters<Q extends Filterable<Q>>(query: Q, filters: ServerFilter[]): Q {
+  let q = query
+  for (const f of filters) {
+    switch (f.op) {
+      case 'in':
+        q = q.in(f.column, f.value as unknown[])
+        break
+      case 'ilike':
+        q = q.ilike(f.column, `%${String(f.value)}%`)
+        break
+      case 'is':
+        q = q.is(f.column, f.value as null | boolean)
+        break
+      case 'cs':
+        q = q.contains(f.column, f.value as unknown[])
+        break
+      case 'not_null':
+        q = q.not(f.column, 'is', null)
+        break
+      default:
+        q = q[f.op](f.column, f.value)
+    }
+  }
+  return q
+}
+
+// Search, the page cursor and anyOf are all OR-trees; build them as
+// logic-tree strings and send them together so none overwrites another.
+
+function filterCondition({ column, op, value }: ServerFilter): string {
+  switch (op) {
+    case 'in':
+      return `${column}.in.(${(value as unknown[]).map(quote).join(',')})`
+    case 'ilike':
+      return `${column}.ilike.*${String(value).replace(/[,()*%"\\]/g, ' ')}*`
+    case 'is':
+      return `${column}.is.${String(value)}`
+    case 'cs':
+      return `${column}.cs.{${(value as unknown[]).map(quote).join(',')}}`
+    case 'not_null':
+      return `${column}.not.is.null`
+    default:
+      return `${column}.${op}.${quote(value)}`
+  }
+}
+
+function anyOfCondition(anyOf: ServerFilter[] | undefined): string | null {
+  if (!anyOf || anyOf.length === 0) return null
+  return `or(${anyOf.map(filterCondition).join(',')})`
+}
+
+function searchCondition({ term, columns, matches = [] }: ServerSearch): string | null {
+  // Drop characters that are syntax in or() rather than trying to escape ilike patterns
+  const cleaned = term.trim().replace(/[,()*%"\\]/g, ' ').trim()
+  if (!cleaned) return null
+  const branches = [
+    ...columns.map((c) => `${c}.ilike.*${cleaned}*`),
+    ...matches
+      .filter((m) => m.values.length > 0)
+      .map((m) => `${m.column}.in.(${m.values.map(quote).join(',')})`),
+  ]
+  // A term that matches nothing anywhere must return nothing, not everything
+  return branches.length > 0 ? `or(${branches.join(',')})` : 'id.is.null'
+}
+
+// Rows strictly after the cursor in (sort column, id) order. Nulls sort last,
+// so once the cursor is in the null tail only the id tie-breaker applies.
+function cursorCondition(sort: ServerSort, cursor: KeysetCursor | null): string | null {
+  if (!cursor) return null
+  const after = sort.desc ? 'lt' : 'gt'
+  const id = quote(cursor.id)
+  if (cursor.value === null || cursor.value === undefined) {
+    return `and(${sort.column}.is.null,id.${after}.${id})`
+  }
+  const v = quote(cursor.value)
+  return `or(${sort.column}.${after}.${v},and(${sort.column}.eq.${v},id.${after}.${id}),${sort.column}.is.null)`
+}
+
+export function applySearchAndCursor<Q extends Filterable<Q>>(
+  query: Q,
+  search: ServerSearch | null,
+  sort: ServerSort,
+  cursor: KeysetCursor | null,
+  anyOf?: ServerFilter[]
+): Q {
+  const conditions = [
+    anyOfCondition(anyOf),
+    search ? searchCondition(search) : null,
+    cursorCondition(sort, cursor),
+  ].filter((c): c is string => c !== null)
+  if (conditions.length === 0) return query
+  // A single-branch or() is how PostgREST spells a top-level AND of trees
+  return query.or(`and(${conditions.join(',')})`)
+}
+
+// Up to `limit` rows of `query` after `cursor`, in (sort column, id) order
+export function pageQuery(query: ServerQuery, cursor: KeysetCursor | null, limit: number) {
+  const { table, select, filters, search, sort, anyOf } = query
+  let q = supabase
+    .from(table)
+    .select(select)
+    .order(sort.column, { ascending: !sort.desc, nullsFirst: false })
+    .order('id', { ascending: !sort.desc })
+    .limit(limit)
+  q = applyFilters(q, filters)
+  return applySearchAndCursor(q, search, sort, cursor, anyOf)
+}
+
+// The rows among `ids` that the query's filters and search let through
+export function idsQuery(query: ServerQuery, ids: string[]) {
+  const { table, select, filters, search, sort, anyOf } = query
+  let q = supabase
+    .from(table)
+    .select(select)
+    .in('id', ids)
+    .order(sort.column, { ascending: !sort.desc, nullsFirst: false })
+    .order('id', { ascending: !sort.desc })
+  q = applyFilters(q, filters)
+  return applySearchAndCursor(q, search, sort, null, anyOf)
+}
+
+export function countQuery(query: ServerQuery) {
+  let q = supabase.from(query.table).select('*', { count: 'exact', head: true })
+  q = applyFilters(q, query.filters)
+  return applySearchAndCursor(q, query.search, query.sort, null, query.anyOf)
+}
+
+// Where the page after `rows` starts
+export function nextCursor(rows: Record<string, unknown>[], sort: ServerSort): KeysetCursor | null {
+  const last = rows[rows.length - 1]
+  return last ? { value: last[sort.column] ?? null, id: String(last.id) } : null
+}
+
+// Every row of `query`, in keyset batches of `batchSize` (PostgREST's default
+// max rows, so one request never comes back silently truncated)
+export async function* streamRows(
+  query: ServerQuery,
+  batchSize = 1000
+): AsyncGenerator<Record<string, unknown>[]> {
+  let cursor: KeysetCursor | null = null
+  for (;;) {
+    const { data, error } = await pageQuery(query, cursor, batchSize)
+    if (error) throw new Error(error.message)
+    const rows = (data ?? []) as unknown as Record<string, unknown>[]
+    if (rows.length > 0) yield rows
+    if (rows.length < batchSize) return
+    cursor = nextCursor(rows, query.sort)
+  }
+}
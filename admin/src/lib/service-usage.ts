@@ -0,0 +1,286 @@
+import { supabase } from './supabase'
+import { SUPABASE_URL } from './constants'
+import { streamRows } from './server-query'
+
+// ---------------------------------------------------------------------------
+// Service usage — collected on a schedule by the collect-service-usage edge
+// function into a time series, one sample per metric per run
+// ---------------------------------------------------------------------------
+
+export const USAGE_SAMPLES_TABLE = 'service_usage_samples'
+
+export interface UsageSample {
+  service: string
+  metric: string
+  value: number
+  collector: string
+  collected_at: string
+}
+
+export interface UsagePoint {
+  at: number
+  value: number
+}
+
+// How a metric behaves over time: quotas that reset with the billing month,
+// or totals that only grow until something is deleted
+export type UsageKind = 'monthly' | 'cumulative'
+
+export interface UsageMetric {
+  // `service_*` row in app_config and the field inside it the value fills
+  service: string
+  metric: string
+  label: string
+  // Field in the same app_config row that holds the plan limit
+  limit: string
+  kind: UsageKind
+}
+
+// Each collector is implemented in the edge function under the same id; new
+// sources only need an entry here and a collector there
+export interface UsageCollector {
+  id: string
+  label: string
+  metrics: UsageMetric[]
+}
+
+export const USAGE_COLLECTORS: UsageCollector[] = [
+  {
+    id: 'supabase_database',
+    label: 'Supabase database',
+    metrics: [
+      {
+        service: 'service_supabase',
+        metric: 'db_size_mb',
+        label: 'Supabase database',
+        limit: 'db_limit_mb',
+        kind: 'cumulative',
+      },
+      {
+        service: 'service_supabase',
+        metric: 'auth_mau',
+        label: 'Supabase auth MAUs',
+        limit: 'auth_mau_limit',
+        kind: 'monthly',
+      },
+      {
+        service: 'service_supabase',
+        metric: 'edge_invocations',
+        label: 'Supabase edge functions',
+        limit: 'edge_invocations_limit',
+        kind: 'monthly',
+      },
+    ],
+  },
+  {
+    id: 'supabase_management',
+    label: 'Supabase Management API',
+    metrics: [
+      {
+        service: 'service_supabase',
+        metric: 'bandwidth_used_gb',
+        label: 'Supabase egress',
+        limit: 'bandwidth_limit_gb',
+        kind: 'monthly',
+      },
+      {
+        service: 'service_supabase',
+        metric: 'cached_egress_used_gb',
+        label: 'Supabase cached egress',
+        limit: 'cached_egress_limit_gb',
+        kind: 'monthly',
+      },
+      {
+        service: 'service_supabase',
+        metric: 'file_storage_used_gb',
+        label: 'Supabase file storage',
+        limit: 'file_storage_limit_gb',
+        kind: 'cumulative',
+      },
+    ],
+  },
+  {
+    id: 'cloudflare_r2',
+    label: 'Cloudflare R2',
+    metrics: [
+      {
+        service: 'service_cloudflare_r2',
+        metric: 'storage_used_gb',
+        label: 'R2 storage',
+        limit: 'storage_limit_gb',
+        kind: 'cumulative',
+      },
+      {
+        service: 'service_cloudflare_r2',
+        metric: 'class_a_ops_used',
+        label: 'R2 Class A ops',
+        limit: 'class_a_ops_limit',
+        kind: 'monthly',
+      },
+      {
+        service: 'service_cloudflare_r2',
+        metric: 'class_b_ops_used',
+        label: 'R2 Class B ops',
+        limit: 'class_b_ops_limit',
+        kind: 'monthly',
+      },
+    ],
+  },
+  {
+    id: 'sentry',
+    label: 'Sentry',
+    metrics: [
+      {
+        service: 'service_sentry',
+        metric: 'events_used',
+        label: 'Sentry events',
+        limit: 'events_limit_monthly',
+        kind: 'monthly',
+      },
+    ],
+  },
+  {
+    id: 'posthog',
+    label: 'PostHog',
+    metrics: [
+      {
+        service: 'service_posthog',
+        metric: 'events_used',
+        label: 'PostHog events',
+        limit: 'events_limit_monthly',
+        kind: 'monthly',
+      },
+      {
+        service: 'service_posthog',
+        metric: 'sessions_used',
+        label: 'PostHog session replays',
+        limit: 'sessions_limit_monthly',
+        kind: 'monthly',
+      },
+    ],
+  },
+]
+
+export function seriesKey(service: string, metric: string): string {
+  return `${service}.${metric}`
+}
+
+export const USAGE_METRICS: UsageMetric[] = USAGE_COLLECTORS.flatMap((c) => c.metrics)
+
+export function usageMetric(service: string, metric: string): UsageMetric | undefined {
+  return USAGE_METRICS.find((m) => m.service === service && m.metric === metric)
+}
+
+// ---------------------------------------------------------------------------
+// Loading and collecting
+// ---------------------------------------------------------------------------
+
+// Long enough for a trend on cumulative metrics and a few billing cycles
+export const USAGE_HISTORY_DAYS = 90
+
+export async function loadUsageSeries(days = USAGE_HISTORY_DAYS): Promise<Record<string, UsagePoint[]>> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+  const series: Record<string, UsagePoint[]> = {}
+  // Paged: a dozen metrics over 90 days is more than one request returns, and
+  // a truncated read would drop the newest samples
+  for await (const batch of streamRows({
+    table: USAGE_SAMPLES_TABLE,
+    select: 'id, service, metric, value, collected_at',
+    filters: [{ column: 'collected_at', op: 'gte', value: since }],
+    search: null,
+    sort: { column: 'collected_at', desc: false },
+  })) {
+    for (const s of batch as unknown as UsageSample[]) {
+      const key = seriesKey(s.service, s.metric)
+      ;(series[key] ??= []).push({ at: new Date(s.collected_at).getTime(), value: Number(s.value) })
+    }
+  }
+  return series
+}
+
+export interface CollectorResult {
+  collector: string
+  ok: boolean
+  error?: string
+}
+
+// Runs now instead of waiting for the schedule; omit `collectors` to run all
+export async function runUsageCollectors(collectors?: string[]): Promise<CollectorResult[]> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const res = await fetch(`${SUPABASE_URL}/functions/v1/collect-service-usage`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ collectors }),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || 'Collection failed')
+  return (data.results ?? []) as CollectorResult[]
+}
+
+// ---------------------------------------------------------------------------
+// Trends
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface UsageTrend {
+  // Per-day growth over the fitted window
+  perDay: number
+  // When the limit is reached at the current rate; null if it isn't
+  exhaustsAt: Date | null
+  // Monthly quotas only: where usage lands when the cycle resets
+  projectedAtReset: number | null
+  resetsAt: Date | null
+}
+
+function startOfMonth(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1)
+}
+
+// Least-squares slope in value per day
+function slopePerDay(points: UsagePoint[]): number {
+  const n = points.length
+  const meanX = points.reduce((s, p) => s + p.at, 0) / n
+  const meanY = points.reduce((s, p) => s + p.value, 0) / n
+  let num = 0
+  let den = 0
+  for (const p of points) {
+    num += (p.at - meanX) * (p.value - meanY)
+    den += (p.at - meanX) ** 2
+  }
+  return den === 0 ? 0 : (num / den) * DAY_MS
+}
+
+// Monthly quotas are fitted over the current cycle only, since the counter
+// drops back to zero at each reset
+export function usageTrend(
+  points: UsagePoint[],
+  limit: number,
+  kind: UsageKind,
+  now = new Date()
+): UsageTrend | null {
+  const resetsAt = kind === 'monthly' ? new Date(now.getFullYear(), now.getMonth() + 1, 1) : null
+  const window = kind === 'monthly' ? points.filter((p) => p.at >= startOfMonth(now).getTime()) : points
+  if (window.length < 2) return null
+
+  const perDay = slopePerDay(window)
+  const latest = window[window.length - 1]
+  let exhaustsAt: Date | null = null
+  if (latest.value >= limit) {
+    exhaustsAt = new Date(latest.at)
+  } else if (perDay > 0 && limit > 0) {
+    const at = new Date(latest.at + ((limit - latest.value) / perDay) * DAY_MS)
+    if (!resetsAt || at < resetsAt) exhaustsAt = at
+  }
+
+  const projectedAtReset = resetsAt
+    ? Math.max(latest.value, latest.value + perDay * ((resetsAt.getTime() - latest.at) / DAY_MS))
+    : null
+
+  return { perDay, exhaustsAt, projectedAtReset, resetsAt }
+}
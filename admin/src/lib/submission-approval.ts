@@ -0,0 +1,54 @@
+import { supabase } from './supabase'
+
+// ---------------------------------------------------------------------------
+// Submission approval undo — approving a submission in admin-manage-submission
+// also approves its duplicates and points their visits at the chosen resort.
+// The approval's audit entry keeps those rows as they were beforehand, so
+// reverting it can put every one of them back.
+// ---------------------------------------------------------------------------
+
+export interface ApprovalLinks {
+  submissions: { id: string; status: string; approved_resort_id: string | null }[]
+  visits: { id: string; resort_id: string | null; pending_resort_name: string | null }[]
+}
+
+// Current state of the submissions and visits an approval is about to touch
+export async function snapshotApprovalLinks(submissionIds: string[], visitIds: string[]): Promise<ApprovalLinks> {
+  const [submissions, visits] = await Promise.all([
+    supabase.from('resort_submissions').select('id, status, approved_resort_id').in('id', submissionIds),
+    visitIds.length > 0
+      ? supabase.from('user_visits').select('id, resort_id, pending_resort_name').in('id', visitIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+  if (submissions.error) throw submissions.error
+  if (visits.error) throw visits.error
+  return {
+    submissions: (submissions.data ?? []) as ApprovalLinks['submissions'],
+    visits: (visits.data ?? []) as ApprovalLinks['visits'],
+  }
+}
+
+// Rows that go back to the same values are written in one update
+function groupByValues<T extends { id: string }>(rows: T[]): { values: Omit<T, 'id'>; ids: string[] }[] {
+  const groups = new Map<string, { values: Omit<T, 'id'>; ids: string[] }>()
+  for (const { id, ...values } of rows) {
+    const key = JSON.stringify(values)
+    const group = groups.get(key) ?? { values, ids: [] }
+    group.ids.push(id)
+    groups.set(key, group)
+  }
+  return [...groups.values()]
+}
+
+// Puts the visits back on their pending resort names first, so a failure
+// halfway leaves submissions approved rather than visits pointing nowhere
+export async function restoreApprovalLinks(links: ApprovalLinks): Promise<void> {
+  for (const { values, ids } of groupByValues(links.visits)) {
+    const { error } = await supabase.from('user_visits').update(values).in('id', ids)
+    if (error) throw error
+  }
+  for (const { values, ids } of groupByValues(links.submissions)) {
+    const { error } = await supabase.from('resort_submissions').update(values).in('id', ids)
+    if (error) throw error
+  }
+}
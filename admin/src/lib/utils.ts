@@ -39,42 +39,6 @@ export function timeAgo(dateStr: string): string {
   return formatDate(dateStr)
 }
 
-export function exportToCsv(data: Record<string, unknown>[], filename: string) {
-  if (data.length === 0) return
-  const headers = Object.keys(data[0])
-  const csvRows = [
-    headers.join(','),
-    ...data.map(row =>
-      headers
-        .map(h => {
-          const val = row[h]
-          const str = val === null || val === undefined ? '' : String(val)
-          return str.includes(',') || str.includes('"') || str.includes('\n')
-            ? `"${str.replace(/"/g, '""')}"`
-            : str
-        })
-        .join(',')
-    ),
-  ]
-  const blob = new Blob([csvRows.join('\n')], { type: 'text/csv' })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = `${filename}-${new Date().toISOString().slice(0, 10)}.csv`
-  a.click()
-  URL.revokeObjectURL(url)
-}
-
-export function exportToJson(data: unknown[], filename: string) {
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = `${filename}-${new Date().toISOString().slice(0, 10)}.json`
-  a.click()
-  URL.revokeObjectURL(url)
-}
-
 export function truncate(str: string, len: number): string {
   if (str.length <= len) return str
   return str.slice(0, len) + '...'
@@ -0,0 +1,180 @@
+import { streamRows } from './server-query'
+
+// ---------------------------------------------------------------------------
+// Visit seasons — when (month, season) and where (resort location,
+// hemisphere) users ski, from user_visits.start_date and the resort's lat/lng
+// ---------------------------------------------------------------------------
+
+export type Hemisphere = 'north' | 'south'
+
+export const HEMISPHERES: { value: Hemisphere; label: string; color: string }[] = [
+  { value: 'north', label: 'Northern', color: '#4298D2' },
+  { value: 'south', label: 'Southern', color: '#f59e0b' },
+]
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Northern seasons run across New Year, so they're named by both years and
+// start in July; southern seasons fit in one calendar year
+const NORTH_SEASON_START_MONTH = 6 // July
+
+export interface SeasonVisit {
+  // null when only the year is known, or there's no date at all
+  month: number | null
+  year: number | null
+  hemisphere: Hemisphere | null
+  season: string | null
+  resort: { id: string; name: string; country: string | null; lat: number; lng: number } | null
+}
+
+export interface ResortPoint {
+  id: string
+  name: string
+  country: string | null
+  lat: number
+  lng: number
+  visits: number
+}
+
+export function hemisphereOf(lat: number): Hemisphere {
+  return lat < 0 ? 'south' : 'north'
+}
+
+export function seasonOf(year: number, month: number, hemisphere: Hemisphere): string {
+  if (hemisphere === 'south') return String(year)
+  const start = month >= NORTH_SEASON_START_MONTH ? year : year - 1
+  return `${start}/${String((start + 1) % 100).padStart(2, '0')}`
+}
+
+interface VisitRow {
+  start_date: string | null
+  date_precision: string | null
+  resort_id: string | null
+  resorts: { name: string; country: string | null; lat: number | null; lng: number | null } | null
+}
+
+export async function loadSeasonVisits(): Promise<SeasonVisit[]> {
+  const visits: SeasonVisit[] = []
+  for await (const batch of streamRows({
+    table: 'user_visits',
+    select: 'id, start_date, date_precision, created_at, resort_id, resorts(name, country, lat, lng)',
+    filters: [],
+    search: null,
+    sort: { column: 'created_at', desc: false },
+  })) {
+    for (const row of batch as unknown as VisitRow[]) {
+      const r = row.resorts
+      const located = r && r.lat !== null && r.lng !== null && row.resort_id
+      const hemisphere = located ? hemisphereOf(r.lat!) : null
+
+      // start_date is stored as a full date even when the user only gave a
+      // year; precision says how much of it is real
+      let year: number | null = null
+      let month: number | null = null
+      if (row.start_date) {
+        year = Number(row.start_date.slice(0, 4))
+        if (row.date_precision !== 'year') month = Number(row.start_date.slice(5, 7)) - 1
+      }
+
+      visits.push({
+        month,
+        year,
+        hemisphere,
+        season: hemisphere && year !== null && month !== null ? seasonOf(year, month, hemisphere) : null,
+        resort: located ? { id: row.resort_id!, name: r.name, country: r.country, lat: r.lat!, lng: r.lng! } : null,
+      })
+    }
+  }
+  return visits
+}
+
+// ---------------------------------------------------------------------------
+// Aggregates
+// ---------------------------------------------------------------------------
+
+export function resortPoints(visits: SeasonVisit[]): ResortPoint[] {
+  const byResort = new Map<string, ResortPoint>()
+  for (const v of visits) {
+    if (!v.resort) continue
+    const point = byResort.get(v.resort.id) ?? { ...v.resort, visits: 0 }
+    point.visits++
+    byResort.set(v.resort.id, point)
+  }
+  return Array.from(byResort.values()).sort((a, b) => b.visits - a.visits)
+}
+
+export interface SeasonHeatmapRow {
+  season: string
+  months: number[]
+  total: number
+}
+
+// One row per season, newest first, with visits per calendar month
+export function seasonHeatmap(visits: SeasonVisit[], hemisphere: Hemisphere | 'all'): SeasonHeatmapRow[] {
+  const rows = new Map<string, SeasonHeatmapRow>()
+  for (const v of visits) {
+    if (v.year === null || v.month === null) continue
+    if (hemisphere !== 'all' && (v.hemisphere !== hemisphere || !v.season)) continue
+    // Mixed hemispheres: fall back to calendar years so rows line up
+    const key = hemisphere === 'all' ? String(v.year) : v.season!
+    const row = rows.get(key) ?? { season: key, months: Array(12).fill(0), total: 0 }
+    row.months[v.month]++
+    row.total++
+    rows.set(key, row)
+  }
+  return Array.from(rows.values()).sort((a, b) => b.season.localeCompare(a.season))
+}
+
+export interface MonthComparison {
+  month: string
+  north: number
+  south: number
+}
+
+export function hemisphereByMonth(visits: SeasonVisit[]): MonthComparison[] {
+  const data = MONTH_NAMES.map((month) => ({ month, north: 0, south: 0 }))
+  for (const v of visits) {
+    if (v.month === null || !v.hemisphere) continue
+    data[v.month][v.hemisphere]++
+  }
+  return data
+}
+
+export interface SeasonTotal {
+  hemisphere: Hemisphere
+  season: string
+  visits: number
+  resorts: number
+  // Versus the season before in the same hemisphere; null for the first
+  change: number | null
+}
+
+export function seasonTotals(visits: SeasonVisit[]): SeasonTotal[] {
+  const totals = new Map<string, { hemisphere: Hemisphere; season: string; visits: number; resorts: Set<string> }>()
+  for (const v of visits) {
+    if (!v.season || !v.hemisphere) continue
+    const key = `${v.hemisphere}:${v.season}`
+    const t = totals.get(key) ?? { hemisphere: v.hemisphere, season: v.season, visits: 0, resorts: new Set<string>() }
+    t.visits++
+    if (v.resort) t.resorts.add(v.resort.id)
+    totals.set(key, t)
+  }
+
+  const result: SeasonTotal[] = []
+  for (const { value: hemisphere } of HEMISPHERES) {
+    const seasons = Array.from(totals.values())
+      .filter((t) => t.hemisphere === hemisphere)
+      .sort((a, b) => a.season.localeCompare(b.season))
+    seasons.forEach((t, i) => {
+      const prev = seasons[i - 1]
+      result.push({
+        hemisphere,
+        season: t.season,
+        visits: t.visits,
+        resorts: t.resorts.size,
+        change: prev && prev.visits > 0 ? (t.visits - prev.visits) / prev.visits : null,
+      })
+    })
+  }
+  return result
+}
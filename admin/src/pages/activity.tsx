@@ -2,7 +2,11 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { toast } from 'sonner'
 import { Header } from '@/components/layout/header'
-import { PAGE_SIZE } from '@/lib/constants'
+import { useAuditLog, isRevertible, revertPermission } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useServerTable } from '@/hooks/use-server-table'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
+import type { ServerFilter } from '@/lib/server-query'
 import { formatDateTime, truncate } from '@/lib/utils'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -15,10 +19,12 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { DataTable } from '@/components/shared/data-table'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { ExportButton } from '@/components/shared/export-button'
+import { ConfirmDialog } from '@/components/shared/confirm-dialog'
 import { Skeleton } from '@/components/ui/skeleton'
-import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
-import { type ColumnDef } from '@tanstack/react-table'
+import { AlertTriangle, ChevronDown, ChevronRight, Loader2, Undo2 } from 'lucide-react'
+import { type ColumnDef, type VisibilityState } from '@tanstack/react-table'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -31,9 +37,18 @@ interface AuditLogEntry {
   entity_type: string | null
   entity_id: string | null
   details: Record<string, unknown> | null
+  before_data: Record<string, unknown> | null
+  after_data: Record<string, unknown> | null
+  session_id: string | null
+  user_agent: string | null
   created_at: string
 }
 
+interface RevertTarget {
+  entry: AuditLogEntry
+  conflicts: string[]
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -51,6 +66,13 @@ const ACTION_TYPES = [
   { value: 'update_ticket_status', label: 'Update Ticket Status' },
   { value: 'create_resort', label: 'Create Resort' },
   { value: 'add_support_note', label: 'Add Support Note' },
+  { value: 'update_app_config', label: 'Update Config' },
+  { value: 'update_alert_rule', label: 'Update Alert Rule' },
+  { value: 'merge_resorts', label: 'Merge Resorts' },
+  { value: 'dismiss_duplicate', label: 'Dismiss Duplicate' },
+  { value: 'migrate_season_calendars', label: 'Migrate Season Calendars' },
+  { value: 'acknowledge_alert', label: 'Acknowledge Alert' },
+  { value: 'revert_action', label: 'Revert' },
 ]
 
 const ENTITY_TYPES = [
@@ -59,12 +81,29 @@ const ENTITY_TYPES = [
   { value: 'feature_photo', label: 'Feature Photo' },
   { value: 'support_request', label: 'Support Request' },
   { value: 'resort', label: 'Resort' },
+  { value: 'resort_duplicate', label: 'Resort Duplicate' },
   { value: 'profile', label: 'Profile' },
   { value: 'user_visit', label: 'User Visit' },
+  { value: 'app_config', label: 'App Config' },
+  { value: 'alert_rule', label: 'Alert Rule' },
+  { value: 'alert_event', label: 'Alert' },
 ]
 
 type DateRange = 'today' | 'week' | 'month' | 'all'
 
+const AUDIT_COLUMNS =
+  'id, admin_email, action, entity_type, entity_id, details, before_data, after_data, session_id, user_agent, created_at'
+
+const AUDIT_SORT = { column: 'created_at', desc: true }
+
+type ActivityFilters = { action: string; entity: string; dateRange: DateRange }
+
+const ACTIVITY_VIEW_DEFAULTS: ViewState<ActivityFilters> = {
+  filters: { action: 'all', entity: 'all', dateRange: 'all' },
+  sorting: [],
+  columnVisibility: {},
+}
+
 function getDateRangeStart(range: DateRange): string | null {
   const now = new Date()
   switch (range) {
@@ -92,6 +131,7 @@ function getDateRangeStart(range: DateRange): string | null {
 // ---------------------------------------------------------------------------
 
 function actionBadgeColor(action: string): string {
+  if (action.startsWith('revert')) return 'text-amber-400 bg-amber-400/10'
   if (action.startsWith('approve')) return 'text-green-400 bg-green-400/10'
   if (action.startsWith('reject')) return 'text-red-400 bg-red-400/10'
   if (action.startsWith('delete')) return 'text-red-400 bg-red-400/10'
@@ -104,102 +144,160 @@ function actionBadgeColor(action: string): string {
 // Main Page
 // ---------------------------------------------------------------------------
 
+function formatSnapshotValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
 export function ActivityPage() {
-  // Data
-  const [entries, setEntries] = useState<AuditLogEntry[]>([])
-  const [totalCount, setTotalCount] = useState(0)
-  const [page, setPage] = useState(0)
-  const [loading, setLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
-  const [tableError, setTableError] = useState(false)
+  const { revert, findRevertConflicts } = useAuditLog()
+  const { can } = usePermissions()
 
   // Filters
   const [actionFilter, setActionFilter] = useState('all')
   const [entityFilter, setEntityFilter] = useState('all')
   const [dateRange, setDateRange] = useState<DateRange>('all')
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
 
   // Expanded row
   const [expandedId, setExpandedId] = useState<string | null>(null)
 
+  // Revert
+  const [revertedIds, setRevertedIds] = useState<Set<string>>(new Set())
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+  const [revertTarget, setRevertTarget] = useState<RevertTarget | null>(null)
+
   // -----------------------------------------------------------------------
   // Fetch
   // -----------------------------------------------------------------------
 
-  const fetchLogs = useCallback(
-    async (showRefresh = false) => {
-      if (showRefresh) setRefreshing(true)
-      else setLoading(true)
-      setTableError(false)
+  const filters = useMemo(() => {
+    const list: ServerFilter[] = []
+    if (actionFilter !== 'all') list.push({ column: 'action', op: 'eq', value: actionFilter })
+    if (entityFilter !== 'all') list.push({ column: 'entity_type', op: 'eq', value: entityFilter })
+    const dateStart = getDateRangeStart(dateRange)
+    if (dateStart) list.push({ column: 'created_at', op: 'gte', value: dateStart })
+    return list
+  }, [actionFilter, entityFilter, dateRange])
 
-      try {
-        const from = page * PAGE_SIZE
-        const to = from + PAGE_SIZE - 1
-
-        // Build query
-        let countQuery = supabase
-          .from('admin_audit_log')
-          .select('*', { count: 'exact', head: true })
-
-        let dataQuery = supabase
-          .from('admin_audit_log')
-          .select('id, admin_email, action, entity_type, entity_id, details, created_at')
-          .order('created_at', { ascending: false })
-          .range(from, to)
-
-        // Apply filters
-        if (actionFilter !== 'all') {
-          countQuery = countQuery.eq('action', actionFilter)
-          dataQuery = dataQuery.eq('action', actionFilter)
-        }
-        if (entityFilter !== 'all') {
-          countQuery = countQuery.eq('entity_type', entityFilter)
-          dataQuery = dataQuery.eq('entity_type', entityFilter)
-        }
+  const {
+    rows: entries,
+    totalCount,
+    loading,
+    refreshing,
+    error,
+    sorting,
+    setSorting,
+    query,
+    reload: fetchLogs,
+    tableProps,
+  } = useServerTable<AuditLogEntry>({
+    table: 'admin_audit_log',
+    select: AUDIT_COLUMNS,
+    defaultSort: AUDIT_SORT,
+    filters,
+  })
+
+  const exportSource = useMemo(() => ({ query, totalCount }), [query, totalCount])
+
+  // Saved views
+  const viewState = useMemo<ViewState<ActivityFilters>>(
+    () => ({ filters: { action: actionFilter, entity: entityFilter, dateRange }, sorting, columnVisibility }),
+    [actionFilter, entityFilter, dateRange, sorting, columnVisibility]
+  )
+  const applyView = useCallback(
+    ({ filters: f, sorting: s, columnVisibility: c }: ViewState<ActivityFilters>) => {
+      setActionFilter(f.action)
+      setEntityFilter(f.entity)
+      setDateRange(f.dateRange)
+      setSorting(s)
+      setColumnVisibility(c)
+    },
+    [setSorting]
+  )
+  const views = useSavedViews({
+    page: 'activity',
+    state: viewState,
+    defaults: ACTIVITY_VIEW_DEFAULTS,
+    apply: applyView,
+  })
+
+  // Table not created yet vs. any other failure
+  const tableError =
+    !!error &&
+    (error.message.includes('does not exist') ||
+      error.message.includes('relation') ||
+      error.message.includes('42P01'))
 
-        const dateStart = getDateRangeStart(dateRange)
-        if (dateStart) {
-          countQuery = countQuery.gte('created_at', dateStart)
-          dataQuery = dataQuery.gte('created_at', dateStart)
-        }
+  useEffect(() => {
+    if (error && !tableError) toast.error('Failed to load audit log')
+  }, [error, tableError])
 
-        const { count, error: countError } = await countQuery
-        if (countError) throw countError
-
-        const { data, error } = await dataQuery
-        if (error) throw error
-
-        setTotalCount(count ?? 0)
-        setEntries((data as AuditLogEntry[]) ?? [])
-      } catch (err: unknown) {
-        const message = err instanceof Error ? err.message : String(err)
-        console.error('Audit log fetch error:', message)
-
-        // Check if table doesn't exist
-        if (
-          message.includes('does not exist') ||
-          message.includes('relation') ||
-          message.includes('42P01')
-        ) {
-          setTableError(true)
-        } else {
-          toast.error('Failed to load audit log')
-        }
+  // Which of the loaded entries have already been reverted
+  useEffect(() => {
+    const revertibleIds = entries.filter(isRevertible).map((r) => r.id)
+    if (revertibleIds.length === 0) {
+      setRevertedIds(new Set())
+      return
+    }
+
+    let cancelled = false
+    ;(async () => {
+      const { data: revertRows } = await supabase
+        .from('admin_audit_log')
+        .select('details')
+        .eq('action', 'revert_action')
+        .in('details->>reverted_entry_id', revertibleIds)
+      if (cancelled) return
+      setRevertedIds(
+        new Set((revertRows ?? []).map((r) => String((r.details as Record<string, unknown>)?.reverted_entry_id)))
+      )
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [entries])
+
+  // -----------------------------------------------------------------------
+  // Revert
+  // -----------------------------------------------------------------------
+
+  const canRevert = useCallback(
+    (entry: AuditLogEntry) => {
+      if (!isRevertible(entry) || revertedIds.has(entry.id)) return false
+      const permission = revertPermission(entry.action)
+      return permission ? can(permission) : true
+    },
+    [revertedIds, can]
+  )
+
+  const openRevert = useCallback(
+    async (entry: AuditLogEntry) => {
+      setCheckingId(entry.id)
+      try {
+        const conflicts = await findRevertConflicts(entry)
+        setRevertTarget({ entry, conflicts })
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to check record')
       } finally {
-        setLoading(false)
-        setRefreshing(false)
+        setCheckingId(null)
       }
     },
-    [page, actionFilter, entityFilter, dateRange]
+    [findRevertConflicts]
   )
 
-  useEffect(() => {
-    fetchLogs()
-  }, [fetchLogs])
-
-  // Reset page when filters change
-  useEffect(() => {
-    setPage(0)
-  }, [actionFilter, entityFilter, dateRange])
+  const handleRevert = useCallback(async () => {
+    if (!revertTarget) return
+    const { entry } = revertTarget
+    setRevertTarget(null)
+    try {
+      await revert(entry)
+      toast.success(`Reverted ${entry.action.replace(/_/g, ' ')}`)
+      fetchLogs(true)
+    } catch (err) {
+      toast.error(`Failed to revert: ${err instanceof Error ? err.message : 'unknown error'}`)
+    }
+  }, [revertTarget, revert, fetchLogs])
 
   // -----------------------------------------------------------------------
   // Columns
@@ -261,6 +359,37 @@ export function ActivityPage() {
           )
         },
       },
+      {
+        id: 'revert',
+        header: '',
+        enableSorting: false,
+        cell: ({ row }) => {
+          const entry = row.original
+          if (revertedIds.has(entry.id)) {
+            return <span className="text-xs text-muted-foreground">Reverted</span>
+          }
+          if (!canRevert(entry)) return null
+          return (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={checkingId === entry.id}
+              onClick={(e) => {
+                e.stopPropagation()
+                openRevert(entry)
+              }}
+            >
+              {checkingId === entry.id ? (
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              ) : (
+                <Undo2 className="w-3 h-3 mr-1" />
+              )}
+              Revert
+            </Button>
+          )
+        },
+      },
       {
         id: 'expand',
         header: '',
@@ -281,9 +410,11 @@ export function ActivityPage() {
         },
       },
     ],
-    [expandedId]
+    [expandedId, revertedIds, canRevert, checkingId, openRevert]
   )
 
+  const expandedEntry = entries.find((e) => e.id === expandedId)
+
   // -----------------------------------------------------------------------
   // Export
   // -----------------------------------------------------------------------
@@ -297,6 +428,8 @@ export function ActivityPage() {
         entity_type: e.entity_type ?? '',
         entity_id: e.entity_id ?? '',
         details: e.details ? JSON.stringify(e.details) : '',
+        session_id: e.session_id ?? '',
+        user_agent: e.user_agent ?? '',
       })),
     [entries]
   )
@@ -338,6 +471,7 @@ export function ActivityPage() {
         subtitle={`${totalCount} audit entries`}
         onRefresh={() => fetchLogs(true)}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -390,7 +524,7 @@ export function ActivityPage() {
           </div>
 
           <div className="sm:ml-auto">
-            <ExportButton data={exportData as Record<string, unknown>[]} filename="audit-log" />
+            <ExportButton data={exportData as Record<string, unknown>[]} filename="audit-log" source={exportSource} />
           </div>
         </div>
 
@@ -408,35 +542,73 @@ export function ActivityPage() {
           <>
             <DataTable
               columns={columns}
-              data={entries}
+              {...tableProps}
+              columnVisibility={columnVisibility}
+              onColumnVisibilityChange={setColumnVisibility}
               onRowClick={(row) =>
                 setExpandedId(expandedId === row.id ? null : row.id)
               }
-              serverPagination={{
-                totalCount,
-                page,
-                onPageChange: setPage,
-              }}
             />
 
             {/* Expanded detail panel */}
-            {expandedId && (
+            {expandedEntry && (
               <Card className="border-primary/30">
-                <CardContent className="p-4">
-                  <h3 className="text-sm font-semibold mb-3">Full Details</h3>
-                  <pre className="text-xs font-mono bg-muted/50 rounded-lg p-4 overflow-auto max-h-64 whitespace-pre-wrap">
-                    {JSON.stringify(
-                      entries.find((e) => e.id === expandedId)?.details ?? {},
-                      null,
-                      2
-                    )}
-                  </pre>
+                <CardContent className="p-4 space-y-4">
+                  {expandedEntry.before_data && expandedEntry.after_data && (
+                    <div>
+                      <h3 className="text-sm font-semibold mb-3">Changes</h3>
+                      <div className="rounded-lg border border-border divide-y divide-border text-xs">
+                        {Object.keys(expandedEntry.after_data).map((field) => (
+                          <div key={field} className="grid grid-cols-[160px_1fr_1fr] gap-3 px-3 py-2">
+                            <span className="font-mono text-muted-foreground">{field}</span>
+                            <span className="text-red-400 line-through break-all">
+                              {formatSnapshotValue(expandedEntry.before_data![field])}
+                            </span>
+                            <span className="text-green-400 break-all">
+                              {formatSnapshotValue(expandedEntry.after_data![field])}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {expandedEntry.session_id && (
+                    <div className="text-xs text-muted-foreground space-y-1">
+                      <p>
+                        Session <span className="font-mono">{expandedEntry.session_id}</span>
+                      </p>
+                      {expandedEntry.user_agent && <p className="break-all">{expandedEntry.user_agent}</p>}
+                    </div>
+                  )}
+                  <div>
+                    <h3 className="text-sm font-semibold mb-3">Full Details</h3>
+                    <pre className="text-xs font-mono bg-muted/50 rounded-lg p-4 overflow-auto max-h-64 whitespace-pre-wrap">
+                      {JSON.stringify(expandedEntry.details ?? {}, null, 2)}
+                    </pre>
+                  </div>
                 </CardContent>
               </Card>
             )}
           </>
         )}
       </div>
+
+      {/* Revert Confirmation */}
+      <ConfirmDialog
+        open={!!revertTarget}
+        onOpenChange={(open) => !open && setRevertTarget(null)}
+        title="Revert Action"
+        description={
+          revertTarget
+            ? revertTarget.conflicts.length > 0
+              ? `This record has been edited since (${revertTarget.conflicts.join(', ')}). Reverting restores the old values and overwrites those newer edits.`
+              : `Restore ${Object.keys(revertTarget.entry.before_data ?? {}).join(', ')} to the values before this ${revertTarget.entry.action.replace(/_/g, ' ')}?`
+            : ''
+        }
+        confirmLabel={revertTarget?.conflicts.length ? 'Revert Anyway' : 'Revert'}
+        variant={revertTarget?.conflicts.length ? 'destructive' : 'default'}
+        onConfirm={handleRevert}
+      />
     </div>
   )
 }
@@ -1,10 +1,67 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { toast } from 'sonner'
+import { Pencil, Plus, RefreshCw, Trash2, Users } from 'lucide-react'
 import { Header } from '@/components/layout/header'
 import { StatsCard } from '@/components/shared/stats-card'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Sparkline } from '@/components/shared/sparkline'
+import { CustomChart } from '@/components/shared/custom-chart'
+import { ChartBuilderDialog, type ChartDraft } from '@/components/shared/chart-builder-dialog'
+import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import { ResortWorldMap } from '@/components/shared/resort-world-map'
+import { COHORTS, type PageId } from '@/lib/constants'
+import { cn } from '@/lib/utils'
+import {
+  deleteSavedChart,
+  describeChartSpec,
+  loadSavedCharts,
+  runChartQuery,
+  saveChart,
+  type ChartPoint,
+  type SavedChart,
+} from '@/lib/custom-charts'
+import {
+  RATING_DIMENSIONS,
+  RATING_SCALE,
+  loadRatedVisits,
+  ratingBadgeColor,
+  summarizeRatings,
+  type RatedVisit,
+} from '@/lib/resort-ratings'
+import {
+  HEMISPHERES,
+  MONTH_NAMES,
+  hemisphereByMonth,
+  hemisphereOf,
+  loadSeasonVisits,
+  resortPoints,
+  seasonHeatmap,
+  seasonTotals,
+  type Hemisphere,
+  type SeasonVisit,
+} from '@/lib/visit-seasons'
+import {
+  ALL_SEGMENT,
+  COHORT_WEEKS,
+  activationFunnel,
+  filterSegment,
+  loadCohortUsers,
+  retentionGrid,
+  segmentOptions,
+  type CohortSegment,
+  type CohortUser,
+} from '@/lib/cohorts'
 import {
   BarChart,
   Bar,
@@ -15,6 +72,7 @@ import {
   PieChart,
   Pie,
   Cell,
+  Legend,
 } from 'recharts'
 
 // ---------------------------------------------------------------------------
@@ -85,6 +143,34 @@ function topN(countsMap: Map<string, number>, n: number): ChartDatum[] {
     .map(([name, count]) => ({ name, count }))
 }
 
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`
+}
+
+// Darker cells for higher retention, on the chart's primary blue
+function retentionCellStyle(ratio: number): React.CSSProperties {
+  return { backgroundColor: `rgba(66, 152, 210, ${Math.min(0.1 + ratio * 0.9, 1)})` }
+}
+
+function heatCellStyle(count: number, max: number): React.CSSProperties | undefined {
+  if (count === 0 || max === 0) return undefined
+  return { backgroundColor: `rgba(66, 152, 210, ${0.15 + (count / max) * 0.85})` }
+}
+
+// One colour per star, red (1) through green (5)
+const STAR_COLORS = ['#ef4444', '#f97316', '#f59e0b', '#84cc16', '#22c55e']
+
+// Resort rows shown in the ratings table
+const RATINGS_LIMIT = 20
+
+type RatingsView = 'flagged' | 'most' | 'lowest'
+
+type ChartResult = { status: 'loading' } | { status: 'ready'; data: ChartPoint[] } | { status: 'error'; message: string }
+
+function formatWeek(week: number): string {
+  return new Date(week).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
 // ---------------------------------------------------------------------------
 // Custom tooltip
 // ---------------------------------------------------------------------------
@@ -113,11 +199,136 @@ function PieTooltip({ active, payload }: { active?: boolean; payload?: Array<{ n
 // Main Page
 // ---------------------------------------------------------------------------
 
-export function AnalyticsPage() {
+interface AnalyticsPageProps {
+  onNavigate: (page: PageId, id?: string | null) => void
+}
+
+export function AnalyticsPage({ onNavigate }: AnalyticsPageProps) {
   const [data, setData] = useState<AnalyticsData>(EMPTY_DATA)
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
 
+  // Cohort state
+  const [cohortUsers, setCohortUsers] = useState<CohortUser[]>([])
+  const [cohortsLoading, setCohortsLoading] = useState(true)
+  const [segment, setSegment] = useState<CohortSegment>(ALL_SEGMENT)
+
+  // Season and geography state
+  const [seasonVisits, setSeasonVisits] = useState<SeasonVisit[]>([])
+  const [seasonsLoading, setSeasonsLoading] = useState(true)
+  const [heatmapHemisphere, setHeatmapHemisphere] = useState<Hemisphere | 'all'>('north')
+
+  // Resort rating state
+  const [ratedVisits, setRatedVisits] = useState<RatedVisit[]>([])
+  const [ratingsLoading, setRatingsLoading] = useState(true)
+  const [ratingsView, setRatingsView] = useState<RatingsView>('flagged')
+
+  const fetchRatings = useCallback(async () => {
+    setRatingsLoading(true)
+    try {
+      setRatedVisits(await loadRatedVisits())
+    } catch (err) {
+      console.error(err)
+      toast.error('Failed to load resort ratings')
+    } finally {
+      setRatingsLoading(false)
+    }
+  }, [])
+
+  // Custom chart state
+  const [email, setEmail] = useState<string | null>(null)
+  const [savedCharts, setSavedCharts] = useState<SavedChart[]>([])
+  const [chartResults, setChartResults] = useState<Record<string, ChartResult>>({})
+  const [chartsView, setChartsView] = useState<'mine' | 'shared'>('mine')
+  const [builderOpen, setBuilderOpen] = useState(false)
+  const [editingChart, setEditingChart] = useState<SavedChart | null>(null)
+  const [savingChart, setSavingChart] = useState(false)
+  const [deleteChartTarget, setDeleteChartTarget] = useState<SavedChart | null>(null)
+
+  const runChart = useCallback(async (chart: SavedChart) => {
+    setChartResults((prev) => ({ ...prev, [chart.id]: { status: 'loading' } }))
+    try {
+      const data = await runChartQuery(chart.spec)
+      setChartResults((prev) => ({ ...prev, [chart.id]: { status: 'ready', data } }))
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Query failed'
+      setChartResults((prev) => ({ ...prev, [chart.id]: { status: 'error', message } }))
+    }
+  }, [])
+
+  const fetchCharts = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    const me = session?.user?.email ?? null
+    setEmail(me)
+    if (!me) return
+    try {
+      const charts = await loadSavedCharts(me)
+      setSavedCharts(charts)
+      await Promise.all(charts.map(runChart))
+    } catch (err) {
+      console.error(err)
+      toast.error('Failed to load saved charts')
+    }
+  }, [runChart])
+
+  const handleSaveChart = useCallback(
+    async (draft: ChartDraft) => {
+      if (!email) return
+      setSavingChart(true)
+      try {
+        const chart = await saveChart(draft, email)
+        setSavedCharts((prev) =>
+          prev.some((c) => c.id === chart.id) ? prev.map((c) => (c.id === chart.id ? chart : c)) : [...prev, chart]
+        )
+        setBuilderOpen(false)
+        toast.success(draft.id ? `Updated "${chart.name}"` : `Saved "${chart.name}"`)
+        runChart(chart)
+      } catch (err) {
+        toast.error(`Failed to save chart: ${err instanceof Error ? err.message : 'unknown error'}`)
+      } finally {
+        setSavingChart(false)
+      }
+    },
+    [email, runChart]
+  )
+
+  const handleDeleteChart = useCallback(async () => {
+    if (!deleteChartTarget) return
+    try {
+      await deleteSavedChart(deleteChartTarget.id)
+      setSavedCharts((prev) => prev.filter((c) => c.id !== deleteChartTarget.id))
+      toast.success('Chart deleted')
+    } catch (err) {
+      toast.error(`Failed to delete chart: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setDeleteChartTarget(null)
+    }
+  }, [deleteChartTarget])
+
+  const fetchSeasons = useCallback(async () => {
+    setSeasonsLoading(true)
+    try {
+      setSeasonVisits(await loadSeasonVisits())
+    } catch (err) {
+      console.error(err)
+      toast.error('Failed to load visit seasons')
+    } finally {
+      setSeasonsLoading(false)
+    }
+  }, [])
+
+  const fetchCohorts = useCallback(async () => {
+    setCohortsLoading(true)
+    try {
+      setCohortUsers(await loadCohortUsers())
+    } catch (err) {
+      console.error(err)
+      toast.error('Failed to load cohort data')
+    } finally {
+      setCohortsLoading(false)
+    }
+  }, [])
+
   const fetchAnalytics = useCallback(async (showRefresh = false) => {
     if (showRefresh) setRefreshing(true)
     else setLoading(true)
@@ -213,7 +424,44 @@ export function AnalyticsPage() {
 
   useEffect(() => {
     fetchAnalytics()
-  }, [fetchAnalytics])
+    fetchCohorts()
+    fetchSeasons()
+    fetchRatings()
+    fetchCharts()
+  }, [fetchAnalytics, fetchCohorts, fetchSeasons, fetchRatings, fetchCharts])
+
+  // Shared tab shows other admins' shared charts; your own shared ones stay under Mine
+  const visibleCharts = useMemo(
+    () => savedCharts.filter((c) => (chartsView === 'mine') === (c.owner_email === email)),
+    [savedCharts, chartsView, email]
+  )
+
+  const ratingSummaries = useMemo(() => summarizeRatings(ratedVisits), [ratedVisits])
+  const flaggedCount = useMemo(() => ratingSummaries.filter((r) => r.flags.length > 0).length, [ratingSummaries])
+  const visibleRatings = useMemo(() => {
+    const list =
+      ratingsView === 'flagged' ? ratingSummaries.filter((r) => r.flags.length > 0) : [...ratingSummaries]
+    list.sort((a, b) =>
+      ratingsView === 'lowest' ? a.overall - b.overall || b.count - a.count : b.count - a.count
+    )
+    return list.slice(0, RATINGS_LIMIT)
+  }, [ratingSummaries, ratingsView])
+
+  const points = useMemo(() => resortPoints(seasonVisits), [seasonVisits])
+  const mapPoints = useMemo(
+    () => points.map((p) => ({ ...p, color: HEMISPHERES.find((h) => h.value === hemisphereOf(p.lat))!.color })),
+    [points]
+  )
+  const heatmap = useMemo(() => seasonHeatmap(seasonVisits, heatmapHemisphere), [seasonVisits, heatmapHemisphere])
+  const heatmapMax = useMemo(() => Math.max(0, ...heatmap.flatMap((row) => row.months)), [heatmap])
+  const byMonth = useMemo(() => hemisphereByMonth(seasonVisits), [seasonVisits])
+  const totals = useMemo(() => seasonTotals(seasonVisits), [seasonVisits])
+  const undated = useMemo(() => seasonVisits.filter((v) => v.month === null).length, [seasonVisits])
+
+  const segmentValues = useMemo(() => segmentOptions(cohortUsers), [cohortUsers])
+  const segmentUsers = useMemo(() => filterSegment(cohortUsers, segment), [cohortUsers, segment])
+  const funnel = useMemo(() => activationFunnel(segmentUsers), [segmentUsers])
+  const retention = useMemo(() => retentionGrid(segmentUsers), [segmentUsers])
 
   // Memoize chart data to avoid unnecessary re-renders
   const barChartMargin = useMemo(() => ({ top: 5, right: 20, bottom: 5, left: 0 }), [])
@@ -223,7 +471,7 @@ export function AnalyticsPage() {
       <Header
         title="Analytics"
         subtitle="Resort and user analytics overview"
-        onRefresh={() => fetchAnalytics(true)}
+        onRefresh={() => { fetchAnalytics(true); fetchCohorts(); fetchSeasons(); fetchRatings(); fetchCharts() }}
         refreshing={refreshing}
       />
 
@@ -400,7 +648,561 @@ export function AnalyticsPage() {
             </Card>
           </div>
         )}
+
+        {/* Custom Charts */}
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-base font-semibold">Custom Charts</h2>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Charts you've built, and ones other admins have shared
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {(
+                [
+                  ['mine', 'Mine'],
+                  ['shared', 'Shared with me'],
+                ] as ['mine' | 'shared', string][]
+              ).map(([value, label]) => (
+                <Button
+                  key={value}
+                  variant={chartsView === value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setChartsView(value)}
+                  className="text-xs h-7"
+                >
+                  {label}
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                className="text-xs h-7 ml-2"
+                onClick={() => {
+                  setEditingChart(null)
+                  setBuilderOpen(true)
+                }}
+              >
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                New Chart
+              </Button>
+            </div>
+          </div>
+
+          {visibleCharts.length === 0 ? (
+            <Card>
+              <CardContent className="py-8">
+                <p className="text-sm text-muted-foreground text-center">
+                  {chartsView === 'mine' ? 'No saved charts yet.' : 'No other admin has shared a chart yet.'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {visibleCharts.map((chart) => {
+                const result = chartResults[chart.id]
+                const own = chart.owner_email === email
+                return (
+                  <Card key={chart.id}>
+                    <CardHeader className="flex-row items-start justify-between space-y-0 gap-2">
+                      <div className="min-w-0">
+                        <CardTitle className="text-sm flex items-center gap-2">
+                          {chart.name}
+                          {chart.shared && own && <Users className="w-3.5 h-3.5 text-muted-foreground" />}
+                        </CardTitle>
+                        <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                          {describeChartSpec(chart.spec)}
+                          {!own && ` · by ${chart.owner_email}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center shrink-0">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => runChart(chart)}>
+                          <RefreshCw className="w-3.5 h-3.5" />
+                        </Button>
+                        {own && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => {
+                                setEditingChart(chart)
+                                setBuilderOpen(true)
+                              }}
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                              onClick={() => setDeleteChartTarget(chart)}
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      {!result || result.status === 'loading' ? (
+                        <Skeleton className="h-[260px] w-full" />
+                      ) : result.status === 'error' ? (
+                        <p className="text-sm text-red-400 text-center py-8">{result.message}</p>
+                      ) : (
+                        <CustomChart type={chart.spec.chart_type} data={result.data} />
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </section>
+
+        {/* Seasons & Geography */}
+        <section className="space-y-4">
+          <div>
+            <h2 className="text-base font-semibold">Seasons & Geography</h2>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Where and when users ski, by resort location and visit start date
+              {undated > 0 && ` · ${undated.toLocaleString()} visits without a known month are left out of the monthly views`}
+            </p>
+          </div>
+
+          {seasonsLoading ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {[1, 2, 3, 4].map((n) => (
+                <Skeleton key={n} className="h-80 rounded-xl" />
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Resort map */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-sm">Visited Resorts</CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    {points.length.toLocaleString()} resorts with coordinates, sized by visit count
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  {points.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">No visits to resorts with coordinates yet.</p>
+                  ) : (
+                    <ResortWorldMap points={mapPoints} />
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Season heatmap */}
+              <Card>
+                <CardHeader className="flex-row items-center justify-between space-y-0">
+                  <CardTitle className="text-sm">Visits by Month</CardTitle>
+                  <div className="flex items-center gap-1">
+                    {([...HEMISPHERES.map((h) => h.value), 'all'] as (Hemisphere | 'all')[]).map((h) => (
+                      <Button
+                        key={h}
+                        variant={heatmapHemisphere === h ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setHeatmapHemisphere(h)}
+                        className="text-xs h-7"
+                      >
+                        {h === 'all' ? 'All' : HEMISPHERES.find((x) => x.value === h)?.label}
+                      </Button>
+                    ))}
+                  </div>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  {heatmap.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">No dated visits yet.</p>
+                  ) : (
+                    <table className="w-full text-[11px] border-separate border-spacing-0.5">
+                      <thead>
+                        <tr className="text-muted-foreground">
+                          <th className="text-left font-medium pr-2">{heatmapHemisphere === 'all' ? 'Year' : 'Season'}</th>
+                          {MONTH_NAMES.map((m) => (
+                            <th key={m} className="font-medium w-8">
+                              {m}
+                            </th>
+                          ))}
+                          <th className="text-right font-medium pl-2">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {heatmap.map((row) => (
+                          <tr key={row.season}>
+                            <td className="pr-2 whitespace-nowrap">{row.season}</td>
+                            {row.months.map((count, m) => (
+                              <td
+                                key={m}
+                                className="text-center rounded-sm h-6"
+                                style={heatCellStyle(count, heatmapMax)}
+                                title={`${MONTH_NAMES[m]}: ${count} visits`}
+                              >
+                                {count > 0 ? count : ''}
+                              </td>
+                            ))}
+                            <td className="pl-2 text-right text-muted-foreground">{row.total}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Hemisphere comparison */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Northern vs Southern Hemisphere</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <BarChart data={byMonth} margin={barChartMargin}>
+                      <XAxis dataKey="month" tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+                      <Tooltip cursor={{ fill: 'hsl(var(--muted))' }} />
+                      <Legend wrapperStyle={{ fontSize: 11 }} />
+                      {HEMISPHERES.map((h) => (
+                        <Bar key={h.value} dataKey={h.value} name={h.label} fill={h.color} radius={[4, 4, 0, 0]} />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                  {totals.length > 0 && (
+                    <div className="mt-4 rounded-md border border-border divide-y divide-border text-xs">
+                      <div className="grid grid-cols-[1fr_1fr_60px_60px_70px] gap-2 px-3 py-1.5 text-muted-foreground">
+                        <span>Hemisphere</span>
+                        <span>Season</span>
+                        <span className="text-right">Visits</span>
+                        <span className="text-right">Resorts</span>
+                        <span className="text-right">vs prior</span>
+                      </div>
+                      {totals.map((t) => (
+                        <div
+                          key={`${t.hemisphere}:${t.season}`}
+                          className="grid grid-cols-[1fr_1fr_60px_60px_70px] gap-2 px-3 py-1.5"
+                        >
+                          <span>{HEMISPHERES.find((h) => h.value === t.hemisphere)?.label}</span>
+                          <span>{t.season}</span>
+                          <span className="text-right">{t.visits.toLocaleString()}</span>
+                          <span className="text-right">{t.resorts.toLocaleString()}</span>
+                          <span
+                            className={`text-right ${
+                              t.change === null ? 'text-muted-foreground' : t.change >= 0 ? 'text-success' : 'text-red-400'
+                            }`}
+                          >
+                            {t.change === null ? '—' : `${t.change >= 0 ? '+' : ''}${formatPercent(t.change)}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </section>
+
+        {/* Resort Ratings */}
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-base font-semibold">Resort Ratings</h2>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {ratingSummaries.length.toLocaleString()} rated resorts · {flaggedCount.toLocaleString()} flagged for
+                review. Click a resort to open it.
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {(
+                [
+                  ['flagged', 'Flagged'],
+                  ['most', 'Most rated'],
+                  ['lowest', 'Lowest rated'],
+                ] as [RatingsView, string][]
+              ).map(([value, label]) => (
+                <Button
+                  key={value}
+                  variant={ratingsView === value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setRatingsView(value)}
+                  className="text-xs h-7"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {ratingsLoading ? (
+            <Skeleton className="h-80 rounded-xl" />
+          ) : (
+            <Card>
+              <CardContent className="pt-6 overflow-x-auto">
+                {visibleRatings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    {ratingsView === 'flagged' ? 'No resorts flagged.' : 'No rated visits yet.'}
+                  </p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-muted-foreground text-left border-b border-border">
+                        <th className="font-medium py-2 pr-3">Resort</th>
+                        <th className="font-medium py-2 pr-3 text-right">Ratings</th>
+                        <th className="font-medium py-2 pr-3 text-center">Overall</th>
+                        {RATING_DIMENSIONS.map((d) => (
+                          <th key={d.value} className="font-medium py-2 pr-3 text-center">
+                            {d.label}
+                          </th>
+                        ))}
+                        <th className="font-medium py-2 pr-3 w-32">Distribution</th>
+                        <th className="font-medium py-2 pr-3 w-28">By season</th>
+                        <th className="font-medium py-2">Flags</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {visibleRatings.map((r) => (
+                        <tr
+                          key={r.id}
+                          className="cursor-pointer hover:bg-muted/50"
+                          onClick={() => onNavigate('resorts', r.id)}
+                        >
+                          <td className="py-2 pr-3">
+                            <div className="font-medium">{r.name}</div>
+                            {r.country && <div className="text-muted-foreground">{r.country}</div>}
+                          </td>
+                          <td className="py-2 pr-3 text-right whitespace-nowrap">
+                            {r.count}
+                            <span className="text-muted-foreground"> / {r.raters} users</span>
+                          </td>
+                          <td className="py-2 pr-3 text-center">
+                            <span className={cn('px-1.5 py-0.5 rounded font-medium', ratingBadgeColor(r.overall))}>
+                              {r.overall.toFixed(1)}
+                            </span>
+                          </td>
+                          {RATING_DIMENSIONS.map((d) => (
+                            <td key={d.value} className="py-2 pr-3 text-center text-muted-foreground">
+                              {r.dimensions[d.value]?.toFixed(1) ?? '—'}
+                            </td>
+                          ))}
+                          <td className="py-2 pr-3">
+                            <div
+                              className="flex h-2 rounded-full overflow-hidden bg-muted"
+                              title={RATING_SCALE.map((star, i) => `${star}★ ${r.distribution[i]}`).join(' · ')}
+                            >
+                              {r.distribution.map((count, i) =>
+                                count > 0 ? (
+                                  <div
+                                    key={i}
+                                    style={{ width: `${(count / r.count) * 100}%`, backgroundColor: STAR_COLORS[i] }}
+                                  />
+                                ) : null
+                              )}
+                            </div>
+                          </td>
+                          <td
+                            className="py-2 pr-3"
+                            title={r.seasons.map((s) => `${s.season}: ${s.average.toFixed(1)} (${s.count})`).join('\n')}
+                          >
+                            {r.seasons.length >= 2 ? (
+                              <Sparkline data={r.seasons.map((s, i) => ({ at: i, value: s.average }))} height={24} max={5} />
+                            ) : (
+                              <span className="text-muted-foreground">{r.seasons[0]?.season ?? '—'}</span>
+                            )}
+                          </td>
+                          <td className="py-2">
+                            <div className="flex flex-col gap-1">
+                              {r.flags.map((flag, i) => (
+                                <Badge
+                                  key={i}
+                                  variant="outline"
+                                  className={cn(
+                                    'text-[10px] font-normal w-fit',
+                                    flag.kind === 'drop' ? 'border-red-400/40 text-red-400' : 'border-yellow-400/40 text-yellow-400'
+                                  )}
+                                  title={flag.message}
+                                >
+                                  {flag.kind === 'drop' ? 'Rating drop' : 'Single rater'}
+                                </Badge>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </section>
+
+        {/* Cohorts */}
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-base font-semibold">Activation & Retention</h2>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Users who signed up in the last {COHORT_WEEKS} weeks ({segmentUsers.length.toLocaleString()} in segment)
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={segment.sport} onValueChange={(v) => setSegment((s) => ({ ...s, sport: v }))}>
+                <SelectTrigger className="w-[140px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sports</SelectItem>
+                  {segmentValues.sport.map((v) => (
+                    <SelectItem key={v} value={v}>
+                      {v.charAt(0).toUpperCase() + v.slice(1)}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="none">Not set</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={segment.country} onValueChange={(v) => setSegment((s) => ({ ...s, country: v }))}>
+                <SelectTrigger className="w-[130px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All countries</SelectItem>
+                  {segmentValues.country.map((v) => (
+                    <SelectItem key={v} value={v}>
+                      {v}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="none">Not set</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={segment.tester} onValueChange={(v) => setSegment((s) => ({ ...s, tester: v }))}>
+                <SelectTrigger className="w-[140px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {segmentValues.tester.map((v) => (
+                    <SelectItem key={v} value={v}>
+                      {COHORTS.find((c) => c.value === v)?.label ?? v}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="none">Non-testers</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {cohortsLoading ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Skeleton className="h-80 rounded-xl" />
+              <Skeleton className="h-80 rounded-xl" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-[2fr_3fr] gap-6">
+              {/* Activation Funnel */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Activation Funnel</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {segmentUsers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">No signups in this segment.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {funnel.map((step) => (
+                        <div key={step.label} className="space-y-1">
+                          <div className="flex items-center justify-between text-xs">
+                            <span>{step.label}</span>
+                            <span className="text-muted-foreground">
+                              {step.count.toLocaleString()}
+                              {step.fromPrevious !== null && (
+                                <span className={step.fromPrevious < 0.5 ? 'text-red-400' : undefined}>
+                                  {' · '}
+                                  {formatPercent(1 - step.fromPrevious)} drop-off
+                                </span>
+                              )}
+                            </span>
+                          </div>
+                          <div className="h-2 bg-muted rounded-full overflow-hidden">
+                            <div
+                              className="h-full rounded-full"
+                              style={{ width: `${step.fromStart * 100}%`, backgroundColor: CHART_COLORS[0] }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Weekly Retention */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Weekly Retention</CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    Share of each signup week with a visit or photo N weeks later
+                  </p>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full text-[11px] border-separate border-spacing-0.5">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left font-medium pr-2">Week of</th>
+                        <th className="text-right font-medium pr-2">Users</th>
+                        {Array.from({ length: COHORT_WEEKS }, (_, w) => (
+                          <th key={w} className="font-medium w-9">
+                            W{w}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {retention.map((row) => (
+                        <tr key={row.week}>
+                          <td className="pr-2 whitespace-nowrap">{formatWeek(row.week)}</td>
+                          <td className="pr-2 text-right text-muted-foreground">{row.size}</td>
+                          {row.retention.map((ratio, w) => (
+                            <td
+                              key={w}
+                              className="text-center rounded-sm h-6"
+                              style={ratio !== null && row.size > 0 ? retentionCellStyle(ratio) : undefined}
+                              title={ratio !== null && row.size > 0 ? `${formatPercent(ratio)} of ${row.size}` : undefined}
+                            >
+                              {ratio !== null && row.size > 0 ? formatPercent(ratio) : ''}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </section>
       </div>
+
+      <ChartBuilderDialog
+        open={builderOpen}
+        onOpenChange={setBuilderOpen}
+        chart={editingChart}
+        saving={savingChart}
+        onSave={handleSaveChart}
+      />
+
+      <ConfirmDialog
+        open={!!deleteChartTarget}
+        onOpenChange={(open) => !open && setDeleteChartTarget(null)}
+        title="Delete Chart"
+        description={`Delete "${deleteChartTarget?.name ?? ''}"?${
+          deleteChartTarget?.shared ? ' It will also disappear from other admins’ dashboards.' : ''
+        }`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={handleDeleteChart}
+      />
     </div>
   )
 }
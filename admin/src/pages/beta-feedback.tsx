@@ -2,10 +2,14 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { formatDate, formatDateTime, truncate, cn } from '@/lib/utils'
 import { toast } from 'sonner'
+import { mergeNewRows, useNewItems } from '@/hooks/use-realtime'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
 import { Header } from '@/components/layout/header'
 import { StatsCard } from '@/components/shared/stats-card'
 import { ExportButton } from '@/components/shared/export-button'
+import { NewItemsBanner } from '@/components/shared/new-items-banner'
 import { DataTable } from '@/components/shared/data-table'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { ScrollArea } from '@/components/ui/scroll-area'
@@ -16,7 +20,7 @@ import {
   SelectContent,
   SelectItem,
 } from '@/components/ui/select'
-import { type ColumnDef } from '@tanstack/react-table'
+import { type ColumnDef, type SortingState, type VisibilityState } from '@tanstack/react-table'
 import { Star } from 'lucide-react'
 
 interface ProfileInfo {
@@ -59,6 +63,38 @@ function StarRating({ rating, size = 'sm' }: { rating: number; size?: 'sm' | 'lg
   )
 }
 
+// Two-query approach: beta_feedback.user_id FK is to auth.users, not profiles
+async function withProfiles(raw: RawFeedback[]): Promise<BetaFeedbackEntry[]> {
+  // Fetch profiles for unique user IDs
+  const userIds = [...new Set(raw.map((f) => f.user_id))]
+  let profileMap = new Map<string, ProfileInfo>()
+
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, email, first_name, last_name')
+      .in('id', userIds)
+    if (profiles) {
+      profileMap = new Map(
+        (profiles as ProfileInfo[]).map((p) => [p.id, p]),
+      )
+    }
+  }
+
+  return raw.map((f) => ({
+    ...f,
+    profile: profileMap.get(f.user_id) ?? null,
+  }))
+}
+
+type FeedbackFilters = { rating: string }
+
+const FEEDBACK_VIEW_DEFAULTS: ViewState<FeedbackFilters> = {
+  filters: { rating: 'all' },
+  sorting: [],
+  columnVisibility: {},
+}
+
 export function BetaFeedbackPage() {
   const [feedback, setFeedback] = useState<BetaFeedbackEntry[]>([])
   const [loading, setLoading] = useState(true)
@@ -66,44 +102,38 @@ export function BetaFeedbackPage() {
 
   // Filter
   const [ratingFilter, setRatingFilter] = useState<string>('all')
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+
+  // Saved views
+  const viewState = useMemo<ViewState<FeedbackFilters>>(
+    () => ({ filters: { rating: ratingFilter }, sorting, columnVisibility }),
+    [ratingFilter, sorting, columnVisibility]
+  )
+  const applyView = useCallback(({ filters: f, sorting: s, columnVisibility: c }: ViewState<FeedbackFilters>) => {
+    setRatingFilter(f.rating)
+    setSorting(s)
+    setColumnVisibility(c)
+  }, [])
+  const views = useSavedViews({
+    page: 'beta-feedback',
+    state: viewState,
+    defaults: FEEDBACK_VIEW_DEFAULTS,
+    apply: applyView,
+  })
 
   // Detail
   const [selected, setSelected] = useState<BetaFeedbackEntry | null>(null)
 
   const loadFeedback = useCallback(async () => {
     try {
-      // Two-query approach: beta_feedback.user_id FK is to auth.users, not profiles
       const { data: rawData, error: fbError } = await supabase
         .from('beta_feedback')
         .select('*')
         .order('created_at', { ascending: false })
       if (fbError) throw fbError
 
-      const raw = (rawData as RawFeedback[]) ?? []
-
-      // Fetch profiles for unique user IDs
-      const userIds = [...new Set(raw.map((f) => f.user_id))]
-      let profileMap = new Map<string, ProfileInfo>()
-
-      if (userIds.length > 0) {
-        const { data: profiles } = await supabase
-          .from('profiles')
-          .select('id, email, first_name, last_name')
-          .in('id', userIds)
-        if (profiles) {
-          profileMap = new Map(
-            (profiles as ProfileInfo[]).map((p) => [p.id, p]),
-          )
-        }
-      }
-
-      // Merge
-      setFeedback(
-        raw.map((f) => ({
-          ...f,
-          profile: profileMap.get(f.user_id) ?? null,
-        })),
-      )
+      setFeedback(await withProfiles((rawData as RawFeedback[]) ?? []))
     } catch {
       toast.error('Failed to load feedback')
     } finally {
@@ -116,10 +146,34 @@ export function BetaFeedbackPage() {
     loadFeedback()
   }, [loadFeedback])
 
+  const { newCount, newIds, clear: clearNew } = useNewItems<RawFeedback>('beta_feedback', (change) => {
+    if (change.eventType === 'DELETE') {
+      setFeedback((prev) => prev.filter((f) => f.id !== change.old.id))
+    }
+  })
+
   const handleRefresh = useCallback(() => {
     setRefreshing(true)
+    clearNew()
     loadFeedback()
-  }, [loadFeedback])
+  }, [loadFeedback, clearNew])
+
+  // New responses go on top without a reload, so the open one stays selected
+  const handleLoadNew = useCallback(async () => {
+    clearNew()
+    try {
+      const { data, error } = await supabase
+        .from('beta_feedback')
+        .select('*')
+        .in('id', newIds)
+        .order('created_at', { ascending: false })
+      if (error) throw error
+      const fresh = await withProfiles((data as RawFeedback[]) ?? [])
+      setFeedback((prev) => mergeNewRows(prev, fresh))
+    } catch {
+      toast.error('Failed to load new feedback')
+    }
+  }, [newIds, clearNew])
 
   const filteredFeedback = useMemo(
     () =>
@@ -212,6 +266,7 @@ export function BetaFeedbackPage() {
         subtitle="User feedback from beta testing"
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -255,6 +310,8 @@ export function BetaFeedbackPage() {
           </div>
         </div>
 
+        <NewItemsBanner count={newCount} noun="response" onLoad={handleLoadNew} />
+
         {/* Filter bar */}
         <div className="flex items-center gap-3">
           <Select value={ratingFilter} onValueChange={setRatingFilter}>
@@ -292,6 +349,10 @@ export function BetaFeedbackPage() {
                 onRowClick={setSelected}
                 searchColumn="what_went_well"
                 searchPlaceholder="Search feedback..."
+                sorting={sorting}
+                onSortingChange={setSorting}
+                columnVisibility={columnVisibility}
+                onColumnVisibilityChange={setColumnVisibility}
               />
             )}
           </div>
@@ -2,12 +2,31 @@ import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { supabase } from '@/lib/supabase'
 import { SUPABASE_URL, PAGE_SIZE } from '@/lib/constants'
 import { cn } from '@/lib/utils'
+import {
+  COMPLETENESS_LEVELS,
+  completeness,
+  evaluateResort,
+  partitionIssues,
+  type CompletenessLevel,
+} from '@/lib/data-quality'
+import {
+  describeCalendar,
+  hasInvalidCalendar,
+  seasonFieldsFromText,
+  seasonMonths,
+  type SeasonCalendar,
+} from '@/lib/seasons'
+import { recordResortChanges, type ResortWrite } from '@/lib/resort-history'
 import { toast } from 'sonner'
 import { useAuditLog } from '@/hooks/use-audit-log'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
 import { Header } from '@/components/layout/header'
 import { StatsCard } from '@/components/shared/stats-card'
 import { ConfirmDialog } from '@/components/shared/confirm-dialog'
 import { DataTable } from '@/components/shared/data-table'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
+import { ResortMapPicker } from '@/components/shared/resort-map-picker'
+import { QualityIssues } from '@/components/shared/quality-issues'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -78,6 +97,9 @@ interface ImportResortRow {
   advanced_pct?: number
   season_open?: string
   season_close?: string
+  // Parsed from the strings unless the file supplies one
+  season_calendar?: SeasonCalendar | null
+  season_months?: number[] | null
   has_night_skiing?: boolean
   pass_affiliation?: string
   instagram_handle?: string
@@ -104,7 +126,7 @@ interface WorkbenchRow {
   matchSimilarity: number | null
   matchedData: Record<string, unknown> | null
   action: 'import' | 'merge' | 'skip' | null
-  completeness: { filled: number; total: number }
+  completeness: { filled: number; total: number; level: CompletenessLevel }
   isDirty: boolean
 }
 
@@ -129,6 +151,7 @@ interface UnverifiedResort {
   advanced_pct: number | null
   season_open: string | null
   season_close: string | null
+  season_calendar: SeasonCalendar | null
   has_night_skiing: boolean | null
   description: string | null
   budget_tier: string | null
@@ -136,6 +159,22 @@ interface UnverifiedResort {
   cover_image_url: string | null
 }
 
+// What admin-bulk-import-resorts returns for each row it inserted
+interface InsertedResort {
+  id: string
+  name: string
+  country: string
+}
+
+// Saved views cover the verification queue; the workbench holds a file, not a query
+type VerifyFilters = { country: string; completeness: string; search: string }
+
+const VERIFY_VIEW_DEFAULTS: ViewState<VerifyFilters> = {
+  filters: { country: 'all', completeness: 'all', search: '' },
+  sorting: [{ id: 'name', desc: false }],
+  columnVisibility: {},
+}
+
 type TopTab = 'import' | 'verification' | 'placeholders'
 type StatusFilter = 'all' | 'error' | 'warning' | 'ready' | 'skipped'
 
@@ -143,19 +182,6 @@ type StatusFilter = 'all' | 'error' | 'warning' | 'ready' | 'skipped'
 // Constants
 // ---------------------------------------------------------------------------
 
-const COMPLETENESS_FIELDS: (keyof ImportResortRow)[] = [
-  'country_code', 'region', 'vertical_m', 'runs', 'lifts',
-  'annual_snowfall_cm', 'beginner_pct', 'intermediate_pct', 'advanced_pct',
-  'season_open', 'season_close', 'has_night_skiing', 'description', 'budget_tier',
-]
-
-// For verification queue — same fields but checked on UnverifiedResort
-const VERIFY_COMPLETENESS_FIELDS: (keyof UnverifiedResort)[] = [
-  'country_code', 'region', 'vertical_m', 'runs', 'lifts',
-  'annual_snowfall_cm', 'beginner_pct', 'intermediate_pct', 'advanced_pct',
-  'season_open', 'season_close', 'has_night_skiing', 'description', 'budget_tier',
-]
-
 const BATCH_SIZE = 500
 
 // ---------------------------------------------------------------------------
@@ -217,6 +243,12 @@ function parseCSV(text: string): Record<string, unknown>[] {
 }
 
 function normalizeRow(raw: Record<string, unknown>): ImportResortRow {
+  const seasonOpen = raw.season_open ? String(raw.season_open).trim() : undefined
+  const seasonClose = raw.season_close ? String(raw.season_close).trim() : undefined
+  const supplied = raw.season_calendar as SeasonCalendar | undefined
+  const season = Array.isArray(supplied?.windows)
+    ? { season_calendar: supplied, season_months: seasonMonths(supplied) }
+    : seasonFieldsFromText(seasonOpen, seasonClose)
   return {
     name: String(raw.name ?? '').trim(),
     country: String(raw.country ?? '').trim(),
@@ -232,8 +264,9 @@ function normalizeRow(raw: Record<string, unknown>): ImportResortRow {
     beginner_pct: raw.beginner_pct != null ? Number(raw.beginner_pct) : undefined,
     intermediate_pct: raw.intermediate_pct != null ? Number(raw.intermediate_pct) : undefined,
     advanced_pct: raw.advanced_pct != null ? Number(raw.advanced_pct) : undefined,
-    season_open: raw.season_open ? String(raw.season_open).trim() : undefined,
-    season_close: raw.season_close ? String(raw.season_close).trim() : undefined,
+    season_open: seasonOpen,
+    season_close: seasonClose,
+    ...season,
     has_night_skiing: raw.has_night_skiing != null ? Boolean(raw.has_night_skiing) : undefined,
     pass_affiliation: raw.pass_affiliation ? String(raw.pass_affiliation).trim() : undefined,
     instagram_handle: raw.instagram_handle ? String(raw.instagram_handle).trim() : undefined,
@@ -242,38 +275,12 @@ function normalizeRow(raw: Record<string, unknown>): ImportResortRow {
   }
 }
 
-function computeCompleteness(data: ImportResortRow): { filled: number; total: number } {
-  const total = COMPLETENESS_FIELDS.length
-  let filled = 0
-  for (const field of COMPLETENESS_FIELDS) {
-    const val = data[field]
-    if (val !== null && val !== undefined && val !== '') filled++
-  }
-  return { filled, total }
+function computeCompleteness(data: ImportResortRow): WorkbenchRow['completeness'] {
+  return completeness({ ...data })
 }
 
 function validateAndScore(data: ImportResortRow): { errors: RowIssue[]; warnings: RowIssue[] } {
-  const errors: RowIssue[] = []
-  const warnings: RowIssue[] = []
-
-  if (!data.name?.trim()) errors.push({ field: 'name', message: 'Name is required' })
-  if (!data.country?.trim()) errors.push({ field: 'country', message: 'Country is required' })
-  if (!data.country_code?.trim()) errors.push({ field: 'country_code', message: 'Country code is required' })
-  else if (data.country_code.length !== 2) errors.push({ field: 'country_code', message: 'Country code must be 2 characters' })
-  if (typeof data.lat !== 'number' || isNaN(data.lat) || data.lat < -90 || data.lat > 90)
-    errors.push({ field: 'lat', message: 'Latitude must be between -90 and 90' })
-  if (typeof data.lng !== 'number' || isNaN(data.lng) || data.lng < -180 || data.lng > 180)
-    errors.push({ field: 'lng', message: 'Longitude must be between -180 and 180' })
-
-  // Terrain percentage check
-  const b = data.beginner_pct ?? 0
-  const i = data.intermediate_pct ?? 0
-  const a = data.advanced_pct ?? 0
-  if ((b > 0 || i > 0 || a > 0) && Math.abs(b + i + a - 100) > 5) {
-    warnings.push({ field: 'terrain_pct', message: `Terrain percentages sum to ${b + i + a}% (expected ~100%)` })
-  }
-
-  return { errors, warnings }
+  return partitionIssues(evaluateResort({ ...data }))
 }
 
 function computeRowStatus(row: WorkbenchRow): WorkbenchRow['status'] {
@@ -284,26 +291,10 @@ function computeRowStatus(row: WorkbenchRow): WorkbenchRow['status'] {
   return 'ready'
 }
 
-function getVerifyCompleteness(resort: UnverifiedResort): { filled: number; total: number; label: string; color: string } {
-  const total = VERIFY_COMPLETENESS_FIELDS.length
-  let filled = 0
-  for (const field of VERIFY_COMPLETENESS_FIELDS) {
-    const val = resort[field]
-    if (val !== null && val !== undefined && val !== '') filled++
-  }
-  let label: string
-  let color: string
-  if (filled === total) {
-    label = 'Ready'
-    color = 'text-green-400'
-  } else if (filled >= 10) {
-    label = 'Almost'
-    color = 'text-yellow-400'
-  } else {
-    label = 'Needs Work'
-    color = 'text-red-400'
-  }
-  return { filled, total, label, color }
+function getVerifyCompleteness(resort: UnverifiedResort): { filled: number; total: number; label: string; color: string; bar: string } {
+  const { filled, total, level } = completeness({ ...resort })
+  const { label, text, bar } = COMPLETENESS_LEVELS[level]
+  return { filled, total, label, color: text, bar }
 }
 
 const PLACEHOLDER_SEGMENTS = ['/resort-placeholders/', '/resorts/placeholders/']
@@ -314,6 +305,29 @@ function getCoverStatus(url: string | null): 'real' | 'placeholder' | 'none' {
   return 'real'
 }
 
+// Pairs each inserted row with the import row it came from by name and
+// country. Null unless every row of the batch comes back exactly once, since
+// the function may skip or dedupe rows and a guess would credit the wrong resort.
+function matchInsertedResorts(
+  batch: ImportResortRow[],
+  inserted: InsertedResort[] | undefined
+): { id: string; data: ImportResortRow }[] | null {
+  if (!inserted || inserted.length !== batch.length) return null
+  const key = (name: string, country: string) => `${name.trim().toLowerCase()}|${country.trim().toLowerCase()}`
+  const byKey = new Map<string, InsertedResort[]>()
+  for (const r of inserted) {
+    const k = key(r.name, r.country)
+    byKey.set(k, [...(byKey.get(k) ?? []), r])
+  }
+  const matched: { id: string; data: ImportResortRow }[] = []
+  for (const data of batch) {
+    const hit = byKey.get(key(data.name, data.country))?.shift()
+    if (!hit) return null
+    matched.push({ id: hit.id, data })
+  }
+  return matched
+}
+
 function statusIcon(status: WorkbenchRow['status']) {
   switch (status) {
     case 'error': return <XCircle className="w-4 h-4 text-red-400" />
@@ -364,6 +378,10 @@ export function BulkImportPage() {
   const [verifyLoading, setVerifyLoading] = useState(false)
   const [verifyDialogOpen, setVerifyDialogOpen] = useState(false)
   const [verifyDialogResort, setVerifyDialogResort] = useState<UnverifiedResort | null>(null)
+  const verifySeasonInvalid = useMemo(
+    () => !!verifyDialogResort && hasInvalidCalendar({ ...verifyDialogResort }),
+    [verifyDialogResort]
+  )
   const [verifyNotes, setVerifyNotes] = useState('')
   const [verifySaving, setVerifySaving] = useState(false)
   const [verifyDirty, setVerifyDirty] = useState(false)
@@ -382,6 +400,31 @@ export function BulkImportPage() {
   const [verifySearchDebounced, setVerifySearchDebounced] = useState('')
   const [availableCountries, setAvailableCountries] = useState<{ code: string; name: string; count: number }[]>([])
 
+  // Saved views
+  const verifySorting = useMemo(() => [{ id: verifySort.column, desc: verifySort.desc }], [verifySort])
+  const verifyViewState = useMemo<ViewState<VerifyFilters>>(
+    () => ({
+      filters: { country: verifyCountryFilter, completeness: verifyCompletenessFilter, search: verifySearch },
+      sorting: verifySorting,
+      columnVisibility: {},
+    }),
+    [verifyCountryFilter, verifyCompletenessFilter, verifySearch, verifySorting]
+  )
+  const applyVerifyView = useCallback(({ filters: f, sorting: s }: ViewState<VerifyFilters>) => {
+    setTopTab('verification')
+    setVerifyCountryFilter(f.country)
+    setVerifyCompletenessFilter(f.completeness)
+    setVerifySearch(f.search)
+    setVerifySort(s.length > 0 ? { column: s[0].id, desc: s[0].desc } : { column: 'name', desc: false })
+    setUnverifiedPage(0)
+  }, [])
+  const verifyViews = useSavedViews({
+    page: 'bulk-import',
+    state: verifyViewState,
+    defaults: VERIFY_VIEW_DEFAULTS,
+    apply: applyVerifyView,
+  })
+
   // -- Placeholders Tab State --
   const [noCoverCount, setNoCoverCount] = useState(0)
   const [hasCoverCount, setHasCoverCount] = useState(0)
@@ -524,6 +567,12 @@ export function BulkImportPage() {
       const next = [...prev]
       const row = { ...next[index] }
       row.data = { ...row.data, [field]: value }
+      if (field === 'season_open' || field === 'season_close') {
+        row.data = {
+          ...row.data,
+          ...seasonFieldsFromText(row.data.season_open, row.data.season_close, row.originalData.season_calendar ?? null),
+        }
+      }
       row.isDirty = true
       const { errors, warnings } = validateAndScore(row.data)
       row.errors = errors
@@ -620,6 +669,8 @@ export function BulkImportPage() {
     try {
       const newResorts: ImportResortRow[] = []
       const updates: { resort_id: string; fields: Partial<ImportResortRow> }[] = []
+      // Field history for merged rows, recorded with the batch that carries the updates
+      const updateHistory: ResortWrite[] = []
 
       for (const row of workbenchRows) {
         if (row.status === 'error' || row.status === 'skipped') continue
@@ -627,6 +678,13 @@ export function BulkImportPage() {
 
         if (row.action === 'merge' && row.matchedResortId) {
           updates.push({ resort_id: row.matchedResortId, fields: row.data })
+          updateHistory.push({
+            resortId: row.matchedResortId,
+            before: row.matchedData,
+            after: { ...row.data },
+            source: 'bulk_import',
+            sourceRef: fileName || null,
+          })
         } else if (row.action === 'import' || row.matchType === 'new' || !row.matchType) {
           newResorts.push(row.data)
         }
@@ -669,6 +727,7 @@ export function BulkImportPage() {
           updates,
         })
         totalUpdated = res.updated ?? 0
+        await recordResortChanges(updateHistory)
       } else {
         for (let i = 0; i < newBatches.length; i++) {
           setPushProgress({ batch: i + 1, total: totalBatches })
@@ -684,6 +743,25 @@ export function BulkImportPage() {
           totalInserted += res.inserted ?? 0
           totalUpdated += res.updated ?? 0
           totalPlaceholders += res.placeholders_assigned ?? 0
+
+          // Recorded per batch, so a later batch failing doesn't lose the
+          // history of the ones already imported
+          const inserted = matchInsertedResorts(newBatches[i], res.inserted_resorts)
+          if (!inserted) {
+            toast.error(
+              `Batch ${i + 1}: the import didn't report every inserted resort, so their change history wasn't recorded`
+            )
+          }
+          await recordResortChanges([
+            ...(i === 0 ? updateHistory : []),
+            ...(inserted ?? []).map(({ id, data }) => ({
+              resortId: id,
+              before: null,
+              after: { ...data },
+              source: 'bulk_import' as const,
+              sourceRef: fileName || null,
+            })),
+          ])
         }
       }
 
@@ -700,7 +778,7 @@ export function BulkImportPage() {
     } finally {
       setPushLoading(false)
     }
-  }, [workbenchRows, discoveredPlaceholders, fetchPlaceholderUrls, log])
+  }, [workbenchRows, discoveredPlaceholders, fetchPlaceholderUrls, fileName, log])
 
   // -- Computed counts --
   const counts = useMemo(() => ({
@@ -766,7 +844,7 @@ export function BulkImportPage() {
       // Build data query with filters
       let query = supabase
         .from('resorts')
-        .select('id, name, country, country_code, region, lat, lng, website, vertical_m, runs, lifts, verified, verification_notes, pass_affiliation, annual_snowfall_cm, beginner_pct, intermediate_pct, advanced_pct, season_open, season_close, has_night_skiing, description, budget_tier, instagram_handle, cover_image_url')
+        .select('id, name, country, country_code, region, lat, lng, website, vertical_m, runs, lifts, verified, verification_notes, pass_affiliation, annual_snowfall_cm, beginner_pct, intermediate_pct, advanced_pct, season_open, season_close, season_calendar, has_night_skiing, description, budget_tier, instagram_handle, cover_image_url')
         .eq('verified', false)
 
       // Build count query (same filters)
@@ -854,6 +932,13 @@ export function BulkImportPage() {
 
   const handleBulkVerify = useCallback(async (verified: boolean) => {
     if (selectedVerifyIds.size === 0) return
+    if (verified) {
+      const invalid = unverifiedResorts.filter(r => selectedVerifyIds.has(r.id) && hasInvalidCalendar({ ...r }))
+      if (invalid.length > 0) {
+        toast.error(`Fix the season calendar before verifying: ${invalid.map(r => r.name).join(', ')}`)
+        return
+      }
+    }
     setVerifyLoading(true)
     try {
       // Auto-assign placeholders for resorts without covers
@@ -864,10 +949,15 @@ export function BulkImportPage() {
         if (noCoverIds.length > 0) {
           if (discoveredPlaceholders.length === 0) await fetchPlaceholderUrls(true)
           if (discoveredPlaceholders.length > 0) {
+            const assigned: ResortWrite[] = []
             for (const id of noCoverIds) {
               const randomUrl = discoveredPlaceholders[Math.floor(Math.random() * discoveredPlaceholders.length)]
-              await supabase.from('resorts').update({ cover_image_url: randomUrl }).eq('id', id)
+              const { error } = await supabase.from('resorts').update({ cover_image_url: randomUrl }).eq('id', id)
+              if (!error) {
+                assigned.push({ resortId: id, before: { cover_image_url: null }, after: { cover_image_url: randomUrl }, source: 'placeholder' })
+              }
             }
+            await recordResortChanges(assigned)
           }
         }
       }
@@ -878,6 +968,11 @@ export function BulkImportPage() {
         verified,
       })
       toast.success(`${verified ? 'Verified' : 'Flagged'} ${res.affected ?? selectedVerifyIds.size} resorts`)
+      await recordResortChanges(
+        unverifiedResorts
+          .filter(r => selectedVerifyIds.has(r.id))
+          .map(r => ({ resortId: r.id, before: { verified: r.verified }, after: { verified }, source: 'manual' as const }))
+      )
       setSelectedVerifyIds(new Set())
       await loadUnverified()
       await log({
@@ -893,6 +988,11 @@ export function BulkImportPage() {
   }, [selectedVerifyIds, unverifiedResorts, loadUnverified, log, discoveredPlaceholders, fetchPlaceholderUrls])
 
   const handleSingleVerify = useCallback(async (resortId: string, verified: boolean, notes: string) => {
+    const target = verifyDialogResort ?? unverifiedResorts.find(r => r.id === resortId)
+    if (verified && target && hasInvalidCalendar({ ...target })) {
+      toast.error('Fix the season calendar before verifying')
+      return
+    }
     setVerifyLoading(true)
     try {
       // Auto-assign placeholder if verifying and no cover image
@@ -902,7 +1002,12 @@ export function BulkImportPage() {
           if (discoveredPlaceholders.length === 0) await fetchPlaceholderUrls(true)
           if (discoveredPlaceholders.length > 0) {
             const randomUrl = discoveredPlaceholders[Math.floor(Math.random() * discoveredPlaceholders.length)]
-            await supabase.from('resorts').update({ cover_image_url: randomUrl }).eq('id', resortId)
+            const { error } = await supabase.from('resorts').update({ cover_image_url: randomUrl }).eq('id', resortId)
+            if (!error) {
+              await recordResortChanges([
+                { resortId, before: { cover_image_url: null }, after: { cover_image_url: randomUrl }, source: 'placeholder' },
+              ])
+            }
           }
         }
       }
@@ -914,6 +1019,15 @@ export function BulkImportPage() {
         notes: notes || undefined,
       })
       toast.success(verified ? 'Resort verified' : 'Resort flagged')
+      const current = verifyDialogResort ?? unverifiedResorts.find(r => r.id === resortId)
+      await recordResortChanges([
+        {
+          resortId,
+          before: { verified: current?.verified ?? false, verification_notes: current?.verification_notes ?? null },
+          after: notes ? { verified, verification_notes: notes } : { verified },
+          source: 'manual',
+        },
+      ])
       setVerifyDialogOpen(false)
       setVerifyDialogResort(null)
       setVerifyNotes('')
@@ -932,41 +1046,66 @@ export function BulkImportPage() {
   }, [loadUnverified, log, verifyDialogResort, unverifiedResorts, discoveredPlaceholders, fetchPlaceholderUrls])
 
   const updateVerifyField = useCallback(<K extends keyof UnverifiedResort>(field: K, value: UnverifiedResort[K]) => {
-    setVerifyDialogResort(prev => prev ? { ...prev, [field]: value } : prev)
+    setVerifyDialogResort(prev => {
+      if (!prev) return prev
+      const next = { ...prev, [field]: value }
+      if (field !== 'season_open' && field !== 'season_close') return next
+      // Edited strings update the main window of the calendar as loaded, which is what's saved
+      const loaded = unverifiedResorts.find(r => r.id === prev.id)?.season_calendar ?? null
+      return { ...next, season_calendar: seasonFieldsFromText(next.season_open, next.season_close, loaded).season_calendar }
+    })
     setVerifyDirty(true)
-  }, [])
+  }, [unverifiedResorts])
 
   const handleSaveResortFields = useCallback(async (thenVerify?: { verified: boolean; notes: string }) => {
     if (!verifyDialogResort) return
+    if (hasInvalidCalendar({ ...verifyDialogResort })) {
+      toast.error('Fix the season calendar before saving')
+      return
+    }
     setVerifySaving(true)
     try {
+      const before = unverifiedResorts.find(r => r.id === verifyDialogResort.id)
+      const seasonEdited = !before
+        || before.season_open !== verifyDialogResort.season_open
+        || before.season_close !== verifyDialogResort.season_close
+      const fields = {
+        name: verifyDialogResort.name,
+        country: verifyDialogResort.country,
+        country_code: verifyDialogResort.country_code,
+        region: verifyDialogResort.region,
+        lat: verifyDialogResort.lat,
+        lng: verifyDialogResort.lng,
+        website: verifyDialogResort.website,
+        vertical_m: verifyDialogResort.vertical_m,
+        runs: verifyDialogResort.runs,
+        lifts: verifyDialogResort.lifts,
+        annual_snowfall_cm: verifyDialogResort.annual_snowfall_cm,
+        beginner_pct: verifyDialogResort.beginner_pct,
+        intermediate_pct: verifyDialogResort.intermediate_pct,
+        advanced_pct: verifyDialogResort.advanced_pct,
+        season_open: verifyDialogResort.season_open,
+        season_close: verifyDialogResort.season_close,
+        has_night_skiing: verifyDialogResort.has_night_skiing,
+        description: verifyDialogResort.description,
+        budget_tier: verifyDialogResort.budget_tier,
+        pass_affiliation: verifyDialogResort.pass_affiliation,
+        instagram_handle: verifyDialogResort.instagram_handle,
+        ...(seasonEdited
+          ? {
+              season_calendar: verifyDialogResort.season_calendar,
+              season_months: verifyDialogResort.season_calendar ? seasonMonths(verifyDialogResort.season_calendar) : null,
+            }
+          : {}),
+      }
       const { error } = await supabase
         .from('resorts')
-        .update({
-          name: verifyDialogResort.name,
-          country: verifyDialogResort.country,
-          country_code: verifyDialogResort.country_code,
-          region: verifyDialogResort.region,
-          lat: verifyDialogResort.lat,
-          lng: verifyDialogResort.lng,
-          website: verifyDialogResort.website,
-          vertical_m: verifyDialogResort.vertical_m,
-          runs: verifyDialogResort.runs,
-          lifts: verifyDialogResort.lifts,
-          annual_snowfall_cm: verifyDialogResort.annual_snowfall_cm,
-          beginner_pct: verifyDialogResort.beginner_pct,
-          intermediate_pct: verifyDialogResort.intermediate_pct,
-          advanced_pct: verifyDialogResort.advanced_pct,
-          season_open: verifyDialogResort.season_open,
-          season_close: verifyDialogResort.season_close,
-          has_night_skiing: verifyDialogResort.has_night_skiing,
-          description: verifyDialogResort.description,
-          budget_tier: verifyDialogResort.budget_tier,
-          pass_affiliation: verifyDialogResort.pass_affiliation,
-          instagram_handle: verifyDialogResort.instagram_handle,
-        })
+        .update(fields)
         .eq('id', verifyDialogResort.id)
       if (error) throw error
+      if (before) {
+        await recordResortChanges([{ resortId: before.id, before: { ...before }, after: fields, source: 'manual' }])
+      }
       setVerifyDirty(false)
       setUnverifiedResorts(prev => prev.map(r => r.id === verifyDialogResort.id ? { ...verifyDialogResort } : r))
       await log({
@@ -986,7 +1125,7 @@ export function BulkImportPage() {
     } finally {
       setVerifySaving(false)
     }
-  }, [verifyDialogResort, handleSingleVerify, log])
+  }, [verifyDialogResort, unverifiedResorts, handleSingleVerify, log])
 
   const handleDeleteFromDialog = useCallback(async () => {
     if (!verifyDialogResort) return
@@ -1312,16 +1451,13 @@ export function BulkImportPage() {
       header: 'Comp.',
       accessorFn: (row) => row.completeness.filled,
       cell: ({ row }) => {
-        const { filled, total } = row.original.completeness
+        const { filled, total, level } = row.original.completeness
         const pct = Math.round((filled / total) * 100)
         return (
           <div className="flex items-center gap-1.5 min-w-[70px]">
             <div className="flex-1 h-1.5 bg-muted rounded-full overflow-hidden">
               <div
-                className={cn(
-                  'h-full rounded-full',
-                  filled === total ? 'bg-green-400' : filled >= 8 ? 'bg-yellow-400' : 'bg-red-400'
-                )}
+                className={cn('h-full rounded-full', COMPLETENESS_LEVELS[level].bar)}
                 style={{ width: `${pct}%` }}
               />
             </div>
@@ -1455,16 +1591,13 @@ export function BulkImportPage() {
       header: 'Completeness',
       accessorFn: (row) => getVerifyCompleteness(row).filled,
       cell: ({ row }) => {
-        const { filled, total, color } = getVerifyCompleteness(row.original)
+        const { filled, total, color, bar } = getVerifyCompleteness(row.original)
         const pct = Math.round((filled / total) * 100)
         return (
           <div className="flex items-center gap-2 min-w-[120px]">
             <div className="flex-1 h-1.5 bg-muted rounded-full overflow-hidden">
               <div
-                className={cn(
-                  'h-full rounded-full transition-all',
-                  filled === total ? 'bg-green-400' : filled >= 10 ? 'bg-yellow-400' : 'bg-red-400'
-                )}
+                className={cn('h-full rounded-full transition-all', bar)}
                 style={{ width: `${pct}%` }}
               />
             </div>
@@ -1516,7 +1649,11 @@ export function BulkImportPage() {
   return (
     <TooltipProvider>
     <div className="min-h-screen">
-      <Header title="Bulk Import" subtitle="Import, verify, and manage resorts at scale" />
+      <Header
+        title="Bulk Import"
+        subtitle="Import, verify, and manage resorts at scale"
+        actions={topTab === 'verification' && <SavedViewsMenu views={verifyViews} />}
+      />
 
       <div className="p-6">
         <Tabs value={topTab} onValueChange={(v) => setTopTab(v as TopTab)}>
@@ -1872,6 +2009,18 @@ export function BulkImportPage() {
                               className="h-8 text-xs"
                             />
                           </div>
+                          <div className="col-span-2">
+                            <ResortMapPicker
+                              lat={selectedRow.data.lat ?? null}
+                              lng={selectedRow.data.lng ?? null}
+                              countryCode={selectedRow.data.country_code ?? null}
+                              onChange={(lat, lng) => {
+                                updateRowField(selectedRow.index, 'lat', lat)
+                                updateRowField(selectedRow.index, 'lng', lng)
+                              }}
+                              height={200}
+                            />
+                          </div>
                           <div>
                             <Label className="text-[10px]">Vertical (m)</Label>
                             <Input
@@ -1952,6 +2101,11 @@ export function BulkImportPage() {
                               className="h-8 text-xs"
                               placeholder="e.g. Apr 15"
                             />
+                            {selectedRow.data.season_calendar && (
+                              <p className="text-[10px] text-muted-foreground mt-0.5">
+                                {describeCalendar(selectedRow.data.season_calendar)}
+                              </p>
+                            )}
                           </div>
                           <div>
                             <Label className="text-[10px]">Night Skiing</Label>
@@ -2188,7 +2342,7 @@ export function BulkImportPage() {
                     setVerifyDialogOpen(true)
                   }}
                   pageSize={PAGE_SIZE}
-                  defaultSorting={[{ id: 'completeness', desc: true }]}
+                  sorting={verifySorting}
                   onSortingChange={handleVerifySortChange}
                   serverPagination={{
                     totalCount: unverifiedTotal,
@@ -2212,17 +2366,14 @@ export function BulkImportPage() {
                     <div className="space-y-5">
                       {/* Completeness indicator */}
                       {(() => {
-                        const { filled, total, label, color } = getVerifyCompleteness(verifyDialogResort)
+                        const { filled, total, label, color, bar } = getVerifyCompleteness(verifyDialogResort)
                         const pct = Math.round((filled / total) * 100)
                         return (
                           <div className="flex items-center gap-3 text-sm">
                             <span className="text-muted-foreground">Completeness:</span>
                             <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden max-w-[200px]">
                               <div
-                                className={cn(
-                                  'h-full rounded-full transition-all',
-                                  filled === total ? 'bg-green-400' : filled >= 10 ? 'bg-yellow-400' : 'bg-red-400'
-                                )}
+                                className={cn('h-full rounded-full transition-all', bar)}
                                 style={{ width: `${pct}%` }}
                               />
                             </div>
@@ -2232,6 +2383,8 @@ export function BulkImportPage() {
                         )
                       })()}
 
+                      <QualityIssues issues={evaluateResort({ ...verifyDialogResort })} />
+
                       {/* Cover Image */}
                       <div>
                         <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Cover Image</h4>
@@ -2324,6 +2477,19 @@ export function BulkImportPage() {
                             />
                           </div>
                         </div>
+                        <div className="mt-3">
+                          <ResortMapPicker
+                            lat={verifyDialogResort.lat}
+                            lng={verifyDialogResort.lng}
+                            countryCode={verifyDialogResort.country_code}
+                            excludeId={verifyDialogResort.id}
+                            onChange={(lat, lng) => {
+                              updateVerifyField('lat', lat)
+                              updateVerifyField('lng', lng)
+                            }}
+                            height={220}
+                          />
+                        </div>
                         {verifyDialogResort.lat !== 0 && verifyDialogResort.lng !== 0 && (
                           <a
                             href={`https://www.google.com/maps/@${verifyDialogResort.lat},${verifyDialogResort.lng},14z`}
@@ -2449,6 +2615,11 @@ export function BulkImportPage() {
                               className="h-8 text-xs"
                               placeholder="e.g. Apr 15"
                             />
+                            {verifyDialogResort.season_calendar && (
+                              <p className="text-[10px] text-muted-foreground mt-0.5">
+                                {describeCalendar(verifyDialogResort.season_calendar)}
+                              </p>
+                            )}
                           </div>
                           <div>
                             <Label className="text-[10px]">Night Skiing</Label>
@@ -2548,7 +2719,7 @@ export function BulkImportPage() {
                           variant="outline"
                           size="sm"
                           onClick={() => handleSaveResortFields()}
-                          disabled={!verifyDirty || verifySaving || verifyLoading}
+                          disabled={!verifyDirty || verifySaving || verifyLoading || verifySeasonInvalid}
                           className="gap-1"
                         >
                           {verifySaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Database className="w-3 h-3" />}
@@ -2574,7 +2745,7 @@ export function BulkImportPage() {
                               handleSingleVerify(verifyDialogResort.id, true, '')
                             }
                           }}
-                          disabled={verifyLoading || verifySaving}
+                          disabled={verifyLoading || verifySaving || verifySeasonInvalid}
                           className="gap-1"
                         >
                           {(verifyLoading || verifySaving) ? <Loader2 className="w-3 h-3 animate-spin" /> : <CheckCircle2 className="w-3 h-3" />}
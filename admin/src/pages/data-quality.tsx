@@ -0,0 +1,345 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle, CalendarRange, Loader2, XCircle } from 'lucide-react'
+import { Header } from '@/components/layout/header'
+import { StatsCard } from '@/components/shared/stats-card'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useAuditLog } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
+import { QUALITY_RULES, loadCatalogQuality, type ResortQuality } from '@/lib/data-quality'
+import { migrateSeasonStrings } from '@/lib/seasons'
+import type { PageId } from '@/lib/constants'
+import { cn } from '@/lib/utils'
+
+interface DataQualityPageProps {
+  onNavigate: (page: PageId, id?: string | null) => void
+}
+
+type ResortFilter = 'all' | 'unverified' | 'verified'
+
+type QualityFilters = { resorts: ResortFilter; rule: string | null }
+
+// Rules and resorts are lists rather than a table, so a view is just the filters
+const QUALITY_VIEW_DEFAULTS: ViewState<QualityFilters> = {
+  filters: { resorts: 'all', rule: null },
+  sorting: [],
+  columnVisibility: {},
+}
+
+const RESORTS_LIMIT = 100
+
+function scoreColor(score: number): string {
+  if (score >= 90) return 'text-green-400'
+  if (score >= 60) return 'text-yellow-400'
+  return 'text-red-400'
+}
+
+export function DataQualityPage({ onNavigate }: DataQualityPageProps) {
+  const [resorts, setResorts] = useState<ResortQuality[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [ruleFilter, setRuleFilter] = useState<string | null>(null)
+  const [resortFilter, setResortFilter] = useState<ResortFilter>('all')
+  const [migrating, setMigrating] = useState(false)
+  const { log } = useAuditLog()
+  const { can } = usePermissions()
+
+  // Saved views
+  const viewState = useMemo<ViewState<QualityFilters>>(
+    () => ({ ...QUALITY_VIEW_DEFAULTS, filters: { resorts: resortFilter, rule: ruleFilter } }),
+    [resortFilter, ruleFilter]
+  )
+  const applyView = useCallback(({ filters: f }: ViewState<QualityFilters>) => {
+    setResortFilter(f.resorts)
+    setRuleFilter(f.rule)
+  }, [])
+  const views = useSavedViews({
+    page: 'data-quality',
+    state: viewState,
+    defaults: QUALITY_VIEW_DEFAULTS,
+    apply: applyView,
+  })
+
+  const loadQuality = useCallback(async (isRefresh = false) => {
+    if (isRefresh) setRefreshing(true)
+    try {
+      setResorts(await loadCatalogQuality())
+    } catch (err) {
+      toast.error(`Failed to check catalog: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadQuality()
+  }, [loadQuality])
+
+  // One-off: parse the old season strings into calendars. Whatever can't be
+  // read is left for the season_parse rule to list.
+  const handleMigrateSeasons = useCallback(async () => {
+    setMigrating(true)
+    try {
+      const { migrated, unparsed } = await migrateSeasonStrings()
+      await log({
+        action: 'migrate_season_calendars',
+        entity_type: 'resort',
+        details: { migrated, unparsed: unparsed.length },
+      })
+      if (unparsed.length > 0) {
+        toast.warning(`Migrated ${migrated} resorts; ${unparsed.length} couldn't be read`)
+        setRuleFilter('season_parse')
+      } else {
+        toast.success(`Migrated ${migrated} resorts`)
+      }
+      await loadQuality(true)
+    } catch (err) {
+      toast.error(`Migration failed: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setMigrating(false)
+    }
+  }, [log, loadQuality])
+
+  const scoped = useMemo(
+    () =>
+      resortFilter === 'all' ? resorts : resorts.filter((r) => r.verified === (resortFilter === 'verified')),
+    [resorts, resortFilter]
+  )
+
+  const failuresByRule = useMemo(() => {
+    const counts: Record<string, number> = {}
+    for (const r of scoped) {
+      for (const issue of r.issues) counts[issue.rule] = (counts[issue.rule] ?? 0) + 1
+    }
+    return counts
+  }, [scoped])
+
+  const stats = useMemo(() => {
+    const withErrors = scoped.filter((r) => r.issues.some((i) => i.severity === 'error')).length
+    const withWarnings = scoped.filter((r) => r.issues.some((i) => i.severity === 'warning')).length
+    const average = scoped.length > 0 ? Math.round(scoped.reduce((sum, r) => sum + r.score, 0) / scoped.length) : 0
+    return { withErrors, withWarnings, average }
+  }, [scoped])
+
+  // Lowest scores first, so the worst data is at the top
+  const failing = useMemo(
+    () =>
+      scoped
+        .filter((r) => (ruleFilter ? r.issues.some((i) => i.rule === ruleFilter) : r.issues.length > 0))
+        .sort((a, b) => a.score - b.score || a.name.localeCompare(b.name)),
+    [scoped, ruleFilter]
+  )
+
+  const activeRule = QUALITY_RULES.find((rule) => rule.id === ruleFilter)
+
+  return (
+    <div className="flex flex-col h-full">
+      <Header
+        title="Data Quality"
+        subtitle="Catalog-wide checks against the resort data rules"
+        onRefresh={() => loadQuality(true)}
+        refreshing={refreshing}
+        actions={
+          <>
+            <SavedViewsMenu views={views} />
+            {can('resorts.edit') && (
+              <Button variant="outline" size="sm" className="gap-1.5" onClick={handleMigrateSeasons} disabled={migrating}>
+                {migrating ? <Loader2 className="w-4 h-4 animate-spin" /> : <CalendarRange className="w-4 h-4" />}
+                Migrate season text
+              </Button>
+            )}
+          </>
+        }
+      />
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        <div className="flex items-center gap-1">
+          {(
+            [
+              ['all', 'All resorts'],
+              ['unverified', 'Unverified'],
+              ['verified', 'Verified'],
+            ] as [ResortFilter, string][]
+          ).map(([value, label]) => (
+            <Button
+              key={value}
+              variant={resortFilter === value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setResortFilter(value)}
+              className="text-xs h-7"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-4 gap-4">
+            {[0, 1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-28 rounded-xl" />
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-4 gap-4">
+            <StatsCard label="Resorts Checked" value={scoped.length.toLocaleString()} />
+            <StatsCard label="Average Score" value={stats.average} subtitle="Completeness less failed rules" />
+            <StatsCard label="With Errors" value={stats.withErrors.toLocaleString()} />
+            <StatsCard label="With Warnings" value={stats.withWarnings.toLocaleString()} />
+          </div>
+        )}
+
+        {/* Rules */}
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-base font-semibold">Rules</h2>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              The same rules run on import rows, in the verification queue and in the resort editor. Click a rule to
+              list the resorts failing it.
+            </p>
+          </div>
+          {loading ? (
+            <Skeleton className="h-64 rounded-xl" />
+          ) : (
+            <Card>
+              <CardContent className="pt-6">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted-foreground text-left border-b border-border">
+                      <th className="font-medium py-2 pr-3">Rule</th>
+                      <th className="font-medium py-2 pr-3">Field</th>
+                      <th className="font-medium py-2 pr-3">Severity</th>
+                      <th className="font-medium py-2 pr-3 text-right">Failing</th>
+                      <th className="font-medium py-2 w-48" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {QUALITY_RULES.map((rule) => {
+                      const count = failuresByRule[rule.id] ?? 0
+                      const pct = scoped.length > 0 ? (count / scoped.length) * 100 : 0
+                      return (
+                        <tr
+                          key={rule.id}
+                          className={cn(
+                            'cursor-pointer hover:bg-muted/50',
+                            ruleFilter === rule.id && 'bg-muted/50'
+                          )}
+                          onClick={() => setRuleFilter(ruleFilter === rule.id ? null : rule.id)}
+                        >
+                          <td className="py-2 pr-3">{rule.label}</td>
+                          <td className="py-2 pr-3 font-mono text-[11px] text-muted-foreground">{rule.field}</td>
+                          <td className="py-2 pr-3">
+                            {rule.severity === 'error' ? (
+                              <Badge className="bg-red-500/20 text-red-400 border-0 text-[10px]">Error</Badge>
+                            ) : (
+                              <Badge className="bg-yellow-500/20 text-yellow-400 border-0 text-[10px]">Warning</Badge>
+                            )}
+                          </td>
+                          <td className={cn('py-2 pr-3 text-right font-medium', count === 0 && 'text-muted-foreground')}>
+                            {count.toLocaleString()}
+                          </td>
+                          <td className="py-2">
+                            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                              <div
+                                className={cn('h-full rounded-full', rule.severity === 'error' ? 'bg-red-400' : 'bg-yellow-400')}
+                                style={{ width: `${pct}%` }}
+                              />
+                            </div>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </section>
+
+        {/* Failing resorts */}
+        <section className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h2 className="text-base font-semibold">
+                {activeRule ? `Failing: ${activeRule.label}` : 'Resorts with issues'}
+              </h2>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {failing.length.toLocaleString()} resorts
+                {failing.length > RESORTS_LIMIT && `, lowest ${RESORTS_LIMIT} scores shown`}. Click a resort to open it.
+              </p>
+            </div>
+            {activeRule && (
+              <Button variant="outline" size="sm" className="text-xs h-7" onClick={() => setRuleFilter(null)}>
+                All rules
+              </Button>
+            )}
+          </div>
+          {loading ? (
+            <Skeleton className="h-80 rounded-xl" />
+          ) : (
+            <Card>
+              <CardContent className="pt-6">
+                {failing.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No resorts failing.</p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-muted-foreground text-left border-b border-border">
+                        <th className="font-medium py-2 pr-3">Resort</th>
+                        <th className="font-medium py-2 pr-3 text-right">Score</th>
+                        <th className="font-medium py-2">Issues</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {failing.slice(0, RESORTS_LIMIT).map((r) => (
+                        <tr
+                          key={r.id}
+                          className="cursor-pointer hover:bg-muted/50 align-top"
+                          onClick={() => onNavigate('resorts', r.id)}
+                        >
+                          <td className="py-2 pr-3">
+                            <p className="font-medium">{r.name}</p>
+                            <p className="text-muted-foreground">
+                              {r.country ?? '—'}
+                              {!r.verified && ' · unverified'}
+                            </p>
+                          </td>
+                          <td className={cn('py-2 pr-3 text-right font-semibold', scoreColor(r.score))}>{r.score}</td>
+                          <td className="py-2 space-y-0.5">
+                            {r.issues
+                              .filter((i) => !ruleFilter || i.rule === ruleFilter)
+                              .map((i) => (
+                                <p
+                                  key={i.rule}
+                                  className={cn(
+                                    'flex items-center gap-1',
+                                    i.severity === 'error' ? 'text-red-400' : 'text-yellow-400'
+                                  )}
+                                >
+                                  {i.severity === 'error' ? (
+                                    <XCircle className="w-3 h-3 shrink-0" />
+                                  ) : (
+                                    <AlertTriangle className="w-3 h-3 shrink-0" />
+                                  )}
+                                  {i.message}
+                                </p>
+                              ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -1,15 +1,27 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { formatDate, cn } from '@/lib/utils'
 import { toast } from 'sonner'
 import { useAuditLog } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
+import { mergeNewRows, useNewItems } from '@/hooks/use-realtime'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
 import { Header } from '@/components/layout/header'
 import { StatsCard } from '@/components/shared/stats-card'
 import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import { NewItemsBanner } from '@/components/shared/new-items-banner'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from '@/components/ui/select'
 import { Check, X, CheckSquare, Loader2 } from 'lucide-react'
 
 interface PhotoSubmission {
@@ -23,8 +35,18 @@ interface PhotoSubmission {
   resorts: { name: string } | null
 }
 
+type PhotoFilters = { order: 'newest' | 'oldest' }
+
+// The queue is a list rather than a table, so a view is just its order
+const PHOTOS_VIEW_DEFAULTS: ViewState<PhotoFilters> = {
+  filters: { order: 'newest' },
+  sorting: [],
+  columnVisibility: {},
+}
+
 export function FeaturePhotosPage() {
   const { log } = useAuditLog()
+  const { can } = usePermissions()
 
   const [photos, setPhotos] = useState<PhotoSubmission[]>([])
   const [selected, setSelected] = useState<PhotoSubmission | null>(null)
@@ -44,6 +66,24 @@ export function FeaturePhotosPage() {
   // Confirm dialogs
   const [confirmAction, setConfirmAction] = useState<'approve' | 'reject' | null>(null)
 
+  // Oldest first works through the queue in the order photos came in
+  const [order, setOrder] = useState<PhotoFilters['order']>('newest')
+
+  // Saved views
+  const viewState = useMemo<ViewState<PhotoFilters>>(
+    () => ({ ...PHOTOS_VIEW_DEFAULTS, filters: { order } }),
+    [order]
+  )
+  const applyView = useCallback(({ filters: f }: ViewState<PhotoFilters>) => {
+    setOrder(f.order)
+  }, [])
+  const views = useSavedViews({
+    page: 'feature-photos',
+    state: viewState,
+    defaults: PHOTOS_VIEW_DEFAULTS,
+    apply: applyView,
+  })
+
   const loadPhotos = useCallback(async () => {
     try {
       const startOfMonth = new Date()
@@ -87,10 +127,62 @@ export function FeaturePhotosPage() {
     loadPhotos()
   }, [loadPhotos])
 
+  // Loaded newest first
+  const sortedPhotos = useMemo(() => (order === 'newest' ? photos : [...photos].reverse()), [photos, order])
+
+  // Photos reviewed by another admin drop out of the pending list; the open
+  // one stays selected with its new status
+  const { newCount, newIds, clear: clearNew } = useNewItems<PhotoSubmission>(
+    'resort_feature_photo_submissions',
+    (change) => {
+      const id = change.eventType === 'DELETE' ? change.old.id : change.new.id
+      if (!id) return
+
+      if (change.eventType === 'UPDATE') {
+        // Realtime rows carry no `resorts` join; keep the one already loaded
+        const row = change.new
+        setSelected((prev) => (prev?.id === id ? { ...prev, ...row, resorts: prev.resorts } : prev))
+        if (row.status === 'pending') {
+          setPhotos((prev) => prev.map((p) => (p.id === id ? { ...p, ...row, resorts: p.resorts } : p)))
+          return
+        }
+      }
+
+      setPhotos((prev) => prev.filter((p) => p.id !== id))
+      setSelectedIds((prev) => {
+        if (!prev.has(id)) return prev
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    }
+  )
+
   const handleRefresh = useCallback(() => {
     setRefreshing(true)
+    clearNew()
     loadPhotos()
-  }, [loadPhotos])
+  }, [loadPhotos, clearNew])
+
+  // New photos go on top of the list without reloading it, so the open photo
+  // and the bulk selection stay as they are
+  const handleLoadNew = useCallback(async () => {
+    clearNew()
+    const { data, error } = await supabase
+      .from('resort_feature_photo_submissions')
+      .select('*, resorts(name)')
+      .in('id', newIds)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+    if (error) {
+      toast.error('Failed to load new photos')
+      return
+    }
+    const fresh = (data as PhotoSubmission[]) ?? []
+    setPhotos((prev) => mergeNewRows(prev, fresh))
+    setPendingCount((count) => count + fresh.length)
+    setTotalCount((count) => count + newIds.length)
+  }, [newIds, clearNew])
 
   const handleAction = useCallback(
     async (action: 'approved' | 'rejected') => {
@@ -181,6 +273,7 @@ export function FeaturePhotosPage() {
         subtitle="Moderate user-submitted feature photos"
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -191,8 +284,10 @@ export function FeaturePhotosPage() {
           <StatsCard label="Total" value={totalCount} />
         </div>
 
+        <NewItemsBanner count={newCount} noun="photo" onLoad={handleLoadNew} />
+
         {/* Bulk actions */}
-        {selectedIds.size > 0 && (
+        {selectedIds.size > 0 && can('submissions.review') && (
           <div className="flex items-center gap-3 bg-accent/50 border border-border rounded-lg px-4 py-2">
             <span className="text-sm font-medium">
               {selectedIds.size} selected
@@ -236,11 +331,22 @@ export function FeaturePhotosPage() {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Left: Pending Photos List */}
           <div className="bg-card border border-border rounded-xl">
-            <div className="p-4 border-b border-border">
-              <h2 className="text-sm font-semibold">Pending Photos</h2>
-              <p className="text-xs text-muted-foreground mt-0.5">
-                {pendingCount} photos awaiting review
-              </p>
+            <div className="p-4 border-b border-border flex items-start justify-between gap-3">
+              <div>
+                <h2 className="text-sm font-semibold">Pending Photos</h2>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {pendingCount} photos awaiting review
+                </p>
+              </div>
+              <Select value={order} onValueChange={(v) => setOrder(v as PhotoFilters['order'])}>
+                <SelectTrigger className="w-[140px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest first</SelectItem>
+                  <SelectItem value="oldest">Oldest first</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
             <ScrollArea className="max-h-[500px]">
               {loading ? (
@@ -249,13 +355,13 @@ export function FeaturePhotosPage() {
                     <Skeleton key={i} className="h-14 rounded-lg" />
                   ))}
                 </div>
-              ) : photos.length === 0 ? (
+              ) : sortedPhotos.length === 0 ? (
                 <div className="p-8 text-center text-sm text-muted-foreground">
                   No pending photos
                 </div>
               ) : (
                 <div className="divide-y divide-border">
-                  {photos.map((photo) => (
+                  {sortedPhotos.map((photo) => (
                     <div
                       key={photo.id}
                       className={cn(
@@ -264,16 +370,18 @@ export function FeaturePhotosPage() {
                       )}
                       onClick={() => setSelected(photo)}
                     >
-                      <input
-                        type="checkbox"
-                        checked={selectedIds.has(photo.id)}
-                        onChange={(e) => {
-                          e.stopPropagation()
-                          toggleSelectId(photo.id)
-                        }}
-                        onClick={(e) => e.stopPropagation()}
-                        className="rounded border-border"
-                      />
+                      {can('submissions.review') && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(photo.id)}
+                          onChange={(e) => {
+                            e.stopPropagation()
+                            toggleSelectId(photo.id)
+                          }}
+                          onClick={(e) => e.stopPropagation()}
+                          className="rounded border-border"
+                        />
+                      )}
                       <div className="min-w-0 flex-1">
                         <div className="text-sm font-medium truncate">
                           {photo.resorts?.name ?? 'Unknown Resort'}
@@ -333,25 +441,27 @@ export function FeaturePhotosPage() {
                 </div>
 
                 {/* Action Buttons */}
-                <div className="flex gap-2 pt-2">
-                  <Button
-                    onClick={() => setConfirmAction('approve')}
-                    className="flex-1"
-                    disabled={actionLoading}
-                  >
-                    <Check className="w-4 h-4 mr-1" />
-                    Approve
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    onClick={() => setConfirmAction('reject')}
-                    className="flex-1"
-                    disabled={actionLoading}
-                  >
-                    <X className="w-4 h-4 mr-1" />
-                    Reject
-                  </Button>
-                </div>
+                {can('submissions.review') && (
+                  <div className="flex gap-2 pt-2">
+                    <Button
+                      onClick={() => setConfirmAction('approve')}
+                      className="flex-1"
+                      disabled={actionLoading}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => setConfirmAction('reject')}
+                      className="flex-1"
+                      disabled={actionLoading}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="p-8 text-center text-sm text-muted-foreground">
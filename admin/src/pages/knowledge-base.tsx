@@ -1,8 +1,10 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { toast } from 'sonner'
-import { useAuditLog } from '@/hooks/use-audit-log'
+import { useAuditLog, snapshotChanges } from '@/hooks/use-audit-log'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
 import { Header } from '@/components/layout/header'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -67,6 +69,15 @@ function slugify(s: string): string {
     .replace(/^-+|-+$/g, '')
 }
 
+type KbFilters = { audience: 'user' | 'admin'; type: 'all' | 'kb' | 'faq' }
+
+// Articles are a list rather than a table, so a view is just the filters
+const KB_VIEW_DEFAULTS: ViewState<KbFilters> = {
+  filters: { audience: 'user', type: 'all' },
+  sorting: [],
+  columnVisibility: {},
+}
+
 export function KnowledgeBasePage() {
   const { log } = useAuditLog()
   const [items, setItems] = useState<SupportKbRow[]>([])
@@ -75,6 +86,22 @@ export function KnowledgeBasePage() {
   const [audienceFilter, setAudienceFilter] = useState<'user' | 'admin'>('user')
   const [typeFilter, setTypeFilter] = useState<'all' | 'kb' | 'faq'>('all')
 
+  // Saved views
+  const viewState = useMemo<ViewState<KbFilters>>(
+    () => ({ ...KB_VIEW_DEFAULTS, filters: { audience: audienceFilter, type: typeFilter } }),
+    [audienceFilter, typeFilter]
+  )
+  const applyView = useCallback(({ filters: f }: ViewState<KbFilters>) => {
+    setAudienceFilter(f.audience)
+    setTypeFilter(f.type)
+  }, [])
+  const views = useSavedViews({
+    page: 'knowledge-base',
+    state: viewState,
+    defaults: KB_VIEW_DEFAULTS,
+    apply: applyView,
+  })
+
   const [dialogOpen, setDialogOpen] = useState(false)
   const [dialogMode, setDialogMode] = useState<'add' | 'edit'>('add')
   const [editTarget, setEditTarget] = useState<SupportKbRow | null>(null)
@@ -177,17 +204,18 @@ export function KnowledgeBasePage() {
           details: { title, type: form.type, audience: form.audience },
         })
       } else if (editTarget) {
+        const updates = {
+          type: form.type,
+          audience: form.audience,
+          title,
+          slug,
+          content: form.content.trim() || null,
+          keywords: keywords.length > 0 ? keywords : null,
+          sort_order: form.sort_order,
+        }
         const { error } = await supabase
           .from('support_kb')
-          .update({
-            type: form.type,
-            audience: form.audience,
-            title,
-            slug,
-            content: form.content.trim() || null,
-            keywords: keywords.length > 0 ? keywords : null,
-            sort_order: form.sort_order,
-          })
+          .update(updates)
           .eq('id', editTarget.id)
         if (error) throw error
         toast.success('Article updated')
@@ -196,6 +224,7 @@ export function KnowledgeBasePage() {
           entity_type: 'support_kb',
           entity_id: editTarget.id,
           details: { title, audience: form.audience },
+          ...snapshotChanges(editTarget, updates),
         })
       }
       setDialogOpen(false)
@@ -235,6 +264,7 @@ export function KnowledgeBasePage() {
         subtitle="Manage user support content and internal admin documentation"
         onRefresh={() => fetchData(true)}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -1,16 +1,30 @@
 import { useState } from 'react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Loader2 } from 'lucide-react'
+import { Copy, Loader2, ShieldCheck } from 'lucide-react'
+import type { MfaEnrollment, MfaStep } from '@/hooks/use-auth'
+
+interface MfaProps {
+  step: MfaStep | null
+  enrollment: MfaEnrollment | null
+  recoveryCodes: string[] | null
+  onStartEnrollment: () => Promise<void>
+  onVerifyCode: (code: string) => Promise<void>
+  onRedeemRecoveryCode: (code: string) => Promise<void>
+  onFinishEnrollment: () => void
+  onCancel: () => void
+}
 
 interface LoginPageProps {
   onSignIn: (email: string, password: string) => void
   loading: boolean
   error: string | null
   unlocking?: boolean
+  mfa: MfaProps
 }
 
-export function LoginPage({ onSignIn, loading, error, unlocking }: LoginPageProps) {
+export function LoginPage({ onSignIn, loading, error, unlocking, mfa }: LoginPageProps) {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
 
@@ -23,6 +37,20 @@ export function LoginPage({ onSignIn, loading, error, unlocking }: LoginPageProp
   const isSuccess = error?.startsWith('✅')
   const isLocked = error?.startsWith('🔒')
 
+  const errorBanner = error && (
+    <div
+      className={`px-4 py-3 rounded-lg text-sm ${
+        isSuccess
+          ? 'bg-green-500/10 text-green-400'
+          : isLocked
+          ? 'bg-amber-500/10 text-amber-400'
+          : 'bg-destructive/10 text-destructive'
+      }`}
+    >
+      {error}
+    </div>
+  )
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-slope-slate-dark to-slope-slate-darker">
       <img
@@ -32,43 +60,194 @@ export function LoginPage({ onSignIn, loading, error, unlocking }: LoginPageProp
       />
       <h1 className="text-2xl font-semibold mb-2">Admin Dashboard</h1>
       <p className="text-muted-foreground mb-8">
-        {unlocking ? 'Unlocking your account...' : 'Sign in to manage SlopeStory'}
+        {unlocking
+          ? 'Unlocking your account...'
+          : mfa.step
+          ? 'Two-factor authentication'
+          : 'Sign in to manage SlopeStory'}
       </p>
 
-      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-card border border-border rounded-2xl p-8 space-y-3">
-        <Input
-          type="email"
-          placeholder="Email address"
-          value={email}
-          onChange={(e) => setEmail(e.target.value)}
-          autoFocus
-          disabled={unlocking}
-        />
-        <Input
-          type="password"
-          placeholder="Password"
-          value={password}
-          onChange={(e) => setPassword(e.target.value)}
-          disabled={unlocking}
-        />
-        <Button type="submit" className="w-full" disabled={loading || unlocking || !email || !password}>
-          {(loading || unlocking) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-          {unlocking ? 'Unlocking...' : 'Sign In'}
-        </Button>
-        {error && (
-          <div
-            className={`px-4 py-3 rounded-lg text-sm ${
-              isSuccess
-                ? 'bg-green-500/10 text-green-400'
-                : isLocked
-                ? 'bg-amber-500/10 text-amber-400'
-                : 'bg-destructive/10 text-destructive'
-            }`}
+      {mfa.step ? (
+        <MfaPanel mfa={mfa} errorBanner={errorBanner} />
+      ) : (
+        <form onSubmit={handleSubmit} className="w-full max-w-sm bg-card border border-border rounded-2xl p-8 space-y-3">
+          <Input
+            type="email"
+            placeholder="Email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoFocus
+            disabled={unlocking}
+          />
+          <Input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={unlocking}
+          />
+          <Button type="submit" className="w-full" disabled={loading || unlocking || !email || !password}>
+            {(loading || unlocking) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {unlocking ? 'Unlocking...' : 'Sign In'}
+          </Button>
+          {errorBanner}
+        </form>
+      )}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// TOTP steps: enroll → recovery codes, or verify (with recovery-code fallback)
+// ---------------------------------------------------------------------------
+
+function MfaPanel({ mfa, errorBanner }: { mfa: MfaProps; errorBanner: React.ReactNode }) {
+  const [code, setCode] = useState('')
+  const [useRecovery, setUseRecovery] = useState(false)
+  const [pending, setPending] = useState(false)
+
+  const run = async (action: () => Promise<void>) => {
+    setPending(true)
+    try {
+      await action()
+    } finally {
+      setPending(false)
+      setCode('')
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) return
+    if (useRecovery) {
+      run(async () => {
+        await mfa.onRedeemRecoveryCode(code)
+        setUseRecovery(false)
+      })
+    } else {
+      run(() => mfa.onVerifyCode(code))
+    }
+  }
+
+  const codeForm = (label: string) => (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Input
+        inputMode={useRecovery ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        placeholder={useRecovery ? 'Recovery code' : '6-digit code'}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        maxLength={useRecovery ? 32 : 6}
+        className="font-mono tracking-widest text-center"
+        autoFocus
+      />
+      <Button type="submit" className="w-full" disabled={pending || !code.trim()}>
+        {pending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {label}
+      </Button>
+    </form>
+  )
+
+  return (
+    <div className="w-full max-w-sm bg-card border border-border rounded-2xl p-8 space-y-4">
+      {mfa.step === 'enroll' && (
+        <>
+          <div className="flex items-start gap-3">
+            <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <p className="text-sm text-muted-foreground">
+              Admin accounts require an authenticator app (1Password, Authy, Google Authenticator).
+            </p>
+          </div>
+          {mfa.enrollment ? (
+            <>
+              <div className="bg-white rounded-lg p-3 w-fit mx-auto">
+                <img src={mfa.enrollment.qrCode} alt="Authenticator QR code" className="w-40 h-40" />
+              </div>
+              <div className="text-center">
+                <p className="text-[11px] text-muted-foreground">Or enter this key manually</p>
+                <code className="text-xs font-mono break-all">{mfa.enrollment.secret}</code>
+              </div>
+              {codeForm('Verify & Enable')}
+            </>
+          ) : (
+            <Button className="w-full" disabled={pending} onClick={() => run(mfa.onStartEnrollment)}>
+              {pending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Set Up Authenticator
+            </Button>
+          )}
+        </>
+      )}
+
+      {mfa.step === 'verify' && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {useRecovery
+              ? 'Enter one of the recovery codes you saved when enrolling. It can only be used once.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+          {codeForm(useRecovery ? 'Use Recovery Code' : 'Verify')}
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecovery((v) => !v)
+              setCode('')
+            }}
+            className="text-xs text-muted-foreground hover:text-foreground w-full text-center"
           >
-            {error}
+            {useRecovery ? 'Use authenticator code instead' : 'Lost your device? Use a recovery code'}
+          </button>
+        </>
+      )}
+
+      {mfa.step === 'recovery_codes' && (
+        mfa.recoveryCodes === null ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
           </div>
-        )}
-      </form>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+              authenticator. They won't be shown again.
+            </p>
+            {mfa.recoveryCodes.length > 0 && (
+              <>
+                <div className="grid grid-cols-2 gap-2 bg-background border border-border rounded-lg p-3">
+                  {mfa.recoveryCodes.map((c) => (
+                    <code key={c} className="text-xs font-mono text-center">{c}</code>
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    navigator.clipboard.writeText(mfa.recoveryCodes!.join('\n'))
+                    toast.success('Recovery codes copied')
+                  }}
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy Codes
+                </Button>
+              </>
+            )}
+            <Button className="w-full" onClick={mfa.onFinishEnrollment}>
+              I've Saved My Codes
+            </Button>
+          </>
+        )
+      )}
+
+      {errorBanner}
+
+      {mfa.step !== 'recovery_codes' && (
+        <button
+          type="button"
+          onClick={mfa.onCancel}
+          className="text-xs text-muted-foreground hover:text-foreground w-full text-center"
+        >
+          Sign in as someone else
+        </button>
+      )}
     </div>
   )
 }
@@ -1,8 +1,32 @@
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
-import { timeAgo } from '@/lib/utils'
+import { toast } from 'sonner'
+import { formatDate, timeAgo } from '@/lib/utils'
+import {
+  USAGE_COLLECTORS,
+  loadUsageSeries,
+  runUsageCollectors,
+  seriesKey,
+  usageMetric,
+  usageTrend,
+  type UsageKind,
+  type UsagePoint,
+} from '@/lib/service-usage'
+import { usePermissions } from '@/hooks/use-permissions'
 import { Header } from '@/components/layout/header'
 import { StatsCard } from '@/components/shared/stats-card'
+import { Sparkline, type SparklinePoint } from '@/components/shared/sparkline'
+import {
+  METRICS_RANGES,
+  formatTrendChange,
+  loadSnapshots,
+  metricTrend,
+  rangePeriod,
+  trendTone,
+  type MetricsRange,
+  type MetricsSnapshot,
+  type SnapshotMetric,
+} from '@/lib/metrics-history'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -42,6 +66,7 @@ import {
   Loader2,
   ArrowRight,
   TestTubes,
+  RefreshCw,
 } from 'lucide-react'
 import type { PageId } from '@/lib/constants'
 
@@ -59,6 +84,7 @@ interface Metrics {
   pendingPhotos: number
   openTickets: number
   totalVisits: number
+  totalPhotos: number
   betaTesters: number
 }
 
@@ -226,6 +252,8 @@ function UsageBar({
   formatValue,
   formatLimit,
   note,
+  series,
+  kind = 'monthly',
 }: {
   label: string
   used: number | null
@@ -235,12 +263,41 @@ function UsageBar({
   formatValue?: (v: number) => string
   formatLimit?: (v: number) => string
   note?: string
+  // Collected samples, oldest first; enables the trend line and projection
+  series?: UsagePoint[]
+  kind?: UsageKind
 }) {
   const isNull = used === null || used === undefined
   const ratio = isNull ? 0 : limit > 0 ? used / limit : 0
-  const fmtUsed = isNull ? '—' : formatValue ? formatValue(used) : `${used}`
+  const fmt = (v: number) => (formatValue ? formatValue(v) : `${v}`)
+  const fmtUsed = isNull ? '—' : fmt(used)
   const fmtLimit = formatLimit ? formatLimit(limit) : `${limit}`
 
+  const trend = series && series.length >= 2 ? usageTrend(series, limit, kind) : null
+  let chart: SparklinePoint[] = []
+  let projection: { text: string; warn: boolean } | null = null
+  if (series && series.length >= 2) {
+    chart = series.map((p) => ({ at: p.at, value: p.value }))
+    const last = series[series.length - 1]
+    if (trend?.exhaustsAt) {
+      const reached = trend.exhaustsAt.getTime() <= last.at
+      projection = {
+        text: reached ? 'Limit reached' : `Limit reached ~${formatDate(trend.exhaustsAt.toISOString())}`,
+        warn: true,
+      }
+      if (!reached) {
+        chart[chart.length - 1].projected = last.value
+        chart.push({ at: trend.exhaustsAt.getTime(), projected: limit })
+      }
+    } else if (trend?.resetsAt && trend.projectedAtReset !== null) {
+      projection = { text: `~${fmt(trend.projectedAtReset)} by reset`, warn: false }
+      chart[chart.length - 1].projected = last.value
+      chart.push({ at: trend.resetsAt.getTime(), projected: trend.projectedAtReset })
+    } else if (trend && trend.perDay > 0) {
+      projection = { text: `+${fmt(trend.perDay * 30)}/mo, not full within a year`, warn: false }
+    }
+  }
+
   return (
     <div className="space-y-1">
       <div className="flex items-center justify-between text-[11px]">
@@ -264,8 +321,16 @@ function UsageBar({
           />
         )}
       </div>
-      {note && (
-        <div className="text-[10px] text-muted-foreground/60">{note}</div>
+      {chart.length >= 2 && <Sparkline data={chart} height={24} max={Math.max(limit, ...series!.map((p) => p.value))} />}
+      {(note || projection) && (
+        <div className="flex items-center justify-between gap-2 text-[10px]">
+          <span className="text-muted-foreground/60">{note}</span>
+          {projection && (
+            <span className={projection.warn ? 'text-yellow-400' : 'text-muted-foreground'}>
+              {projection.text}
+            </span>
+          )}
+        </div>
       )}
     </div>
   )
@@ -280,11 +345,16 @@ export function OverviewPage({
 }: {
   onNavigate: (page: PageId) => void
 }) {
+  const { can } = usePermissions()
   const [metrics, setMetrics] = useState<Metrics | null>(null)
   const [activity, setActivity] = useState<AuditEntry[]>([])
   const [dailySignups, setDailySignups] = useState<DailySignup[]>([])
   const [systemConfigs, setSystemConfigs] = useState<ServiceConfig[]>([])
   const [systemMetrics, setSystemMetrics] = useState<SystemMetrics | null>(null)
+  const [usageSeries, setUsageSeries] = useState<Record<string, UsagePoint[]>>({})
+  const [collecting, setCollecting] = useState(false)
+  const [range, setRange] = useState<MetricsRange>('30d')
+  const [snapshots, setSnapshots] = useState<MetricsSnapshot[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
 
@@ -317,11 +387,13 @@ export function OverviewPage({
         pendingPhotosRes,
         openTicketsRes,
         totalVisitsRes,
+        totalPhotosRes,
         betaTestersRes,
         recentUsersRes,
         activityRes,
         configsRes,
         sysMetricsRes,
+        seriesRes,
       ] = await Promise.all([
         supabase
           .from('profiles')
@@ -358,6 +430,9 @@ export function OverviewPage({
         supabase
           .from('user_visits')
           .select('*', { count: 'exact', head: true }),
+        supabase
+          .from('user_photos')
+          .select('*', { count: 'exact', head: true }),
         supabase
           .from('tester_emails')
           .select('*', { count: 'exact', head: true }),
@@ -375,6 +450,8 @@ export function OverviewPage({
           .select('key, value, updated_at')
           .like('key', 'service_%'),
         supabase.rpc('get_system_metrics'),
+        // Bars fall back to the app_config snapshot without history
+        loadUsageSeries().catch(() => ({}) as Record<string, UsagePoint[]>),
       ])
 
       setMetrics({
@@ -387,6 +464,7 @@ export function OverviewPage({
         pendingPhotos: pendingPhotosRes.count ?? 0,
         openTickets: openTicketsRes.count ?? 0,
         totalVisits: totalVisitsRes.count ?? 0,
+        totalPhotos: totalPhotosRes.count ?? 0,
         betaTesters: betaTestersRes.count ?? 0,
       })
 
@@ -398,6 +476,7 @@ export function OverviewPage({
 
       setActivity((activityRes.data as AuditEntry[]) ?? [])
       setSystemConfigs((configsRes.data as ServiceConfig[]) ?? [])
+      setUsageSeries(seriesRes)
 
       if (sysMetricsRes.data) {
         setSystemMetrics(sysMetricsRes.data as unknown as SystemMetrics)
@@ -414,6 +493,17 @@ export function OverviewPage({
     loadData()
   }, [loadData])
 
+  // History covers the selected range and the equally long one before it
+  useEffect(() => {
+    loadSnapshots(rangePeriod(range).prevStart)
+      .then(setSnapshots)
+      .catch((err) => {
+        console.error('Metrics history load error:', err)
+        toast.error('Failed to load metrics history')
+        setSnapshots([])
+      })
+  }, [range])
+
   const handleRefresh = useCallback(() => {
     setRefreshing(true)
     loadData()
@@ -428,6 +518,42 @@ export function OverviewPage({
     return entry ? (entry.value as Record<string, unknown>) : null
   }
 
+  // Props that give a UsageBar its collected history. The latest sample wins
+  // over the app_config value, which only updates when a run completes.
+  function collected(service: string, metric: string, fallback: number | null) {
+    const series = usageSeries[seriesKey(service, metric)]
+    const latest = series?.length ? series[series.length - 1].value : null
+    return {
+      used: latest ?? fallback,
+      series,
+      kind: usageMetric(service, metric)?.kind,
+      auto: !!usageMetric(service, metric),
+    }
+  }
+
+  const handleCollectUsage = useCallback(async () => {
+    setCollecting(true)
+    try {
+      const results = await runUsageCollectors()
+      const failed = results.filter((r) => !r.ok)
+      if (failed.length === 0) {
+        toast.success(`Collected usage from ${results.length} sources`)
+      } else {
+        const labels = failed.map(
+          (f) => USAGE_COLLECTORS.find((c) => c.id === f.collector)?.label ?? f.collector
+        )
+        toast.error(`Collection failed for ${labels.join(', ')}`, {
+          description: failed.map((f) => f.error).filter(Boolean).join('; ') || undefined,
+        })
+      }
+      loadData()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Collection failed')
+    } finally {
+      setCollecting(false)
+    }
+  }, [loadData])
+
   // -------------------------------------------------------------------------
   // Configure dialog
   // -------------------------------------------------------------------------
@@ -519,6 +645,21 @@ export function OverviewPage({
         ? `+${metrics.newUsersThisWeek} vs last week`
         : undefined
 
+  const period = rangePeriod(range)
+  const daysIntoWeek = Math.floor((Date.now() - getMondayOfWeek(0).getTime()) / (24 * 60 * 60 * 1000)) + 1
+
+  // Change, tone and sparkline for a StatsCard, against the live value
+  // `prefix` names the metric when the card shows more than the one trended
+  function trendProps(metric: SnapshotMetric, live: number, prefix?: string) {
+    const trend = metricTrend(snapshots, metric, period, live)
+    const change = formatTrendChange(trend)
+    return {
+      change: change && prefix ? `${prefix} ${change}` : change,
+      changeTone: trendTone(metric, trend),
+      trend: trend.series,
+    }
+  }
+
   const appleConfig = getConfig('service_apple_key')
   const supabaseConfig = getConfig('service_supabase')
   const r2Config = getConfig('service_cloudflare_r2')
@@ -553,44 +694,75 @@ export function OverviewPage({
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
         {/* ── Metrics Grid ── */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="flex items-center justify-end gap-1">
+          {METRICS_RANGES.map((r) => (
+            <Button
+              key={r.value}
+              variant={range === r.value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setRange(r.value)}
+              className="text-xs"
+            >
+              {r.label}
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
           {loading ? (
-            Array.from({ length: 8 }).map((_, i) => (
+            Array.from({ length: 9 }).map((_, i) => (
               <Skeleton key={i} className="h-24 rounded-xl" />
             ))
           ) : metrics ? (
             <>
-              <StatsCard label="Total Users" value={metrics.totalUsers} />
+              <StatsCard
+                label="Total Users"
+                value={metrics.totalUsers}
+                {...trendProps('total_users', metrics.totalUsers)}
+              />
               <StatsCard
                 label="New Users This Week"
                 value={metrics.newUsersThisWeek}
                 change={newUsersChange}
+                trend={dailySignups
+                  .slice(0, daysIntoWeek)
+                  .map((d, i) => ({ at: i, value: d.thisWeek }))}
               />
               <StatsCard
                 label="Resorts"
                 value={`${metrics.verifiedResorts} / ${metrics.unverifiedResorts}`}
-                subtitle="verified / unverified"
+                subtitle="verified / unverified · trend is verified only"
+                {...trendProps('verified_resorts', metrics.verifiedResorts, 'Verified')}
               />
               <StatsCard
                 label="Beta Testers"
                 value={metrics.betaTesters}
+                {...trendProps('beta_testers', metrics.betaTesters)}
               />
               <StatsCard
                 label="Pending Submissions"
                 value={metrics.pendingSubmissions}
+                {...trendProps('pending_submissions', metrics.pendingSubmissions)}
               />
               <StatsCard
                 label="Pending Photos"
                 value={metrics.pendingPhotos}
+                {...trendProps('pending_photos', metrics.pendingPhotos)}
               />
               <StatsCard
                 label="Open Tickets"
                 value={metrics.openTickets}
+                {...trendProps('open_tickets', metrics.openTickets)}
               />
               <StatsCard
                 label="Total Visits"
                 value={metrics.totalVisits}
                 subtitle="across all users"
+                {...trendProps('total_visits', metrics.totalVisits)}
+              />
+              <StatsCard
+                label="Total Photos"
+                value={metrics.totalPhotos}
+                {...trendProps('total_photos', metrics.totalPhotos)}
               />
             </>
           ) : null}
@@ -714,13 +886,21 @@ export function OverviewPage({
             <div>
               <h2 className="text-sm font-semibold">System Health</h2>
               <p className="text-xs text-muted-foreground mt-0.5">
-                All service limits — auto-calculated where possible, manual for external APIs
+                All service limits — usage collected on a schedule, with trends and projected exhaustion
               </p>
             </div>
-            <Button variant="outline" size="sm" onClick={openConfigDialog}>
-              <Settings className="w-3.5 h-3.5 mr-1" />
-              Configure
-            </Button>
+            {can('system.configure') && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={handleCollectUsage} disabled={collecting}>
+                  <RefreshCw className={`w-3.5 h-3.5 mr-1 ${collecting ? 'animate-spin' : ''}`} />
+                  Collect now
+                </Button>
+                <Button variant="outline" size="sm" onClick={openConfigDialog}>
+                  <Settings className="w-3.5 h-3.5 mr-1" />
+                  Configure
+                </Button>
+              </div>
+            )}
           </div>
 
           {loading ? (
@@ -757,59 +937,56 @@ export function OverviewPage({
                     </a>
                   </div>
 
-                  {/* DB Size — auto */}
+                  {/* DB Size */}
                   <UsageBar
                     label="Database"
-                    used={dbSizeMb}
+                    {...collected('service_supabase', 'db_size_mb', dbSizeMb)}
                     limit={dbLimitMb}
                     unit="MB"
-                    auto
                   />
 
-                  {/* Egress — manual */}
+                  {/* Egress */}
                   <UsageBar
                     label="Egress"
-                    used={(supabaseConfig?.bandwidth_used_gb as number) ?? null}
+                    {...collected('service_supabase', 'bandwidth_used_gb', (supabaseConfig?.bandwidth_used_gb as number) ?? null)}
                     limit={(supabaseConfig?.bandwidth_limit_gb as number) ?? 5}
                     unit="GB"
                   />
 
-                  {/* Cached Egress — manual */}
+                  {/* Cached Egress */}
                   <UsageBar
                     label="Cached Egress"
-                    used={(supabaseConfig?.cached_egress_used_gb as number) ?? null}
+                    {...collected('service_supabase', 'cached_egress_used_gb', (supabaseConfig?.cached_egress_used_gb as number) ?? null)}
                     limit={(supabaseConfig?.cached_egress_limit_gb as number) ?? 5}
                     unit="GB"
                   />
 
-                  {/* Edge Function Invocations — auto estimate */}
+                  {/* Edge Function Invocations */}
                   <UsageBar
                     label="Edge Functions"
-                    used={systemMetrics?.edge_fn_calls_month ?? 0}
+                    {...collected('service_supabase', 'edge_invocations', systemMetrics?.edge_fn_calls_month ?? 0)}
                     limit={(supabaseConfig?.edge_invocations_limit as number) ?? 500000}
                     unit=""
-                    auto
                     formatValue={(v) => v.toLocaleString()}
                     formatLimit={(v) => `${(v / 1000).toFixed(0)}K`}
                     note="rate-limited calls only"
                   />
 
-                  {/* File Storage — manual */}
+                  {/* File Storage */}
                   <UsageBar
                     label="File Storage"
-                    used={(supabaseConfig?.file_storage_used_gb as number) ?? null}
+                    {...collected('service_supabase', 'file_storage_used_gb', (supabaseConfig?.file_storage_used_gb as number) ?? null)}
                     limit={(supabaseConfig?.file_storage_limit_gb as number) ?? 1}
                     unit="GB"
                     note="legacy — new uploads use R2"
                   />
 
-                  {/* Auth MAUs — auto */}
+                  {/* Auth MAUs */}
                   <UsageBar
                     label="Auth MAUs"
-                    used={systemMetrics?.total_users ?? 0}
+                    {...collected('service_supabase', 'auth_mau', systemMetrics?.total_users ?? 0)}
                     limit={(supabaseConfig?.auth_mau_limit as number) ?? 50000}
                     unit=""
-                    auto
                     formatValue={(v) => v.toLocaleString()}
                     formatLimit={(v) => `${(v / 1000).toFixed(0)}K`}
                   />
@@ -831,31 +1008,30 @@ export function OverviewPage({
                     </div>
                   </div>
 
-                  {/* Storage — auto estimate */}
+                  {/* Storage */}
                   <UsageBar
                     label="Storage"
-                    used={r2StorageGb}
+                    {...collected('service_cloudflare_r2', 'storage_used_gb', r2StorageGb)}
                     limit={r2LimitGb}
                     unit="GB"
-                    auto
                     formatValue={(v) => v.toFixed(2)}
                     note={systemMetrics ? `${systemMetrics.total_photos} photos` : undefined}
                   />
 
-                  {/* Class A Operations — manual */}
+                  {/* Class A Operations */}
                   <UsageBar
                     label="Class A Ops (PUT/LIST)"
-                    used={(r2Config?.class_a_ops_used as number) ?? null}
+                    {...collected('service_cloudflare_r2', 'class_a_ops_used', (r2Config?.class_a_ops_used as number) ?? null)}
                     limit={(r2Config?.class_a_ops_limit as number) ?? 1000000}
                     unit="/mo"
                     formatValue={(v) => `${(v / 1000).toFixed(0)}K`}
                     formatLimit={(v) => `${(v / 1000000).toFixed(0)}M`}
                   />
 
-                  {/* Class B Operations — manual */}
+                  {/* Class B Operations */}
                   <UsageBar
                     label="Class B Ops (GET)"
-                    used={(r2Config?.class_b_ops_used as number) ?? null}
+                    {...collected('service_cloudflare_r2', 'class_b_ops_used', (r2Config?.class_b_ops_used as number) ?? null)}
                     limit={(r2Config?.class_b_ops_limit as number) ?? 10000000}
                     unit="/mo"
                     formatValue={(v) => `${(v / 1000).toFixed(0)}K`}
@@ -929,7 +1105,7 @@ export function OverviewPage({
                   </div>
                   <UsageBar
                     label="Events"
-                    used={(sentryConfig?.events_used as number) ?? null}
+                    {...collected('service_sentry', 'events_used', (sentryConfig?.events_used as number) ?? null)}
                     limit={(sentryConfig?.events_limit_monthly as number) ?? 5000}
                     unit="/mo"
                     formatValue={(v) => v.toLocaleString()}
@@ -958,7 +1134,7 @@ export function OverviewPage({
                   </div>
                   <UsageBar
                     label="Events"
-                    used={(posthogConfig?.events_used as number) ?? null}
+                    {...collected('service_posthog', 'events_used', (posthogConfig?.events_used as number) ?? null)}
                     limit={(posthogConfig?.events_limit_monthly as number) ?? 1000000}
                     unit="/mo"
                     formatValue={(v) => v.toLocaleString()}
@@ -966,7 +1142,7 @@ export function OverviewPage({
                   />
                   <UsageBar
                     label="Session Replays"
-                    used={(posthogConfig?.sessions_used as number) ?? null}
+                    {...collected('service_posthog', 'sessions_used', (posthogConfig?.sessions_used as number) ?? null)}
                     limit={(posthogConfig?.sessions_limit_monthly as number) ?? 5000}
                     unit="/mo"
                     formatValue={(v) => v.toLocaleString()}
@@ -1096,7 +1272,7 @@ export function OverviewPage({
                 Supabase
               </h4>
               <p className="text-[10px] text-muted-foreground">
-                DB size and Auth MAUs are auto-calculated. Update egress and file storage after checking the dashboard.
+                Usage is collected automatically. Only plan limits are set here.
               </p>
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -1139,23 +1315,6 @@ export function OverviewPage({
                     className="mt-1"
                   />
                 </div>
-                <div>
-                  <Label className="text-xs">Egress Used (GB)</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    placeholder="Check dashboard"
-                    value={(configForm.service_supabase?.bandwidth_used_gb as number) ?? ''}
-                    onChange={(e) =>
-                      updateConfigField(
-                        'service_supabase',
-                        'bandwidth_used_gb',
-                        e.target.value ? parseFloat(e.target.value) : null
-                      )
-                    }
-                    className="mt-1"
-                  />
-                </div>
                 <div>
                   <Label className="text-xs">Cached Egress Limit (GB)</Label>
                   <Input
@@ -1171,23 +1330,6 @@ export function OverviewPage({
                     className="mt-1"
                   />
                 </div>
-                <div>
-                  <Label className="text-xs">Cached Egress Used (GB)</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    placeholder="Check dashboard"
-                    value={(configForm.service_supabase?.cached_egress_used_gb as number) ?? ''}
-                    onChange={(e) =>
-                      updateConfigField(
-                        'service_supabase',
-                        'cached_egress_used_gb',
-                        e.target.value ? parseFloat(e.target.value) : null
-                      )
-                    }
-                    className="mt-1"
-                  />
-                </div>
                 <div>
                   <Label className="text-xs">Edge Fn Limit</Label>
                   <Input
@@ -1233,23 +1375,6 @@ export function OverviewPage({
                     className="mt-1"
                   />
                 </div>
-                <div>
-                  <Label className="text-xs">File Storage Used (GB)</Label>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    placeholder="Check dashboard"
-                    value={(configForm.service_supabase?.file_storage_used_gb as number) ?? ''}
-                    onChange={(e) =>
-                      updateConfigField(
-                        'service_supabase',
-                        'file_storage_used_gb',
-                        e.target.value ? parseFloat(e.target.value) : null
-                      )
-                    }
-                    className="mt-1"
-                  />
-                </div>
               </div>
             </div>
 
@@ -1260,7 +1385,7 @@ export function OverviewPage({
                 Cloudflare R2
               </h4>
               <p className="text-[10px] text-muted-foreground">
-                Storage is auto-estimated from photo counts. Update Class A/B ops after checking Cloudflare dashboard.
+                Storage and Class A/B ops are collected automatically from the Cloudflare API.
               </p>
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -1303,22 +1428,6 @@ export function OverviewPage({
                     className="mt-1"
                   />
                 </div>
-                <div>
-                  <Label className="text-xs">Class A Ops Used</Label>
-                  <Input
-                    type="number"
-                    placeholder="Check dashboard"
-                    value={(configForm.service_cloudflare_r2?.class_a_ops_used as number) ?? ''}
-                    onChange={(e) =>
-                      updateConfigField(
-                        'service_cloudflare_r2',
-                        'class_a_ops_used',
-                        e.target.value ? parseInt(e.target.value) : null
-                      )
-                    }
-                    className="mt-1"
-                  />
-                </div>
                 <div>
                   <Label className="text-xs">Class B Ops Limit</Label>
                   <Input
@@ -1334,22 +1443,6 @@ export function OverviewPage({
                     className="mt-1"
                   />
                 </div>
-                <div>
-                  <Label className="text-xs">Class B Ops Used</Label>
-                  <Input
-                    type="number"
-                    placeholder="Check dashboard"
-                    value={(configForm.service_cloudflare_r2?.class_b_ops_used as number) ?? ''}
-                    onChange={(e) =>
-                      updateConfigField(
-                        'service_cloudflare_r2',
-                        'class_b_ops_used',
-                        e.target.value ? parseInt(e.target.value) : null
-                      )
-                    }
-                    className="mt-1"
-                  />
-                </div>
               </div>
             </div>
 
@@ -1360,7 +1453,7 @@ export function OverviewPage({
                 Sentry
               </h4>
               <p className="text-[10px] text-muted-foreground">
-                Update event count after checking Sentry dashboard.
+                Event usage is collected automatically from the Sentry API.
               </p>
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -1388,22 +1481,6 @@ export function OverviewPage({
                     className="mt-1"
                   />
                 </div>
-                <div>
-                  <Label className="text-xs">Events Used</Label>
-                  <Input
-                    type="number"
-                    placeholder="Check dashboard"
-                    value={(configForm.service_sentry?.events_used as number) ?? ''}
-                    onChange={(e) =>
-                      updateConfigField(
-                        'service_sentry',
-                        'events_used',
-                        e.target.value ? parseInt(e.target.value) : null
-                      )
-                    }
-                    className="mt-1"
-                  />
-                </div>
               </div>
             </div>
 
@@ -1414,7 +1491,7 @@ export function OverviewPage({
                 PostHog
               </h4>
               <p className="text-[10px] text-muted-foreground">
-                Update event and session replay counts after checking PostHog dashboard.
+                Event and session replay usage is collected automatically from the PostHog API.
               </p>
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -1444,22 +1521,6 @@ export function OverviewPage({
                     className="mt-1"
                   />
                 </div>
-                <div>
-                  <Label className="text-xs">Events Used</Label>
-                  <Input
-                    type="number"
-                    placeholder="Check dashboard"
-                    value={(configForm.service_posthog?.events_used as number) ?? ''}
-                    onChange={(e) =>
-                      updateConfigField(
-                        'service_posthog',
-                        'events_used',
-                        e.target.value ? parseInt(e.target.value) : null
-                      )
-                    }
-                    className="mt-1"
-                  />
-                </div>
                 <div>
                   <Label className="text-xs">Session Replay Limit</Label>
                   <Input
@@ -1477,22 +1538,6 @@ export function OverviewPage({
                     className="mt-1"
                   />
                 </div>
-                <div>
-                  <Label className="text-xs">Sessions Used</Label>
-                  <Input
-                    type="number"
-                    placeholder="Check dashboard"
-                    value={(configForm.service_posthog?.sessions_used as number) ?? ''}
-                    onChange={(e) =>
-                      updateConfigField(
-                        'service_posthog',
-                        'sessions_used',
-                        e.target.value ? parseInt(e.target.value) : null
-                      )
-                    }
-                    className="mt-1"
-                  />
-                </div>
               </div>
             </div>
           </div>
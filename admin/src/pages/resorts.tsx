@@ -1,12 +1,41 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { toast } from 'sonner'
-import { useAuditLog } from '@/hooks/use-audit-log'
-import { PAGE_SIZE, SUPABASE_URL } from '@/lib/constants'
+import { useAuditLog, snapshotChanges } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
+import { SUPABASE_URL } from '@/lib/constants'
+import { updateIfUnchanged, conflictingFields } from '@/lib/optimistic-update'
+import { mergeResorts, type MergeField, type MergeResort } from '@/lib/resort-merge'
+import { countPendingDuplicates, setCandidateStatus } from '@/lib/duplicate-scan'
+import { recordResortChanges, type ResortFieldChange } from '@/lib/resort-history'
+import { COMPLETENESS_LEVELS, completeness, evaluateResort } from '@/lib/data-quality'
+import {
+  MONTH_NAMES,
+  calendarFields,
+  calendarOf,
+  describeCalendar,
+  hasInvalidCalendar,
+  seasonFieldsFromText,
+  seasonMonths,
+  type SeasonCalendar,
+} from '@/lib/seasons'
+import { useRecordPresence } from '@/hooks/use-realtime'
+import { useServerTable } from '@/hooks/use-server-table'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
+import type { ServerFilter } from '@/lib/server-query'
 import { Header } from '@/components/layout/header'
 import { ExportButton } from '@/components/shared/export-button'
 import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import { ConflictDialog } from '@/components/shared/conflict-dialog'
+import { PresenceIndicator } from '@/components/shared/presence-indicator'
+import { ResortMapPicker } from '@/components/shared/resort-map-picker'
+import { ResortMergeDialog } from '@/components/shared/resort-merge-dialog'
+import { DuplicateQueueDialog } from '@/components/shared/duplicate-queue-dialog'
+import { ResortHistoryTimeline } from '@/components/shared/resort-history-timeline'
+import { QualityIssues } from '@/components/shared/quality-issues'
+import { SeasonCalendarEditor } from '@/components/shared/season-calendar-editor'
 import { DataTable } from '@/components/shared/data-table'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -27,8 +56,8 @@ import {
   SelectContent,
   SelectItem,
 } from '@/components/ui/select'
-import { type ColumnDef } from '@tanstack/react-table'
-import { Search, Loader2, Trash2, Save, AlertTriangle, Plus, ImageIcon } from 'lucide-react'
+import { type ColumnDef, type VisibilityState } from '@tanstack/react-table'
+import { Search, Loader2, Trash2, Save, AlertTriangle, Plus, ImageIcon, GitMerge, Copy } from 'lucide-react'
 
 interface Resort {
   id: string
@@ -51,6 +80,8 @@ interface Resort {
   pass_affiliation: string | null
   season_open: string | null
   season_close: string | null
+  season_calendar: SeasonCalendar | null
+  season_months: number[] | null
   has_night_skiing: boolean | null
   instagram_handle: string | null
   description: string | null
@@ -60,22 +91,6 @@ interface Resort {
   updated_at: string | null
 }
 
-// The 21 data fields we track for completeness (excludes id, cover_image_url, verified, created_at, updated_at, verification_notes)
-const DATA_FIELDS: (keyof Resort)[] = [
-  'name', 'country', 'country_code', 'region', 'lat', 'lng',
-  'website', 'vertical_m', 'runs', 'lifts', 'annual_snowfall_cm',
-  'beginner_pct', 'intermediate_pct', 'advanced_pct',
-  'season_open', 'season_close', 'has_night_skiing',
-  'pass_affiliation', 'instagram_handle', 'budget_tier', 'description',
-]
-
-function countFilledFields(resort: Resort): number {
-  return DATA_FIELDS.filter((f) => {
-    const v = resort[f]
-    return v !== null && v !== undefined && v !== ''
-  }).length
-}
-
 const columns: ColumnDef<Resort, unknown>[] = [
   {
     accessorKey: 'name',
@@ -121,20 +136,24 @@ const columns: ColumnDef<Resort, unknown>[] = [
       return val ? `${val}m` : '-'
     },
   },
+  {
+    id: 'season',
+    header: 'Season',
+    enableSorting: false,
+    cell: ({ row }) => (
+      <span className="text-xs text-muted-foreground whitespace-nowrap">
+        {describeCalendar(calendarOf({ ...row.original }))}
+      </span>
+    ),
+  },
   {
     id: 'data',
     header: 'Data',
+    enableSorting: false,
     cell: ({ row }) => {
-      const filled = countFilledFields(row.original)
-      const total = DATA_FIELDS.length
-      const color =
-        filled >= 18
-          ? 'text-green-400'
-          : filled >= 12
-            ? 'text-yellow-400'
-            : 'text-red-400'
+      const { filled, total, level } = completeness({ ...row.original })
       return (
-        <span className={`font-mono text-xs ${color}`}>
+        <span className={`font-mono text-xs ${COMPLETENESS_LEVELS[level].text}`}>
           {filled}/{total}
         </span>
       )
@@ -142,20 +161,141 @@ const columns: ColumnDef<Resort, unknown>[] = [
   },
 ]
 
-export function ResortsPage() {
+const RESORTS_SORT = { column: 'name', desc: false }
+const RESORT_SEARCH_COLUMNS = ['name']
+
+type ResortFilters = {
+  search: string
+  country: string
+  verified: 'all' | 'verified' | 'unverified'
+  // 1–12: only resorts whose season calendar covers the month
+  openMonth: number | null
+}
+
+const RESORTS_VIEW_DEFAULTS: ViewState<ResortFilters> = {
+  filters: { search: '', country: '', verified: 'all', openMonth: null },
+  sorting: [],
+  columnVisibility: {},
+}
+
+interface ResortsPageProps {
+  resortId: string | null
+  onResortChange: (resortId: string | null) => void
+}
+
+export function ResortsPage({ resortId, onResortChange }: ResortsPageProps) {
   const { log } = useAuditLog()
+  const { can } = usePermissions()
 
-  const [resorts, setResorts] = useState<Resort[]>([])
-  const [totalCount, setTotalCount] = useState(0)
-  const [page, setPage] = useState(0)
-  const [loading, setLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
+  // Search and country run on submit; the inputs alone don't hit the server
+  const [searchInput, setSearchInput] = useState('')
   const [search, setSearch] = useState('')
+  const [countryInput, setCountryInput] = useState('')
+  const [country, setCountry] = useState('')
+  const [verified, setVerified] = useState<ResortFilters['verified']>('all')
+  const [openMonth, setOpenMonth] = useState<number | null>(null)
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+
+  const filters = useMemo(() => {
+    const list: ServerFilter[] = []
+    if (country) list.push({ column: 'country', op: 'ilike', value: country })
+    if (verified !== 'all') list.push({ column: 'verified', op: 'eq', value: verified === 'verified' })
+    if (openMonth) list.push({ column: 'season_months', op: 'cs', value: [openMonth] })
+    return list
+  }, [country, verified, openMonth])
+
+  const {
+    rows: resorts,
+    loading,
+    refreshing,
+    sorting,
+    setSorting,
+    totalCount,
+    query,
+    reload: loadResorts,
+    tableProps,
+  } = useServerTable<Resort>({
+    table: 'resorts',
+    defaultSort: RESORTS_SORT,
+    filters,
+    search,
+    searchColumns: RESORT_SEARCH_COLUMNS,
+    errorMessage: 'Failed to load resorts',
+  })
+
+  const exportSource = useMemo(() => ({ query, totalCount }), [query, totalCount])
+
+  // Saved views
+  const viewState = useMemo<ViewState<ResortFilters>>(
+    () => ({ filters: { search, country, verified, openMonth }, sorting, columnVisibility }),
+    [search, country, verified, openMonth, sorting, columnVisibility]
+  )
+  const applyView = useCallback(
+    ({ filters: f, sorting: s, columnVisibility: c }: ViewState<ResortFilters>) => {
+      setSearch(f.search)
+      setSearchInput(f.search)
+      setCountry(f.country)
+      setCountryInput(f.country)
+      setVerified(f.verified)
+      // Views saved before the season filter existed don't have it
+      setOpenMonth(f.openMonth ?? null)
+      setSorting(s)
+      setColumnVisibility(c)
+    },
+    [setSorting]
+  )
+  const views = useSavedViews({
+    page: 'resorts',
+    state: viewState,
+    defaults: RESORTS_VIEW_DEFAULTS,
+    apply: applyView,
+  })
 
   // Edit dialog
   const [editResort, setEditResort] = useState<Resort | null>(null)
   const [editForm, setEditForm] = useState<Partial<Resort>>({})
   const [saving, setSaving] = useState(false)
+  const [conflict, setConflict] = useState<{
+    mine: Record<string, unknown>
+    theirs: Resort
+    fields: string[]
+  } | null>(null)
+  const viewers = useRecordPresence(editResort ? `resort:${editResort.id}` : null)
+
+  const editIssues = useMemo(() => (editResort ? evaluateResort({ ...editForm }) : []), [editResort, editForm])
+
+  // An invalid calendar can't be saved; the editor lists what's wrong
+  const editSeasonInvalid = useMemo(() => hasInvalidCalendar({ ...editForm }), [editForm])
+
+  // Fields put back from the history timeline, mapped to the change they undo
+  const [restoredFields, setRestoredFields] = useState<Record<string, string>>({})
+
+  // Merge
+  const [mergeGroup, setMergeGroup] = useState<MergeResort[] | null>(null)
+  const [merging, setMerging] = useState(false)
+
+  // Catalog-wide duplicate queue. A merge started from it returns to it.
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false)
+  const [pendingDuplicates, setPendingDuplicates] = useState(0)
+  const [mergeCandidateId, setMergeCandidateId] = useState<string | null>(null)
+
+  const loadPendingDuplicates = useCallback(() => {
+    countPendingDuplicates()
+      .then(setPendingDuplicates)
+      .catch((err) => console.error('Duplicate count error:', err))
+  }, [])
+
+  useEffect(() => {
+    loadPendingDuplicates()
+  }, [loadPendingDuplicates])
+
+  const closeMerge = useCallback(() => {
+    setMergeGroup(null)
+    if (mergeCandidateId) {
+      setMergeCandidateId(null)
+      setDuplicatesOpen(true)
+    }
+  }, [mergeCandidateId])
 
   // Delete confirm
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false)
@@ -164,15 +304,13 @@ export function ResortsPage() {
   // Add dialog
   const [addDialogOpen, setAddDialogOpen] = useState(false)
   const [addForm, setAddForm] = useState<Partial<Resort>>({ verified: false })
+  const addSeasonInvalid = useMemo(() => hasInvalidCalendar({ ...addForm }), [addForm])
   const [adding, setAdding] = useState(false)
 
   // Image processing (shared between add and edit)
   const [processingImage, setProcessingImage] = useState(false)
   const [sourceImageUrl, setSourceImageUrl] = useState('')
 
-  // Duplicates
-  const [duplicates, setDuplicates] = useState<string[]>([])
-
   // Fetch random placeholder URL from existing resorts
   const getRandomPlaceholder = useCallback(async (): Promise<string | null> => {
     const { data } = await supabase
@@ -204,78 +342,66 @@ export function ResortsPage() {
     return data.url
   }, [])
 
-  const loadResorts = useCallback(async () => {
-    try {
-      const from = page * PAGE_SIZE
-      const to = from + PAGE_SIZE - 1
-
-      let query = supabase
-        .from('resorts')
-        .select('*')
-        .order('name', { ascending: true })
-        .range(from, to)
-
-      if (search.trim()) {
-        query = query.ilike('name', `%${search.trim()}%`)
-      }
-
-      let countQuery = supabase
-        .from('resorts')
-        .select('*', { count: 'exact', head: true })
-
-      if (search.trim()) {
-        countQuery = countQuery.ilike('name', `%${search.trim()}%`)
-      }
-
-      const [dataRes, countRes] = await Promise.all([query, countQuery])
-
-      const data = (dataRes.data as Resort[]) ?? []
-      setResorts(data)
-      setTotalCount(countRes.count ?? 0)
-
-      // Detect duplicates
-      const nameCountryMap = new Map<string, number>()
-      for (const r of data) {
-        const key = `${r.name.toLowerCase()}|${r.country.toLowerCase()}`
-        nameCountryMap.set(key, (nameCountryMap.get(key) ?? 0) + 1)
-      }
-      const dupes: string[] = []
-      nameCountryMap.forEach((count, key) => {
-        if (count > 1) {
-          const [name, country] = key.split('|')
-          dupes.push(`${name} (${country})`)
-        }
-      })
-      setDuplicates(dupes)
-    } catch {
-      toast.error('Failed to load resorts')
-    } finally {
-      setLoading(false)
-      setRefreshing(false)
+  // Same name + country more than once on the current page
+  const duplicates = useMemo(() => {
+    const nameCountryMap = new Map<string, Resort[]>()
+    for (const r of resorts) {
+      const key = `${r.name.toLowerCase()}|${r.country.toLowerCase()}`
+      nameCountryMap.set(key, [...(nameCountryMap.get(key) ?? []), r])
     }
-  }, [page, search])
-
-  useEffect(() => {
-    loadResorts()
-  }, [loadResorts])
+    return Array.from(nameCountryMap.values()).filter((group) => group.length > 1)
+  }, [resorts])
 
   const handleRefresh = useCallback(() => {
-    setRefreshing(true)
-    loadResorts()
+    loadResorts(true)
   }, [loadResorts])
 
   const handleSearchSubmit = useCallback(() => {
-    setPage(0)
-    setLoading(true)
-    loadResorts()
-  }, [loadResorts])
+    setSearch(searchInput)
+    setCountry(countryInput.trim())
+  }, [searchInput, countryInput])
 
   const openEdit = useCallback((resort: Resort) => {
     setEditResort(resort)
     setEditForm({ ...resort })
+    setRestoredFields({})
     setSourceImageUrl('')
   }, [])
 
+  // Open the resort named in the URL. It may sit on another page of results,
+  // so fall back to fetching it directly.
+  useEffect(() => {
+    if (!resortId) {
+      setEditResort(null)
+      return
+    }
+    if (loading || editResort?.id === resortId) return
+    const match = resorts.find((r) => r.id === resortId)
+    if (match) {
+      openEdit(match)
+      return
+    }
+
+    let cancelled = false
+    supabase
+      .from('resorts')
+      .select('*')
+      .eq('id', resortId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (cancelled) return
+        if (data) {
+          openEdit(data as Resort)
+        } else {
+          toast.error('Resort not found')
+          onResortChange(null)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [resortId, resorts, loading, editResort?.id, openEdit, onResortChange])
+
   const updateField = useCallback(
     (field: keyof Resort, value: string | number | boolean | null) => {
       setEditForm((prev) => ({ ...prev, [field]: value }))
@@ -283,9 +409,95 @@ export function ResortsPage() {
     []
   )
 
-  const handleSave = useCallback(async () => {
+  // `base` is the version the payload was edited against: the row as opened,
+  // or the other admin's version after a conflict merge
+  const saveResort = useCallback(
+    async (payload: Record<string, unknown>, base: Resort) => {
+      setSaving(true)
+      try {
+        const result = await updateIfUnchanged('resorts', base.id, payload, base.updated_at)
+        if (result.status === 'missing') {
+          toast.error('This resort was deleted by another admin')
+          onResortChange(null)
+          loadResorts()
+          return
+        }
+        if (result.status === 'conflict') {
+          const theirs = result.current as unknown as Resort
+          const fields = conflictingFields(payload, result.current)
+          if (fields.length > 0) {
+            setConflict({ mine: payload, theirs, fields })
+            return
+          }
+          // Their save already matches ours: nothing was written, so there is
+          // nothing to log. Reopen on their version so a further save is based on it.
+          openEdit(theirs)
+          toast.info('Another admin already saved the same changes')
+          return
+        }
+
+        const restored = Object.keys(restoredFields).filter((field) => field in payload)
+        await recordResortChanges([
+          {
+            resortId: base.id,
+            before: base as unknown as Record<string, unknown>,
+            after: Object.fromEntries(Object.entries(payload).filter(([field]) => !restored.includes(field))),
+            source: 'manual',
+          },
+          ...restored.map((field) => ({
+            resortId: base.id,
+            before: base as unknown as Record<string, unknown>,
+            after: { [field]: payload[field] },
+            source: 'restore' as const,
+            sourceRef: restoredFields[field],
+          })),
+        ])
+
+        await log({
+          action: 'update_resort',
+          entity_type: 'resort',
+          entity_id: base.id,
+          details: { resort_name: payload.name },
+          ...snapshotChanges(base, payload),
+        })
+
+        toast.success(`Saved: ${payload.name}`)
+        onResortChange(null)
+        loadResorts()
+      } catch (err) {
+        toast.error(`Failed to save: ${err instanceof Error ? err.message : 'unknown error'}`)
+      } finally {
+        setSaving(false)
+      }
+    },
+    [log, loadResorts, onResortChange, openEdit, restoredFields]
+  )
+
+  const handleRestoreField = useCallback((change: ResortFieldChange) => {
+    setEditForm((prev) => {
+      const next = { ...prev, [change.field]: change.old_value }
+      // Keep the calendar, its months and the strings in step with what came back
+      if (change.field === 'season_calendar') {
+        return { ...next, ...calendarFields(change.old_value as SeasonCalendar | null) }
+      }
+      if (change.field === 'season_open' || change.field === 'season_close') {
+        return { ...next, ...seasonFieldsFromText(next.season_open, next.season_close, prev.season_calendar ?? null) }
+      }
+      if (change.field === 'season_months') {
+        return { ...next, season_months: seasonMonths(prev.season_calendar ?? null) }
+      }
+      return next
+    })
+    setRestoredFields((prev) => ({ ...prev, [change.field]: change.id }))
+    toast.info(`Restored ${change.field} in the form. Save to apply.`)
+  }, [])
+
+  const handleSave = useCallback(() => {
     if (!editResort) return
-    setSaving(true)
+    if (editSeasonInvalid) {
+      toast.error('Fix the season calendar before saving')
+      return
+    }
 
     const {
       id: _id,
@@ -294,29 +506,18 @@ export function ResortsPage() {
       ...payload
     } = editForm as Resort
 
-    const { error } = await supabase
-      .from('resorts')
-      .update(payload)
-      .eq('id', editResort.id)
-
-    if (error) {
-      toast.error(`Failed to save: ${error.message}`)
-      setSaving(false)
-      return
-    }
-
-    await log({
-      action: 'update_resort',
-      entity_type: 'resort',
-      entity_id: editResort.id,
-      details: { resort_name: editForm.name },
-    })
+    saveResort(payload, editResort)
+  }, [editResort, editForm, editSeasonInvalid, saveResort])
 
-    toast.success(`Saved: ${editForm.name}`)
-    setSaving(false)
-    setEditResort(null)
-    loadResorts()
-  }, [editResort, editForm, log, loadResorts])
+  const handleResolveConflict = useCallback(
+    (merged: Record<string, unknown>) => {
+      if (!conflict) return
+      const { theirs } = conflict
+      setConflict(null)
+      saveResort(merged, theirs)
+    },
+    [conflict, saveResort]
+  )
 
   const handleDelete = useCallback(async () => {
     if (!editResort) return
@@ -343,9 +544,59 @@ export function ResortsPage() {
     toast.success(`Deleted: ${editResort.name}`)
     setDeleting(false)
     setDeleteConfirmOpen(false)
-    setEditResort(null)
+    onResortChange(null)
     loadResorts()
-  }, [editResort, log, loadResorts])
+  }, [editResort, log, loadResorts, onResortChange])
+
+  const handleMerge = useCallback(
+    async (survivor: MergeResort, merged: MergeResort[], fields: Partial<Record<MergeField, unknown>>) => {
+      setMerging(true)
+      try {
+        const result = await mergeResorts(survivor.id, merged.map((r) => r.id), fields)
+        const written = [...Object.keys(fields), 'updated_at']
+        const { before, after } = snapshotChanges(
+          survivor,
+          Object.fromEntries(written.map((key) => [key, result.survivor[key] ?? null]))
+        )
+        recordResortChanges([
+          {
+            resortId: survivor.id,
+            before: survivor,
+            after: Object.fromEntries(Object.keys(fields).map((key) => [key, result.survivor[key] ?? null])),
+            source: 'merge',
+            sourceRef: result.merge_id,
+          },
+        ])
+        log({
+          action: 'merge_resorts',
+          entity_type: 'resort',
+          entity_id: survivor.id,
+          before,
+          after,
+          details: {
+            merge_id: result.merge_id,
+            resort_name: survivor.name,
+            merged_ids: merged.map((r) => r.id),
+            merged_names: merged.map((r) => r.name),
+            reassigned: result.reassigned,
+          },
+        })
+        toast.success(`Merged ${merged.length} resort${merged.length === 1 ? '' : 's'} into ${survivor.name}`)
+        if (mergeCandidateId) {
+          await setCandidateStatus(mergeCandidateId, 'merged').catch(() => {})
+          loadPendingDuplicates()
+        }
+        closeMerge()
+        if (editResort && merged.some((r) => r.id === editResort.id)) onResortChange(null)
+        loadResorts()
+      } catch (err) {
+        toast.error(`Merge failed: ${err instanceof Error ? err.message : 'unknown error'}`)
+      } finally {
+        setMerging(false)
+      }
+    },
+    [log, editResort, onResortChange, loadResorts, mergeCandidateId, loadPendingDuplicates, closeMerge]
+  )
 
   const updateAddField = useCallback(
     (field: keyof Resort, value: string | number | boolean | null) => {
@@ -359,6 +610,10 @@ export function ResortsPage() {
       toast.error('Name and country are required')
       return
     }
+    if (addSeasonInvalid) {
+      toast.error('Fix the season calendar before adding')
+      return
+    }
     setAdding(true)
     try {
       // Auto-assign placeholder if no cover image provided
@@ -370,11 +625,12 @@ export function ResortsPage() {
         }
       }
 
-      const { error } = await supabase.from('resorts').insert(payload)
+      const { data: inserted, error } = await supabase.from('resorts').insert(payload).select('id').single()
       if (error) {
         toast.error(`Failed to add: ${error.message}`)
         return
       }
+      await recordResortChanges([{ resortId: inserted.id, before: null, after: payload, source: 'manual' }])
 
       await log({
         action: 'create_resort',
@@ -392,7 +648,7 @@ export function ResortsPage() {
     } finally {
       setAdding(false)
     }
-  }, [addForm, log, loadResorts, getRandomPlaceholder])
+  }, [addForm, addSeasonInvalid, log, loadResorts, getRandomPlaceholder])
 
   const handleProcessImage = useCallback(async (mode: 'add' | 'edit') => {
     const name = mode === 'add' ? addForm.name : editForm.name
@@ -422,6 +678,7 @@ export function ResortsPage() {
         subtitle="Manage ski resort database"
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -431,22 +688,67 @@ export function ResortsPage() {
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
               placeholder="Search resorts..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSearchSubmit()}
               className="pl-9"
             />
           </div>
+          <Input
+            placeholder="Country"
+            value={countryInput}
+            onChange={(e) => setCountryInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSearchSubmit()}
+            className="w-36"
+          />
+          <Select value={verified} onValueChange={(v) => setVerified(v as ResortFilters['verified'])}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Resorts</SelectItem>
+              <SelectItem value="verified">Verified</SelectItem>
+              <SelectItem value="unverified">Unverified</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={openMonth ? String(openMonth) : 'any'}
+            onValueChange={(v) => setOpenMonth(v === 'any' ? null : Number(v))}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any Season</SelectItem>
+              {MONTH_NAMES.map((name, i) => (
+                <SelectItem key={name} value={String(i + 1)}>
+                  Open in {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button variant="outline" size="sm" onClick={handleSearchSubmit}>
             Search
           </Button>
-          <Button size="sm" onClick={() => setAddDialogOpen(true)} className="gap-1.5">
-            <Plus className="w-4 h-4" />
-            Add Resort
+          <Button variant="outline" size="sm" onClick={() => setDuplicatesOpen(true)} className="gap-1.5">
+            <Copy className="w-4 h-4" />
+            Duplicates
+            {pendingDuplicates > 0 && (
+              <Badge className="bg-yellow-500/20 text-yellow-400 border-0 px-1.5 py-0 text-[10px]">
+                {pendingDuplicates}
+              </Badge>
+            )}
           </Button>
+          {can('resorts.edit') && (
+            <Button size="sm" onClick={() => setAddDialogOpen(true)} className="gap-1.5">
+              <Plus className="w-4 h-4" />
+              Add Resort
+            </Button>
+          )}
           <ExportButton
             data={resorts as unknown as Record<string, unknown>[]}
             filename="resorts"
+            source={exportSource}
           />
         </div>
 
@@ -460,17 +762,10 @@ export function ResortsPage() {
         ) : (
           <DataTable
             columns={columns}
-            data={resorts}
-            onRowClick={openEdit}
-            pageSize={PAGE_SIZE}
-            serverPagination={{
-              totalCount,
-              page,
-              onPageChange: (p) => {
-                setPage(p)
-                setLoading(true)
-              },
-            }}
+            {...tableProps}
+            columnVisibility={columnVisibility}
+            onColumnVisibilityChange={setColumnVisibility}
+            onRowClick={(resort) => onResortChange(resort.id)}
           />
         )}
 
@@ -486,9 +781,20 @@ export function ResortsPage() {
                 The following resorts appear more than once on this page (same name + country):
               </p>
               <ul className="mt-2 text-xs space-y-1">
-                {duplicates.map((d) => (
-                  <li key={d} className="text-yellow-300">
-                    {d}
+                {duplicates.map((group) => (
+                  <li key={group[0].id} className="flex items-center gap-2 text-yellow-300">
+                    {group[0].name} ({group[0].country}) × {group.length}
+                    {can('resorts.delete') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 text-xs gap-1"
+                        onClick={() => setMergeGroup(group)}
+                      >
+                        <GitMerge className="w-3 h-3" />
+                        Merge
+                      </Button>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -500,7 +806,7 @@ export function ResortsPage() {
       {/* Edit Dialog */}
       <Dialog
         open={!!editResort}
-        onOpenChange={(open) => !open && setEditResort(null)}
+        onOpenChange={(open) => !open && onResortChange(null)}
       >
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
           <DialogHeader>
@@ -508,10 +814,18 @@ export function ResortsPage() {
             <DialogDescription>
               {editForm.name ?? 'Resort'} &middot; {editForm.country ?? ''}
             </DialogDescription>
+            <PresenceIndicator viewers={viewers} />
           </DialogHeader>
 
           <div className="flex-1 min-h-0 overflow-y-auto pr-4">
             <div className="grid grid-cols-2 gap-4 py-4">
+              {/* Data quality, live as the form changes */}
+              {editIssues.length > 0 && (
+                <div className="col-span-2 rounded-lg border border-border p-3">
+                  <QualityIssues issues={editIssues} />
+                </div>
+              )}
+
               {/* Text fields */}
               {([
                 ['name', 'Name'],
@@ -520,8 +834,6 @@ export function ResortsPage() {
                 ['region', 'Region'],
                 ['website', 'Website'],
                 ['pass_affiliation', 'Pass Affiliation'],
-                ['season_open', 'Season Open'],
-                ['season_close', 'Season Close'],
                 ['instagram_handle', 'Instagram'],
               ] as [keyof Resort, string][]).map(([field, label]) => (
                 <div key={field}>
@@ -601,6 +913,39 @@ export function ResortsPage() {
                 </div>
               ))}
 
+              {/* Season calendar */}
+              <div className="col-span-2">
+                <Label className="text-xs">Season</Label>
+                {!editForm.season_calendar && (editForm.season_open || editForm.season_close) && (
+                  <p className="text-[11px] text-muted-foreground mt-1">
+                    Text: {editForm.season_open ?? '—'} – {editForm.season_close ?? '—'}
+                  </p>
+                )}
+                <div className="mt-1">
+                  <SeasonCalendarEditor
+                    calendar={calendarOf({ ...editForm })}
+                    onChange={(calendar) => setEditForm((prev) => ({ ...prev, ...calendarFields(calendar) }))}
+                  />
+                </div>
+              </div>
+
+              {/* Location */}
+              <div className="col-span-2">
+                <Label className="text-xs">Location</Label>
+                <div className="mt-1">
+                  <ResortMapPicker
+                    lat={editForm.lat ?? null}
+                    lng={editForm.lng ?? null}
+                    countryCode={editForm.country_code ?? null}
+                    excludeId={editResort?.id ?? null}
+                    onChange={(lat, lng) => {
+                      updateField('lat', lat)
+                      updateField('lng', lng)
+                    }}
+                  />
+                </div>
+              </div>
+
               {/* Boolean: Verified */}
               <div>
                 <Label className="text-xs">Verified</Label>
@@ -709,20 +1054,49 @@ export function ResortsPage() {
                   </p>
                 </div>
               )}
+
+              {/* Change history */}
+              {editResort && (
+                <div className="col-span-2 border-t border-border pt-4">
+                  <Label className="text-xs">History</Label>
+                  <div className="mt-2">
+                    <ResortHistoryTimeline
+                      resortId={editResort.id}
+                      current={editForm as Record<string, unknown>}
+                      canRestore={can('resorts.edit')}
+                      onRestore={handleRestoreField}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
           <DialogFooter className="flex justify-between sm:justify-between">
-            <Button
-              variant="destructive"
-              size="sm"
-              onClick={() => setDeleteConfirmOpen(true)}
-              disabled={deleting}
-            >
-              <Trash2 className="w-4 h-4 mr-1" />
-              Delete
-            </Button>
-            <Button onClick={handleSave} disabled={saving}>
+            {can('resorts.delete') ? (
+              <div className="flex gap-2">
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setDeleteConfirmOpen(true)}
+                  disabled={deleting}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => editResort && setMergeGroup([editResort])}
+                >
+                  <GitMerge className="w-4 h-4 mr-1" />
+                  Merge…
+                </Button>
+              </div>
+            ) : (
+              <span />
+            )}
+            <Button onClick={handleSave} disabled={saving || editSeasonInvalid || !can('resorts.edit')}>
               {saving ? (
                 <Loader2 className="w-4 h-4 mr-1 animate-spin" />
               ) : (
@@ -763,8 +1137,6 @@ export function ResortsPage() {
                 ['region', 'Region'],
                 ['website', 'Website'],
                 ['pass_affiliation', 'Pass Affiliation'],
-                ['season_open', 'Season Open'],
-                ['season_close', 'Season Close'],
                 ['instagram_handle', 'Instagram'],
               ] as [keyof Resort, string][]).map(([field, label]) => (
                 <div key={field}>
@@ -849,6 +1221,39 @@ export function ResortsPage() {
                 </div>
               ))}
 
+              {/* Season calendar */}
+              <div className="col-span-2">
+                <Label className="text-xs">Season</Label>
+                {!addForm.season_calendar && (addForm.season_open || addForm.season_close) && (
+                  <p className="text-[11px] text-muted-foreground mt-1">
+                    Text: {addForm.season_open ?? '—'} – {addForm.season_close ?? '—'}
+                  </p>
+                )}
+                <div className="mt-1">
+                  <SeasonCalendarEditor
+                    calendar={calendarOf({ ...addForm })}
+                    onChange={(calendar) => setAddForm((prev) => ({ ...prev, ...calendarFields(calendar) }))}
+                  />
+                </div>
+              </div>
+
+              {/* Location */}
+              <div className="col-span-2">
+                <Label className="text-xs">Location</Label>
+                <div className="mt-1">
+                  <ResortMapPicker
+                    lat={addForm.lat ?? null}
+                    lng={addForm.lng ?? null}
+                    countryCode={addForm.country_code ?? null}
+                    excludeId={null}
+                    onChange={(lat, lng) => {
+                      updateAddField('lat', lat)
+                      updateAddField('lng', lng)
+                    }}
+                  />
+                </div>
+              </div>
+
               {/* Boolean: Verified */}
               <div>
                 <Label className="text-xs">Verified</Label>
@@ -943,7 +1348,7 @@ export function ResortsPage() {
           </div>
 
           <DialogFooter>
-            <Button onClick={handleAdd} disabled={adding || !addForm.name || !addForm.country}>
+            <Button onClick={handleAdd} disabled={adding || addSeasonInvalid || !addForm.name || !addForm.country}>
               {adding ? (
                 <Loader2 className="w-4 h-4 mr-1 animate-spin" />
               ) : (
@@ -956,6 +1361,38 @@ export function ResortsPage() {
       </Dialog>
 
       {/* Delete Confirm */}
+      {/* Concurrent edit merge */}
+      <ConflictDialog
+        open={!!conflict}
+        onOpenChange={(open) => !open && setConflict(null)}
+        fields={conflict?.fields ?? []}
+        base={(editResort ?? {}) as Record<string, unknown>}
+        mine={conflict?.mine ?? {}}
+        theirs={(conflict?.theirs ?? {}) as unknown as Record<string, unknown>}
+        saving={saving}
+        onResolve={handleResolveConflict}
+      />
+
+      <DuplicateQueueDialog
+        open={duplicatesOpen}
+        onOpenChange={setDuplicatesOpen}
+        canMerge={can('resorts.delete')}
+        onMerge={(group, candidateId) => {
+          setDuplicatesOpen(false)
+          setMergeCandidateId(candidateId)
+          setMergeGroup(group)
+        }}
+        onPendingChange={loadPendingDuplicates}
+      />
+
+      <ResortMergeDialog
+        open={!!mergeGroup}
+        onOpenChange={(open) => !open && closeMerge()}
+        resorts={mergeGroup ?? []}
+        merging={merging}
+        onMerge={handleMerge}
+      />
+
       <ConfirmDialog
         open={deleteConfirmOpen}
         onOpenChange={setDeleteConfirmOpen}
@@ -1,12 +1,19 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { SUPABASE_URL } from '@/lib/constants'
 import { formatDate, timeAgo, cn } from '@/lib/utils'
+import { recordResortChanges } from '@/lib/resort-history'
+import { snapshotApprovalLinks } from '@/lib/submission-approval'
 import { toast } from 'sonner'
 import { useAuditLog } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
+import { mergeNewRows, useNewItems } from '@/hooks/use-realtime'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
 import { Header } from '@/components/layout/header'
 import { StatsCard } from '@/components/shared/stats-card'
 import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import { NewItemsBanner } from '@/components/shared/new-items-banner'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -120,8 +127,23 @@ function similarityBadge(score: number) {
 // Component
 // ---------------------------------------------------------------------------
 
-export function SubmissionsPage() {
+type SubmissionFilters = { status: 'pending' | 'approved' | 'rejected' }
+
+// The list is grouped by status rather than a table, so a view is just the filter
+const SUBMISSIONS_VIEW_DEFAULTS: ViewState<SubmissionFilters> = {
+  filters: { status: 'pending' },
+  sorting: [],
+  columnVisibility: {},
+}
+
+interface SubmissionsPageProps {
+  submissionId: string | null
+  onSubmissionChange: (submissionId: string | null) => void
+}
+
+export function SubmissionsPage({ submissionId, onSubmissionChange }: SubmissionsPageProps) {
   const { log } = useAuditLog()
+  const { can } = usePermissions()
 
   // Data
   const [submissions, setSubmissions] = useState<Submission[]>([])
@@ -142,6 +164,23 @@ export function SubmissionsPage() {
   // Status filter
   const [statusFilter, setStatusFilter] = useState<'pending' | 'approved' | 'rejected'>('pending')
 
+  // Saved views
+  const viewState = useMemo<ViewState<SubmissionFilters>>(
+    () => ({ ...SUBMISSIONS_VIEW_DEFAULTS, filters: { status: statusFilter } }),
+    [statusFilter]
+  )
+  const applyView = useCallback(({ filters: f }: ViewState<SubmissionFilters>) => {
+    // Same as switching tabs: the open submission belongs to the old list
+    if (f.status !== statusFilter) onSubmissionChange(null)
+    setStatusFilter(f.status)
+  }, [statusFilter, onSubmissionChange])
+  const views = useSavedViews({
+    page: 'submissions',
+    state: viewState,
+    defaults: SUBMISSIONS_VIEW_DEFAULTS,
+    apply: applyView,
+  })
+
   // Confirm dialogs
   const [confirmAction, setConfirmAction] = useState<'approve' | 'reject' | null>(null)
   const [actionLoading, setActionLoading] = useState(false)
@@ -215,10 +254,47 @@ export function SubmissionsPage() {
       .catch(() => {}) // best-effort
   }, [])
 
+  // Submissions reviewed elsewhere leave the current tab; the open one stays
+  // selected with its new status
+  const { newCount, newIds, clear: clearNew } = useNewItems<Submission>('resort_submissions', (change) => {
+    const id = change.eventType === 'DELETE' ? change.old.id : change.new.id
+    if (!id) return
+    if (change.eventType === 'UPDATE' && change.new.status === statusFilter) {
+      const { status } = change.new
+      setSubmissions((prev) => prev.map((s) => (s.id === id ? { ...s, status } : s)))
+    } else {
+      setSubmissions((prev) => prev.filter((s) => s.id !== id))
+    }
+    if (change.eventType === 'UPDATE') {
+      const { status, approved_resort_id } = change.new
+      setSelected((prev) => (prev?.id === id ? { ...prev, status, status_display: status, approved_resort_id } : prev))
+    }
+  })
+
   const handleRefresh = useCallback(() => {
     setRefreshing(true)
+    clearNew()
     loadSubmissions()
-  }, [loadSubmissions])
+  }, [loadSubmissions, clearNew])
+
+  // New submissions always arrive as pending. On that tab they're merged into
+  // the list as it stands; the list action has no by-id form, so take them
+  // out of a fresh listing.
+  const handleLoadNew = useCallback(async () => {
+    clearNew()
+    if (statusFilter !== 'pending') {
+      setStatusFilter('pending')
+      return
+    }
+    try {
+      const res = await callEdgeFunction('admin-list-submissions', { action: 'list', status: 'pending' })
+      const fresh = ((res.submissions ?? []) as Submission[]).filter((s) => newIds.includes(s.id))
+      setSubmissions((prev) => mergeNewRows(prev, fresh))
+      setPendingCount((count) => count + fresh.length)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load new submissions')
+    }
+  }, [statusFilter, newIds, clearNew])
 
   // Load detail (linked visits) when selecting a submission
   const loadDetail = useCallback(async (sub: Submission) => {
@@ -259,6 +335,43 @@ export function SubmissionsPage() {
     [loadDetail],
   )
 
+  // Open the submission named in the URL. The list only holds one status, so a
+  // link to another status switches the tab and waits for that list instead.
+  useEffect(() => {
+    if (!submissionId) {
+      setSelected(null)
+      return
+    }
+    if (loading || selected?.id === submissionId) return
+    const match = submissions.find((s) => s.id === submissionId)
+    if (match) {
+      handleSelect(match)
+      return
+    }
+
+    let cancelled = false
+    supabase
+      .from('resort_submissions')
+      .select('*')
+      .eq('id', submissionId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (cancelled) return
+        const sub = data as Submission | null
+        if (!sub) {
+          toast.error('Submission not found')
+          onSubmissionChange(null)
+        } else if (sub.status !== statusFilter && ['pending', 'approved', 'rejected'].includes(sub.status)) {
+          setStatusFilter(sub.status as typeof statusFilter)
+        } else {
+          handleSelect(sub)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [submissionId, submissions, loading, selected?.id, statusFilter, handleSelect, onSubmissionChange])
+
   // ---------------------------------------------------------------------------
   // Resort search for approve action
   // ---------------------------------------------------------------------------
@@ -301,13 +414,31 @@ export function SubmissionsPage() {
     }
     setActionLoading(true)
     try {
+      // Snapshot everything the cascade touches so the approval can be reverted
+      const submissionIds = [selected.id, ...(selected.duplicate_submissions ?? []).map((d) => d.id)]
+      const visits = await Promise.all(
+        submissionIds.map((id) =>
+          callEdgeFunction('admin-list-submissions', { action: 'detail', submissionId: id }).then(
+            (res) => (res.visits ?? []) as LinkedVisit[]
+          )
+        )
+      )
+      const links = await snapshotApprovalLinks(submissionIds, visits.flat().map((v) => v.id))
       await callEdgeFunction('admin-manage-submission', {
         action: 'approve',
         submissionId: selected.id,
         resortId,
       })
+      await log({
+        action: 'approve_submission',
+        entity_type: 'resort_submission',
+        entity_id: selected.id,
+        details: { resort_name: selected.resort_name, resort_id: resortId, links },
+        before: { status: selected.status, approved_resort_id: selected.approved_resort_id },
+        after: { status: 'approved', approved_resort_id: resortId },
+      })
       toast.success(`Approved: ${selected.resort_name} — cascading to duplicates`)
-      setSelected(null)
+      onSubmissionChange(null)
       setConfirmAction(null)
       loadSubmissions()
     } catch (err) {
@@ -315,7 +446,7 @@ export function SubmissionsPage() {
     } finally {
       setActionLoading(false)
     }
-  }, [selected, selectedResortId, loadSubmissions])
+  }, [selected, selectedResortId, log, loadSubmissions, onSubmissionChange])
 
   const handleReject = useCallback(async () => {
     if (!selected) return
@@ -325,8 +456,14 @@ export function SubmissionsPage() {
         action: 'hard_delete',
         submissionId: selected.id,
       })
+      await log({
+        action: 'reject_submission',
+        entity_type: 'resort_submission',
+        entity_id: selected.id,
+        details: { resort_name: selected.resort_name, country: selected.country },
+      })
       toast.success(`Rejected: ${selected.resort_name} — submission and visits removed, user notified`)
-      setSelected(null)
+      onSubmissionChange(null)
       setConfirmAction(null)
       loadSubmissions()
     } catch (err) {
@@ -334,7 +471,7 @@ export function SubmissionsPage() {
     } finally {
       setActionLoading(false)
     }
-  }, [selected, loadSubmissions])
+  }, [selected, log, loadSubmissions, onSubmissionChange])
 
 
   // ---------------------------------------------------------------------------
@@ -551,6 +688,20 @@ Notes from submitter: ${selected.notes ?? 'None'}`
         return
       }
 
+      // The research JSON supplies the data; the cover comes from the
+      // submission's photo or a placeholder
+      const { cover_image_url: coverUrl, ...researched } = finalData
+      await recordResortChanges([
+        { resortId: insertedResort.id, before: null, after: researched, source: 'ai_research', sourceRef: selected?.id ?? null },
+        {
+          resortId: insertedResort.id,
+          before: null,
+          after: { cover_image_url: coverUrl ?? null },
+          source: resortData.cover_image_url ? 'ai_research' : coverUrl === processedCoverUrl ? 'submission' : 'placeholder',
+          sourceRef: selected?.id ?? null,
+        },
+      ])
+
       await log({
         action: 'create_resort',
         entity_type: 'resort',
@@ -572,7 +723,7 @@ Notes from submitter: ${selected.notes ?? 'None'}`
             resortId: insertedResort.id,
           })
           toast.success('Submission auto-approved & linked to new resort')
-          setSelected(null)
+          onSubmissionChange(null)
           loadSubmissions()
         } catch {
           toast.error('Resort created but failed to auto-approve submission')
@@ -587,7 +738,7 @@ Notes from submitter: ${selected.notes ?? 'None'}`
     } finally {
       setCreateLoading(false)
     }
-  }, [resortData, processedCoverUrl, placeholderUrls, selected, log, loadSubmissions])
+  }, [resortData, processedCoverUrl, placeholderUrls, selected, log, loadSubmissions, onSubmissionChange])
 
   // ---------------------------------------------------------------------------
   // Render helpers
@@ -605,6 +756,7 @@ Notes from submitter: ${selected.notes ?? 'None'}`
         subtitle="Review, approve, or reject resort submissions"
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -615,6 +767,8 @@ Notes from submitter: ${selected.notes ?? 'None'}`
           <StatsCard label="Total Resorts" value={totalResorts} />
         </div>
 
+        <NewItemsBanner count={newCount} noun="submission" onLoad={handleLoadNew} />
+
         {/* Status filter tabs */}
         <div className="flex gap-2">
           {(['pending', 'approved', 'rejected'] as const).map((s) => (
@@ -622,7 +776,7 @@ Notes from submitter: ${selected.notes ?? 'None'}`
               key={s}
               onClick={() => {
                 setStatusFilter(s)
-                setSelected(null)
+                onSubmissionChange(null)
               }}
               className={cn(
                 'px-3 py-1.5 text-xs font-medium rounded-full border transition-colors',
@@ -672,7 +826,7 @@ Notes from submitter: ${selected.notes ?? 'None'}`
                     return (
                       <button
                         key={sub.id}
-                        onClick={() => handleSelect(sub)}
+                        onClick={() => onSubmissionChange(sub.id)}
                         className={cn(
                           'w-full text-left px-4 py-3 hover:bg-accent/50 transition-colors',
                           selected?.id === sub.id && 'bg-accent',
@@ -922,7 +1076,7 @@ Notes from submitter: ${selected.notes ?? 'None'}`
                         <Button
                           onClick={() => setConfirmAction('approve')}
                           className="flex-1"
-                          disabled={!selectedResortId}
+                          disabled={!selectedResortId || !can('submissions.review')}
                         >
                           <Check className="w-4 h-4 mr-1" />
                           Approve
@@ -931,6 +1085,7 @@ Notes from submitter: ${selected.notes ?? 'None'}`
                           variant="outline"
                           onClick={() => setConfirmAction('reject')}
                           className="flex-1"
+                          disabled={!can('submissions.review')}
                         >
                           <X className="w-4 h-4 mr-1" />
                           Reject
@@ -1235,7 +1390,7 @@ Notes from submitter: ${selected.notes ?? 'None'}`
 
                       <Button
                         onClick={handleCreateResort}
-                        disabled={createLoading}
+                        disabled={createLoading || !can('submissions.review')}
                         className="w-full"
                       >
                         {createLoading ? (
@@ -1,12 +1,21 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
-import { TICKET_CATEGORIES, TICKET_STATUSES } from '@/lib/constants'
+import { PAGE_SIZE, TICKET_CATEGORIES, TICKET_STATUSES } from '@/lib/constants'
 import { formatDate, formatDateTime, timeAgo, cn } from '@/lib/utils'
 import { toast } from 'sonner'
 import { useAuditLog } from '@/hooks/use-audit-log'
+import { useNewItems, useRecordPresence } from '@/hooks/use-realtime'
+import { useServerTable } from '@/hooks/use-server-table'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
+import type { ServerFilter } from '@/lib/server-query'
+import { updateIfUnchanged, conflictingFields } from '@/lib/optimistic-update'
 import { Header } from '@/components/layout/header'
 import { StatsCard } from '@/components/shared/stats-card'
 import { ExportButton } from '@/components/shared/export-button'
+import { NewItemsBanner } from '@/components/shared/new-items-banner'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
+import { ConflictDialog } from '@/components/shared/conflict-dialog'
+import { PresenceIndicator } from '@/components/shared/presence-indicator'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
@@ -27,6 +36,8 @@ import {
   Send,
   Plus,
   MessageSquare,
+  ChevronLeft,
+  ChevronRight,
 } from 'lucide-react'
 
 interface SupportTicket {
@@ -57,17 +68,40 @@ interface SupportNote {
   created_at: string
 }
 
-export function SupportPage() {
+const TICKETS_SORT = { column: 'created_at', desc: true }
+
+const TICKET_AGES = [
+  { value: 'any', label: 'Any Age' },
+  { value: '1', label: 'Older than 1 day' },
+  { value: '7', label: 'Older than 7 days' },
+  { value: '30', label: 'Older than 30 days' },
+]
+
+type SupportFilters = { category: string; status: string; olderThanDays: string }
+
+const SUPPORT_VIEW_DEFAULTS: ViewState<SupportFilters> = {
+  filters: { category: 'all', status: 'all', olderThanDays: 'any' },
+  sorting: [],
+  columnVisibility: {},
+}
+
+// Only the status is written from this page, so it's the only field that can conflict
+const STATUS_FIELDS = ['status']
+
+interface SupportPageProps {
+  ticketId: string | null
+  onTicketChange: (ticketId: string | null) => void
+}
+
+export function SupportPage({ ticketId, onTicketChange }: SupportPageProps) {
   const { log } = useAuditLog()
 
-  const [tickets, setTickets] = useState<SupportTicket[]>([])
   const [selected, setSelected] = useState<SupportTicket | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
 
   // Filters
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
   const [statusFilter, setStatusFilter] = useState<string>('all')
+  const [ageFilter, setAgeFilter] = useState<string>('any')
 
   // Stats
   const [pendingCount, setPendingCount] = useState(0)
@@ -76,6 +110,12 @@ export function SupportPage() {
 
   // Status update loading
   const [statusLoading, setStatusLoading] = useState(false)
+  const [conflict, setConflict] = useState<{
+    mine: Record<string, unknown>
+    base: SupportTicket
+    theirs: SupportTicket
+  } | null>(null)
+  const viewers = useRecordPresence(selected ? `support_request:${selected.id}` : null)
 
   // Notes
   const [notes, setNotes] = useState<SupportNote[]>([])
@@ -84,53 +124,122 @@ export function SupportPage() {
   const [addingNote, setAddingNote] = useState(false)
   const [sendingResponse, setSendingResponse] = useState(false)
 
-  const loadTickets = useCallback(async () => {
+  const filters = useMemo(() => {
+    const list: ServerFilter[] = []
+    if (categoryFilter !== 'all') list.push({ column: 'category', op: 'eq', value: categoryFilter })
+    if (statusFilter !== 'all') list.push({ column: 'status', op: 'eq', value: statusFilter })
+    if (ageFilter !== 'any') {
+      const cutoff = new Date()
+      cutoff.setDate(cutoff.getDate() - Number(ageFilter))
+      list.push({ column: 'created_at', op: 'lt', value: cutoff.toISOString() })
+    }
+    return list
+  }, [categoryFilter, statusFilter, ageFilter])
+
+  const {
+    rows: tickets,
+    setRows: setTickets,
+    totalCount,
+    page,
+    loading,
+    refreshing,
+    query,
+    reload: reloadTickets,
+    mergeNew: mergeNewTickets,
+    goToPage,
+  } = useServerTable<SupportTicket>({
+    table: 'support_requests',
+    defaultSort: TICKETS_SORT,
+    filters,
+    errorMessage: 'Failed to load tickets',
+  })
+  const totalPages = Math.ceil(totalCount / PAGE_SIZE)
+  const exportSource = useMemo(() => ({ query, totalCount }), [query, totalCount])
+
+  // Saved views. The ticket list has fixed columns and order, so only filters vary.
+  const viewState = useMemo<ViewState<SupportFilters>>(
+    () => ({
+      filters: { category: categoryFilter, status: statusFilter, olderThanDays: ageFilter },
+      sorting: SUPPORT_VIEW_DEFAULTS.sorting,
+      columnVisibility: SUPPORT_VIEW_DEFAULTS.columnVisibility,
+    }),
+    [categoryFilter, statusFilter, ageFilter]
+  )
+  const applyView = useCallback(({ filters: f }: ViewState<SupportFilters>) => {
+    setCategoryFilter(f.category)
+    setStatusFilter(f.status)
+    setAgeFilter(f.olderThanDays)
+  }, [])
+  const views = useSavedViews({
+    page: 'support',
+    state: viewState,
+    defaults: SUPPORT_VIEW_DEFAULTS,
+    apply: applyView,
+  })
+
+  const loadStats = useCallback(async () => {
     try {
       const startOfMonth = new Date()
       startOfMonth.setDate(1)
       startOfMonth.setHours(0, 0, 0, 0)
 
-      const [ticketsRes, pendingRes, inProgressRes, resolvedMonthRes] =
-        await Promise.all([
-          supabase
-            .from('support_requests')
-            .select('*')
-            .order('created_at', { ascending: false }),
-          supabase
-            .from('support_requests')
-            .select('*', { count: 'exact', head: true })
-            .eq('status', 'pending'),
-          supabase
-            .from('support_requests')
-            .select('*', { count: 'exact', head: true })
-            .eq('status', 'in_progress'),
-          supabase
-            .from('support_requests')
-            .select('*', { count: 'exact', head: true })
-            .eq('status', 'resolved')
-            .gte('updated_at', startOfMonth.toISOString()),
-        ])
-
-      setTickets((ticketsRes.data as SupportTicket[]) ?? [])
+      const [pendingRes, inProgressRes, resolvedMonthRes] = await Promise.all([
+        supabase
+          .from('support_requests')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', 'pending'),
+        supabase
+          .from('support_requests')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', 'in_progress'),
+        supabase
+          .from('support_requests')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', 'resolved')
+          .gte('updated_at', startOfMonth.toISOString()),
+      ])
+
       setPendingCount(pendingRes.count ?? 0)
       setInProgressCount(inProgressRes.count ?? 0)
       setResolvedMonthCount(resolvedMonthRes.count ?? 0)
     } catch {
-      toast.error('Failed to load tickets')
-    } finally {
-      setLoading(false)
-      setRefreshing(false)
+      toast.error('Failed to load ticket stats')
     }
   }, [])
 
   useEffect(() => {
-    loadTickets()
-  }, [loadTickets])
+    loadStats()
+  }, [loadStats])
+
+  const loadTickets = useCallback(
+    (showRefresh = false) => {
+      reloadTickets(showRefresh)
+      loadStats()
+    },
+    [reloadTickets, loadStats]
+  )
+
+  // Status changes by other admins patch the list and the open ticket in place
+  const { newCount, newIds, clear: clearNew } = useNewItems<SupportTicket>('support_requests', (change) => {
+    if (change.eventType === 'DELETE') {
+      setTickets((prev) => prev.filter((t) => t.id !== change.old.id))
+      return
+    }
+    const row = change.new
+    setTickets((prev) => prev.map((t) => (t.id === row.id ? { ...t, ...row } : t)))
+    setSelected((prev) => (prev?.id === row.id ? { ...prev, ...row } : prev))
+  })
 
   const handleRefresh = useCallback(() => {
-    setRefreshing(true)
-    loadTickets()
-  }, [loadTickets])
+    clearNew()
+    loadTickets(true)
+  }, [loadTickets, clearNew])
+
+  const handleLoadNew = useCallback(() => {
+    clearNew()
+    mergeNewTickets(newIds)
+    loadStats()
+  }, [newIds, mergeNewTickets, loadStats, clearNew])
 
   const loadNotes = useCallback(async (ticketId: string) => {
     setNotesLoading(true)
@@ -158,39 +267,103 @@ export function SupportPage() {
     [loadNotes]
   )
 
-  const updateStatus = useCallback(
-    async (newStatus: string) => {
-      if (!selected) return
-      setStatusLoading(true)
+  // Open the ticket named in the URL. It may sit on another page of results,
+  // so fall back to fetching it directly.
+  useEffect(() => {
+    if (!ticketId) {
+      setSelected(null)
+      return
+    }
+    if (loading || selected?.id === ticketId) return
+    const ticket = tickets.find((t) => t.id === ticketId)
+    if (ticket) {
+      selectTicket(ticket)
+      return
+    }
 
-      const { error } = await supabase
+    let cancelled = false
+    ;(async () => {
+      const { data } = await supabase
         .from('support_requests')
-        .update({ status: newStatus, updated_at: new Date().toISOString() })
-        .eq('id', selected.id)
+        .select('*')
+        .eq('id', ticketId)
+        .maybeSingle()
+      if (cancelled) return
+      if (data) {
+        selectTicket(data as SupportTicket)
+      } else {
+        toast.error('Ticket not found')
+        onTicketChange(null)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [ticketId, tickets, loading, selected?.id, selectTicket, onTicketChange])
 
-      if (error) {
-        toast.error(`Failed to update status: ${error.message}`)
+  // `base` is the ticket version the admin acted on; after a conflict it is
+  // the other admin's version
+  const applyStatus = useCallback(
+    async (newStatus: string, base: SupportTicket) => {
+      setStatusLoading(true)
+      try {
+        const result = await updateIfUnchanged('support_requests', base.id, { status: newStatus }, base.updated_at)
+        if (result.status === 'missing') {
+          toast.error('This ticket was deleted')
+          onTicketChange(null)
+          loadTickets()
+          return
+        }
+        if (result.status === 'conflict') {
+          const theirs = { ...base, ...result.current } as SupportTicket
+          if (conflictingFields({ status: newStatus }, result.current).length > 0) {
+            setConflict({ mine: { status: newStatus }, base, theirs })
+          } else {
+            toast.info(`Another admin already marked this ticket ${newStatus.replace('_', ' ')}`)
+            setSelected(theirs)
+          }
+          return
+        }
+
+        await log({
+          action: `ticket_${newStatus}`,
+          entity_type: 'support_request',
+          entity_id: base.id,
+          details: {
+            from_status: base.status,
+            to_status: newStatus,
+            category: base.category,
+          },
+        })
+
+        toast.success(`Ticket marked as ${newStatus.replace('_', ' ')}`)
+        setSelected({ ...base, ...(result.row as Partial<SupportTicket>) })
+        loadTickets()
+      } catch (err) {
+        toast.error(`Failed to update status: ${err instanceof Error ? err.message : 'unknown error'}`)
+      } finally {
         setStatusLoading(false)
-        return
       }
+    },
+    [log, loadTickets, onTicketChange]
+  )
 
-      await log({
-        action: `ticket_${newStatus}`,
-        entity_type: 'support_request',
-        entity_id: selected.id,
-        details: {
-          from_status: selected.status,
-          to_status: newStatus,
-          category: selected.category,
-        },
-      })
+  const updateStatus = useCallback(
+    (newStatus: string) => {
+      if (selected) applyStatus(newStatus, selected)
+    },
+    [selected, applyStatus]
+  )
 
-      toast.success(`Ticket marked as ${newStatus.replace('_', ' ')}`)
-      setSelected({ ...selected, status: newStatus })
-      setStatusLoading(false)
-      loadTickets()
+  const handleResolveConflict = useCallback(
+    (merged: Record<string, unknown>) => {
+      if (!conflict) return
+      const { theirs } = conflict
+      setConflict(null)
+      if (merged.status === theirs.status) setSelected(theirs)
+      else applyStatus(String(merged.status), theirs)
     },
-    [selected, log, loadTickets]
+    [conflict, applyStatus]
   )
 
   const handleAddNote = useCallback(async () => {
@@ -270,13 +443,6 @@ export function SupportPage() {
     }
   }, [selected, newNote, log, loadNotes])
 
-  // Client-side filtered tickets
-  const filteredTickets = tickets.filter((t) => {
-    if (categoryFilter !== 'all' && t.category !== categoryFilter) return false
-    if (statusFilter !== 'all' && t.status !== statusFilter) return false
-    return true
-  })
-
   const getCategoryConfig = useCallback((category: string) => {
     return (
       TICKET_CATEGORIES.find((c) => c.value === category) ?? {
@@ -304,6 +470,7 @@ export function SupportPage() {
         subtitle="Manage support tickets and responses"
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -322,9 +489,12 @@ export function SupportPage() {
           <ExportButton
             data={tickets as unknown as Record<string, unknown>[]}
             filename="support-tickets"
+            source={exportSource}
           />
         </div>
 
+        <NewItemsBanner count={newCount} noun="ticket" onLoad={handleLoadNew} />
+
         {/* Filters */}
         <div className="flex items-center gap-3">
           <Select value={categoryFilter} onValueChange={setCategoryFilter}>
@@ -355,8 +525,21 @@ export function SupportPage() {
             </SelectContent>
           </Select>
 
+          <Select value={ageFilter} onValueChange={setAgeFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Age" />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_AGES.map((a) => (
+                <SelectItem key={a.value} value={a.value}>
+                  {a.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <span className="text-xs text-muted-foreground">
-            {filteredTickets.length} ticket(s)
+            {totalCount} ticket(s)
           </span>
         </div>
 
@@ -374,19 +557,19 @@ export function SupportPage() {
                     <Skeleton key={i} className="h-16 rounded-lg" />
                   ))}
                 </div>
-              ) : filteredTickets.length === 0 ? (
+              ) : tickets.length === 0 ? (
                 <div className="p-8 text-center text-sm text-muted-foreground">
                   No tickets found
                 </div>
               ) : (
                 <div className="divide-y divide-border">
-                  {filteredTickets.map((ticket) => {
+                  {tickets.map((ticket) => {
                     const cat = getCategoryConfig(ticket.category)
                     const stat = getStatusConfig(ticket.status)
                     return (
                       <button
                         key={ticket.id}
-                        onClick={() => selectTicket(ticket)}
+                        onClick={() => onTicketChange(ticket.id)}
                         className={cn(
                           'w-full text-left px-4 py-3 hover:bg-accent/50 transition-colors',
                           selected?.id === ticket.id && 'bg-accent'
@@ -423,6 +606,31 @@ export function SupportPage() {
                 </div>
               )}
             </ScrollArea>
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between px-4 py-3 border-t border-border">
+                <span className="text-xs text-muted-foreground">
+                  Page {page + 1} of {totalPages}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => goToPage(page - 1)}
+                    disabled={page === 0}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => goToPage(page + 1)}
+                    disabled={page >= totalPages - 1}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Right: Ticket Details + Notes */}
@@ -431,6 +639,11 @@ export function SupportPage() {
             <div className="bg-card border border-border rounded-xl">
               <div className="p-4 border-b border-border">
                 <h2 className="text-sm font-semibold">Ticket Details</h2>
+                {selected && (
+                  <div className="mt-2">
+                    <PresenceIndicator viewers={viewers} />
+                  </div>
+                )}
               </div>
               {selected ? (
                 <div className="flex flex-col">
@@ -742,6 +955,18 @@ export function SupportPage() {
           </div>
         </div>
       </div>
+
+      {/* Concurrent status change */}
+      <ConflictDialog
+        open={!!conflict}
+        onOpenChange={(open) => !open && setConflict(null)}
+        fields={STATUS_FIELDS}
+        base={(conflict?.base ?? {}) as unknown as Record<string, unknown>}
+        mine={conflict?.mine ?? {}}
+        theirs={(conflict?.theirs ?? {}) as unknown as Record<string, unknown>}
+        saving={statusLoading}
+        onResolve={handleResolveConflict}
+      />
     </div>
   )
 }
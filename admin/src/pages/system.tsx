@@ -5,19 +5,71 @@ import { Header } from '@/components/layout/header'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
+import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
-import { useAuditLog } from '@/hooks/use-audit-log'
-import { timeAgo } from '@/lib/utils'
+import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import { ConflictDialog } from '@/components/shared/conflict-dialog'
+import { ConfigEditorDialog, type ConfigDraft } from '@/components/shared/config-editor-dialog'
+import { ConfigHistoryDialog } from '@/components/shared/config-history-dialog'
+import { AlertRuleDialog } from '@/components/shared/alert-rule-dialog'
+import { InvocationLogDialog } from '@/components/shared/invocation-log-dialog'
+import { useAuditLog, snapshotChanges } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
+import { COHORTS } from '@/lib/constants'
+import { updateIfUnchanged, conflictingFields } from '@/lib/optimistic-update'
+import {
+  CONFIG_FIELDS,
+  CONFIG_TYPES,
+  configType,
+  describeRule,
+  formatConfigValue,
+  isReservedConfigKey,
+  RESERVED_CONFIG_PREFIX,
+  validateConfig,
+  type RemoteConfig,
+} from '@/lib/remote-config'
+import {
+  ALERT_EVENTS_TABLE,
+  ALERT_RULES_TABLE,
+  ALERT_RULE_FIELDS,
+  describeAlertRule,
+  formatAlertValue,
+  testAlertRule,
+  validateAlertRule,
+  type AlertEvent,
+  type AlertRule,
+  type AlertRuleDraft,
+} from '@/lib/alerts'
+import {
+  EDGE_FUNCTIONS,
+  HEALTH_WINDOW_HOURS,
+  errorRate,
+  loadEdgeFunctionStats,
+  pingEdgeFunction,
+  type EdgeFunction,
+  type EdgeFunctionStats,
+  type PingResult,
+} from '@/lib/edge-functions'
+import { formatDateTime, timeAgo } from '@/lib/utils'
 import {
   Activity,
   AlertTriangle,
-  Bot,
+  Bell,
+  BellRing,
+  Check,
   Cloud,
   Database,
   ExternalLink,
   HardDrive,
+  History,
   Loader2,
+  Pencil,
+  Plus,
+  Radio,
+  Send,
   Server,
+  SlidersHorizontal,
+  Trash2,
   Zap,
 } from 'lucide-react'
 
@@ -32,18 +84,6 @@ interface TableStat {
   sub?: { label: string; count: number | null }[]
 }
 
-interface EdgeFunction {
-  name: string
-  description: string
-}
-
-interface AppConfigRow {
-  key: string
-  value: boolean
-  updated_at: string
-  updated_by: string | null
-}
-
 interface SyncMetrics {
   deletions_24h: number | null
   deletions_7d: number | null
@@ -63,16 +103,18 @@ interface SyncMetrics {
 const SUPABASE_PROJECT_REF = 'rnudbfdhrenesamdjzdk'
 const SUPABASE_DASHBOARD_BASE = `https://supabase.com/dashboard/project/${SUPABASE_PROJECT_REF}`
 
-const EDGE_FUNCTIONS: EdgeFunction[] = [
-  { name: 'admin-delete-user', description: 'Delete a user account (admin action)' },
-  { name: 'process-resort-image', description: 'Process and optimize resort images' },
-  { name: 'notify-user-resort-approved', description: 'Notify user when their resort submission is approved' },
-  { name: 'notify-resort-submission', description: 'Notify admins of new resort submissions' },
-  { name: 'send-support-notification', description: 'Send notifications for support requests' },
-  { name: 'notify-password-changed', description: 'Notify user of password change' },
-  { name: 'delete-user-account', description: 'User-initiated account deletion' },
-  { name: 'discover-resorts', description: 'AI-powered resort discovery' },
-]
+const CONFIG_COLUMNS = 'key, value, type, description, schema, rules, updated_at, updated_by'
+
+// Most recent firings shown in the alert history
+const ALERT_HISTORY_LIMIT = 50
+
+// Kill switches seeded before entries carried their own description
+const LEGACY_DESCRIPTIONS: Record<string, string> = {
+  ai_discovery_enabled:
+    'Claude Haiku generates personalized resort picks. When off: users get template recommendations.',
+  ai_summary_enabled:
+    'Claude Haiku generates trip summaries. When off: users see "AI unavailable" message.',
+}
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -94,6 +136,18 @@ async function getCount(table: string, filter?: Record<string, string>): Promise
   }
 }
 
+function configFields(config: ConfigDraft): Record<string, unknown> {
+  return Object.fromEntries(CONFIG_FIELDS.map((f) => [f, config[f]]))
+}
+
+function alertRuleFields(rule: AlertRuleDraft): Record<string, unknown> {
+  return Object.fromEntries(ALERT_RULE_FIELDS.map((f) => [f, rule[f]]))
+}
+
+function cohortLabel(value: string): string {
+  return COHORTS.find((c) => c.value === value)?.label ?? value
+}
+
 // ---------------------------------------------------------------------------
 // Stat Card Component
 // ---------------------------------------------------------------------------
@@ -131,6 +185,113 @@ function StatBlock({ stat, loading }: { stat: TableStat; loading: boolean }) {
   )
 }
 
+// ---------------------------------------------------------------------------
+// Edge Function Card Component
+// ---------------------------------------------------------------------------
+
+function getErrorRateColor(rate: number): string {
+  if (rate >= 0.1) return 'text-red-400'
+  if (rate >= 0.02) return 'text-yellow-400'
+  return 'text-green-400'
+}
+
+function EdgeFunctionCard({
+  fn,
+  stats,
+  ping,
+  pinging,
+  onPing,
+  onShowFailures,
+}: {
+  fn: EdgeFunction
+  stats: EdgeFunctionStats | undefined
+  ping: PingResult | undefined
+  pinging: boolean
+  onPing: () => void
+  onShowFailures: () => void
+}) {
+  const rate = errorRate(stats)
+
+  return (
+    <Card className="group hover:border-primary/30 transition-colors">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <Server className="w-4 h-4 text-muted-foreground shrink-0" />
+              <code className="text-sm font-mono font-medium truncate">{fn.name}</code>
+              {ping && (
+                <Badge variant={ping.ok ? 'secondary' : 'destructive'} className="text-[10px] shrink-0">
+                  {ping.ok ? `${ping.latencyMs} ms` : ping.status || 'down'}
+                </Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1 ml-6">{fn.description}</p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0 ml-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={onPing}
+              disabled={pinging}
+              title={ping?.error ?? 'Ping'}
+            >
+              {pinging ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Radio className="w-3.5 h-3.5" />}
+            </Button>
+            <a
+              href={`${SUPABASE_DASHBOARD_BASE}/functions/${fn.name}/details`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-muted-foreground hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          </div>
+        </div>
+
+        {stats && stats.invocations > 0 ? (
+          <div className="ml-6 grid grid-cols-4 gap-2 text-xs">
+            <div>
+              <div className="text-muted-foreground text-[10px]">Calls</div>
+              <div className="font-medium">{stats.invocations.toLocaleString()}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground text-[10px]">Errors</div>
+              {stats.errors > 0 ? (
+                <button
+                  onClick={onShowFailures}
+                  className={`font-medium hover:underline ${getErrorRateColor(rate ?? 0)}`}
+                >
+                  {((rate ?? 0) * 100).toFixed(1)}%
+                </button>
+              ) : (
+                <div className="font-medium text-green-400">0%</div>
+              )}
+            </div>
+            <div>
+              <div className="text-muted-foreground text-[10px]">p50 / p95</div>
+              <div className="font-medium">
+                {stats.p50_ms !== null ? Math.round(stats.p50_ms) : '—'} /{' '}
+                {stats.p95_ms !== null ? `${Math.round(stats.p95_ms)} ms` : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground text-[10px]">Last success</div>
+              <div className="font-medium">{stats.last_success_at ? timeAgo(stats.last_success_at) : 'never'}</div>
+            </div>
+          </div>
+        ) : (
+          <p className="ml-6 text-[10px] text-muted-foreground">
+            No invocations in the last {HEALTH_WINDOW_HOURS}h
+            {stats?.last_success_at ? ` · last success ${timeAgo(stats.last_success_at)}` : ''}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // Main Page
 // ---------------------------------------------------------------------------
@@ -140,33 +301,110 @@ export function SystemPage() {
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
 
-  // AI kill switch state
-  const [aiConfigs, setAiConfigs] = useState<AppConfigRow[]>([])
-  const [aiConfigLoading, setAiConfigLoading] = useState(true)
+  // Remote config state
+  const [configs, setConfigs] = useState<RemoteConfig[]>([])
+  const [configsLoading, setConfigsLoading] = useState(true)
   const [togglingKey, setTogglingKey] = useState<string | null>(null)
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingConfig, setEditingConfig] = useState<RemoteConfig | null>(null)
+  const [savingConfig, setSavingConfig] = useState(false)
+  const [configConflict, setConfigConflict] = useState<{
+    base: RemoteConfig
+    mine: Record<string, unknown>
+    theirs: RemoteConfig
+    fields: string[]
+  } | null>(null)
+  const [historyKey, setHistoryKey] = useState<string | null>(null)
+  const [deleteConfigTarget, setDeleteConfigTarget] = useState<RemoteConfig | null>(null)
+
+  // Alerting state
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([])
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>([])
+  const [alertsLoading, setAlertsLoading] = useState(true)
+  const [unacknowledgedOnly, setUnacknowledgedOnly] = useState(false)
+  const [alertEditorOpen, setAlertEditorOpen] = useState(false)
+  const [editingAlertRule, setEditingAlertRule] = useState<AlertRule | null>(null)
+  const [savingAlertRule, setSavingAlertRule] = useState(false)
+  const [testingRuleId, setTestingRuleId] = useState<string | null>(null)
+  const [deleteAlertTarget, setDeleteAlertTarget] = useState<AlertRule | null>(null)
+
+  // Edge function health state
+  const [functionStats, setFunctionStats] = useState<Record<string, EdgeFunctionStats>>({})
+  const [functionStatsError, setFunctionStatsError] = useState(false)
+  const [pings, setPings] = useState<Record<string, PingResult>>({})
+  const [pingingNames, setPingingNames] = useState<Set<string>>(new Set())
+  const [failuresFor, setFailuresFor] = useState<string | null>(null)
 
   // WDB sync metrics state
   const [syncMetrics, setSyncMetrics] = useState<SyncMetrics | null>(null)
   const [syncMetricsLoading, setSyncMetricsLoading] = useState(true)
 
   const { log } = useAuditLog()
+  const { can } = usePermissions()
+  const canConfigure = can('system.configure')
 
-  const fetchAiConfigs = useCallback(async () => {
+  const fetchConfigs = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('app_config')
-        .select('key, value, updated_at, updated_by')
-        .in('key', ['ai_discovery_enabled', 'ai_summary_enabled'])
+        .select(CONFIG_COLUMNS)
+        .not('key', 'like', `${RESERVED_CONFIG_PREFIX}%`)
         .order('key')
       if (error) throw error
-      setAiConfigs((data as AppConfigRow[]) ?? [])
+      setConfigs((data as RemoteConfig[]) ?? [])
+    } catch (err) {
+      console.error('Failed to load remote config:', err)
+    } finally {
+      setConfigsLoading(false)
+    }
+  }, [])
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const [rulesRes, eventsRes] = await Promise.all([
+        supabase.from(ALERT_RULES_TABLE).select('*').order('name'),
+        supabase
+          .from(ALERT_EVENTS_TABLE)
+          .select('*')
+          .order('fired_at', { ascending: false })
+          .limit(ALERT_HISTORY_LIMIT),
+      ])
+      if (rulesRes.error) throw rulesRes.error
+      if (eventsRes.error) throw eventsRes.error
+      setAlertRules((rulesRes.data as AlertRule[]) ?? [])
+      setAlertEvents((eventsRes.data as AlertEvent[]) ?? [])
     } catch (err) {
-      console.error('Failed to load AI config:', err)
+      console.error('Failed to load alerts:', err)
     } finally {
-      setAiConfigLoading(false)
+      setAlertsLoading(false)
     }
   }, [])
 
+  const fetchFunctionStats = useCallback(async () => {
+    try {
+      setFunctionStats(await loadEdgeFunctionStats())
+      setFunctionStatsError(false)
+    } catch (err) {
+      console.error('Failed to load edge function stats:', err)
+      setFunctionStatsError(true)
+    }
+  }, [])
+
+  const pingFunctions = useCallback(async (names: string[]) => {
+    setPingingNames((prev) => new Set([...prev, ...names]))
+    await Promise.all(
+      names.map(async (name) => {
+        const result = await pingEdgeFunction(name)
+        setPings((prev) => ({ ...prev, [name]: result }))
+        setPingingNames((prev) => {
+          const next = new Set(prev)
+          next.delete(name)
+          return next
+        })
+      })
+    )
+  }, [])
+
   const fetchSyncMetrics = useCallback(async () => {
     setSyncMetricsLoading(true)
     try {
@@ -250,55 +488,298 @@ export function SystemPage() {
     }
   }, [])
 
-  const toggleAiConfig = useCallback(
-    async (key: string, enabled: boolean) => {
-      setTogglingKey(key)
-      try {
-        const { data: { session } } = await supabase.auth.getSession()
-        const adminEmail = session?.user?.email ?? 'unknown'
-
-        const { error } = await supabase
-          .from('app_config')
-          .update({
-            value: enabled,
-            updated_at: new Date().toISOString(),
-            updated_by: adminEmail,
-          })
-          .eq('key', key)
-
-        if (error) throw error
+  // `base` is the version the draft was edited against: the row as opened,
+  // or the other admin's version after a conflict merge. null creates it.
+  const saveConfig = useCallback(
+    async (draft: ConfigDraft, base: RemoteConfig | null): Promise<boolean> => {
+      if (isReservedConfigKey(draft.key)) {
+        toast.error(`Keys starting with ${RESERVED_CONFIG_PREFIX} are reserved for service usage`)
+        return false
+      }
+      const invalid = validateConfig(draft)
+      if (invalid) {
+        toast.error(invalid)
+        return false
+      }
 
-        toast.success(`AI ${enabled ? 'enabled' : 'paused'}`)
+      const { data: { session } } = await supabase.auth.getSession()
+      const adminEmail = session?.user?.email ?? 'unknown'
+      const fields = configFields(draft)
 
+      if (!base) {
+        const { error } = await supabase.from('app_config').insert({
+          key: draft.key,
+          ...fields,
+          updated_at: new Date().toISOString(),
+          updated_by: adminEmail,
+        })
+        if (error) throw error
         await log({
-          action: `toggle_${key}`,
+          action: 'create_app_config',
           entity_type: 'app_config',
-          entity_id: key,
-          details: { enabled },
+          entity_id: draft.key,
+          after: fields,
         })
+        return true
+      }
+
+      const result = await updateIfUnchanged(
+        'app_config',
+        base.key,
+        { ...fields, updated_by: adminEmail },
+        base.updated_at,
+        'key'
+      )
+      if (result.status === 'missing') {
+        toast.error(`${base.key} was deleted by another admin`)
+        return true
+      }
+      if (result.status === 'conflict') {
+        const theirs = result.current as unknown as RemoteConfig
+        const conflicts = conflictingFields(fields, result.current)
+        if (conflicts.length > 0) {
+          setConfigConflict({ base, mine: fields, theirs, fields: conflicts })
+          return false
+        }
+        // Their save already matches ours; nothing left to write
+      }
+
+      await log({
+        action: 'update_app_config',
+        entity_type: 'app_config',
+        entity_id: base.key,
+        ...snapshotChanges(configFields(base), fields),
+      })
+      return true
+    },
+    [log]
+  )
+
+  const handleEditorSave = useCallback(
+    async (draft: ConfigDraft) => {
+      setSavingConfig(true)
+      try {
+        if (await saveConfig(draft, editingConfig)) {
+          toast.success(`Saved ${draft.key}`)
+          setEditorOpen(false)
+          fetchConfigs()
+        }
+      } catch (err) {
+        toast.error(`Failed to save config: ${err instanceof Error ? err.message : 'unknown error'}`)
+      } finally {
+        setSavingConfig(false)
+      }
+    },
+    [saveConfig, editingConfig, fetchConfigs]
+  )
+
+  const handleResolveConfigConflict = useCallback(
+    async (merged: Record<string, unknown>) => {
+      if (!configConflict) return
+      const { theirs } = configConflict
+      setConfigConflict(null)
+      setSavingConfig(true)
+      try {
+        if (await saveConfig({ ...theirs, ...merged } as ConfigDraft, theirs)) {
+          toast.success(`Saved ${theirs.key}`)
+          setEditorOpen(false)
+          fetchConfigs()
+        }
+      } catch (err) {
+        toast.error(`Failed to save config: ${err instanceof Error ? err.message : 'unknown error'}`)
+      } finally {
+        setSavingConfig(false)
+      }
+    },
+    [configConflict, saveConfig, fetchConfigs]
+  )
 
-        // Refresh config state
-        setAiConfigs((prev) =>
-          prev.map((c) =>
-            c.key === key
-              ? { ...c, value: enabled, updated_at: new Date().toISOString(), updated_by: adminEmail }
-              : c,
-          ),
-        )
+  // Boolean kill switches flip in place, without the editor
+  const toggleConfig = useCallback(
+    async (config: RemoteConfig, enabled: boolean) => {
+      setTogglingKey(config.key)
+      try {
+        if (await saveConfig({ ...config, value: enabled }, config)) {
+          toast.success(`${config.key} ${enabled ? 'enabled' : 'disabled'}`)
+        }
+        fetchConfigs()
       } catch (err) {
-        console.error('Failed to toggle AI config:', err)
-        toast.error('Failed to update AI config')
+        console.error('Failed to toggle config:', err)
+        toast.error(`Failed to update ${config.key}`)
       } finally {
         setTogglingKey(null)
       }
     },
-    [log],
+    [saveConfig, fetchConfigs]
+  )
+
+  const handleDeleteConfig = useCallback(async () => {
+    if (!deleteConfigTarget) return
+    const config = deleteConfigTarget
+    setDeleteConfigTarget(null)
+    if (isReservedConfigKey(config.key)) {
+      toast.error(`${config.key} is reserved for service usage`)
+      return
+    }
+    try {
+      const { error } = await supabase.from('app_config').delete().eq('key', config.key)
+      if (error) throw error
+      await log({
+        action: 'delete_app_config',
+        entity_type: 'app_config',
+        entity_id: config.key,
+        before: configFields(config),
+      })
+      toast.success(`Deleted ${config.key}`)
+      fetchConfigs()
+    } catch (err) {
+      toast.error(`Failed to delete config: ${err instanceof Error ? err.message : 'unknown error'}`)
+    }
+  }, [deleteConfigTarget, log, fetchConfigs])
+
+  const handleAlertRuleSave = useCallback(
+    async (draft: AlertRuleDraft) => {
+      const invalid = validateAlertRule(draft)
+      if (invalid) {
+        toast.error(invalid)
+        return
+      }
+      setSavingAlertRule(true)
+      try {
+        const fields = alertRuleFields(draft)
+        if (editingAlertRule) {
+          const { error } = await supabase
+            .from(ALERT_RULES_TABLE)
+            .update({ ...fields, updated_at: new Date().toISOString() })
+            .eq('id', editingAlertRule.id)
+          if (error) throw error
+          await log({
+            action: 'update_alert_rule',
+            entity_type: 'alert_rule',
+            entity_id: editingAlertRule.id,
+            ...snapshotChanges(alertRuleFields(editingAlertRule), fields),
+          })
+        } else {
+          const { data: { session } } = await supabase.auth.getSession()
+          const { data, error } = await supabase
+            .from(ALERT_RULES_TABLE)
+            .insert({ ...fields, created_by: session?.user?.email ?? 'unknown' })
+            .select('id')
+            .single()
+          if (error) throw error
+          await log({
+            action: 'create_alert_rule',
+            entity_type: 'alert_rule',
+            entity_id: data.id,
+            after: fields,
+          })
+        }
+        toast.success(`Saved "${draft.name}"`)
+        setAlertEditorOpen(false)
+        fetchAlerts()
+      } catch (err) {
+        toast.error(`Failed to save alert rule: ${err instanceof Error ? err.message : 'unknown error'}`)
+      } finally {
+        setSavingAlertRule(false)
+      }
+    },
+    [editingAlertRule, log, fetchAlerts]
+  )
+
+  const toggleAlertRule = useCallback(
+    async (rule: AlertRule, enabled: boolean) => {
+      const { error } = await supabase
+        .from(ALERT_RULES_TABLE)
+        .update({ enabled, updated_at: new Date().toISOString() })
+        .eq('id', rule.id)
+      if (error) {
+        toast.error(`Failed to update "${rule.name}": ${error.message}`)
+        return
+      }
+      await log({
+        action: 'update_alert_rule',
+        entity_type: 'alert_rule',
+        entity_id: rule.id,
+        before: { enabled: rule.enabled },
+        after: { enabled },
+      })
+      setAlertRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled } : r)))
+    },
+    [log]
+  )
+
+  const handleTestAlertRule = useCallback(async (rule: AlertRule) => {
+    setTestingRuleId(rule.id)
+    try {
+      const result = await testAlertRule(rule.id)
+      const value = result.value === null ? 'no value' : formatAlertValue(rule.metric, result.value)
+      if (result.delivery?.error) {
+        toast.error(`Test delivery failed: ${result.delivery.error}`, { description: `Current value: ${value}` })
+      } else {
+        toast.success(`Test notification sent`, {
+          description: `Current value: ${value} (${result.firing ? 'would fire' : 'within threshold'})`,
+        })
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Test failed')
+    } finally {
+      setTestingRuleId(null)
+    }
+  }, [])
+
+  const handleDeleteAlertRule = useCallback(async () => {
+    if (!deleteAlertTarget) return
+    const rule = deleteAlertTarget
+    setDeleteAlertTarget(null)
+    try {
+      const { error } = await supabase.from(ALERT_RULES_TABLE).delete().eq('id', rule.id)
+      if (error) throw error
+      await log({
+        action: 'delete_alert_rule',
+        entity_type: 'alert_rule',
+        entity_id: rule.id,
+        before: alertRuleFields(rule),
+      })
+      toast.success(`Deleted "${rule.name}"`)
+      fetchAlerts()
+    } catch (err) {
+      toast.error(`Failed to delete alert rule: ${err instanceof Error ? err.message : 'unknown error'}`)
+    }
+  }, [deleteAlertTarget, log, fetchAlerts])
+
+  const acknowledgeAlert = useCallback(
+    async (event: AlertEvent) => {
+      const { data: { session } } = await supabase.auth.getSession()
+      const acknowledged = {
+        acknowledged_at: new Date().toISOString(),
+        acknowledged_by: session?.user?.email ?? 'unknown',
+      }
+      const { error } = await supabase
+        .from(ALERT_EVENTS_TABLE)
+        .update(acknowledged)
+        .eq('id', event.id)
+        .is('acknowledged_at', null)
+      if (error) {
+        toast.error(`Failed to acknowledge alert: ${error.message}`)
+        return
+      }
+      await log({
+        action: 'acknowledge_alert',
+        entity_type: 'alert_event',
+        entity_id: event.id,
+        details: { rule_id: event.rule_id, rule_name: event.rule_name },
+      })
+      setAlertEvents((prev) => prev.map((e) => (e.id === event.id ? { ...e, ...acknowledged } : e)))
+    },
+    [log]
   )
 
   useEffect(() => {
-    fetchAiConfigs()
+    fetchConfigs()
+    fetchAlerts()
+    fetchFunctionStats()
     fetchSyncMetrics()
-  }, [fetchAiConfigs, fetchSyncMetrics])
+  }, [fetchConfigs, fetchAlerts, fetchFunctionStats, fetchSyncMetrics])
 
   const fetchStats = useCallback(async (showRefresh = false) => {
     if (showRefresh) setRefreshing(true)
@@ -400,12 +881,16 @@ export function SystemPage() {
     fetchStats()
   }, [fetchStats])
 
+  const visibleAlertEvents = unacknowledgedOnly
+    ? alertEvents.filter((e) => !e.acknowledged_at)
+    : alertEvents
+
   return (
     <div className="flex flex-col h-full">
       <Header
         title="System Health"
         subtitle="Database stats, storage, and edge functions"
-        onRefresh={() => { fetchStats(true); fetchAiConfigs(); fetchSyncMetrics() }}
+        onRefresh={() => { fetchStats(true); fetchConfigs(); fetchAlerts(); fetchFunctionStats(); fetchSyncMetrics() }}
         refreshing={refreshing}
       />
 
@@ -459,36 +944,46 @@ export function SystemPage() {
           </Card>
         </section>
 
-        {/* AI Service Controls */}
+        {/* Remote Config */}
         <section>
-          <div className="flex items-center gap-2 mb-4">
-            <Bot className="w-5 h-5 text-primary" />
-            <h2 className="text-base font-semibold">AI Service Controls</h2>
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <SlidersHorizontal className="w-5 h-5 text-primary" />
+              <h2 className="text-base font-semibold">Remote Config</h2>
+            </div>
+            {canConfigure && (
+              <Button
+                size="sm"
+                onClick={() => {
+                  setEditingConfig(null)
+                  setEditorOpen(true)
+                }}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New Config
+              </Button>
+            )}
           </div>
 
-          {aiConfigLoading ? (
+          {configsLoading ? (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Skeleton className="h-32 rounded-xl" />
               <Skeleton className="h-32 rounded-xl" />
             </div>
-          ) : aiConfigs.length === 0 ? (
+          ) : configs.length === 0 ? (
             <Card className="border-dashed">
               <CardContent className="p-6">
                 <p className="text-sm text-muted-foreground">
-                  No AI config rows found. The <code>app_config</code> table may not be seeded yet.
+                  No config rows found. The <code>app_config</code> table may not be seeded yet.
                 </p>
               </CardContent>
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {aiConfigs.map((config) => {
-                const isDiscovery = config.key === 'ai_discovery_enabled'
-                const label = isDiscovery ? 'AI Discovery' : 'AI Summaries'
-                const subtitle = isDiscovery ? 'Resort Recommendations' : 'Album & Visit'
-                const description = isDiscovery
-                  ? 'Claude Haiku generates personalized resort picks. When off: users get template recommendations.'
-                  : 'Claude Haiku generates trip summaries. When off: users see "AI unavailable" message.'
-                const enabled = config.value === true
+              {configs.map((config) => {
+                const type = configType(config)
+                const description = config.description ?? LEGACY_DESCRIPTIONS[config.key]
+                const rules = config.rules ?? []
                 const toggling = togglingKey === config.key
 
                 return (
@@ -497,16 +992,34 @@ export function SystemPage() {
                       <div className="flex items-start justify-between gap-4">
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 mb-1">
-                            <span className="text-sm font-semibold">{label}</span>
-                            <span className="text-xs text-muted-foreground">({subtitle})</span>
+                            <code className="text-sm font-semibold truncate">{config.key}</code>
+                            <Badge variant="outline" className="text-[10px] shrink-0">
+                              {CONFIG_TYPES.find((t) => t.value === type)?.label ?? type}
+                            </Badge>
                           </div>
-                          <p className="text-xs text-muted-foreground leading-relaxed mb-3">
-                            {description}
-                          </p>
+                          {description && (
+                            <p className="text-xs text-muted-foreground leading-relaxed mb-3">{description}</p>
+                          )}
+                          {type !== 'boolean' && (
+                            <code className="block text-xs bg-muted px-2 py-1 rounded mb-3 truncate">
+                              {formatConfigValue(type, config.value)}
+                            </code>
+                          )}
+                          {rules.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mb-3">
+                              {rules.map((rule, i) => (
+                                <Badge key={i} variant="secondary" className="text-[10px] font-normal">
+                                  {describeRule(rule, cohortLabel)} → {formatConfigValue(type, rule.value)}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                           <div className="flex items-center gap-2">
-                            <Badge variant={enabled ? 'default' : 'destructive'} className="text-[10px]">
-                              {enabled ? 'Enabled' : 'Paused'}
-                            </Badge>
+                            {type === 'boolean' && (
+                              <Badge variant={config.value === true ? 'default' : 'destructive'} className="text-[10px]">
+                                {config.value === true ? 'Enabled' : 'Disabled'}
+                              </Badge>
+                            )}
                             {config.updated_at && (
                               <span className="text-[10px] text-muted-foreground">
                                 Updated {timeAgo(config.updated_at)}
@@ -515,12 +1028,52 @@ export function SystemPage() {
                             )}
                           </div>
                         </div>
-                        <Switch
-                          checked={enabled}
-                          disabled={toggling}
-                          onCheckedChange={(checked) => toggleAiConfig(config.key, checked)}
-                          aria-label={`Toggle ${label}`}
-                        />
+                        <div className="flex flex-col items-end gap-2 shrink-0">
+                          {type === 'boolean' && (
+                            <Switch
+                              checked={config.value === true}
+                              disabled={toggling}
+                              onCheckedChange={(checked) => toggleConfig(config, checked)}
+                              aria-label={`Toggle ${config.key}`}
+                            />
+                          )}
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => setHistoryKey(config.key)}
+                              title="History"
+                            >
+                              <History className="w-3.5 h-3.5" />
+                            </Button>
+                            {canConfigure && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7"
+                                  onClick={() => {
+                                    setEditingConfig(config)
+                                    setEditorOpen(true)
+                                  }}
+                                  title="Edit"
+                                >
+                                  <Pencil className="w-3.5 h-3.5" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7"
+                                  onClick={() => setDeleteConfigTarget(config)}
+                                  title="Delete"
+                                >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -530,38 +1083,242 @@ export function SystemPage() {
           )}
         </section>
 
-        {/* Edge Functions */}
+        {/* Alerts */}
         <section>
-          <div className="flex items-center gap-2 mb-4">
-            <Zap className="w-5 h-5 text-primary" />
-            <h2 className="text-base font-semibold">Edge Functions</h2>
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Bell className="w-5 h-5 text-primary" />
+              <h2 className="text-base font-semibold">Alerts</h2>
+            </div>
+            {canConfigure && (
+              <Button
+                size="sm"
+                onClick={() => {
+                  setEditingAlertRule(null)
+                  setAlertEditorOpen(true)
+                }}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New Rule
+              </Button>
+            )}
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-            {EDGE_FUNCTIONS.map((fn) => (
-              <Card key={fn.name} className="group hover:border-primary/30 transition-colors">
-                <CardContent className="p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <Server className="w-4 h-4 text-muted-foreground shrink-0" />
-                        <code className="text-sm font-mono font-medium truncate">{fn.name}</code>
+          {alertsLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Skeleton className="h-28 rounded-xl" />
+              <Skeleton className="h-28 rounded-xl" />
+            </div>
+          ) : alertRules.length === 0 ? (
+            <Card className="border-dashed">
+              <CardContent className="p-6">
+                <p className="text-sm text-muted-foreground">
+                  No alert rules yet. Add one to be emailed or notified by webhook when a quota, key or queue
+                  crosses a threshold.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {alertRules.map((rule) => (
+                <Card key={rule.id} className={rule.firing && rule.enabled ? 'border-red-500/40' : undefined}>
+                  <CardContent className="p-5">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-sm font-semibold truncate">{rule.name}</span>
+                          {rule.enabled && rule.firing && (
+                            <Badge variant="destructive" className="text-[10px] shrink-0">
+                              Firing
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground mb-3">{describeAlertRule(rule)}</p>
+                        <div className="flex flex-wrap gap-1 mb-3">
+                          {rule.channels.emails.map((email) => (
+                            <Badge key={email} variant="secondary" className="text-[10px] font-normal">
+                              {email}
+                            </Badge>
+                          ))}
+                          {rule.channels.webhook_url && (
+                            <Badge variant="secondary" className="text-[10px] font-normal">
+                              Webhook
+                            </Badge>
+                          )}
+                          <Badge variant="outline" className="text-[10px] font-normal">
+                            Every {rule.cooldown_hours}h at most
+                          </Badge>
+                        </div>
+                        <span className="text-[10px] text-muted-foreground">
+                          {rule.last_evaluated_at
+                            ? `Checked ${timeAgo(rule.last_evaluated_at)}${
+                                rule.last_value !== null ? ` · ${formatAlertValue(rule.metric, rule.last_value)}` : ''
+                              }`
+                            : 'Not checked yet'}
+                        </span>
+                      </div>
+                      <div className="flex flex-col items-end gap-2 shrink-0">
+                        <Switch
+                          checked={rule.enabled}
+                          disabled={!canConfigure}
+                          onCheckedChange={(checked) => toggleAlertRule(rule, checked)}
+                          aria-label={`Toggle ${rule.name}`}
+                        />
+                        {canConfigure && (
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleTestAlertRule(rule)}
+                              disabled={testingRuleId === rule.id}
+                              title="Send test notification"
+                            >
+                              {testingRuleId === rule.id ? (
+                                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                              ) : (
+                                <Send className="w-3.5 h-3.5" />
+                              )}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => {
+                                setEditingAlertRule(rule)
+                                setAlertEditorOpen(true)
+                              }}
+                              title="Edit"
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => setDeleteAlertTarget(rule)}
+                              title="Delete"
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
-                      <p className="text-xs text-muted-foreground mt-1 ml-6">{fn.description}</p>
                     </div>
-                    <a
-                      href={`${SUPABASE_DASHBOARD_BASE}/functions/${fn.name}/details`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-muted-foreground hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity shrink-0 ml-2"
-                    >
-                      <ExternalLink className="w-4 h-4" />
-                    </a>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {/* Alert history */}
+          <Card className="mt-4">
+            <CardHeader className="pb-3 flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle className="text-sm font-medium">Alert History</CardTitle>
+                <CardDescription className="text-xs">Last {ALERT_HISTORY_LIMIT} alerts fired</CardDescription>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Switch checked={unacknowledgedOnly} onCheckedChange={setUnacknowledgedOnly} />
+                Unacknowledged only
+              </label>
+            </CardHeader>
+            <CardContent className="p-0">
+              {alertsLoading ? (
+                <div className="p-5 space-y-2">
+                  <Skeleton className="h-10 rounded-lg" />
+                  <Skeleton className="h-10 rounded-lg" />
+                </div>
+              ) : visibleAlertEvents.length === 0 ? (
+                <p className="p-5 text-sm text-muted-foreground">No alerts have fired.</p>
+              ) : (
+                <div className="divide-y divide-border border-t border-border">
+                  {visibleAlertEvents.map((event) => (
+                    <div key={event.id} className="flex items-center justify-between gap-4 px-5 py-3">
+                      <div className="flex items-start gap-3 min-w-0">
+                        <BellRing
+                          className={`w-4 h-4 mt-0.5 shrink-0 ${
+                            event.acknowledged_at ? 'text-muted-foreground' : 'text-red-400'
+                          }`}
+                        />
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">{event.rule_name}</div>
+                          <div className="text-xs text-muted-foreground truncate">{event.message}</div>
+                          <div className="text-[10px] text-muted-foreground mt-0.5">
+                            {formatDateTime(event.fired_at)}
+                            {event.resolved_at && ` · resolved ${timeAgo(event.resolved_at)}`}
+                            {event.delivery?.error && (
+                              <span className="text-red-400"> · delivery failed: {event.delivery.error}</span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="shrink-0">
+                        {event.acknowledged_at ? (
+                          <span className="text-[10px] text-muted-foreground">
+                            Acknowledged by {event.acknowledged_by ?? 'unknown'} {timeAgo(event.acknowledged_at)}
+                          </span>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => acknowledgeAlert(event)}>
+                            <Check className="w-3.5 h-3.5 mr-1" />
+                            Acknowledge
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Edge Functions */}
+        <section>
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Zap className="w-5 h-5 text-primary" />
+              <h2 className="text-base font-semibold">Edge Functions</h2>
+              <span className="text-xs text-muted-foreground">last {HEALTH_WINDOW_HOURS}h</span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => pingFunctions(EDGE_FUNCTIONS.map((fn) => fn.name))}
+              disabled={pingingNames.size > 0}
+            >
+              <Radio className="w-4 h-4 mr-2" />
+              Ping All
+            </Button>
           </div>
+
+          {functionStatsError && (
+            <p className="text-xs text-yellow-400 mb-3 flex items-center gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              Invocation stats are unavailable. Ping still works.
+            </p>
+          )}
+
+          {(['admin', 'app'] as const).map((group) => (
+            <div key={group} className="mb-4 last:mb-0">
+              <h3 className="text-xs font-medium text-muted-foreground mb-2">
+                {group === 'admin' ? 'Called by the admin app' : 'Called by the mobile app and triggers'}
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {EDGE_FUNCTIONS.filter((fn) => !!fn.admin === (group === 'admin')).map((fn) => (
+                  <EdgeFunctionCard
+                    key={fn.name}
+                    fn={fn}
+                    stats={functionStats[fn.name]}
+                    ping={pings[fn.name]}
+                    pinging={pingingNames.has(fn.name)}
+                    onPing={() => pingFunctions([fn.name])}
+                    onShowFailures={() => setFailuresFor(fn.name)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
         </section>
 
         {/* WatermelonDB Sync Status */}
@@ -680,6 +1437,68 @@ export function SystemPage() {
           )}
         </section>
       </div>
+
+      <ConfigEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        config={editingConfig}
+        existingKeys={configs.map((c) => c.key)}
+        saving={savingConfig}
+        onSave={handleEditorSave}
+      />
+
+      {/* Concurrent edit merge */}
+      <ConflictDialog
+        open={!!configConflict}
+        onOpenChange={(open) => !open && setConfigConflict(null)}
+        fields={configConflict?.fields ?? []}
+        base={configConflict ? configFields(configConflict.base) : {}}
+        mine={configConflict?.mine ?? {}}
+        theirs={(configConflict?.theirs ?? {}) as unknown as Record<string, unknown>}
+        saving={savingConfig}
+        onResolve={handleResolveConfigConflict}
+      />
+
+      <ConfigHistoryDialog
+        open={!!historyKey}
+        onOpenChange={(open) => !open && setHistoryKey(null)}
+        configKey={historyKey}
+        onRolledBack={fetchConfigs}
+      />
+
+      <InvocationLogDialog
+        open={!!failuresFor}
+        onOpenChange={(open) => !open && setFailuresFor(null)}
+        functionName={failuresFor}
+      />
+
+      <AlertRuleDialog
+        open={alertEditorOpen}
+        onOpenChange={setAlertEditorOpen}
+        rule={editingAlertRule}
+        saving={savingAlertRule}
+        onSave={handleAlertRuleSave}
+      />
+
+      <ConfirmDialog
+        open={!!deleteAlertTarget}
+        onOpenChange={(open) => !open && setDeleteAlertTarget(null)}
+        title="Delete Alert Rule"
+        description={`Delete "${deleteAlertTarget?.name ?? ''}"? Alerts it already fired stay in the history.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={handleDeleteAlertRule}
+      />
+
+      <ConfirmDialog
+        open={!!deleteConfigTarget}
+        onOpenChange={(open) => !open && setDeleteConfigTarget(null)}
+        title="Delete Config"
+        description={`Delete ${deleteConfigTarget?.key ?? ''}? Clients that read it will fall back to their built-in default.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={handleDeleteConfig}
+      />
     </div>
   )
 }
@@ -0,0 +1,448 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { supabase } from '@/lib/supabase'
+import { ADMIN_ROLES, type AdminRole } from '@/lib/constants'
+import { formatDate, cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { useAuditLog } from '@/hooks/use-audit-log'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
+import { Header } from '@/components/layout/header'
+import { StatsCard } from '@/components/shared/stats-card'
+import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import { DataTable } from '@/components/shared/data-table'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from '@/components/ui/select'
+import { type ColumnDef, type SortingState, type VisibilityState } from '@tanstack/react-table'
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+
+interface AdminUser {
+  id: string
+  email: string
+  role: AdminRole
+  added_by: string | null
+  created_at: string
+}
+
+interface AdminUserForm {
+  email: string
+  role: AdminRole
+}
+
+const EMPTY_FORM: AdminUserForm = { email: '', role: 'support_agent' }
+
+type TeamFilters = { role: AdminRole | 'all' }
+
+const TEAM_VIEW_DEFAULTS: ViewState<TeamFilters> = {
+  filters: { role: 'all' },
+  sorting: [],
+  columnVisibility: {},
+}
+
+export function TeamPage() {
+  const { log } = useAuditLog()
+
+  const [admins, setAdmins] = useState<AdminUser[]>([])
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+
+  // Role filter
+  const [roleFilter, setRoleFilter] = useState<TeamFilters['role']>('all')
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+
+  // Saved views
+  const viewState = useMemo<ViewState<TeamFilters>>(
+    () => ({ filters: { role: roleFilter }, sorting, columnVisibility }),
+    [roleFilter, sorting, columnVisibility]
+  )
+  const applyView = useCallback(({ filters: f, sorting: s, columnVisibility: c }: ViewState<TeamFilters>) => {
+    setRoleFilter(f.role)
+    setSorting(s)
+    setColumnVisibility(c)
+  }, [])
+  const views = useSavedViews({
+    page: 'team',
+    state: viewState,
+    defaults: TEAM_VIEW_DEFAULTS,
+    apply: applyView,
+  })
+
+  // Add/Edit dialog
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [dialogMode, setDialogMode] = useState<'add' | 'edit'>('add')
+  const [editTarget, setEditTarget] = useState<AdminUser | null>(null)
+  const [form, setForm] = useState<AdminUserForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  // Remove
+  const [deleteTarget, setDeleteTarget] = useState<AdminUser | null>(null)
+
+  const loadAdmins = useCallback(async () => {
+    try {
+      const [{ data, error }, { data: { session } }] = await Promise.all([
+        supabase.from('admin_users').select('*').order('created_at', { ascending: true }),
+        supabase.auth.getSession(),
+      ])
+      if (error) throw error
+      setAdmins((data as AdminUser[]) ?? [])
+      setCurrentEmail(session?.user?.email?.toLowerCase() ?? null)
+    } catch {
+      toast.error('Failed to load team')
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAdmins()
+  }, [loadAdmins])
+
+  const filteredAdmins = useMemo(
+    () => (roleFilter === 'all' ? admins : admins.filter((a) => a.role === roleFilter)),
+    [admins, roleFilter],
+  )
+
+  const handleRefresh = useCallback(() => {
+    setRefreshing(true)
+    loadAdmins()
+  }, [loadAdmins])
+
+  const ownerCount = useMemo(() => admins.filter((a) => a.role === 'owner').length, [admins])
+
+  const openAddDialog = useCallback(() => {
+    setForm(EMPTY_FORM)
+    setDialogMode('add')
+    setEditTarget(null)
+    setDialogOpen(true)
+  }, [])
+
+  const openEditDialog = useCallback((admin: AdminUser) => {
+    setForm({ email: admin.email, role: admin.role })
+    setDialogMode('edit')
+    setEditTarget(admin)
+    setDialogOpen(true)
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    const email = form.email.trim().toLowerCase()
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      toast.error('Invalid email format')
+      return
+    }
+    // Never leave the dashboard without someone who can manage the team
+    if (editTarget?.role === 'owner' && form.role !== 'owner' && ownerCount <= 1) {
+      toast.error('At least one owner is required')
+      return
+    }
+
+    setSaving(true)
+    try {
+      if (dialogMode === 'add') {
+        const { error } = await supabase.from('admin_users').insert({
+          email,
+          role: form.role,
+          added_by: currentEmail,
+        })
+        if (error) throw error
+        await log({
+          action: 'add_admin',
+          entity_type: 'admin_user',
+          details: { email, role: form.role },
+        })
+        toast.success(`Added ${email}`)
+      } else if (editTarget) {
+        const { error } = await supabase
+          .from('admin_users')
+          .update({ role: form.role })
+          .eq('id', editTarget.id)
+        if (error) throw error
+        await log({
+          action: 'update_admin_role',
+          entity_type: 'admin_user',
+          entity_id: editTarget.id,
+          details: { email: editTarget.email, from_role: editTarget.role, to_role: form.role },
+        })
+        toast.success(`Updated ${editTarget.email}`)
+      }
+      setDialogOpen(false)
+      loadAdmins()
+    } catch {
+      toast.error(dialogMode === 'add' ? 'Failed to add admin' : 'Failed to update role')
+    } finally {
+      setSaving(false)
+    }
+  }, [form, dialogMode, editTarget, ownerCount, currentEmail, log, loadAdmins])
+
+  const handleDelete = useCallback(async () => {
+    if (!deleteTarget) return
+    try {
+      const { error } = await supabase
+        .from('admin_users')
+        .delete()
+        .eq('id', deleteTarget.id)
+      if (error) throw error
+      await log({
+        action: 'remove_admin',
+        entity_type: 'admin_user',
+        entity_id: deleteTarget.id,
+        details: { email: deleteTarget.email, role: deleteTarget.role },
+      })
+      toast.success(`Removed ${deleteTarget.email}`)
+      setDeleteTarget(null)
+      loadAdmins()
+    } catch {
+      toast.error('Failed to remove admin')
+    }
+  }, [deleteTarget, log, loadAdmins])
+
+  const columns: ColumnDef<AdminUser, unknown>[] = useMemo(
+    () => [
+      {
+        accessorKey: 'email',
+        header: 'Email',
+        cell: ({ row }) => (
+          <span className="font-medium">
+            {row.original.email}
+            {row.original.email === currentEmail && (
+              <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+            )}
+          </span>
+        ),
+      },
+      {
+        accessorKey: 'role',
+        header: 'Role',
+        cell: ({ row }) => {
+          const r = ADMIN_ROLES.find((ro) => ro.value === row.original.role)
+          return (
+            <span
+              className={cn(
+                'text-xs px-2 py-0.5 rounded-md font-medium',
+                r?.color ?? 'text-muted-foreground',
+              )}
+            >
+              {r?.label ?? row.original.role}
+            </span>
+          )
+        },
+      },
+      {
+        accessorKey: 'added_by',
+        header: 'Added By',
+        cell: ({ row }) => (
+          <span className="text-xs text-muted-foreground">{row.original.added_by ?? '—'}</span>
+        ),
+      },
+      {
+        accessorKey: 'created_at',
+        header: 'Added',
+        cell: ({ row }) => (
+          <span className="text-xs text-muted-foreground">
+            {formatDate(row.original.created_at)}
+          </span>
+        ),
+      },
+      {
+        id: 'actions',
+        header: '',
+        enableSorting: false,
+        cell: ({ row }) => (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={(e) => {
+                e.stopPropagation()
+                openEditDialog(row.original)
+              }}
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground hover:text-destructive"
+              disabled={row.original.email === currentEmail}
+              title={row.original.email === currentEmail ? "You can't remove yourself" : undefined}
+              onClick={(e) => {
+                e.stopPropagation()
+                setDeleteTarget(row.original)
+              }}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [openEditDialog, currentEmail],
+  )
+
+  return (
+    <div className="flex flex-col h-full">
+      <Header
+        title="Team"
+        subtitle="Admin accounts and their roles"
+        onRefresh={handleRefresh}
+        refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
+      />
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {ADMIN_ROLES.map((r) => (
+            <StatsCard
+              key={r.value}
+              label={r.label}
+              value={admins.filter((a) => a.role === r.value).length}
+            />
+          ))}
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex items-center gap-3">
+          <Select value={roleFilter} onValueChange={(v) => setRoleFilter(v as TeamFilters['role'])}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Role" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Roles</SelectItem>
+              {ADMIN_ROLES.map((r) => (
+                <SelectItem key={r.value} value={r.value}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            {filteredAdmins.length} admin(s) · changes apply on their next sign-in
+          </span>
+          <Button onClick={openAddDialog} className="ml-auto">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Admin
+          </Button>
+        </div>
+
+        {/* Table */}
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : (
+          <DataTable
+            columns={columns}
+            data={filteredAdmins}
+            sorting={sorting}
+            onSortingChange={setSorting}
+            columnVisibility={columnVisibility}
+            onColumnVisibilityChange={setColumnVisibility}
+          />
+        )}
+
+        {/* Role reference */}
+        <div className="bg-card border border-border rounded-xl divide-y divide-border">
+          {ADMIN_ROLES.map((r) => (
+            <div key={r.value} className="flex items-center gap-3 px-4 py-3">
+              <span className={cn('text-xs px-2 py-0.5 rounded-md font-medium w-28 text-center', r.color)}>
+                {r.label}
+              </span>
+              <span className="text-xs text-muted-foreground">{r.description}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialogMode === 'add' ? 'Add Admin' : 'Change Role'}
+            </DialogTitle>
+            <DialogDescription>
+              {dialogMode === 'add'
+                ? 'They sign in with their existing SlopeStory account password.'
+                : `Update the role for ${editTarget?.email}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                value={form.email}
+                onChange={(e) => setForm((f) => ({ ...f, email: e.target.value }))}
+                placeholder="teammate@slopestory.com"
+                type="email"
+                disabled={dialogMode === 'edit'}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(v) => setForm((f) => ({ ...f, role: v as AdminRole }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ADMIN_ROLES.map((r) => (
+                    <SelectItem key={r.value} value={r.value}>
+                      {r.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {ADMIN_ROLES.find((r) => r.value === form.role)?.description}
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {dialogMode === 'add' ? 'Add Admin' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove Confirmation */}
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Remove Admin"
+        description={`Revoke dashboard access for "${deleteTarget?.email}"? Their app account is not affected.`}
+        confirmLabel="Remove"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </div>
+  )
+}
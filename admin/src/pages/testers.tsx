@@ -4,11 +4,13 @@ import { COHORTS } from '@/lib/constants'
 import { formatDate, cn } from '@/lib/utils'
 import { toast } from 'sonner'
 import { useAuditLog } from '@/hooks/use-audit-log'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
 import { Header } from '@/components/layout/header'
 import { StatsCard } from '@/components/shared/stats-card'
 import { ExportButton } from '@/components/shared/export-button'
 import { ConfirmDialog } from '@/components/shared/confirm-dialog'
 import { DataTable } from '@/components/shared/data-table'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -29,7 +31,7 @@ import {
   SelectContent,
   SelectItem,
 } from '@/components/ui/select'
-import { type ColumnDef } from '@tanstack/react-table'
+import { type ColumnDef, type SortingState, type VisibilityState } from '@tanstack/react-table'
 import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
 
 interface Tester {
@@ -66,6 +68,14 @@ const SOURCE_OPTIONS = [
   { value: 'other', label: 'Other' },
 ] as const
 
+type TesterFilters = { cohort: string }
+
+const TESTERS_VIEW_DEFAULTS: ViewState<TesterFilters> = {
+  filters: { cohort: 'all' },
+  sorting: [],
+  columnVisibility: {},
+}
+
 export function TestersPage() {
   const { log } = useAuditLog()
 
@@ -75,6 +85,25 @@ export function TestersPage() {
 
   // Cohort filter
   const [cohortFilter, setCohortFilter] = useState<string>('all')
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+
+  // Saved views
+  const viewState = useMemo<ViewState<TesterFilters>>(
+    () => ({ filters: { cohort: cohortFilter }, sorting, columnVisibility }),
+    [cohortFilter, sorting, columnVisibility]
+  )
+  const applyView = useCallback(({ filters: f, sorting: s, columnVisibility: c }: ViewState<TesterFilters>) => {
+    setCohortFilter(f.cohort)
+    setSorting(s)
+    setColumnVisibility(c)
+  }, [])
+  const views = useSavedViews({
+    page: 'testers',
+    state: viewState,
+    defaults: TESTERS_VIEW_DEFAULTS,
+    apply: applyView,
+  })
 
   // Add/Edit dialog
   const [dialogOpen, setDialogOpen] = useState(false)
@@ -317,6 +346,7 @@ export function TestersPage() {
         subtitle="Manage beta tester email list"
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -380,6 +410,10 @@ export function TestersPage() {
             data={filteredTesters}
             searchColumn="email"
             searchPlaceholder="Search by email..."
+            sorting={sorting}
+            onSortingChange={setSorting}
+            columnVisibility={columnVisibility}
+            onColumnVisibilityChange={setColumnVisibility}
           />
         )}
       </div>
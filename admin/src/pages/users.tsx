@@ -1,13 +1,16 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
-import { PAGE_SIZE } from '@/lib/constants'
 import { formatDate, cn } from '@/lib/utils'
 import { toast } from 'sonner'
-import { useAuditLog } from '@/hooks/use-audit-log'
+import { useAuditLog, snapshotChanges } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useServerTable } from '@/hooks/use-server-table'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
 import { Header } from '@/components/layout/header'
 import { ExportButton } from '@/components/shared/export-button'
 import { ConfirmDialog } from '@/components/shared/confirm-dialog'
 import { DataTable } from '@/components/shared/data-table'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -21,7 +24,7 @@ import {
   SelectContent,
   SelectItem,
 } from '@/components/ui/select'
-import { type ColumnDef } from '@tanstack/react-table'
+import { type ColumnDef, type VisibilityState } from '@tanstack/react-table'
 import {
   Search,
   Loader2,
@@ -121,15 +124,74 @@ const columns: ColumnDef<Profile, unknown>[] = [
   },
 ]
 
-export function UsersPage() {
+const USERS_SORT = { column: 'created_at', desc: true }
+const USER_SEARCH_COLUMNS = ['first_name', 'last_name', 'email', 'username']
+// "Name" is a computed column; sort it by first name
+const USER_SORT_COLUMNS = { name: 'first_name' }
+
+type UserFilters = { search: string }
+
+const USERS_VIEW_DEFAULTS: ViewState<UserFilters> = {
+  filters: { search: '' },
+  sorting: [],
+  columnVisibility: {},
+}
+
+interface UsersPageProps {
+  userId: string | null
+  onUserChange: (userId: string | null) => void
+}
+
+export function UsersPage({ userId, onUserChange }: UsersPageProps) {
   const { log } = useAuditLog()
+  const { can } = usePermissions()
 
-  const [users, setUsers] = useState<Profile[]>([])
-  const [totalCount, setTotalCount] = useState(0)
-  const [page, setPage] = useState(0)
-  const [loading, setLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
+  // Search runs on submit; the input alone doesn't hit the server
+  const [searchInput, setSearchInput] = useState('')
   const [search, setSearch] = useState('')
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+
+  const {
+    rows: users,
+    loading,
+    refreshing,
+    sorting,
+    setSorting,
+    totalCount,
+    query,
+    reload: loadUsers,
+    tableProps,
+  } = useServerTable<Profile>({
+    table: 'profiles',
+    defaultSort: USERS_SORT,
+    search,
+    searchColumns: USER_SEARCH_COLUMNS,
+    sortColumns: USER_SORT_COLUMNS,
+    errorMessage: 'Failed to load users',
+  })
+
+  const exportSource = useMemo(() => ({ query, totalCount }), [query, totalCount])
+
+  // Saved views
+  const viewState = useMemo<ViewState<UserFilters>>(
+    () => ({ filters: { search }, sorting, columnVisibility }),
+    [search, sorting, columnVisibility]
+  )
+  const applyView = useCallback(
+    ({ filters: f, sorting: s, columnVisibility: c }: ViewState<UserFilters>) => {
+      setSearch(f.search)
+      setSearchInput(f.search)
+      setSorting(s)
+      setColumnVisibility(c)
+    },
+    [setSorting]
+  )
+  const views = useSavedViews({
+    page: 'users',
+    state: viewState,
+    defaults: USERS_VIEW_DEFAULTS,
+    apply: applyView,
+  })
 
   // Selected user
   const [selectedUser, setSelectedUser] = useState<Profile | null>(null)
@@ -146,59 +208,13 @@ export function UsersPage() {
   const [wishlist, setWishlist] = useState<WishlistItem[]>([])
   const [activityLoading, setActivityLoading] = useState(false)
 
-  const loadUsers = useCallback(async () => {
-    try {
-      const from = page * PAGE_SIZE
-      const to = from + PAGE_SIZE - 1
-
-      let query = supabase
-        .from('profiles')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .range(from, to)
-
-      if (search.trim()) {
-        query = query.or(
-          `first_name.ilike.%${search.trim()}%,last_name.ilike.%${search.trim()}%,email.ilike.%${search.trim()}%,username.ilike.%${search.trim()}%`
-        )
-      }
-
-      let countQuery = supabase
-        .from('profiles')
-        .select('*', { count: 'exact', head: true })
-
-      if (search.trim()) {
-        countQuery = countQuery.or(
-          `first_name.ilike.%${search.trim()}%,last_name.ilike.%${search.trim()}%,email.ilike.%${search.trim()}%,username.ilike.%${search.trim()}%`
-        )
-      }
-
-      const [dataRes, countRes] = await Promise.all([query, countQuery])
-
-      setUsers((dataRes.data as Profile[]) ?? [])
-      setTotalCount(countRes.count ?? 0)
-    } catch {
-      toast.error('Failed to load users')
-    } finally {
-      setLoading(false)
-      setRefreshing(false)
-    }
-  }, [page, search])
-
-  useEffect(() => {
-    loadUsers()
-  }, [loadUsers])
-
   const handleRefresh = useCallback(() => {
-    setRefreshing(true)
-    loadUsers()
+    loadUsers(true)
   }, [loadUsers])
 
   const handleSearchSubmit = useCallback(() => {
-    setPage(0)
-    setLoading(true)
-    loadUsers()
-  }, [loadUsers])
+    setSearch(searchInput)
+  }, [searchInput])
 
   const selectUser = useCallback(async (user: Profile) => {
     setSelectedUser(user)
@@ -244,6 +260,40 @@ export function UsersPage() {
     }
   }, [])
 
+  // Open the user named in the URL. They may sit on another page of results,
+  // so fall back to fetching the profile directly.
+  useEffect(() => {
+    if (!userId) {
+      setSelectedUser(null)
+      return
+    }
+    if (loading || selectedUser?.id === userId) return
+    const match = users.find((u) => u.id === userId)
+    if (match) {
+      selectUser(match)
+      return
+    }
+
+    let cancelled = false
+    supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (cancelled) return
+        if (data) {
+          selectUser(data as Profile)
+        } else {
+          toast.error('User not found')
+          onUserChange(null)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, users, loading, selectedUser?.id, selectUser, onUserChange])
+
   const updateField = useCallback(
     (field: keyof Profile, value: string | number | boolean | null) => {
       setEditForm((prev) => ({ ...prev, [field]: value }))
@@ -279,6 +329,7 @@ export function UsersPage() {
       details: {
         name: `${editForm.first_name ?? ''} ${editForm.last_name ?? ''}`.trim(),
       },
+      ...snapshotChanges(selectedUser, payload),
     })
 
     toast.success('Profile saved')
@@ -313,9 +364,9 @@ export function UsersPage() {
     toast.success('User deleted')
     setDeleting(false)
     setDeleteConfirmOpen(false)
-    setSelectedUser(null)
+    onUserChange(null)
     loadUsers()
-  }, [selectedUser, log, loadUsers])
+  }, [selectedUser, log, loadUsers, onUserChange])
 
   return (
     <div className="flex flex-col h-full">
@@ -324,6 +375,7 @@ export function UsersPage() {
         subtitle="Manage user profiles and activity"
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -333,8 +385,8 @@ export function UsersPage() {
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
               placeholder="Search users..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSearchSubmit()}
               className="pl-9"
             />
@@ -345,6 +397,7 @@ export function UsersPage() {
           <ExportButton
             data={users as unknown as Record<string, unknown>[]}
             filename="users"
+            source={exportSource}
           />
         </div>
 
@@ -360,17 +413,10 @@ export function UsersPage() {
             ) : (
               <DataTable
                 columns={columns}
-                data={users}
-                onRowClick={selectUser}
-                pageSize={PAGE_SIZE}
-                serverPagination={{
-                  totalCount,
-                  page,
-                  onPageChange: (p) => {
-                    setPage(p)
-                    setLoading(true)
-                  },
-                }}
+                {...tableProps}
+                columnVisibility={columnVisibility}
+                onColumnVisibilityChange={setColumnVisibility}
+                onRowClick={(user) => onUserChange(user.id)}
               />
             )}
           </div>
@@ -381,7 +427,7 @@ export function UsersPage() {
               <h2 className="text-sm font-semibold">User Details</h2>
               {selectedUser && (
                 <button
-                  onClick={() => setSelectedUser(null)}
+                  onClick={() => onUserChange(null)}
                   className="text-muted-foreground hover:text-foreground transition-colors"
                 >
                   <X className="w-4 h-4" />
@@ -511,7 +557,7 @@ export function UsersPage() {
                   <div className="flex gap-2 pt-2">
                     <Button
                       onClick={handleSave}
-                      disabled={saving}
+                      disabled={saving || !can('users.edit')}
                       className="flex-1"
                     >
                       {saving ? (
@@ -521,13 +567,15 @@ export function UsersPage() {
                       )}
                       Save
                     </Button>
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      onClick={() => setDeleteConfirmOpen(true)}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {can('users.delete') && (
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => setDeleteConfirmOpen(true)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
 
                   {/* Read-only metadata */}
@@ -1,10 +1,16 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
 import { toast } from 'sonner'
-import { useAuditLog } from '@/hooks/use-audit-log'
+import { useAuditLog, snapshotChanges } from '@/hooks/use-audit-log'
+import { usePermissions } from '@/hooks/use-permissions'
 import { Header } from '@/components/layout/header'
-import { PAGE_SIZE } from '@/lib/constants'
+import { useServerTable } from '@/hooks/use-server-table'
+import { useSavedViews, type ViewState } from '@/hooks/use-saved-views'
+import type { ServerSearch } from '@/lib/server-query'
+import { updateIfUnchanged, conflictingFields } from '@/lib/optimistic-update'
+import { useRecordPresence } from '@/hooks/use-realtime'
 import { formatDate } from '@/lib/utils'
+import { avgRating, ratingBadgeColor } from '@/lib/resort-ratings'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -18,11 +24,14 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { ConfirmDialog } from '@/components/shared/confirm-dialog'
+import { ConflictDialog } from '@/components/shared/conflict-dialog'
+import { PresenceIndicator } from '@/components/shared/presence-indicator'
 import { DataTable } from '@/components/shared/data-table'
+import { SavedViewsMenu } from '@/components/shared/saved-views-menu'
 import { ExportButton } from '@/components/shared/export-button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Loader2, Search, Star } from 'lucide-react'
-import { type ColumnDef } from '@tanstack/react-table'
+import { type ColumnDef, type VisibilityState } from '@tanstack/react-table'
 
 // ---------------------------------------------------------------------------
 // Types (matches actual user_visits schema)
@@ -42,6 +51,7 @@ interface VisitRow {
   rating_facilities: number | null
   rating_service: number | null
   created_at: string
+  updated_at: string | null
   pending_resort_name: string | null
   resort_name: string
   resort_country: string
@@ -63,6 +73,7 @@ interface RawVisit {
   rating_facilities: number | null
   rating_service: number | null
   created_at: string
+  updated_at: string | null
   pending_resort_name: string | null
   resorts: { name: string; country: string } | null
 }
@@ -74,23 +85,26 @@ interface ProfileRow {
   last_name: string | null
 }
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
+const VISIT_COLUMNS =
+  'id, resort_id, user_id, entry_type, title, start_date, end_date, date_precision, notes, rating_terrain, rating_facilities, rating_service, created_at, updated_at, pending_resort_name, resorts(name, country)'
 
-function avgRating(t: number | null, f: number | null, s: number | null): number | null {
-  const vals = [t, f, s].filter((v): v is number => v !== null)
-  if (vals.length === 0) return null
-  return Math.round((vals.reduce((a, b) => a + b, 0) / vals.length) * 10) / 10
-}
+const VISITS_SORT = { column: 'created_at', desc: true }
+const VISIT_SEARCH_COLUMNS = ['pending_resort_name', 'title']
+// Cap on resorts/users a search term may resolve to before it gets too broad to be useful
+const SEARCH_MATCH_LIMIT = 200
+
+type VisitFilters = { search: string }
 
-function ratingBadgeColor(rating: number | null): string {
-  if (rating === null) return 'text-slate-400 bg-slate-400/10'
-  if (rating >= 4) return 'text-green-400 bg-green-400/10'
-  if (rating >= 3) return 'text-yellow-400 bg-yellow-400/10'
-  return 'text-red-400 bg-red-400/10'
+const VISITS_VIEW_DEFAULTS: ViewState<VisitFilters> = {
+  filters: { search: '' },
+  sorting: [],
+  columnVisibility: {},
 }
 
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
 function entryTypeBadge(type: string | null): string {
   switch (type) {
     case 'day_trip':
@@ -119,6 +133,7 @@ function flattenVisit(raw: RawVisit, profilesMap: Map<string, ProfileRow>): Visi
     rating_facilities: raw.rating_facilities,
     rating_service: raw.rating_service,
     created_at: raw.created_at,
+    updated_at: raw.updated_at,
     pending_resort_name: raw.pending_resort_name,
     resort_name: raw.resorts?.name ?? raw.pending_resort_name ?? 'Unknown Resort',
     resort_country: raw.resorts?.country ?? '',
@@ -127,20 +142,48 @@ function flattenVisit(raw: RawVisit, profilesMap: Map<string, ProfileRow>): Visi
   }
 }
 
+// Attach owner profiles to a page of visits
+async function shapeVisits(rows: Record<string, unknown>[]): Promise<VisitRow[]> {
+  const rawVisits = rows as unknown as RawVisit[]
+  const userIds = [...new Set(rawVisits.map((v) => v.user_id))]
+  const profilesMap = new Map<string, ProfileRow>()
+
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, email, first_name, last_name')
+      .in('id', userIds)
+
+    for (const p of (profiles ?? []) as ProfileRow[]) {
+      profilesMap.set(p.id, p)
+    }
+  }
+
+  return rawVisits.map((v) => flattenVisit(v, profilesMap))
+}
+
+async function shapeVisitsForExport(rows: Record<string, unknown>[]) {
+  return (await shapeVisits(rows)) as unknown as Record<string, unknown>[]
+}
+
 // ---------------------------------------------------------------------------
 // Main Page
 // ---------------------------------------------------------------------------
 
-export function VisitsPage() {
+interface VisitsPageProps {
+  visitId: string | null
+  onVisitChange: (visitId: string | null) => void
+}
+
+export function VisitsPage({ visitId, onVisitChange }: VisitsPageProps) {
   const { log } = useAuditLog()
+  const { can } = usePermissions()
 
-  // Data
-  const [visits, setVisits] = useState<VisitRow[]>([])
-  const [totalCount, setTotalCount] = useState(0)
-  const [page, setPage] = useState(0)
-  const [loading, setLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
+  // Search runs on submit; `searchMatches` holds the resort/user ids it resolved to
+  const [searchInput, setSearchInput] = useState('')
   const [search, setSearch] = useState('')
+  const [searchMatches, setSearchMatches] = useState<ServerSearch['matches']>([])
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
 
   // Edit dialog
   const [editVisit, setEditVisit] = useState<VisitRow | null>(null)
@@ -153,6 +196,12 @@ export function VisitsPage() {
     notes: '',
   })
   const [saving, setSaving] = useState(false)
+  const [conflict, setConflict] = useState<{
+    mine: Record<string, unknown>
+    theirs: VisitRow
+    fields: string[]
+  } | null>(null)
+  const viewers = useRecordPresence(editVisit ? `user_visit:${editVisit.id}` : null)
 
   // Delete confirm
   const [deleteTarget, setDeleteTarget] = useState<VisitRow | null>(null)
@@ -161,77 +210,86 @@ export function VisitsPage() {
   // Fetch
   // -----------------------------------------------------------------------
 
-  const fetchVisits = useCallback(
-    async (showRefresh = false) => {
-      if (showRefresh) setRefreshing(true)
-      else setLoading(true)
-
-      try {
-        const from = page * PAGE_SIZE
-        const to = from + PAGE_SIZE - 1
-
-        const [countRes, dataRes] = await Promise.all([
-          supabase
-            .from('user_visits')
-            .select('*', { count: 'exact', head: true }),
-          supabase
-            .from('user_visits')
-            .select('id, resort_id, user_id, entry_type, title, start_date, end_date, date_precision, notes, rating_terrain, rating_facilities, rating_service, created_at, pending_resort_name, resorts(name, country)')
-            .order('created_at', { ascending: false })
-            .range(from, to),
-        ])
-
-        if (countRes.error) throw countRes.error
-        if (dataRes.error) throw dataRes.error
-        setTotalCount(countRes.count ?? 0)
-
-        const rawVisits = (dataRes.data ?? []) as unknown as RawVisit[]
-
-        // Fetch profiles for the user_ids on this page
-        const userIds = [...new Set(rawVisits.map((v) => v.user_id))]
-        const profilesMap = new Map<string, ProfileRow>()
-
-        if (userIds.length > 0) {
-          const { data: profiles } = await supabase
-            .from('profiles')
-            .select('id, email, first_name, last_name')
-            .in('id', userIds)
-
-          for (const p of (profiles ?? []) as ProfileRow[]) {
-            profilesMap.set(p.id, p)
-          }
-        }
+  const {
+    rows: visits,
+    totalCount,
+    loading,
+    refreshing,
+    sorting,
+    setSorting,
+    query,
+    reload: fetchVisits,
+    tableProps,
+  } = useServerTable<VisitRow>({
+    table: 'user_visits',
+    select: VISIT_COLUMNS,
+    defaultSort: VISITS_SORT,
+    search,
+    searchColumns: VISIT_SEARCH_COLUMNS,
+    searchMatches,
+    transform: shapeVisits,
+    errorMessage: 'Failed to load visits',
+  })
 
-        setVisits(rawVisits.map((v) => flattenVisit(v, profilesMap)))
-      } catch (err) {
-        console.error(err)
-        toast.error('Failed to load visits')
-      } finally {
-        setLoading(false)
-        setRefreshing(false)
-      }
-    },
-    [page]
+  const exportSource = useMemo(
+    () => ({ query, totalCount, transform: shapeVisitsForExport }),
+    [query, totalCount]
   )
 
-  useEffect(() => {
-    fetchVisits()
-  }, [fetchVisits])
+  // Resort and user names live in other tables, so resolve the term to ids
+  // first and let the visits query match on those
+  const runSearch = useCallback(async (input: string) => {
+    const term = input.trim().replace(/[,()*%]/g, ' ').trim()
+    if (!term) {
+      setSearchMatches([])
+      setSearch('')
+      return
+    }
 
-  // -----------------------------------------------------------------------
-  // Filtered data for client-side search
-  // -----------------------------------------------------------------------
+    const [resortsRes, profilesRes] = await Promise.all([
+      supabase.from('resorts').select('id').ilike('name', `%${term}%`).limit(SEARCH_MATCH_LIMIT),
+      supabase
+        .from('profiles')
+        .select('id')
+        .or(`email.ilike.*${term}*,first_name.ilike.*${term}*,last_name.ilike.*${term}*`)
+        .limit(SEARCH_MATCH_LIMIT),
+    ])
+    if (resortsRes.error || profilesRes.error) {
+      toast.error('Search failed')
+      return
+    }
 
-  const filteredVisits = useMemo(() => {
-    if (!search.trim()) return visits
-    const q = search.toLowerCase()
-    return visits.filter(
-      (v) =>
-        v.resort_name.toLowerCase().includes(q) ||
-        v.user_email.toLowerCase().includes(q) ||
-        v.user_name.toLowerCase().includes(q)
-    )
-  }, [visits, search])
+    setSearchMatches([
+      { column: 'resort_id', values: (resortsRes.data ?? []).map((r) => r.id as string) },
+      { column: 'user_id', values: (profilesRes.data ?? []).map((p) => p.id as string) },
+    ])
+    setSearch(term)
+  }, [])
+
+  const handleSearchSubmit = useCallback(() => {
+    runSearch(searchInput)
+  }, [runSearch, searchInput])
+
+  // Saved views
+  const viewState = useMemo<ViewState<VisitFilters>>(
+    () => ({ filters: { search }, sorting, columnVisibility }),
+    [search, sorting, columnVisibility]
+  )
+  const applyView = useCallback(
+    ({ filters: f, sorting: s, columnVisibility: c }: ViewState<VisitFilters>) => {
+      setSearchInput(f.search)
+      runSearch(f.search)
+      setSorting(s)
+      setColumnVisibility(c)
+    },
+    [runSearch, setSorting]
+  )
+  const views = useSavedViews({
+    page: 'visits',
+    state: viewState,
+    defaults: VISITS_VIEW_DEFAULTS,
+    apply: applyView,
+  })
 
   // -----------------------------------------------------------------------
   // Columns
@@ -242,6 +300,7 @@ export function VisitsPage() {
       {
         accessorKey: 'resort_name',
         header: 'Resort',
+        enableSorting: false,
         cell: ({ row }) => (
           <div>
             <div className="font-medium text-sm">{row.original.resort_name}</div>
@@ -254,6 +313,7 @@ export function VisitsPage() {
       {
         accessorKey: 'user_email',
         header: 'User',
+        enableSorting: false,
         cell: ({ row }) => (
           <div>
             {row.original.user_name && (
@@ -283,6 +343,7 @@ export function VisitsPage() {
       {
         id: 'avg_rating',
         header: 'Rating',
+        enableSorting: false,
         cell: ({ row }) => {
           const avg = avgRating(
             row.original.rating_terrain,
@@ -321,7 +382,7 @@ export function VisitsPage() {
   // Edit dialog
   // -----------------------------------------------------------------------
 
-  const openEdit = (visit: VisitRow) => {
+  const openEdit = useCallback((visit: VisitRow) => {
     setEditVisit(visit)
     setEditForm({
       start_date: visit.start_date ?? '',
@@ -331,32 +392,83 @@ export function VisitsPage() {
       rating_service: visit.rating_service !== null ? String(visit.rating_service) : '',
       notes: visit.notes ?? '',
     })
-  }
+  }, [])
 
-  const handleSave = async () => {
-    if (!editVisit) return
-    setSaving(true)
+  // Open the visit named in the URL. It may sit on another page of results,
+  // so fall back to fetching it (and its owner's profile) directly.
+  useEffect(() => {
+    if (!visitId) {
+      setEditVisit(null)
+      return
+    }
+    if (loading || editVisit?.id === visitId) return
+    const match = visits.find((v) => v.id === visitId)
+    if (match) {
+      openEdit(match)
+      return
+    }
 
+    let cancelled = false
+    ;(async () => {
+      const { data } = await supabase
+        .from('user_visits')
+        .select(VISIT_COLUMNS)
+        .eq('id', visitId)
+        .maybeSingle()
+      const raw = data as unknown as RawVisit | null
+
+      const profilesMap = new Map<string, ProfileRow>()
+      if (raw) {
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('id, email, first_name, last_name')
+          .eq('id', raw.user_id)
+          .maybeSingle()
+        if (profile) profilesMap.set(raw.user_id, profile as ProfileRow)
+      }
+
+      if (cancelled) return
+      if (raw) {
+        openEdit(flattenVisit(raw, profilesMap))
+      } else {
+        toast.error('Visit not found')
+        onVisitChange(null)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [visitId, visits, loading, editVisit?.id, openEdit, onVisitChange])
+
+  // `base` is the version the updates were made against: the visit as opened,
+  // or the other admin's version after a conflict merge
+  const saveVisit = async (updates: Record<string, unknown>, base: VisitRow) => {
+    setSaving(true)
     try {
-      const updates: Record<string, unknown> = {}
-      if (editForm.start_date) updates.start_date = editForm.start_date
-      if (editForm.end_date) updates.end_date = editForm.end_date
-      updates.rating_terrain = editForm.rating_terrain !== '' ? parseFloat(editForm.rating_terrain) : null
-      updates.rating_facilities = editForm.rating_facilities !== '' ? parseFloat(editForm.rating_facilities) : null
-      updates.rating_service = editForm.rating_service !== '' ? parseFloat(editForm.rating_service) : null
-      updates.notes = editForm.notes || null
-
-      const { error } = await supabase.from('user_visits').update(updates).eq('id', editVisit.id)
-      if (error) throw error
+      const result = await updateIfUnchanged('user_visits', base.id, updates, base.updated_at)
+      if (result.status === 'missing') {
+        toast.error('This visit was deleted by another admin')
+        onVisitChange(null)
+        fetchVisits()
+        return
+      }
+      if (result.status === 'conflict') {
+        const fields = conflictingFields(updates, result.current)
+        if (fields.length > 0) {
+          setConflict({ mine: updates, theirs: { ...base, ...result.current } as VisitRow, fields })
+          return
+        }
+      }
 
       toast.success('Visit updated')
       await log({
         action: 'edit_visit',
         entity_type: 'user_visit',
-        entity_id: editVisit.id,
+        entity_id: base.id,
         details: updates,
+        ...snapshotChanges(base, updates),
       })
-      setEditVisit(null)
+      onVisitChange(null)
       fetchVisits()
     } catch (err) {
       console.error(err)
@@ -366,6 +478,27 @@ export function VisitsPage() {
     }
   }
 
+  const handleSave = () => {
+    if (!editVisit) return
+
+    const updates: Record<string, unknown> = {}
+    if (editForm.start_date) updates.start_date = editForm.start_date
+    if (editForm.end_date) updates.end_date = editForm.end_date
+    updates.rating_terrain = editForm.rating_terrain !== '' ? parseFloat(editForm.rating_terrain) : null
+    updates.rating_facilities = editForm.rating_facilities !== '' ? parseFloat(editForm.rating_facilities) : null
+    updates.rating_service = editForm.rating_service !== '' ? parseFloat(editForm.rating_service) : null
+    updates.notes = editForm.notes || null
+
+    saveVisit(updates, editVisit)
+  }
+
+  const handleResolveConflict = (merged: Record<string, unknown>) => {
+    if (!conflict) return
+    const { theirs } = conflict
+    setConflict(null)
+    saveVisit(merged, theirs)
+  }
+
   // -----------------------------------------------------------------------
   // Delete
   // -----------------------------------------------------------------------
@@ -430,21 +563,28 @@ export function VisitsPage() {
         subtitle={`${totalCount} total visit records`}
         onRefresh={() => fetchVisits(true)}
         refreshing={refreshing}
+        actions={<SavedViewsMenu views={views} />}
       />
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
         {/* Toolbar */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 justify-between">
-          <div className="relative w-full sm:w-80">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              placeholder="Search by resort or user..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="pl-9"
-            />
+          <div className="flex items-center gap-3 w-full sm:w-auto">
+            <div className="relative w-full sm:w-80">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by resort or user..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSearchSubmit()}
+                className="pl-9"
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={handleSearchSubmit}>
+              Search
+            </Button>
           </div>
-          <ExportButton data={exportData as Record<string, unknown>[]} filename="visits" />
+          <ExportButton data={exportData as Record<string, unknown>[]} filename="visits" source={exportSource} />
         </div>
 
         {/* Loading */}
@@ -460,27 +600,23 @@ export function VisitsPage() {
         {!loading && (
           <DataTable
             columns={columns}
-            data={filteredVisits}
-            onRowClick={openEdit}
-            searchColumn="resort_name"
-            searchPlaceholder="Filter results..."
-            serverPagination={{
-              totalCount,
-              page,
-              onPageChange: setPage,
-            }}
+            {...tableProps}
+            columnVisibility={columnVisibility}
+            onColumnVisibilityChange={setColumnVisibility}
+            onRowClick={(visit) => onVisitChange(visit.id)}
           />
         )}
       </div>
 
       {/* Edit Dialog */}
-      <Dialog open={!!editVisit} onOpenChange={(open) => !open && setEditVisit(null)}>
+      <Dialog open={!!editVisit} onOpenChange={(open) => !open && onVisitChange(null)}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Edit Visit</DialogTitle>
             <DialogDescription>
               {editVisit?.resort_name} — {editVisit?.user_email}
             </DialogDescription>
+            <PresenceIndicator viewers={viewers} />
           </DialogHeader>
 
           <div className="space-y-4 py-2">
@@ -565,23 +701,25 @@ export function VisitsPage() {
           </div>
 
           <DialogFooter className="flex-col sm:flex-row gap-2">
-            <Button
-              variant="destructive"
-              size="sm"
-              className="sm:mr-auto"
-              onClick={() => {
-                if (editVisit) {
-                  setDeleteTarget(editVisit)
-                  setEditVisit(null)
-                }
-              }}
-            >
-              Delete Visit
-            </Button>
-            <Button variant="outline" onClick={() => setEditVisit(null)}>
+            {can('visits.delete') && (
+              <Button
+                variant="destructive"
+                size="sm"
+                className="sm:mr-auto"
+                onClick={() => {
+                  if (editVisit) {
+                    setDeleteTarget(editVisit)
+                    onVisitChange(null)
+                  }
+                }}
+              >
+                Delete Visit
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => onVisitChange(null)}>
               Cancel
             </Button>
-            <Button onClick={handleSave} disabled={saving}>
+            <Button onClick={handleSave} disabled={saving || !can('visits.edit')}>
               {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               Save Changes
             </Button>
@@ -589,6 +727,18 @@ export function VisitsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Concurrent edit merge */}
+      <ConflictDialog
+        open={!!conflict}
+        onOpenChange={(open) => !open && setConflict(null)}
+        fields={conflict?.fields ?? []}
+        base={(editVisit ?? {}) as unknown as Record<string, unknown>}
+        mine={conflict?.mine ?? {}}
+        theirs={(conflict?.theirs ?? {}) as unknown as Record<string, unknown>}
+        saving={saving}
+        onResolve={handleResolveConflict}
+      />
+
       {/* Delete Confirm */}
       <ConfirmDialog
         open={!!deleteTarget}
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'false' lets sign-in continue when admin-login-check can't be reached
+  readonly VITE_STRICT_LOGIN_CHECK?: string
+}